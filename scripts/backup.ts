@@ -0,0 +1,75 @@
+// Back up or restore logs and the department/tag catalog from the command line.
+//
+//   npm run backup -- export [file.json]
+//   npm run backup -- restore <file.json> [--mode merge|replace]
+//
+// Uses the Firestore project in src/firebaseConfig.ts. Add --store <snapshot.json> to work on a
+// JSON file backend instead. NEXT_PUBLIC_STORAGE_BACKEND and .env files are not read here.
+import { readFileSync, writeFileSync } from 'fs';
+import { setStorage } from '../src/storage';
+import { createFirestoreBackend } from '../src/storage/firestore';
+import { createJsonFileBackend } from '../src/storage/jsonFile';
+import {
+  backupFileName,
+  createBackup,
+  restoreBackup,
+  validateBackup,
+  RESTORE_PHASE_LABELS,
+  RestoreMode
+} from '../src/backup';
+
+const usage = (problem?: string): never => {
+  if (problem) console.error(problem);
+  console.error('usage: backup.ts export [file.json] | restore <file.json> [--mode merge|replace]  [--store snapshot.json]');
+  process.exit(1);
+};
+
+// Removes `name <value>` from args; a flag given without a value is an error
+const option = (args: string[], name: string): string | undefined => {
+  const index = args.indexOf(name);
+  if (index < 0) return undefined;
+  const value = args[index + 1];
+  if (value === undefined || value.startsWith('--')) return usage(`${name} needs a value`);
+  args.splice(index, 2);
+  return value;
+};
+
+const parseMode = (value: string | undefined): RestoreMode => {
+  if (value === undefined) return 'merge';
+  if (value === 'merge' || value === 'replace') return value;
+  return usage(`unknown --mode "${value}"`);
+};
+
+const main = async () => {
+  const args = process.argv.slice(2);
+  const store = option(args, '--store');
+  const mode = parseMode(option(args, '--mode'));
+  const [command, file] = args;
+  setStorage(store ? createJsonFileBackend(store) : createFirestoreBackend());
+
+  if (command === 'export') {
+    const archive = await createBackup();
+    const target = file || backupFileName(new Date(archive.createdAt));
+    writeFileSync(target, JSON.stringify(archive, null, 2));
+    console.log(`wrote ${archive.logs.length} logs, ${archive.ipad.length} departments, ${archive.devices.length} devices to ${target}`);
+  } else if (command === 'restore' && file) {
+    const { archive, errors } = validateBackup(JSON.parse(readFileSync(file, 'utf8')));
+    if (!archive) {
+      errors.forEach(e => console.error(e));
+      process.exit(1);
+    }
+    const result = await restoreBackup(archive, {
+      mode,
+      onProgress: p => console.log(`${RESTORE_PHASE_LABELS[p.phase]} ${p.done}/${p.total}`)
+    });
+    console.log(JSON.stringify(result));
+  } else {
+    usage();
+  }
+  process.exit(0);
+};
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,239 @@
+"use client";
+
+import { useState, useEffect, useMemo } from 'react';
+import { useRouter } from 'next/navigation';
+import { startOfDay, endOfDay } from 'date-fns';
+import BubbleBackground from '../../components/BubbleBackground';
+import {
+  getCatalogAudit,
+  getDepartmentsFromDB,
+  DEVICE_FIELD_LABELS,
+  AuditFilter,
+  CatalogAction,
+  CatalogAuditEvent
+} from '../../dbService';
+
+const ACTION_LABELS: Record<CatalogAction, string> = {
+  create_department: 'เพิ่มแผนก',
+  add_tag: 'เพิ่มแท็ก',
+  remove_tag: 'ลบแท็ก',
+  rename_department: 'เปลี่ยนชื่อแผนก',
+  delete_department: 'ลบแผนก',
+  transfer_tag: 'ย้ายแท็ก',
+  update_device: 'แก้ไขข้อมูลอุปกรณ์',
+  archive_department: 'เก็บแผนกถาวร',
+  block_delete_department: 'ระงับการลบแผนก',
+  delete_employee: 'ลบพนักงาน'
+};
+
+const ACTION_STYLES: Record<CatalogAction, string> = {
+  create_department: 'bg-green-100 text-green-800',
+  add_tag: 'bg-blue-100 text-blue-800',
+  remove_tag: 'bg-amber-100 text-amber-800',
+  rename_department: 'bg-indigo-100 text-indigo-800',
+  delete_department: 'bg-red-100 text-red-800',
+  transfer_tag: 'bg-purple-100 text-purple-800',
+  update_device: 'bg-teal-100 text-teal-800',
+  archive_department: 'bg-gray-200 text-gray-800',
+  block_delete_department: 'bg-orange-100 text-orange-800',
+  delete_employee: 'bg-rose-100 text-rose-800'
+};
+
+const PAGE_SIZE = 100;
+
+// สรุปสิ่งที่เปลี่ยนระหว่าง before และ after ให้อ่านง่าย
+const describeChange = (event: CatalogAuditEvent): string[] => {
+  const lines: string[] = [];
+  const beforeTags = event.before?.tags || [];
+  const afterTags = event.after?.tags || [];
+  const beforeName = event.before?.department;
+  const afterName = event.after?.department;
+  if (beforeName && afterName && beforeName !== afterName) {
+    lines.push(`ชื่อแผนก: ${beforeName} → ${afterName}`);
+  }
+  const added = afterTags.filter(t => !beforeTags.includes(t));
+  const removed = beforeTags.filter(t => !afterTags.includes(t));
+  if (added.length > 0) lines.push(`+ ${added.join(', ')}`);
+  if (removed.length > 0) lines.push(`− ${removed.join(', ')}`);
+  if (!event.before && event.after) lines.push(`สร้างใหม่ (${afterTags.length} แท็ก)`);
+  if (event.before && !event.after) lines.push(`ลบเอกสาร (${beforeTags.length} แท็ก)`);
+  if (event.deletion) {
+    const { reassignedTo, checkedOut, logCount } = event.deletion;
+    if (reassignedTo) lines.push(`ย้ายแท็กไปแผนก ${reassignedTo}`);
+    lines.push(`ยังไม่ส่งคืน ${checkedOut.length} เครื่อง${checkedOut.length > 0 ? ` (${checkedOut.join(', ')})` : ''}, ประวัติ ${logCount} รายการ`);
+  }
+  if (event.employee) lines.push(`${event.employee.employeeId} ${event.employee.name}`);
+  (event.details || []).forEach(d => {
+    lines.push(`${DEVICE_FIELD_LABELS[d.field] || d.field}: ${d.before || '-'} → ${d.after || '-'}`);
+  });
+  return lines;
+};
+
+export default function AuditPage() {
+  const router = useRouter();
+  const [events, setEvents] = useState<CatalogAuditEvent[]>([]);
+  const [departments, setDepartments] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [limit, setLimit] = useState(PAGE_SIZE);
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [actor, setActor] = useState('');
+  const [action, setAction] = useState<CatalogAction | ''>('');
+  const [department, setDepartment] = useState('');
+
+  useEffect(() => {
+    getDepartmentsFromDB().then(setDepartments);
+  }, []);
+
+  const filter = useMemo<AuditFilter>(() => ({
+    from: startDate ? startOfDay(new Date(startDate)).toISOString() : undefined,
+    to: endDate ? endOfDay(new Date(endDate)).toISOString() : undefined,
+    actor: actor.trim() || undefined,
+    action: action || undefined,
+    department: department.trim() || undefined
+  }), [startDate, endDate, actor, action, department]);
+
+  // เริ่มนับจำนวนที่แสดงใหม่เมื่อเปลี่ยนตัวกรอง
+  useEffect(() => {
+    setLimit(PAGE_SIZE);
+  }, [filter]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    getCatalogAudit(filter, limit).then(result => {
+      if (cancelled) return;
+      setEvents(result);
+      setLoading(false);
+    });
+    return () => { cancelled = true; };
+  }, [filter, limit]);
+
+  const resetFilters = () => {
+    setStartDate('');
+    setEndDate('');
+    setActor('');
+    setAction('');
+    setDepartment('');
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-sky-50 relative">
+      <BubbleBackground />
+      <div className="relative z-10 max-w-7xl mx-auto p-4 md:p-6">
+        <div className="bg-white rounded-2xl shadow-xl p-6 md:p-8 mb-6 flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold bg-gradient-to-r from-blue-500 to-blue-800 text-transparent bg-clip-text mb-1">ประวัติการแก้ไขแผนก/แท็ก</h1>
+            <p className="text-gray-500">ทุกการเพิ่ม ลบ หรือเปลี่ยนชื่อแผนกและแท็ก พร้อมผู้ทำรายการและเวลา</p>
+          </div>
+          <button
+            onClick={() => router.push('/')}
+            className="px-6 py-3 bg-white text-gray-700 border-2 border-gray-200 rounded-lg font-semibold hover:bg-gray-50 hover:border-gray-300 transition-all shadow-sm"
+          >
+            ย้อนกลับไปหน้าหลัก
+          </button>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-lg p-6 mb-6 border border-blue-100">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">ตั้งแต่วันที่</label>
+              <input type="date" value={startDate} onChange={e => setStartDate(e.target.value)} className="w-full px-3 py-2 border border-gray-300 rounded-lg" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">ถึงวันที่</label>
+              <input type="date" value={endDate} onChange={e => setEndDate(e.target.value)} className="w-full px-3 py-2 border border-gray-300 rounded-lg" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">ผู้ทำรายการ</label>
+              <input value={actor} onChange={e => setActor(e.target.value)} placeholder="ชื่อ (ตรงทั้งหมด)" className="w-full px-3 py-2 border border-gray-300 rounded-lg" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">การกระทำ</label>
+              <select value={action} onChange={e => setAction(e.target.value as CatalogAction | '')} className="w-full px-3 py-2 border border-gray-300 rounded-lg">
+                <option value="">ทั้งหมด</option>
+                {(Object.keys(ACTION_LABELS) as CatalogAction[]).map(key => (
+                  <option key={key} value={key}>{ACTION_LABELS[key]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">แผนก</label>
+              <input
+                list="audit-departments"
+                value={department}
+                onChange={e => setDepartment(e.target.value)}
+                placeholder="ทั้งหมด"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+              />
+              <datalist id="audit-departments">
+                {departments.map(d => <option key={d} value={d} />)}
+              </datalist>
+            </div>
+          </div>
+          <div className="mt-4 flex justify-end">
+            <button onClick={resetFilters} className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 text-sm font-medium">
+              ล้างตัวกรอง
+            </button>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-lg mb-6 overflow-hidden border border-blue-100">
+          <div className="overflow-x-auto">
+            <table className="w-full border-collapse">
+              <thead className="bg-gradient-to-r from-blue-100 to-sky-100">
+                <tr>
+                  <th className="px-4 py-3 text-left font-semibold text-blue-800 border border-blue-200">เวลา</th>
+                  <th className="px-4 py-3 text-left font-semibold text-blue-800 border border-blue-200">ผู้ทำรายการ</th>
+                  <th className="px-4 py-3 text-left font-semibold text-blue-800 border border-blue-200">การกระทำ</th>
+                  <th className="px-4 py-3 text-left font-semibold text-blue-800 border border-blue-200">แผนก</th>
+                  <th className="px-4 py-3 text-left font-semibold text-blue-800 border border-blue-200">แท็ก</th>
+                  <th className="px-4 py-3 text-left font-semibold text-blue-800 border border-blue-200">การเปลี่ยนแปลง</th>
+                </tr>
+              </thead>
+              <tbody>
+                {loading && events.length === 0 ? (
+                  <tr>
+                    <td colSpan={6} className="px-4 py-8 text-center text-gray-500">กำลังโหลด...</td>
+                  </tr>
+                ) : events.length === 0 ? (
+                  <tr>
+                    <td colSpan={6} className="px-4 py-8 text-center text-gray-500">ไม่พบประวัติการแก้ไข</td>
+                  </tr>
+                ) : (
+                  events.map(event => (
+                    <tr key={event.id} className="border-b border-blue-50 hover:bg-blue-50 transition-colors align-top">
+                      <td className="px-4 py-3 text-gray-600 whitespace-nowrap">{new Date(event.timestamp).toLocaleString('th-TH')}</td>
+                      <td className="px-4 py-3 font-semibold text-blue-700">{event.actor}</td>
+                      <td className="px-4 py-3">
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${ACTION_STYLES[event.action] || 'bg-gray-100 text-gray-700'}`}>
+                          {ACTION_LABELS[event.action] || event.action}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 text-gray-700">{event.department}</td>
+                      <td className="px-4 py-3 text-gray-700 font-mono">{event.tag || '-'}</td>
+                      <td className="px-4 py-3 text-sm text-gray-700">
+                        {describeChange(event).map(line => <div key={line}>{line}</div>)}
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+          {events.length >= limit && (
+            <div className="p-4 flex justify-center border-t border-blue-100">
+              <button
+                onClick={() => setLimit(prev => prev + PAGE_SIZE)}
+                disabled={loading}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm font-medium disabled:opacity-50"
+              >
+                {loading ? 'กำลังโหลด...' : 'โหลดเพิ่ม'}
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+"use client";
+
+import { useState, ChangeEvent } from 'react';
+import { useRouter } from 'next/navigation';
+import Swal from 'sweetalert2';
+import { Download, Upload } from 'lucide-react';
+import { format } from 'date-fns';
+import BubbleBackground from '../../components/BubbleBackground';
+import { downloadFile } from '../../components/download';
+import {
+  backupFileName,
+  createBackup,
+  restoreBackup,
+  validateBackup,
+  BackupArchive,
+  RestoreMode,
+  RestoreProgress,
+  RestoreResult,
+  RESTORE_PHASE_LABELS
+} from '../../backup';
+
+export default function BackupPage() {
+  const router = useRouter();
+  const [fileName, setFileName] = useState('');
+  const [archive, setArchive] = useState<BackupArchive | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [progress, setProgress] = useState<RestoreProgress | null>(null);
+  const [result, setResult] = useState<RestoreResult | null>(null);
+  const [working, setWorking] = useState(false);
+
+  const handleDownload = async () => {
+    try {
+      setWorking(true);
+      const backup = await createBackup();
+      downloadFile(backupFileName(new Date(backup.createdAt)), JSON.stringify(backup, null, 2), 'application/json');
+    } catch (e) {
+      console.error('Error downloading backup:', e);
+      Swal.fire('เกิดข้อผิดพลาด', e instanceof Error ? e.message : 'ไม่สามารถสร้างไฟล์สำรองข้อมูลได้', 'error');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setFileName(file.name);
+    setResult(null);
+    setProgress(null);
+    try {
+      const checked = validateBackup(JSON.parse(await file.text()));
+      setArchive(checked.archive);
+      setErrors(checked.errors);
+    } catch (err) {
+      console.error('Error reading backup file:', err);
+      setArchive(null);
+      setErrors(['ไฟล์ไม่ใช่ JSON ที่ถูกต้อง']);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!archive) return;
+    const confirm = await Swal.fire({
+      title: mode === 'replace' ? 'ยืนยันการกู้คืนแบบแทนที่ทั้งหมด' : 'ยืนยันการกู้คืน',
+      text: mode === 'replace'
+        ? 'ข้อมูล log แผนก และอุปกรณ์ที่ไม่มีในไฟล์จะถูกลบถาวร ควรดาวน์โหลดไฟล์สำรองของข้อมูลปัจจุบันไว้ก่อน'
+        : 'รายการในไฟล์จะเขียนทับรายการที่มี id เดียวกัน ข้อมูลอื่นจะไม่ถูกแตะต้อง',
+      icon: mode === 'replace' ? 'warning' : 'question',
+      showCancelButton: true,
+      confirmButtonColor: mode === 'replace' ? '#dc2626' : undefined,
+      confirmButtonText: 'ใช่, กู้คืน',
+      cancelButtonText: 'ยกเลิก'
+    });
+    if (!confirm.isConfirmed) return;
+
+    try {
+      setWorking(true);
+      setResult(null);
+      const restored = await restoreBackup(archive, { mode, onProgress: setProgress });
+      setResult(restored);
+      Swal.fire('สำเร็จ', 'กู้คืนข้อมูลเรียบร้อยแล้ว', 'success');
+    } catch (e) {
+      console.error('Error restoring backup:', e);
+      Swal.fire('เกิดข้อผิดพลาด', e instanceof Error ? e.message : 'กู้คืนข้อมูลไม่สำเร็จ', 'error');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const percent = progress && progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : 0;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-sky-50 relative">
+      <BubbleBackground />
+      <div className="relative z-10 max-w-4xl mx-auto p-4 md:p-6">
+        <div className="bg-white rounded-2xl shadow-xl p-6 md:p-8 mb-6 flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold bg-gradient-to-r from-blue-500 to-blue-800 text-transparent bg-clip-text mb-1">สำรอง/กู้คืนข้อมูล</h1>
+            <p className="text-gray-500">ประวัติการสแกน แผนก แท็ก และรายละเอียดอุปกรณ์ทั้งหมดในไฟล์ JSON เดียว</p>
+          </div>
+          <button
+            onClick={() => router.push('/')}
+            className="px-6 py-3 bg-white text-gray-700 border-2 border-gray-200 rounded-lg font-semibold hover:bg-gray-50 hover:border-gray-300 transition-all shadow-sm"
+          >
+            ย้อนกลับไปหน้าหลัก
+          </button>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-lg p-6 mb-6 border border-blue-100">
+          <h2 className="text-lg font-semibold text-blue-800 mb-2">สำรองข้อมูล</h2>
+          <p className="text-sm text-gray-500 mb-4">ดาวน์โหลดข้อมูลปัจจุบันทั้งหมดเป็นไฟล์ JSON</p>
+          <button
+            onClick={handleDownload}
+            disabled={working}
+            className="px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition-colors text-sm font-medium flex items-center gap-2 disabled:opacity-50"
+          >
+            <Download className="w-4 h-4" />
+            ดาวน์โหลดไฟล์สำรอง
+          </button>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-lg p-6 mb-6 border border-blue-100">
+          <h2 className="text-lg font-semibold text-blue-800 mb-2">กู้คืนข้อมูล</h2>
+          <div className="flex flex-wrap items-center gap-3 mb-4">
+            <label className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm font-medium flex items-center gap-2 cursor-pointer">
+              <Upload className="w-4 h-4" />
+              เลือกไฟล์สำรอง
+              <input type="file" accept=".json,application/json" onChange={handleFile} disabled={working} className="hidden" />
+            </label>
+            <span className="text-sm text-gray-500">{fileName || 'ยังไม่ได้เลือกไฟล์'}</span>
+          </div>
+
+          {errors.length > 0 && (
+            <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+              <p className="font-semibold mb-1">ไฟล์ไม่ผ่านการตรวจสอบ</p>
+              <ul className="list-disc pl-5 space-y-1">
+                {errors.map((error, i) => <li key={i}>{error}</li>)}
+              </ul>
+            </div>
+          )}
+
+          {archive && (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+                <div className="p-3 rounded-lg bg-blue-50">
+                  <p className="text-xs text-gray-500">สร้างเมื่อ</p>
+                  <p className="text-sm font-semibold text-gray-800">{format(new Date(archive.createdAt), 'dd/MM/yyyy HH:mm')}</p>
+                </div>
+                <div className="p-3 rounded-lg bg-blue-50">
+                  <p className="text-xs text-gray-500">ประวัติ</p>
+                  <p className="text-xl font-bold text-gray-800">{archive.logs.length}</p>
+                </div>
+                <div className="p-3 rounded-lg bg-blue-50">
+                  <p className="text-xs text-gray-500">แผนก</p>
+                  <p className="text-xl font-bold text-gray-800">{archive.ipad.length}</p>
+                </div>
+                <div className="p-3 rounded-lg bg-blue-50">
+                  <p className="text-xs text-gray-500">อุปกรณ์</p>
+                  <p className="text-xl font-bold text-gray-800">{archive.devices.length}</p>
+                </div>
+              </div>
+
+              <div className="flex flex-col gap-2 mb-4 text-sm">
+                <label className="flex items-center gap-2">
+                  <input type="radio" name="mode" checked={mode === 'merge'} onChange={() => setMode('merge')} disabled={working} />
+                  <span><span className="font-semibold">รวม</span> - เขียนทับรายการที่มีในไฟล์ เก็บข้อมูลอื่นไว้</span>
+                </label>
+                <label className="flex items-center gap-2">
+                  <input type="radio" name="mode" checked={mode === 'replace'} onChange={() => setMode('replace')} disabled={working} />
+                  <span><span className="font-semibold text-red-700">แทนที่ทั้งหมด</span> - ลบข้อมูลที่ไม่มีในไฟล์ออกด้วย</span>
+                </label>
+              </div>
+
+              <button
+                onClick={handleRestore}
+                disabled={working}
+                className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 text-sm font-medium disabled:opacity-50"
+              >
+                {working ? 'กำลังกู้คืน...' : 'กู้คืนข้อมูล'}
+              </button>
+            </>
+          )}
+
+          {progress && (
+            <div className="mt-4">
+              <div className="flex justify-between text-sm text-gray-600 mb-1">
+                <span>{RESTORE_PHASE_LABELS[progress.phase]}</span>
+                <span>{progress.done}/{progress.total}</span>
+              </div>
+              <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+                <div className="h-full bg-blue-600 transition-all" style={{ width: `${percent}%` }} />
+              </div>
+            </div>
+          )}
+
+          {result && (
+            <div className="mt-4 p-4 bg-green-50 border border-green-200 rounded-lg text-sm text-green-800">
+              กู้คืนประวัติ {result.logs} รายการ แผนก {result.departments} แผนก อุปกรณ์ {result.devices} เครื่อง
+              {(result.removedLogs + result.removedDepartments + result.removedDevices) > 0 && (
+                <> และลบประวัติ {result.removedLogs} รายการ แผนก {result.removedDepartments} แผนก อุปกรณ์ {result.removedDevices} เครื่องที่ไม่มีในไฟล์</>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
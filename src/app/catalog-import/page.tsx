@@ -0,0 +1,241 @@
+"use client";
+
+import { useState, ChangeEvent } from 'react';
+import { useRouter } from 'next/navigation';
+import Swal from 'sweetalert2';
+import { Download, Upload } from 'lucide-react';
+import { format } from 'date-fns';
+import BubbleBackground from '../../components/BubbleBackground';
+import { promptActor } from '../../components/adminPrompts';
+import { downloadCsv } from '../../components/download';
+import { toCsv } from '../../csv';
+import {
+  previewCatalogImport,
+  applyCatalogImport,
+  CATALOG_IMPORT_OUTCOME_LABELS,
+  CatalogImportOutcome,
+  CatalogImportPreview
+} from '../../dbService';
+
+const OUTCOME_STYLES: Record<CatalogImportOutcome, string> = {
+  new: 'bg-green-100 text-green-800',
+  existing: 'bg-gray-100 text-gray-700',
+  conflict: 'bg-red-100 text-red-700',
+  invalid: 'bg-amber-100 text-amber-800'
+};
+
+const OUTCOMES = Object.keys(CATALOG_IMPORT_OUTCOME_LABELS) as CatalogImportOutcome[];
+
+export default function CatalogImportPage() {
+  const router = useRouter();
+  const [text, setText] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [preview, setPreview] = useState<CatalogImportPreview | null>(null);
+  // Set once the import has been written; the preview then holds the result report
+  const [imported, setImported] = useState(false);
+  const [outcomeFilter, setOutcomeFilter] = useState<CatalogImportOutcome | ''>('');
+  const [working, setWorking] = useState(false);
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setFileName(file.name);
+    setText(await file.text());
+    setPreview(null);
+    setImported(false);
+  };
+
+  const handlePreview = async () => {
+    if (!text.trim()) return;
+    try {
+      setWorking(true);
+      setPreview(await previewCatalogImport(text));
+      setImported(false);
+      setOutcomeFilter('');
+    } catch (e) {
+      console.error('Error previewing catalog import:', e);
+      Swal.fire('เกิดข้อผิดพลาด', 'ไม่สามารถตรวจสอบไฟล์ได้', 'error');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const counts = (current: CatalogImportPreview) =>
+    Object.fromEntries(OUTCOMES.map(o => [o, current.entries.filter(e => e.outcome === o).length])) as Record<CatalogImportOutcome, number>;
+
+  const handleImport = async () => {
+    if (!preview) return;
+    const newCount = counts(preview).new;
+    if (newCount === 0) {
+      Swal.fire('ไม่มีแท็กใหม่', 'ทุกแถวมีอยู่แล้ว ขัดแย้ง หรือข้อมูลไม่ถูกต้อง', 'info');
+      return;
+    }
+    const result = await Swal.fire({
+      title: 'ยืนยันการนำเข้า',
+      text: `เพิ่มแท็กใหม่ ${newCount} แท็ก และสร้างแผนกใหม่ ${preview.newDepartments.length} แผนก แถวที่ขัดแย้งหรือไม่ถูกต้องจะถูกข้าม`,
+      icon: 'question',
+      showCancelButton: true,
+      confirmButtonText: 'ใช่, นำเข้า',
+      cancelButtonText: 'ยกเลิก'
+    });
+    if (!result.isConfirmed) return;
+    const actor = await promptActor();
+    if (!actor) return;
+
+    try {
+      setWorking(true);
+      const report = await applyCatalogImport(text, actor);
+      setPreview(report);
+      setImported(true);
+      Swal.fire('สำเร็จ', `นำเข้าแท็ก ${counts(report).new} แท็กเรียบร้อยแล้ว ดาวน์โหลดรายงานผลได้จากปุ่มด้านบนตาราง`, 'success');
+    } catch (e) {
+      console.error('Error importing catalog:', e);
+      Swal.fire('เกิดข้อผิดพลาด', e instanceof Error ? e.message : 'ไม่สามารถนำเข้าข้อมูลได้', 'error');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleDownloadReport = () => {
+    if (!preview) return;
+    const rows = [
+      ['บรรทัด', 'แผนก', 'แท็ก', 'ผล', 'รายละเอียด'],
+      ...preview.entries.map(e => [e.line, e.department, e.ipadTag, CATALOG_IMPORT_OUTCOME_LABELS[e.outcome], e.message])
+    ];
+    downloadCsv(`catalog_import_${format(new Date(), 'yyyyMMdd_HHmm')}.csv`, toCsv(rows));
+  };
+
+  const summary = preview ? counts(preview) : null;
+  const visibleEntries = preview ? preview.entries.filter(e => !outcomeFilter || e.outcome === outcomeFilter) : [];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-sky-50 relative">
+      <BubbleBackground />
+      <div className="relative z-10 max-w-7xl mx-auto p-4 md:p-6">
+        <div className="bg-white rounded-2xl shadow-xl p-6 md:p-8 mb-6 flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold bg-gradient-to-r from-blue-500 to-blue-800 text-transparent bg-clip-text mb-1">นำเข้าแผนก/แท็กจากไฟล์</h1>
+            <p className="text-gray-500">ไฟล์ CSV หรือ TSV สองคอลัมน์: แผนก, แท็ก (แถวหัวตารางใส่หรือไม่ใส่ก็ได้) เว้นแผนกว่างไว้เพื่อใช้แผนกตามกฎแท็ก</p>
+          </div>
+          <button
+            onClick={() => router.push('/')}
+            className="px-6 py-3 bg-white text-gray-700 border-2 border-gray-200 rounded-lg font-semibold hover:bg-gray-50 hover:border-gray-300 transition-all shadow-sm"
+          >
+            ย้อนกลับไปหน้าหลัก
+          </button>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-lg p-6 mb-6 border border-blue-100">
+          <div className="flex flex-wrap items-center gap-3 mb-3">
+            <label className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm font-medium flex items-center gap-2 cursor-pointer">
+              <Upload className="w-4 h-4" />
+              เลือกไฟล์
+              <input type="file" accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values" onChange={handleFile} className="hidden" />
+            </label>
+            <span className="text-sm text-gray-500">{fileName || 'หรือวางข้อมูลในช่องด้านล่าง'}</span>
+          </div>
+          <textarea
+            value={text}
+            onChange={e => { setText(e.target.value); setPreview(null); setImported(false); }}
+            rows={8}
+            placeholder={'แผนก,แท็ก\nห้องฉุกเฉิน,ER-001\nห้องฉุกเฉิน,ER-002'}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-sm"
+          />
+          <div className="mt-3 flex justify-end gap-3">
+            <button
+              onClick={handlePreview}
+              disabled={working || !text.trim()}
+              className="px-4 py-2 bg-white text-blue-700 border border-blue-300 rounded-lg hover:bg-blue-50 text-sm font-medium disabled:opacity-50"
+            >
+              ตรวจสอบก่อนนำเข้า
+            </button>
+            <button
+              onClick={handleImport}
+              disabled={working || !preview || imported}
+              className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 text-sm font-medium disabled:opacity-50"
+            >
+              {working ? 'กำลังดำเนินการ...' : 'นำเข้า'}
+            </button>
+          </div>
+        </div>
+
+        {preview && summary && (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
+              <div className="bg-white rounded-xl shadow p-4 border border-blue-100">
+                <p className="text-sm text-gray-500">แผนกใหม่</p>
+                <p className="text-2xl font-bold text-blue-700">{preview.newDepartments.length}</p>
+              </div>
+              {OUTCOMES.map(outcome => (
+                <button
+                  key={outcome}
+                  onClick={() => setOutcomeFilter(prev => (prev === outcome ? '' : outcome))}
+                  className={`text-left bg-white rounded-xl shadow p-4 border ${outcomeFilter === outcome ? 'border-blue-500' : 'border-blue-100'}`}
+                >
+                  <p className="text-sm text-gray-500">{imported && outcome === 'new' ? 'เพิ่มแล้ว' : CATALOG_IMPORT_OUTCOME_LABELS[outcome]}</p>
+                  <p className="text-2xl font-bold text-gray-800">{summary[outcome]}</p>
+                </button>
+              ))}
+            </div>
+
+            {preview.newDepartments.length > 0 && (
+              <div className="bg-white rounded-xl shadow p-4 mb-6 border border-blue-100 text-sm">
+                <span className="font-semibold text-blue-800">แผนกที่จะสร้างใหม่: </span>
+                {preview.newDepartments.join(', ')}
+              </div>
+            )}
+
+            <div className="bg-white rounded-xl shadow-lg mb-6 overflow-hidden border border-blue-100">
+              <div className="p-4 border-b border-blue-100 flex flex-wrap justify-between items-center gap-4">
+                <h2 className="text-lg font-semibold text-blue-800">
+                  {imported ? 'รายงานผลการนำเข้า' : 'ตัวอย่างก่อนนำเข้า'} ({visibleEntries.length})
+                </h2>
+                <button
+                  onClick={handleDownloadReport}
+                  className="px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition-colors text-sm font-medium flex items-center gap-2"
+                >
+                  <Download className="w-4 h-4" />
+                  ดาวน์โหลดรายงาน
+                </button>
+              </div>
+              <div className="overflow-x-auto">
+                <table className="w-full border-collapse">
+                  <thead className="bg-gradient-to-r from-blue-100 to-sky-100">
+                    <tr>
+                      <th className="px-4 py-3 text-left font-semibold text-blue-800 border border-blue-200">บรรทัด</th>
+                      <th className="px-4 py-3 text-left font-semibold text-blue-800 border border-blue-200">แผนก</th>
+                      <th className="px-4 py-3 text-left font-semibold text-blue-800 border border-blue-200">แท็ก</th>
+                      <th className="px-4 py-3 text-left font-semibold text-blue-800 border border-blue-200">ผล</th>
+                      <th className="px-4 py-3 text-left font-semibold text-blue-800 border border-blue-200">รายละเอียด</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {visibleEntries.length === 0 ? (
+                      <tr>
+                        <td colSpan={5} className="px-4 py-8 text-center text-gray-500">ไม่มีข้อมูล</td>
+                      </tr>
+                    ) : (
+                      visibleEntries.map(entry => (
+                        <tr key={entry.line} className="border-b border-blue-50 hover:bg-blue-50 transition-colors">
+                          <td className="px-4 py-2 text-gray-600">{entry.line}</td>
+                          <td className="px-4 py-2 text-gray-700">{entry.department || '-'}</td>
+                          <td className="px-4 py-2 text-gray-700 font-mono">{entry.ipadTag || '-'}</td>
+                          <td className="px-4 py-2">
+                            <span className={`px-2 py-1 rounded-full text-xs font-medium ${OUTCOME_STYLES[entry.outcome]}`}>
+                              {CATALOG_IMPORT_OUTCOME_LABELS[entry.outcome]}
+                            </span>
+                          </td>
+                          <td className="px-4 py-2 text-sm text-gray-700">{entry.message}</td>
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+"use client";
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import Swal from 'sweetalert2';
+import BubbleBackground from '../../components/BubbleBackground';
+import { promptActor } from '../../components/adminPrompts';
+import {
+  getCheckoutLimits,
+  saveCheckoutLimits,
+  validateCheckoutLimits,
+  getDepartmentsFromDB,
+  DEFAULT_CHECKOUT_LIMITS,
+  CheckoutLimits
+} from '../../dbService';
+
+export default function CheckoutLimitsPage() {
+  const router = useRouter();
+  const [defaultHours, setDefaultHours] = useState(String(DEFAULT_CHECKOUT_LIMITS.defaultHours));
+  // Department -> hours as typed; blank uses the default
+  const [departmentHours, setDepartmentHours] = useState<Record<string, string>>({});
+  const [departments, setDepartments] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dirty, setDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    Promise.all([getCheckoutLimits(), getDepartmentsFromDB()]).then(([limits, depts]) => {
+      setDefaultHours(String(limits.defaultHours));
+      setDepartmentHours(Object.fromEntries(Object.entries(limits.departments).map(([d, h]) => [d, String(h)])));
+      // Limits of departments that no longer exist are listed too, so they can be cleared
+      setDepartments(Array.from(new Set([...depts, ...Object.keys(limits.departments)])).sort((a, b) => a.localeCompare(b, 'th')));
+      setLoading(false);
+    });
+  }, []);
+
+  const limits: CheckoutLimits = {
+    defaultHours: Number(defaultHours),
+    departments: Object.fromEntries(
+      Object.entries(departmentHours).filter(([, h]) => h.trim() !== '').map(([d, h]) => [d, Number(h)])
+    )
+  };
+  const error = defaultHours.trim() === '' ? 'กรุณาระบุเวลายืมสูงสุดตั้งต้น' : validateCheckoutLimits(limits);
+
+  const setHours = (department: string, value: string) => {
+    setDepartmentHours(prev => ({ ...prev, [department]: value }));
+    setDirty(true);
+  };
+
+  const handleSave = async () => {
+    if (error) {
+      Swal.fire('ข้อมูลไม่ถูกต้อง', error, 'error');
+      return;
+    }
+    const actor = await promptActor();
+    if (!actor) return;
+    try {
+      setSaving(true);
+      await saveCheckoutLimits(limits, actor);
+      setDirty(false);
+      Swal.fire('สำเร็จ', 'บันทึกเวลายืมสูงสุดเรียบร้อยแล้ว', 'success');
+    } catch (e) {
+      console.error('Error saving checkout limits:', e);
+      Swal.fire('เกิดข้อผิดพลาด', e instanceof Error ? e.message : 'ไม่สามารถบันทึกได้', 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-sky-50 relative">
+      <BubbleBackground />
+      <div className="relative z-10 max-w-7xl mx-auto p-4 md:p-6">
+        <div className="bg-white rounded-2xl shadow-xl p-6 md:p-8 mb-6 flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold bg-gradient-to-r from-blue-500 to-blue-800 text-transparent bg-clip-text mb-1">เวลายืมสูงสุด</h1>
+            <p className="text-gray-500">ไอแพดที่ส่งออกนานกว่านี้จะแสดงเป็นเกินเวลาคืนในหน้าหลัก และเตือนที่จุดสแกนเมื่อผู้ยืมสแกนอีกครั้ง</p>
+          </div>
+          <button
+            onClick={() => router.push('/')}
+            className="px-6 py-3 bg-white text-gray-700 border-2 border-gray-200 rounded-lg font-semibold hover:bg-gray-50 hover:border-gray-300 transition-all shadow-sm"
+          >
+            ย้อนกลับไปหน้าหลัก
+          </button>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-lg p-6 mb-6 border border-blue-100">
+          <div className="flex flex-wrap items-end gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">ค่าตั้งต้น (ชั่วโมง, 0 = ไม่ตรวจ)</label>
+              <input
+                type="number"
+                min={0}
+                step="0.5"
+                value={defaultHours}
+                onChange={e => { setDefaultHours(e.target.value); setDirty(true); }}
+                disabled={loading}
+                className="w-40 px-3 py-2 border border-gray-300 rounded-lg"
+              />
+            </div>
+            <button
+              onClick={handleSave}
+              disabled={!dirty || saving || !!error}
+              className="ml-auto px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 text-sm font-medium disabled:opacity-50"
+            >
+              {saving ? 'กำลังบันทึก...' : 'บันทึก'}
+            </button>
+          </div>
+          {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+        </div>
+
+        <div className="bg-white rounded-xl shadow-lg mb-6 overflow-hidden border border-blue-100">
+          <div className="p-4 border-b border-blue-100">
+            <h2 className="text-lg font-semibold text-blue-800">รายแผนก</h2>
+            <p className="text-sm text-gray-500">เว้นว่างเพื่อใช้ค่าตั้งต้น ใส่ 0 เพื่อไม่ตรวจแผนกนั้น</p>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full border-collapse">
+              <thead className="bg-gradient-to-r from-blue-100 to-sky-100">
+                <tr>
+                  <th className="px-4 py-3 text-left font-semibold text-blue-800 border border-blue-200">แผนก</th>
+                  <th className="px-4 py-3 text-left font-semibold text-blue-800 border border-blue-200">ชั่วโมง</th>
+                </tr>
+              </thead>
+              <tbody>
+                {departments.length === 0 ? (
+                  <tr>
+                    <td colSpan={2} className="px-4 py-8 text-center text-gray-500">{loading ? 'กำลังโหลด...' : 'ไม่มีแผนก'}</td>
+                  </tr>
+                ) : (
+                  departments.map(department => (
+                    <tr key={department} className="border-b border-blue-50 hover:bg-blue-50 transition-colors">
+                      <td className="px-4 py-2 text-gray-700">{department}</td>
+                      <td className="px-4 py-2">
+                        <input
+                          type="number"
+                          min={0}
+                          step="0.5"
+                          value={departmentHours[department] ?? ''}
+                          onChange={e => setHours(department, e.target.value)}
+                          placeholder={`${defaultHours || 0} (ค่าตั้งต้น)`}
+                          className="w-40 px-3 py-1 border border-gray-300 rounded-lg"
+                        />
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
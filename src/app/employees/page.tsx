@@ -0,0 +1,446 @@
+"use client";
+
+import { useState, useEffect, useMemo, ChangeEvent } from 'react';
+import { useRouter } from 'next/navigation';
+import Swal from 'sweetalert2';
+import { Download, Upload } from 'lucide-react';
+import { format } from 'date-fns';
+import BubbleBackground from '../../components/BubbleBackground';
+import { promptActor } from '../../components/adminPrompts';
+import { downloadCsv } from '../../components/download';
+import { toCsv } from '../../csv';
+import {
+  subscribeEmployees,
+  getDepartmentsFromDB,
+  saveEmployee,
+  deleteEmployee,
+  validateEmployee,
+  previewEmployeeImport,
+  applyEmployeeImport,
+  EMPLOYEE_IMPORT_OUTCOME_LABELS,
+  Employee,
+  EmployeeImportEntry,
+  EmployeeImportOutcome
+} from '../../dbService';
+
+const OUTCOME_STYLES: Record<EmployeeImportOutcome, string> = {
+  new: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  unchanged: 'bg-gray-100 text-gray-700',
+  invalid: 'bg-amber-100 text-amber-800'
+};
+
+const OUTCOMES = Object.keys(EMPLOYEE_IMPORT_OUTCOME_LABELS) as EmployeeImportOutcome[];
+
+const EMPTY_EMPLOYEE: Employee = { employeeId: '', name: '', department: '', active: true };
+
+export default function EmployeesPage() {
+  const router = useRouter();
+  const [employees, setEmployees] = useState<Employee[]>([]);
+  const [departments, setDepartments] = useState<string[]>([]);
+  const [form, setForm] = useState<Employee>(EMPTY_EMPLOYEE);
+  // ID of the employee loaded into the form; null while adding a new one
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [showInactive, setShowInactive] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [importText, setImportText] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [entries, setEntries] = useState<EmployeeImportEntry[] | null>(null);
+  // Set once the import has been written; entries then hold the result report
+  const [imported, setImported] = useState(false);
+
+  useEffect(() => subscribeEmployees(setEmployees), []);
+  useEffect(() => {
+    getDepartmentsFromDB().then(setDepartments);
+  }, []);
+
+  const visible = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return employees.filter(e =>
+      (showInactive || e.active) &&
+      (!term || [e.employeeId, e.name, e.department].some(v => v.toLowerCase().includes(term)))
+    );
+  }, [employees, search, showInactive]);
+
+  const resetForm = () => {
+    setForm(EMPTY_EMPLOYEE);
+    setEditingId(null);
+  };
+
+  const handleEdit = (employee: Employee) => {
+    setForm(employee);
+    setEditingId(employee.employeeId);
+  };
+
+  const handleSave = async () => {
+    const invalid = validateEmployee(form);
+    if (invalid) {
+      Swal.fire('ข้อมูลไม่ครบ', invalid, 'warning');
+      return;
+    }
+    const actor = await promptActor();
+    if (!actor) return;
+    try {
+      setWorking(true);
+      await saveEmployee(form, actor, { create: editingId === null });
+      resetForm();
+    } catch (e) {
+      Swal.fire('เกิดข้อผิดพลาด', e instanceof Error ? e.message : 'ไม่สามารถบันทึกข้อมูลพนักงานได้', 'error');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleToggleActive = async (employee: Employee) => {
+    const actor = await promptActor();
+    if (!actor) return;
+    try {
+      await saveEmployee({ ...employee, active: !employee.active }, actor);
+    } catch (e) {
+      Swal.fire('เกิดข้อผิดพลาด', e instanceof Error ? e.message : 'ไม่สามารถบันทึกข้อมูลพนักงานได้', 'error');
+    }
+  };
+
+  const handleDelete = async (employee: Employee) => {
+    const result = await Swal.fire({
+      title: 'ลบพนักงาน?',
+      text: `ลบ ${employee.employeeId} ${employee.name} ออกจากทะเบียน ประวัติเดิมจะแสดงเฉพาะรหัส หากพนักงานลาออกควรปิดการใช้งานแทน`,
+      icon: 'warning',
+      showCancelButton: true,
+      confirmButtonText: 'ใช่, ลบ',
+      cancelButtonText: 'ยกเลิก',
+      confirmButtonColor: '#d33'
+    });
+    if (!result.isConfirmed) return;
+    const actor = await promptActor();
+    if (!actor) return;
+    try {
+      await deleteEmployee(employee.employeeId, actor);
+      if (editingId === employee.employeeId) resetForm();
+    } catch (e) {
+      Swal.fire('เกิดข้อผิดพลาด', e instanceof Error ? e.message : 'ไม่สามารถลบพนักงานได้', 'error');
+    }
+  };
+
+  const handleDownloadList = () => {
+    const rows = [
+      ['รหัสพนักงาน', 'ชื่อ', 'แผนก', 'สถานะ'],
+      ...employees.map(e => [e.employeeId, e.name, e.department, e.active ? 'ใช้งาน' : 'ไม่ใช้งาน'])
+    ];
+    downloadCsv(`employees_${format(new Date(), 'yyyyMMdd_HHmm')}.csv`, toCsv(rows));
+  };
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setFileName(file.name);
+    setImportText(await file.text());
+    setEntries(null);
+    setImported(false);
+  };
+
+  const handlePreview = async () => {
+    if (!importText.trim()) return;
+    try {
+      setWorking(true);
+      setEntries(await previewEmployeeImport(importText));
+      setImported(false);
+    } catch (e) {
+      console.error('Error previewing employee import:', e);
+      Swal.fire('เกิดข้อผิดพลาด', 'ไม่สามารถตรวจสอบไฟล์ได้', 'error');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const counts = (current: EmployeeImportEntry[]) =>
+    Object.fromEntries(OUTCOMES.map(o => [o, current.filter(e => e.outcome === o).length])) as Record<EmployeeImportOutcome, number>;
+
+  const handleImport = async () => {
+    if (!entries) return;
+    const summary = counts(entries);
+    if (summary.new + summary.update === 0) {
+      Swal.fire('ไม่มีข้อมูลที่ต้องนำเข้า', 'ทุกแถวตรงกับข้อมูลเดิมหรือไม่ถูกต้อง', 'info');
+      return;
+    }
+    const result = await Swal.fire({
+      title: 'ยืนยันการนำเข้า',
+      text: `เพิ่มพนักงานใหม่ ${summary.new} คน แก้ไข ${summary.update} คน แถวที่ไม่ถูกต้องจะถูกข้าม`,
+      icon: 'question',
+      showCancelButton: true,
+      confirmButtonText: 'ใช่, นำเข้า',
+      cancelButtonText: 'ยกเลิก'
+    });
+    if (!result.isConfirmed) return;
+    const actor = await promptActor();
+    if (!actor) return;
+
+    try {
+      setWorking(true);
+      setEntries(await applyEmployeeImport(importText, actor));
+      setImported(true);
+    } catch (e) {
+      console.error('Error importing employees:', e);
+      Swal.fire('เกิดข้อผิดพลาด', e instanceof Error ? e.message : 'ไม่สามารถนำเข้าข้อมูลได้', 'error');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleDownloadReport = () => {
+    if (!entries) return;
+    const rows = [
+      ['บรรทัด', 'รหัสพนักงาน', 'ชื่อ', 'แผนก', 'สถานะ', 'ผล', 'รายละเอียด'],
+      ...entries.map(e => [
+        e.line,
+        e.employee.employeeId,
+        e.employee.name,
+        e.employee.department,
+        e.employee.active ? 'ใช้งาน' : 'ไม่ใช้งาน',
+        EMPLOYEE_IMPORT_OUTCOME_LABELS[e.outcome],
+        e.message
+      ])
+    ];
+    downloadCsv(`employee_import_${format(new Date(), 'yyyyMMdd_HHmm')}.csv`, toCsv(rows));
+  };
+
+  const importSummary = entries ? counts(entries) : null;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-sky-50 relative">
+      <BubbleBackground />
+      <div className="relative z-10 max-w-7xl mx-auto p-4 md:p-6">
+        <div className="bg-white rounded-2xl shadow-xl p-6 md:p-8 mb-6 flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold bg-gradient-to-r from-blue-500 to-blue-800 text-transparent bg-clip-text mb-1">ทะเบียนพนักงาน</h1>
+            <p className="text-gray-500">จุดสแกนรับเฉพาะรหัสพนักงานที่อยู่ในทะเบียนและยังใช้งานอยู่ (ถ้ายังไม่มีพนักงานในทะเบียน จะยังไม่ตรวจรหัส)</p>
+          </div>
+          <button
+            onClick={() => router.push('/')}
+            className="px-6 py-3 bg-white text-gray-700 border-2 border-gray-200 rounded-lg font-semibold hover:bg-gray-50 hover:border-gray-300 transition-all shadow-sm"
+          >
+            ย้อนกลับไปหน้าหลัก
+          </button>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-lg p-6 mb-6 border border-blue-100">
+          <h2 className="text-lg font-semibold text-blue-800 mb-3">{editingId ? `แก้ไขพนักงาน ${editingId}` : 'เพิ่มพนักงาน'}</h2>
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">รหัสพนักงาน</label>
+              <input
+                value={form.employeeId}
+                onChange={e => setForm(prev => ({ ...prev, employeeId: e.target.value }))}
+                disabled={editingId !== null}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono disabled:bg-gray-100"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">ชื่อ</label>
+              <input
+                value={form.name}
+                onChange={e => setForm(prev => ({ ...prev, name: e.target.value }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">แผนก</label>
+              <input
+                list="employee-departments"
+                value={form.department}
+                onChange={e => setForm(prev => ({ ...prev, department: e.target.value }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+              />
+              <datalist id="employee-departments">
+                {departments.map(d => <option key={d} value={d} />)}
+              </datalist>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-700 pb-2">
+              <input
+                type="checkbox"
+                checked={form.active}
+                onChange={e => setForm(prev => ({ ...prev, active: e.target.checked }))}
+              />
+              ใช้งานอยู่
+            </label>
+            <div className="flex gap-2">
+              <button
+                onClick={handleSave}
+                disabled={working}
+                className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 text-sm font-medium disabled:opacity-50"
+              >
+                {editingId ? 'บันทึก' : 'เพิ่ม'}
+              </button>
+              {editingId && (
+                <button onClick={resetForm} className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 text-sm font-medium">
+                  ยกเลิก
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-lg mb-6 overflow-hidden border border-blue-100">
+          <div className="p-4 border-b border-blue-100 flex flex-wrap justify-between items-center gap-4">
+            <h2 className="text-lg font-semibold text-blue-800">พนักงาน ({visible.length}/{employees.length})</h2>
+            <div className="flex flex-wrap items-center gap-3">
+              <input
+                value={search}
+                onChange={e => setSearch(e.target.value)}
+                placeholder="🔍 รหัส ชื่อ หรือแผนก"
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              />
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input type="checkbox" checked={showInactive} onChange={e => setShowInactive(e.target.checked)} />
+                แสดงที่ปิดใช้งาน
+              </label>
+              <button
+                onClick={handleDownloadList}
+                disabled={employees.length === 0}
+                className="px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition-colors text-sm font-medium flex items-center gap-2 disabled:opacity-50"
+              >
+                <Download className="w-4 h-4" />
+                ดาวน์โหลด CSV
+              </button>
+            </div>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full border-collapse">
+              <thead className="bg-gradient-to-r from-blue-100 to-sky-100">
+                <tr>
+                  <th className="px-4 py-3 text-left font-semibold text-blue-800 border border-blue-200">รหัสพนักงาน</th>
+                  <th className="px-4 py-3 text-left font-semibold text-blue-800 border border-blue-200">ชื่อ</th>
+                  <th className="px-4 py-3 text-left font-semibold text-blue-800 border border-blue-200">แผนก</th>
+                  <th className="px-4 py-3 text-left font-semibold text-blue-800 border border-blue-200">สถานะ</th>
+                  <th className="px-4 py-3 text-left font-semibold text-blue-800 border border-blue-200">แก้ไขล่าสุด</th>
+                  <th className="px-4 py-3 text-left font-semibold text-blue-800 border border-blue-200"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {visible.length === 0 ? (
+                  <tr>
+                    <td colSpan={6} className="px-4 py-8 text-center text-gray-500">ไม่มีข้อมูล</td>
+                  </tr>
+                ) : (
+                  visible.map(employee => (
+                    <tr key={employee.employeeId} className={`border-b border-blue-50 hover:bg-blue-50 transition-colors ${employee.active ? '' : 'text-gray-400'}`}>
+                      <td className="px-4 py-2 font-mono font-semibold text-blue-700">{employee.employeeId}</td>
+                      <td className="px-4 py-2">{employee.name}</td>
+                      <td className="px-4 py-2">{employee.department || '-'}</td>
+                      <td className="px-4 py-2">
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${employee.active ? 'bg-green-100 text-green-800' : 'bg-gray-200 text-gray-700'}`}>
+                          {employee.active ? 'ใช้งาน' : 'ไม่ใช้งาน'}
+                        </span>
+                      </td>
+                      <td className="px-4 py-2 text-sm text-gray-500">
+                        {employee.updatedAt ? `${new Date(employee.updatedAt).toLocaleString('th-TH')} (${employee.updatedBy})` : '-'}
+                      </td>
+                      <td className="px-4 py-2 text-sm whitespace-nowrap space-x-2">
+                        <button onClick={() => handleEdit(employee)} className="text-blue-600 hover:underline">แก้ไข</button>
+                        <button onClick={() => handleToggleActive(employee)} className="text-amber-600 hover:underline">
+                          {employee.active ? 'ปิดใช้งาน' : 'เปิดใช้งาน'}
+                        </button>
+                        <button onClick={() => handleDelete(employee)} className="text-red-600 hover:underline">ลบ</button>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-lg p-6 mb-6 border border-blue-100">
+          <h2 className="text-lg font-semibold text-blue-800 mb-1">นำเข้าจากไฟล์</h2>
+          <p className="text-sm text-gray-500 mb-3">
+            CSV หรือ TSV: รหัสพนักงาน, ชื่อ, แผนก, สถานะ (ใช้งาน/ไม่ใช้งาน เว้นว่างถือว่าใช้งาน) รหัสที่มีอยู่แล้วจะถูกแก้ไขตามไฟล์
+          </p>
+          <div className="flex flex-wrap items-center gap-3 mb-3">
+            <label className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm font-medium flex items-center gap-2 cursor-pointer">
+              <Upload className="w-4 h-4" />
+              เลือกไฟล์
+              <input type="file" accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values" onChange={handleFile} className="hidden" />
+            </label>
+            <span className="text-sm text-gray-500">{fileName || 'หรือวางข้อมูลในช่องด้านล่าง'}</span>
+          </div>
+          <textarea
+            value={importText}
+            onChange={e => { setImportText(e.target.value); setEntries(null); setImported(false); }}
+            rows={6}
+            placeholder={'รหัสพนักงาน,ชื่อ,แผนก,สถานะ\n10234,สมชาย ใจดี,ห้องฉุกเฉิน,ใช้งาน'}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-sm"
+          />
+          <div className="mt-3 flex justify-end gap-3">
+            <button
+              onClick={handlePreview}
+              disabled={working || !importText.trim()}
+              className="px-4 py-2 bg-white text-blue-700 border border-blue-300 rounded-lg hover:bg-blue-50 text-sm font-medium disabled:opacity-50"
+            >
+              ตรวจสอบก่อนนำเข้า
+            </button>
+            <button
+              onClick={handleImport}
+              disabled={working || !entries || imported}
+              className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 text-sm font-medium disabled:opacity-50"
+            >
+              {working ? 'กำลังดำเนินการ...' : 'นำเข้า'}
+            </button>
+          </div>
+
+          {entries && importSummary && (
+            <div className="mt-4 border border-blue-100 rounded-lg overflow-hidden">
+              <div className="p-3 border-b border-blue-100 flex flex-wrap justify-between items-center gap-3">
+                <div className="flex flex-wrap gap-2 text-sm">
+                  <span className="font-semibold text-blue-800">{imported ? 'รายงานผลการนำเข้า' : 'ตัวอย่างก่อนนำเข้า'}:</span>
+                  {OUTCOMES.map(outcome => (
+                    <span key={outcome} className={`px-2 py-1 rounded-full text-xs font-medium ${OUTCOME_STYLES[outcome]}`}>
+                      {EMPLOYEE_IMPORT_OUTCOME_LABELS[outcome]} {importSummary[outcome]}
+                    </span>
+                  ))}
+                </div>
+                <button
+                  onClick={handleDownloadReport}
+                  className="px-3 py-1 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 text-sm font-medium flex items-center gap-2"
+                >
+                  <Download className="w-4 h-4" />
+                  ดาวน์โหลดรายงาน
+                </button>
+              </div>
+              <div className="overflow-x-auto max-h-96">
+                <table className="w-full border-collapse text-sm">
+                  <thead className="bg-blue-50">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-semibold text-blue-800">บรรทัด</th>
+                      <th className="px-3 py-2 text-left font-semibold text-blue-800">รหัสพนักงาน</th>
+                      <th className="px-3 py-2 text-left font-semibold text-blue-800">ชื่อ</th>
+                      <th className="px-3 py-2 text-left font-semibold text-blue-800">แผนก</th>
+                      <th className="px-3 py-2 text-left font-semibold text-blue-800">ผล</th>
+                      <th className="px-3 py-2 text-left font-semibold text-blue-800">รายละเอียด</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {entries.map(entry => (
+                      <tr key={entry.line} className="border-b border-blue-50">
+                        <td className="px-3 py-2 text-gray-600">{entry.line}</td>
+                        <td className="px-3 py-2 font-mono">{entry.employee.employeeId || '-'}</td>
+                        <td className="px-3 py-2">{entry.employee.name || '-'}</td>
+                        <td className="px-3 py-2">{entry.employee.department || '-'}</td>
+                        <td className="px-3 py-2">
+                          <span className={`px-2 py-1 rounded-full text-xs font-medium ${OUTCOME_STYLES[entry.outcome]}`}>
+                            {EMPLOYEE_IMPORT_OUTCOME_LABELS[entry.outcome]}
+                          </span>
+                        </td>
+                        <td className="px-3 py-2 text-gray-700">{entry.message}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,290 @@
+"use client";
+
+import { useState, useMemo, ChangeEvent } from 'react';
+import { useRouter } from 'next/navigation';
+import Swal from 'sweetalert2';
+import { Download, Upload } from 'lucide-react';
+import { format } from 'date-fns';
+import BubbleBackground from '../../components/BubbleBackground';
+import { downloadCsv } from '../../components/download';
+import { parseDelimited, toCsv } from '../../csv';
+import {
+  previewLogImport,
+  applyLogImport,
+  guessLogImportMapping,
+  LOG_IMPORT_FIELD_LABELS,
+  LogImportField,
+  LogImportMapping,
+  LogImportOptions,
+  LogImportRow
+} from '../../dbService';
+
+const FIELDS = Object.keys(LOG_IMPORT_FIELD_LABELS) as LogImportField[];
+
+export default function LogImportPage() {
+  const router = useRouter();
+  const [text, setText] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [hasHeader, setHasHeader] = useState(true);
+  const [dayFirst, setDayFirst] = useState(true);
+  const [mapping, setMapping] = useState<LogImportMapping>({});
+  const [rows, setRows] = useState<LogImportRow[] | null>(null);
+  // Set once the import has been written; rows then hold the result report
+  const [imported, setImported] = useState(false);
+  const [showFlaggedOnly, setShowFlaggedOnly] = useState(false);
+  const [working, setWorking] = useState(false);
+
+  // Column choices come from the first row: its header names, or sample values when there is no header
+  const firstRow = useMemo(() => parseDelimited(text.split(/\r?\n/, 2)[0] || '')[0] || [], [text]);
+  const columnLabel = (index: number) =>
+    hasHeader ? `${index + 1}. ${firstRow[index] || ''}` : `คอลัมน์ ${index + 1} (${firstRow[index] || ''})`;
+
+  const loadText = (value: string) => {
+    setText(value);
+    setRows(null);
+    setImported(false);
+    const header = parseDelimited(value.split(/\r?\n/, 2)[0] || '')[0] || [];
+    setMapping(guessLogImportMapping(header));
+  };
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setFileName(file.name);
+    loadText(await file.text());
+  };
+
+  const options: LogImportOptions = { mapping, hasHeader, dayFirst };
+  const hasTimeColumn = mapping.timestamp !== undefined || mapping.date !== undefined;
+  const ready = !!text.trim() && mapping.ipadTag !== undefined && mapping.status !== undefined && hasTimeColumn;
+
+  const handleMappingChange = (field: LogImportField, value: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (value === '') delete next[field];
+      else next[field] = Number(value);
+      return next;
+    });
+    setRows(null);
+  };
+
+  const handlePreview = async () => {
+    if (!ready) return;
+    try {
+      setWorking(true);
+      setRows(await previewLogImport(text, options));
+      setImported(false);
+    } catch (e) {
+      console.error('Error previewing log import:', e);
+      Swal.fire('เกิดข้อผิดพลาด', 'ไม่สามารถตรวจสอบไฟล์ได้', 'error');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const acceptedCount = rows ? rows.filter(r => r.accepted).length : 0;
+  const flaggedCount = rows ? rows.length - acceptedCount : 0;
+
+  const handleImport = async () => {
+    if (!rows || acceptedCount === 0) return;
+    const result = await Swal.fire({
+      title: 'ยืนยันการนำเข้าประวัติ',
+      text: `นำเข้า ${acceptedCount} รายการ โดยทำเครื่องหมายว่าเป็นข้อมูลนำเข้า แถวที่มีปัญหา ${flaggedCount} รายการจะถูกข้าม`,
+      icon: 'question',
+      showCancelButton: true,
+      confirmButtonText: 'ใช่, นำเข้า',
+      cancelButtonText: 'ยกเลิก'
+    });
+    if (!result.isConfirmed) return;
+
+    try {
+      setWorking(true);
+      const report = await applyLogImport(text, options);
+      setRows(report);
+      setImported(true);
+      Swal.fire('สำเร็จ', `นำเข้าประวัติ ${report.filter(r => r.accepted).length} รายการเรียบร้อยแล้ว`, 'success');
+    } catch (e) {
+      console.error('Error importing logs:', e);
+      Swal.fire('เกิดข้อผิดพลาด', e instanceof Error ? e.message : 'ไม่สามารถนำเข้าประวัติได้', 'error');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleDownloadReport = () => {
+    if (!rows) return;
+    const report = [
+      ['บรรทัด', 'รหัสพนักงาน', 'แท็ก', 'แผนก', 'สถานะ', 'วันเวลา', 'ผล', 'รายละเอียด'],
+      ...rows.map(r => [
+        r.line,
+        r.employeeId,
+        r.ipadTag,
+        r.department,
+        r.status,
+        r.timestamp ? format(new Date(r.timestamp), 'yyyy-MM-dd HH:mm:ss') : '',
+        r.accepted ? (imported ? 'นำเข้าแล้ว' : 'นำเข้าได้') : 'ข้าม',
+        r.message
+      ])
+    ];
+    downloadCsv(`log_import_${format(new Date(), 'yyyyMMdd_HHmm')}.csv`, toCsv(report));
+  };
+
+  const visibleRows = rows ? rows.filter(r => !showFlaggedOnly || !r.accepted) : [];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-sky-50 relative">
+      <BubbleBackground />
+      <div className="relative z-10 max-w-7xl mx-auto p-4 md:p-6">
+        <div className="bg-white rounded-2xl shadow-xl p-6 md:p-8 mb-6 flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold bg-gradient-to-r from-blue-500 to-blue-800 text-transparent bg-clip-text mb-1">นำเข้าประวัติจากไฟล์เดิม</h1>
+            <p className="text-gray-500">บันทึกไฟล์ Excel เป็น CSV หรือ TSV แล้วเลือกคอลัมน์ให้ตรงกับข้อมูล</p>
+          </div>
+          <button
+            onClick={() => router.push('/')}
+            className="px-6 py-3 bg-white text-gray-700 border-2 border-gray-200 rounded-lg font-semibold hover:bg-gray-50 hover:border-gray-300 transition-all shadow-sm"
+          >
+            ย้อนกลับไปหน้าหลัก
+          </button>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-lg p-6 mb-6 border border-blue-100">
+          <div className="flex flex-wrap items-center gap-3 mb-3">
+            <label className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm font-medium flex items-center gap-2 cursor-pointer">
+              <Upload className="w-4 h-4" />
+              เลือกไฟล์
+              <input type="file" accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values" onChange={handleFile} className="hidden" />
+            </label>
+            <span className="text-sm text-gray-500">{fileName || 'หรือวางข้อมูลในช่องด้านล่าง'}</span>
+          </div>
+          <textarea
+            value={text}
+            onChange={e => loadText(e.target.value)}
+            rows={6}
+            placeholder={'วันที่,เวลา,รหัสพนักงาน,แท็ก,สถานะ\n5/1/2024,08:00,12345,ER-001,ส่งออก'}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-sm"
+          />
+
+          {firstRow.length > 0 && (
+            <div className="mt-4">
+              <div className="flex flex-wrap items-center gap-6 mb-3 text-sm">
+                <label className="flex items-center gap-2">
+                  <input type="checkbox" checked={hasHeader} onChange={e => { setHasHeader(e.target.checked); setRows(null); }} />
+                  แถวแรกเป็นหัวตาราง
+                </label>
+                <label className="flex items-center gap-2">
+                  รูปแบบวันที่
+                  <select
+                    value={dayFirst ? 'dmy' : 'mdy'}
+                    onChange={e => { setDayFirst(e.target.value === 'dmy'); setRows(null); }}
+                    className="px-2 py-1 border border-gray-300 rounded"
+                  >
+                    <option value="dmy">วัน/เดือน/ปี</option>
+                    <option value="mdy">เดือน/วัน/ปี</option>
+                  </select>
+                </label>
+                <span className="text-gray-500">ปี พ.ศ. แปลงเป็น ค.ศ. ให้อัตโนมัติ</span>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+                {FIELDS.map(field => (
+                  <div key={field}>
+                    <label className="block text-xs text-gray-600 mb-1">{LOG_IMPORT_FIELD_LABELS[field]}</label>
+                    <select
+                      value={mapping[field] ?? ''}
+                      onChange={e => handleMappingChange(field, e.target.value)}
+                      className="w-full px-2 py-2 border border-gray-300 rounded-lg text-sm"
+                    >
+                      <option value="">— ไม่มี —</option>
+                      {firstRow.map((_, index) => (
+                        <option key={index} value={index}>{columnLabel(index)}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+              <p className="mt-2 text-xs text-gray-500">
+                ต้องเลือกแท็ก สถานะ และวันเวลา (คอลัมน์เดียว หรือวันที่กับเวลา) ถ้าไม่เลือกแผนกจะใช้แผนกของแท็ก ณ เวลานั้น
+              </p>
+            </div>
+          )}
+
+          <div className="mt-3 flex justify-end gap-3">
+            <button
+              onClick={handlePreview}
+              disabled={working || !ready}
+              className="px-4 py-2 bg-white text-blue-700 border border-blue-300 rounded-lg hover:bg-blue-50 text-sm font-medium disabled:opacity-50"
+            >
+              ตรวจสอบก่อนนำเข้า
+            </button>
+            <button
+              onClick={handleImport}
+              disabled={working || !rows || imported || acceptedCount === 0}
+              className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 text-sm font-medium disabled:opacity-50"
+            >
+              {working ? 'กำลังดำเนินการ...' : `นำเข้า (${acceptedCount})`}
+            </button>
+          </div>
+        </div>
+
+        {rows && (
+          <div className="bg-white rounded-xl shadow-lg mb-6 overflow-hidden border border-blue-100">
+            <div className="p-4 border-b border-blue-100 flex flex-wrap justify-between items-center gap-4">
+              <h2 className="text-lg font-semibold text-blue-800">
+                {imported ? 'รายงานผลการนำเข้า' : 'ตัวอย่างก่อนนำเข้า'}: {imported ? 'นำเข้าแล้ว' : 'นำเข้าได้'} {acceptedCount} / มีปัญหา {flaggedCount}
+              </h2>
+              <div className="flex items-center gap-3">
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input type="checkbox" checked={showFlaggedOnly} onChange={e => setShowFlaggedOnly(e.target.checked)} />
+                  แสดงเฉพาะแถวที่มีปัญหา
+                </label>
+                <button
+                  onClick={handleDownloadReport}
+                  className="px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition-colors text-sm font-medium flex items-center gap-2"
+                >
+                  <Download className="w-4 h-4" />
+                  ดาวน์โหลดรายงาน
+                </button>
+              </div>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full border-collapse">
+                <thead className="bg-gradient-to-r from-blue-100 to-sky-100">
+                  <tr>
+                    <th className="px-4 py-3 text-left font-semibold text-blue-800 border border-blue-200">บรรทัด</th>
+                    <th className="px-4 py-3 text-left font-semibold text-blue-800 border border-blue-200">วันเวลา</th>
+                    <th className="px-4 py-3 text-left font-semibold text-blue-800 border border-blue-200">แท็ก</th>
+                    <th className="px-4 py-3 text-left font-semibold text-blue-800 border border-blue-200">รหัสพนักงาน</th>
+                    <th className="px-4 py-3 text-left font-semibold text-blue-800 border border-blue-200">แผนก</th>
+                    <th className="px-4 py-3 text-left font-semibold text-blue-800 border border-blue-200">สถานะ</th>
+                    <th className="px-4 py-3 text-left font-semibold text-blue-800 border border-blue-200">ผล</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleRows.length === 0 ? (
+                    <tr>
+                      <td colSpan={7} className="px-4 py-8 text-center text-gray-500">ไม่มีข้อมูล</td>
+                    </tr>
+                  ) : (
+                    visibleRows.map(row => (
+                      <tr key={row.line} className={`border-b border-blue-50 ${row.accepted ? '' : 'bg-red-50'}`}>
+                        <td className="px-4 py-2 text-gray-600">{row.line}</td>
+                        <td className="px-4 py-2 text-gray-600 whitespace-nowrap">
+                          {row.timestamp ? new Date(row.timestamp).toLocaleString('th-TH') : '-'}
+                        </td>
+                        <td className="px-4 py-2 text-gray-700 font-mono">{row.ipadTag || '-'}</td>
+                        <td className="px-4 py-2 text-gray-700">{row.employeeId || '-'}</td>
+                        <td className="px-4 py-2 text-gray-700">{row.department || '-'}</td>
+                        <td className="px-4 py-2 text-gray-700">{row.status || '-'}</td>
+                        <td className={`px-4 py-2 text-sm ${row.accepted ? 'text-green-700' : 'text-red-700'}`}>{row.message}</td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
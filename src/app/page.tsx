@@ -15,14 +15,17 @@ ChartJS.register(
 import Swal from 'sweetalert2';
 /* Lines 2-11 omitted */
 
-import { useState, useEffect, ChangeEvent, useMemo } from 'react';
+import { useState, useEffect, ChangeEvent, useMemo, useRef } from 'react';
 import { useRouter } from 'next/navigation';
 import { Filter, ArrowRight, ArrowLeft, Trash2, Plus, X, Download } from 'lucide-react';
 import Image from 'next/image';
 import BubbleBackground from '../components/BubbleBackground';
-import { getLogs, Log, getDepartmentsFromDB, deleteLogs, getTagsByDepartment, upsertIpadDepartment, removeTagFromDepartment, getIpadDocs, addTagToDepartment, renameIpadDepartment, deleteDepartment } from '../dbService';
+import { downloadCsv } from '../components/download';
+import { toCsv } from '../csv';
+import { subscribeLogs, subscribeLogsMatching, subscribeDepartments, subscribeIpadDocs, subscribeIpadStates, subscribeCheckoutLimits, findOverdueDevices, formatDuration, DEFAULT_CHECKOUT_LIMITS, CheckoutLimits, countLogs, Log, LogFilter, getDepartmentsFromDB, deleteLogs, getTagsByDepartment, upsertIpadDepartment, removeTagFromDepartment, getIpadDocs, addTagToDepartment, renameIpadDepartment, deleteDepartment, subscribeTagRules, matchTagRule, TagRule, subscribeTagPolicy, subscribeEmployees, indexTags, resolveTag, normalizeTag, DEFAULT_TAG_POLICY, TagPolicy, getDepartmentDeletionImpact, DepartmentDeletionImpact, DepartmentDeletionResolution, backfillIpadStates, IpadState, findDuplicateTags, transferTags, getTagTransfers, attributeLogsToDepartments, summarizeDepartments, TagTransfer, IpadDocument, Device, DeviceDetails, DEVICE_FIELD_LABELS, updateDeviceDetails, migrateTagsToDevices, IpadStatus, LifecycleStatus, IPAD_STATUSES, LIFECYCLE_STATUSES, isIpadStatus, STATUS_TRANSITIONS, setDeviceStatus, migrateLogSchema } from '../dbService';
 import { VercelDateRangePicker } from '../components/VercelDateRangePicker';
-import { isWithinInterval, parseISO } from 'date-fns';
+import { escapeHtml, promptActor, promptLogDeletion } from '../components/adminPrompts';
+import { parseISO, startOfDay, endOfDay, format } from 'date-fns';
 
 interface SelectedLogs {
   [key: string]: boolean;
@@ -35,14 +38,35 @@ type DateRange = {
 
 type SortOrder = 'asc' | 'desc';
 
+// Badge classes and chart colours for every device status
+const STATUS_STYLES: Record<IpadStatus, { badge: string; color: string }> = {
+  'ส่งเข้า': { badge: 'bg-green-100 text-green-700', color: '#4ade80' },
+  'ส่งออก': { badge: 'bg-orange-100 text-orange-700', color: '#fb923c' },
+  'ส่งซ่อม': { badge: 'bg-yellow-100 text-yellow-800', color: '#facc15' },
+  'สูญหาย': { badge: 'bg-red-100 text-red-700', color: '#f87171' },
+  'ปลดระวาง': { badge: 'bg-gray-200 text-gray-700', color: '#9ca3af' },
+  'กักเพื่อทำความสะอาด': { badge: 'bg-cyan-100 text-cyan-700', color: '#22d3ee' }
+};
+
 
 export default function IPadTrackingSystem() {
   const router = useRouter();
+  // Only the current page of logs; filtering and paging happen in the database
   const [logs, setLogs] = useState<Log[]>([]);
+  const [totalItems, setTotalItems] = useState(0);
+  const [totalInSystem, setTotalInSystem] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  // pageCursors.current[i] is the cursor that loads page i + 1
+  const pageCursors = useRef<(string | null)[]>([null]);
+  const [summaryLogs, setSummaryLogs] = useState<Log[]>([]);
+  const knownLogIds = useRef<Set<string> | null>(null);
+  const [highlightedIds, setHighlightedIds] = useState<Set<string>>(new Set());
   const [dateRange, setDateRange] = useState<DateRange>({ startDate: '', endDate: '' });
   const [filterEmployee, setFilterEmployee] = useState<string>('');
+  const [filterTag, setFilterTag] = useState<string>('');
   const [filterDept, setFilterDept] = useState<string>('ทั้งหมด');
   const [filterStatus, setFilterStatus] = useState<string>('ทั้งหมด');
+  const [filterSource, setFilterSource] = useState<'all' | 'scanned' | 'imported'>('all');
   const [sortOrder, setSortOrder] = useState<SortOrder>('desc');
   const [currentPage, setCurrentPage] = useState(1);
   const [departments, setDepartments] = useState<string[]>(['ทั้งหมด']);
@@ -57,10 +81,28 @@ export default function IPadTrackingSystem() {
   const [saveError, setSaveError] = useState<string | null>(null);
   const [tags, setTags] = useState<string[]>([]);
   const [removingTag, setRemovingTag] = useState<string | null>(null);
-  const [ipadDocs, setIpadDocs] = useState<{ id: string; department?: string; tags?: string[] }[]>([]);
+  const [ipadDocs, setIpadDocs] = useState<IpadDocument[]>([]);
+  const [deviceDrafts, setDeviceDrafts] = useState<Record<string, DeviceDetails>>({});
+  const [savingDevice, setSavingDevice] = useState<string | null>(null);
+  const [migratingDevices, setMigratingDevices] = useState(false);
+  const [migratingLogs, setMigratingLogs] = useState(false);
   const [selectedDeptForEdit, setSelectedDeptForEdit] = useState<string | null>(null);
   const [newSingleTag, setNewSingleTag] = useState('');
   const [renamingTo, setRenamingTo] = useState('');
+  const [tagRules, setTagRules] = useState<TagRule[]>([]);
+  const [tagPolicy, setTagPolicy] = useState<TagPolicy>(DEFAULT_TAG_POLICY);
+  const [employeeNames, setEmployeeNames] = useState<Map<string, string>>(new Map());
+  const [ipadStates, setIpadStates] = useState<IpadState[]>([]);
+  const [checkoutLimits, setCheckoutLimits] = useState<CheckoutLimits>(DEFAULT_CHECKOUT_LIMITS);
+  const [showOverdue, setShowOverdue] = useState(true);
+  // Ticks every minute so overdue devices appear without waiting for a new scan
+  const [now, setNow] = useState(() => new Date());
+  const [backfilling, setBackfilling] = useState(false);
+  const [transferInput, setTransferInput] = useState('');
+  const [transferTarget, setTransferTarget] = useState('');
+  const [transferEffectiveAt, setTransferEffectiveAt] = useState(() => format(new Date(), "yyyy-MM-dd'T'HH:mm"));
+  const [transferring, setTransferring] = useState(false);
+  const [tagTransfers, setTagTransfers] = useState<TagTransfer[]>([]);
   const itemsPerPage = 20;
 
   // Handle form submission for adding new department and tags
@@ -78,10 +120,12 @@ export default function IPadTrackingSystem() {
     });
 
     if (result.isConfirmed) {
+      const actor = await promptActor();
+      if (!actor) return;
       try {
         setSaveError(null);
         setSavingDept(true);
-        await upsertIpadDepartment(newDepartment, []);
+        await upsertIpadDepartment(newDepartment, [], actor);
 
             // Refresh departments list from DB
             const depts = await getDepartmentsFromDB();
@@ -135,21 +179,6 @@ export default function IPadTrackingSystem() {
     return () => { cancelled = true; };
   }, [showAddForm, newDepartment]);
 
-  // Load ipad docs for management panel
-  useEffect(() => {
-    if (!showAddForm) return;
-    let cancelled = false;
-    (async () => {
-      try {
-        const docs = await getIpadDocs();
-        if (!cancelled) setIpadDocs(docs);
-      } catch (e) {
-        console.error('Error loading ipad docs:', e);
-      }
-    })();
-    return () => { cancelled = true; };
-  }, [showAddForm]);
-
   // Handle tag removal (persist to Firestore if department present)
   const handleRemoveTag = async (tagToRemove: string) => {
     const result = await Swal.fire({
@@ -163,12 +192,14 @@ export default function IPadTrackingSystem() {
     });
 
     if (result.isConfirmed) {
+      const actor = newDepartment ? await promptActor() : null;
+      if (newDepartment && !actor) return;
       // optimistically update UI
       setTags(prev => prev.filter(tag => tag !== tagToRemove));
-      if (!newDepartment) return;
+      if (!newDepartment || !actor) return;
       try {
         setRemovingTag(tagToRemove);
-        await removeTagFromDepartment(newDepartment, tagToRemove);
+        await removeTagFromDepartment(newDepartment, tagToRemove, actor);
         Swal.fire('สำเร็จ', 'ลบแท็กเรียบร้อยแล้ว', 'success');
       } catch (e) {
         console.error('Error removing tag from department:', e);
@@ -203,47 +234,65 @@ export default function IPadTrackingSystem() {
   };
 
   const handleAddSingleTag = async () => {
-    if (!selectedDeptForEdit || !newSingleTag.trim()) return;
-    
+    const tag = newSingleTag.trim();
+    // ไม่ได้เลือกแผนก: ใช้แผนกตามกฎแท็ก
+    const target = selectedDeptForEdit || tagRuleMatch?.department;
+    if (!target || !tag) return;
+    const contradicts = !!tagRuleMatch && tagRuleMatch.department !== target;
+
     const result = await Swal.fire({
       title: 'ยืนยันการเพิ่มแท็ก',
-      text: `คุณต้องการเพิ่มแท็ก "${newSingleTag.trim()}" ให้กับแผนก "${selectedDeptForEdit}" ใช่หรือไม่?`,
-      icon: 'question',
+      text: `คุณต้องการเพิ่มแท็ก "${tag}" ให้กับแผนก "${target}" ใช่หรือไม่?${contradicts ? ` กฎ "${tagRuleMatch.pattern}" ระบุว่าแท็กนี้ควรอยู่แผนก "${tagRuleMatch.department}"` : ''}`,
+      icon: contradicts ? 'warning' : 'question',
       showCancelButton: true,
       confirmButtonText: 'ใช่, เพิ่มแท็ก',
       cancelButtonText: 'ยกเลิก'
     });
 
     if (result.isConfirmed) {
+      const actor = await promptActor();
+      if (!actor) return;
       try {
-        await addTagToDepartment(selectedDeptForEdit, newSingleTag.trim());
-        const updated = await getTagsByDepartment(selectedDeptForEdit);
-        setTags(updated);
+        await addTagToDepartment(target, tag, actor);
+        if (selectedDeptForEdit) setTags(await getTagsByDepartment(selectedDeptForEdit));
         setNewSingleTag('');
-        Swal.fire('สำเร็จ', 'เพิ่มแท็กเรียบร้อยแล้ว', 'success');
+        Swal.fire('สำเร็จ', `เพิ่มแท็กเข้าแผนก "${target}" เรียบร้อยแล้ว`, 'success');
       } catch (e) {
         console.error('Error adding tag:', e);
         setSaveError(e instanceof Error ? e.message : String(e));
-        Swal.fire('เกิดข้อผิดพลาด', 'ไม่สามารถเพิ่มแท็กได้', 'error');
+        Swal.fire('เกิดข้อผิดพลาด', e instanceof Error ? e.message : 'ไม่สามารถเพิ่มแท็กได้', 'error');
       }
     }
   };
 
   const handleRenameDepartment = async () => {
     if (!selectedDeptForEdit || !renamingTo.trim()) return;
-    
+
+    const logCount = await countLogs({ department: selectedDeptForEdit }).catch(() => 0);
     const result = await Swal.fire({
       title: 'ยืนยันการเปลี่ยนชื่อแผนก',
-      text: `คุณต้องการเปลี่ยนชื่อแผนกจาก "${selectedDeptForEdit}" เป็น "${renamingTo.trim()}" ใช่หรือไม่?`,
+      text: `คุณต้องการเปลี่ยนชื่อแผนกจาก "${selectedDeptForEdit}" เป็น "${renamingTo.trim()}" ใช่หรือไม่? มีประวัติที่ใช้ชื่อเดิม ${logCount} รายการ`,
       icon: 'question',
+      input: 'checkbox',
+      inputValue: 1,
+      inputPlaceholder: 'เปลี่ยนชื่อแผนกในประวัติเดิมด้วย (ตัวกรองและสรุปรายแผนกจะต่อเนื่อง)',
       showCancelButton: true,
       confirmButtonText: 'ใช่, เปลี่ยนชื่อ',
       cancelButtonText: 'ยกเลิก'
     });
 
     if (result.isConfirmed) {
+      const actor = await promptActor();
+      if (!actor) return;
+      const rewriteLogs = result.value === 1;
       try {
-        await renameIpadDepartment(selectedDeptForEdit, renamingTo.trim());
+        if (rewriteLogs && logCount > 0) {
+          Swal.fire({ title: 'กำลังเปลี่ยนชื่อแผนกในประวัติ...', text: `0/${logCount}`, allowOutsideClick: false, didOpen: () => Swal.showLoading() });
+        }
+        const changed = await renameIpadDepartment(selectedDeptForEdit, renamingTo.trim(), actor, {
+          rewriteLogs,
+          onProgress: (done, total) => { if (Swal.isVisible()) Swal.update({ text: `${done}/${total}` }); }
+        });
         // refresh lists
         const docs = await getIpadDocs();
         setIpadDocs(docs);
@@ -253,7 +302,7 @@ export default function IPadTrackingSystem() {
         setNewDepartment('');
         setRenamingTo('');
         setTags([]);
-        Swal.fire('สำเร็จ', 'เปลี่ยนชื่อแผนกเรียบร้อยแล้ว', 'success');
+        Swal.fire('สำเร็จ', rewriteLogs ? `เปลี่ยนชื่อแผนกเรียบร้อยแล้ว และแก้ไขประวัติ ${changed} รายการ` : 'เปลี่ยนชื่อแผนกเรียบร้อยแล้ว', 'success');
       } catch (e) {
         console.error('Error renaming dept:', e);
         setSaveError(e instanceof Error ? e.message : String(e));
@@ -264,32 +313,319 @@ export default function IPadTrackingSystem() {
 
   const handleDeleteDepartment = async () => {
     if (!selectedDeptForEdit) return;
-    
+
+    let impact: DepartmentDeletionImpact;
+    try {
+      impact = await getDepartmentDeletionImpact(selectedDeptForEdit);
+    } catch (e) {
+      Swal.fire('เกิดข้อผิดพลาด', e instanceof Error ? e.message : 'ไม่สามารถตรวจสอบแผนกได้', 'error');
+      return;
+    }
+    const outRows = impact.checkedOut
+      .map(s => `<tr><td class="px-2 py-1 border font-mono">${escapeHtml(s.ipadTag)}</td><td class="px-2 py-1 border">${escapeHtml(s.employeeId)}</td><td class="px-2 py-1 border">${escapeHtml(new Date(s.timestamp).toLocaleString('th-TH'))}</td></tr>`)
+      .join('');
+    const options: Partial<Record<DepartmentDeletionResolution, string>> = {};
+    if (impact.checkedOut.length === 0) options.delete = 'ลบแผนกและแท็กทั้งหมด';
+    options.reassign = 'ย้ายแท็กทั้งหมดไปแผนกอื่น แล้วลบแผนก';
+    if (!impact.archived) options.archive = 'เก็บแผนกถาวร (รับคืนได้ ยืมออกไม่ได้)';
+    options.block = 'ไม่ลบ (บันทึกว่าระงับการลบ)';
+
     const result = await Swal.fire({
       title: 'ยืนยันการลบแผนก',
-      text: `คุณแน่ใจว่าจะลบแผนก "${selectedDeptForEdit}" และแท็กทั้งหมดในเอกสารนี้หรือไม่?`,
+      html: `
+        <p>แผนก "${escapeHtml(impact.department)}" มี ${impact.devices.length} แท็ก และมีประวัติที่อ้างถึง ${impact.logCount} รายการ</p>
+        ${impact.checkedOut.length > 0
+          ? `<p class="mt-2 text-red-600">ยังไม่ได้ส่งคืน ${impact.checkedOut.length} เครื่อง ลบทันทีไม่ได้ เพราะการส่งคืนจะไม่ผ่านการตรวจแท็ก</p>
+             <table class="mt-2 w-full text-sm text-left border-collapse"><thead><tr><th class="px-2 py-1 border">แท็ก</th><th class="px-2 py-1 border">ผู้ยืม</th><th class="px-2 py-1 border">เวลา</th></tr></thead><tbody>${outRows}</tbody></table>`
+          : '<p class="mt-2 text-green-700">ไม่มีอุปกรณ์ค้างอยู่ข้างนอก</p>'}
+      `,
       icon: 'warning',
+      input: 'select',
+      inputOptions: options,
+      inputValue: impact.checkedOut.length === 0 ? 'delete' : 'reassign',
       showCancelButton: true,
-      confirmButtonText: 'ใช่, ลบแผนก',
+      confirmButtonText: 'ดำเนินการ',
       cancelButtonText: 'ยกเลิก',
       confirmButtonColor: '#d33'
     });
+    if (!result.isConfirmed) return;
+    const resolution = result.value as DepartmentDeletionResolution;
+
+    let reassignTo: string | undefined;
+    if (resolution === 'reassign') {
+      const targets = departments.filter(d => d !== 'ทั้งหมด' && d !== impact.department);
+      const target = await Swal.fire({
+        title: 'เลือกแผนกที่จะรับแท็ก',
+        input: 'select',
+        inputOptions: Object.fromEntries(targets.map(d => [d, d])),
+        inputPlaceholder: '-- เลือกแผนก --',
+        inputValidator: value => (value ? null : 'กรุณาเลือกแผนก'),
+        showCancelButton: true,
+        confirmButtonText: 'ย้ายแท็กและลบแผนก',
+        cancelButtonText: 'ยกเลิก'
+      });
+      if (!target.isConfirmed) return;
+      reassignTo = target.value as string;
+    }
+
+    const actor = await promptActor();
+    if (!actor) return;
+    try {
+      await deleteDepartment(selectedDeptForEdit, actor, resolution, reassignTo);
+      const docs = await getIpadDocs();
+      setIpadDocs(docs);
+      const depts = await getDepartmentsFromDB();
+      setDepartments(['ทั้งหมด', ...depts]);
+      if (resolution === 'block') {
+        Swal.fire('บันทึกแล้ว', 'ระงับการลบแผนกและบันทึกไว้ในประวัติการแก้ไข', 'info');
+        return;
+      }
+      setSelectedDeptForEdit(null);
+      setNewDepartment('');
+      setTags([]);
+      const done: Record<Exclude<DepartmentDeletionResolution, 'block'>, string> = {
+        delete: 'ลบแผนกเรียบร้อยแล้ว',
+        reassign: `ย้ายแท็กไปแผนก "${reassignTo}" และลบแผนกเรียบร้อยแล้ว`,
+        archive: 'เก็บแผนกถาวรแล้ว อุปกรณ์ที่ยืมออกยังส่งคืนได้'
+      };
+      Swal.fire('สำเร็จ', done[resolution], 'success');
+    } catch (e) {
+      console.error('Error deleting dept:', e);
+      setSaveError(e instanceof Error ? e.message : String(e));
+      Swal.fire('เกิดข้อผิดพลาด', e instanceof Error ? e.message : 'ไม่สามารถลบแผนกได้', 'error');
+    }
+  };
+
+  const handleTransferTags = async () => {
+    const tagsToMove = transferInput.split(/[\s,]+/).map(t => t.trim()).filter(Boolean);
+    if (tagsToMove.length === 0 || !transferTarget) return;
+    const effectiveAt = new Date(transferEffectiveAt);
+
+    const result = await Swal.fire({
+      title: 'ยืนยันการย้ายแท็ก',
+      text: `ย้าย ${tagsToMove.length} แท็ก (${tagsToMove.join(', ')}) ไปแผนก "${transferTarget}" มีผลตั้งแต่ ${effectiveAt.toLocaleString('th-TH')} ใช่หรือไม่?`,
+      icon: 'question',
+      showCancelButton: true,
+      confirmButtonText: 'ใช่, ย้ายแท็ก',
+      cancelButtonText: 'ยกเลิก'
+    });
 
     if (result.isConfirmed) {
+      const actor = await promptActor();
+      if (!actor) return;
       try {
-        await deleteDepartment(selectedDeptForEdit);
-        const docs = await getIpadDocs();
-        setIpadDocs(docs);
-        const depts = await getDepartmentsFromDB();
-        setDepartments(['ทั้งหมด', ...depts]);
-        setSelectedDeptForEdit(null);
-        setNewDepartment('');
-        setTags([]);
-        Swal.fire('สำเร็จ', 'ลบแผนกเรียบร้อยแล้ว', 'success');
+        setTransferring(true);
+        await transferTags(tagsToMove, transferTarget, effectiveAt.toISOString(), actor);
+        setTagTransfers(await getTagTransfers());
+        if (selectedDeptForEdit) setTags(await getTagsByDepartment(selectedDeptForEdit));
+        setTransferInput('');
+        Swal.fire('สำเร็จ', `ย้าย ${tagsToMove.length} แท็กไปแผนก "${transferTarget}" เรียบร้อยแล้ว`, 'success');
+      } catch (e) {
+        console.error('Error transferring tags:', e);
+        setSaveError(e instanceof Error ? e.message : String(e));
+        Swal.fire('เกิดข้อผิดพลาด', e instanceof Error ? e.message : 'ไม่สามารถย้ายแท็กได้', 'error');
+      } finally {
+        setTransferring(false);
+      }
+    }
+  };
+
+  const deviceDraftFor = (device: Device): DeviceDetails => deviceDrafts[device.ipadTag] || {
+    serialNumber: device.serialNumber || '',
+    model: device.model || '',
+    assetNumber: device.assetNumber || '',
+    purchaseDate: device.purchaseDate || '',
+    notes: device.notes || ''
+  };
+
+  const handleDeviceFieldChange = (device: Device, field: keyof DeviceDetails, value: string) => {
+    setDeviceDrafts(prev => ({ ...prev, [device.ipadTag]: { ...deviceDraftFor(device), [field]: value } }));
+  };
+
+  const handleSaveDevice = async (device: Device) => {
+    const draft = deviceDrafts[device.ipadTag];
+    if (!draft) return;
+    const actor = await promptActor();
+    if (!actor) return;
+    try {
+      setSavingDevice(device.ipadTag);
+      await updateDeviceDetails(device.ipadTag, draft, actor);
+      setDeviceDrafts(prev => {
+        const next = { ...prev };
+        delete next[device.ipadTag];
+        return next;
+      });
+      Swal.fire('สำเร็จ', `บันทึกข้อมูลอุปกรณ์ ${device.ipadTag} เรียบร้อยแล้ว`, 'success');
+    } catch (e) {
+      console.error('Error saving device:', e);
+      setSaveError(e instanceof Error ? e.message : String(e));
+      Swal.fire('เกิดข้อผิดพลาด', e instanceof Error ? e.message : 'ไม่สามารถบันทึกข้อมูลอุปกรณ์ได้', 'error');
+    } finally {
+      setSavingDevice(null);
+    }
+  };
+
+  const handleSetDeviceStatus = async (device: Device, status: IpadStatus) => {
+    const result = await Swal.fire({
+      title: 'เปลี่ยนสถานะอุปกรณ์',
+      text: `ต้องการเปลี่ยนสถานะแท็ก ${device.ipadTag} เป็น "${status}" หรือไม่?`,
+      icon: 'question',
+      showCancelButton: true,
+      confirmButtonText: 'เปลี่ยนสถานะ',
+      cancelButtonText: 'ยกเลิก'
+    });
+    if (!result.isConfirmed) return;
+    const actor = await promptActor();
+    if (!actor) return;
+    try {
+      setSavingDevice(device.ipadTag);
+      await setDeviceStatus(device.ipadTag, status, actor);
+      Swal.fire('สำเร็จ', `แท็ก ${device.ipadTag} อยู่ในสถานะ ${status} แล้ว`, 'success');
+    } catch (e) {
+      console.error('Error setting device status:', e);
+      Swal.fire('เกิดข้อผิดพลาด', e instanceof Error ? e.message : 'ไม่สามารถเปลี่ยนสถานะอุปกรณ์ได้', 'error');
+    } finally {
+      setSavingDevice(null);
+    }
+  };
+
+  const handleMigrateDevices = async () => {
+    const result = await Swal.fire({
+      title: 'ย้ายแท็กเดิมเป็นข้อมูลอุปกรณ์',
+      text: 'ระบบจะสร้างข้อมูลอุปกรณ์จากรายการแท็กเดิมของทุกแผนก ต้องการดำเนินการหรือไม่?',
+      icon: 'question',
+      showCancelButton: true,
+      confirmButtonText: 'ใช่, ย้ายข้อมูล',
+      cancelButtonText: 'ยกเลิก'
+    });
+
+    if (result.isConfirmed) {
+      try {
+        setMigratingDevices(true);
+        const { created, conflicts } = await migrateTagsToDevices();
+        if (conflicts.length > 0) {
+          Swal.fire(
+            'ย้ายข้อมูลแล้ว แต่มีแท็กซ้ำ',
+            `สร้างข้อมูลอุปกรณ์ ${created} รายการ แท็กที่อยู่หลายแผนก ${conflicts.length} รายการยังไม่ได้ย้าย: ` +
+              conflicts.map(c => `${c.ipadTag} (${c.department} / ${c.owner})`).join(', '),
+            'warning'
+          );
+        } else {
+          Swal.fire('สำเร็จ', `สร้างข้อมูลอุปกรณ์ ${created} รายการเรียบร้อยแล้ว`, 'success');
+        }
       } catch (e) {
-        console.error('Error deleting dept:', e);
+        console.error('Error migrating devices:', e);
         setSaveError(e instanceof Error ? e.message : String(e));
-        Swal.fire('เกิดข้อผิดพลาด', 'ไม่สามารถลบแผนกได้', 'error');
+        Swal.fire('เกิดข้อผิดพลาด', 'ไม่สามารถย้ายข้อมูลแท็กได้', 'error');
+      } finally {
+        setMigratingDevices(false);
+      }
+    }
+  };
+
+  // Dry run first, show what would change, then rewrite on confirmation
+  const handleMigrateLogSchema = async () => {
+    try {
+      setMigratingLogs(true);
+      const preview = await migrateLogSchema({ dryRun: true });
+      const rows = preview.changed.slice(0, 50)
+        .map(c => `<tr><td class="px-2 py-1 border font-mono">${escapeHtml(c.id)}</td><td class="px-2 py-1 border">${c.changes
+          .filter(ch => ch.field !== 'schemaVersion')
+          .map(ch => `${escapeHtml(ch.field)}: ${escapeHtml(ch.before)} → ${escapeHtml(ch.after)}`)
+          .join('<br>') || '-'}</td></tr>`)
+        .join('');
+      const skipped = preview.skipped
+        .map(sk => `<li class="font-mono">${escapeHtml(sk.id)}: ${escapeHtml(sk.reason)}</li>`)
+        .join('');
+      if (preview.changed.length === 0) {
+        Swal.fire({
+          title: 'ข้อมูลประวัติเป็นรูปแบบปัจจุบันแล้ว',
+          html: `<p>ตรวจ ${preview.scanned} รายการ</p>${skipped ? `<p class="mt-2 text-sm">ปรับอัตโนมัติไม่ได้ ${preview.skipped.length} รายการ:</p><ul class="text-left text-sm">${skipped}</ul>` : ''}`,
+          icon: preview.skipped.length > 0 ? 'warning' : 'success'
+        });
+        return;
+      }
+      const result = await Swal.fire({
+        title: 'ปรับรูปแบบข้อมูลประวัติ',
+        html: `
+          <p class="mb-2 text-sm">ตรวจ ${preview.scanned} รายการ: เป็นรูปแบบปัจจุบันแล้ว ${preview.upToDate} รายการ จะเขียนใหม่ ${preview.changed.length} รายการ ปรับไม่ได้ ${preview.skipped.length} รายการ</p>
+          <div style="max-height: 320px; overflow-y: auto">
+            <table class="w-full text-left text-sm border-collapse">
+              <thead><tr><th class="px-2 py-1 border">รหัส</th><th class="px-2 py-1 border">การเปลี่ยนแปลง</th></tr></thead>
+              <tbody>${rows}</tbody>
+            </table>
+            ${preview.changed.length > 50 ? `<p class="mt-1 text-xs text-gray-500">แสดง 50 จาก ${preview.changed.length} รายการ</p>` : ''}
+            ${skipped ? `<p class="mt-2 text-sm">ปรับอัตโนมัติไม่ได้:</p><ul class="text-left text-sm">${skipped}</ul>` : ''}
+          </div>
+        `,
+        icon: 'question',
+        width: 720,
+        showCancelButton: true,
+        confirmButtonText: 'เขียนข้อมูลใหม่',
+        cancelButtonText: 'ยกเลิก'
+      });
+      if (!result.isConfirmed) return;
+      const report = await migrateLogSchema();
+      Swal.fire('สำเร็จ', `ปรับรูปแบบข้อมูลประวัติ ${report.changed.length} รายการเรียบร้อยแล้ว`, 'success');
+    } catch (e) {
+      console.error('Error migrating log schema:', e);
+      Swal.fire('เกิดข้อผิดพลาด', e instanceof Error ? e.message : 'ไม่สามารถปรับรูปแบบข้อมูลประวัติได้', 'error');
+    } finally {
+      setMigratingLogs(false);
+    }
+  };
+
+  const handleFindDuplicateTags = async () => {
+    try {
+      const duplicates = await findDuplicateTags();
+      if (duplicates.length === 0) {
+        Swal.fire('ไม่พบแท็กซ้ำ', 'แท็กทุกตัวอยู่ในแผนกเดียว', 'success');
+        return;
+      }
+      const rows = duplicates
+        .map(d => `<tr><td class="px-2 py-1 border font-mono">${escapeHtml(d.ipadTag)}</td><td class="px-2 py-1 border">${d.departments.map(escapeHtml).join(', ')}</td></tr>`)
+        .join('');
+      Swal.fire({
+        title: `พบแท็กซ้ำ ${duplicates.length} แท็ก`,
+        html: `
+          <p class="mb-2 text-sm">ลบแท็กออกจากแผนกที่ไม่ถูกต้องเพื่อให้แต่ละแท็กอยู่เพียงแผนกเดียว</p>
+          <div style="max-height: 320px; overflow-y: auto">
+            <table class="w-full text-left text-sm border-collapse">
+              <thead><tr><th class="px-2 py-1 border">แท็ก</th><th class="px-2 py-1 border">แผนก</th></tr></thead>
+              <tbody>${rows}</tbody>
+            </table>
+          </div>
+        `,
+        icon: 'warning',
+        width: 640
+      });
+    } catch (e) {
+      console.error('Error finding duplicate tags:', e);
+      Swal.fire('เกิดข้อผิดพลาด', 'ไม่สามารถตรวจแท็กซ้ำได้', 'error');
+    }
+  };
+
+  const handleBackfillStates = async () => {
+    const result = await Swal.fire({
+      title: 'สร้างดัชนีสถานะใหม่',
+      text: 'ระบบจะอ่านประวัติทั้งหมดเพื่อคำนวณสถานะล่าสุดของทุกแท็ก ใช้เวลาสักครู่ ต้องการดำเนินการหรือไม่?',
+      icon: 'question',
+      showCancelButton: true,
+      confirmButtonText: 'ใช่, สร้างดัชนี',
+      cancelButtonText: 'ยกเลิก'
+    });
+
+    if (result.isConfirmed) {
+      try {
+        setBackfilling(true);
+        const count = await backfillIpadStates();
+        Swal.fire('สำเร็จ', `สร้างดัชนีสถานะ ${count} แท็กเรียบร้อยแล้ว`, 'success');
+      } catch (e) {
+        console.error('Error backfilling states:', e);
+        setSaveError(e instanceof Error ? e.message : String(e));
+        Swal.fire('เกิดข้อผิดพลาด', 'ไม่สามารถสร้างดัชนีสถานะได้', 'error');
+      } finally {
+        setBackfilling(false);
       }
     }
   };
@@ -345,264 +681,226 @@ export default function IPadTrackingSystem() {
   };
 
   // Handle delete selected logs
-  const handleDeleteSelectedLogs = () => {
+  const handleDeleteSelectedLogs = async () => {
     const selectedIds = Object.entries(selectedLogs)
       .filter(([_, isSelected]) => isSelected)
       .map(([id]) => id);
 
-    if (selectedIds.length > 0 && window.confirm(`คุณแน่ใจหรือไม่ที่จะลบ ${selectedIds.length} รายการที่เลือก?`)) {
-      deleteLogs(selectedIds);
-      setLogs(prevLogs => prevLogs.filter(log => !selectedIds.includes(log.id.toString())));
+    if (selectedIds.length === 0) return;
+    const deletion = await promptLogDeletion(selectedIds.length);
+    if (!deletion) return;
+    try {
+      await deleteLogs(selectedIds, deletion);
       setSelectedLogs({});
       setSelectAll(false);
+      Swal.fire('สำเร็จ', 'ย้ายรายการไปถังขยะเรียบร้อยแล้ว', 'success');
+    } catch (e) {
+      console.error('Error deleting logs:', e);
+      Swal.fire('เกิดข้อผิดพลาด', 'ไม่สามารถลบรายการที่เลือกได้', 'error');
     }
   };
 
   // Handle delete selected department logs
-  const handleDeleteSelectedDeptLogs = () => {
+  const handleDeleteSelectedDeptLogs = async () => {
     const selectedDepts = Object.entries(selectedDeptLogs)
       .filter(([_, isSelected]) => isSelected)
       .map(([dept]) => dept);
 
     if (selectedDepts.length > 0) {
-      const selectedIds = logs
+      const selectedIds = attributedSummaryLogs
         .filter(log => selectedDepts.includes(log.department))
         .map(log => log.id.toString());
 
-      if (selectedIds.length > 0 && window.confirm(`คุณแน่ใจหรือไม่ที่จะลบ ${selectedIds.length} รายการจากแผนกที่เลือก?`)) {
-        deleteLogs(selectedIds);
-        setLogs(prevLogs => prevLogs.filter(log => !selectedIds.includes(log.id.toString())));
+      if (selectedIds.length === 0) return;
+      const deletion = await promptLogDeletion(selectedIds.length);
+      if (!deletion) return;
+      try {
+        await deleteLogs(selectedIds, deletion);
         setSelectedDeptLogs({});
         setSelectAllDept(false);
+        Swal.fire('สำเร็จ', 'ย้ายรายการไปถังขยะเรียบร้อยแล้ว', 'success');
+      } catch (e) {
+        console.error('Error deleting dept logs:', e);
+        Swal.fire('เกิดข้อผิดพลาด', 'ไม่สามารถลบรายการที่เลือกได้', 'error');
       }
     }
   };
 
   const exportToCSV = () => {
-    // Get current month and year for the filename
+    // Get current month and year for the title and filename
     const now = new Date();
     const thaiMonths = ['มกราคม','กุมภาพันธ์','มีนาคม','เมษายน','พฤษภาคม','มิถุนายน',
                        'กรกฎาคม','สิงหาคม','กันยายน','ตุลาคม','พฤศจิกายน','ธันวาคม'];
     const month = now.getMonth();
     const year = now.getFullYear();
-    const monthYear = `${thaiMonths[month]} ${year}`;
-    
-    // Create title row
-    const titleRow = [
-      `"รายงานการส่งเข้า-ออกอุปกรณ์ ประจำเดือน${thaiMonths[month]} ${year}"`,
-      ...Array(62).fill('') // Fill remaining cells in title row
-    ];
-    
-    // Create headers
-    const headers = ['แผนก', 'จำนวนแท็ก'];
-    
-    // Add day headers (1-31) with in/out subheaders
+
+    const headers = ['แผนก', 'จำนวนแท็ก', ...LIFECYCLE_STATUSES.map(status => `สถานะปัจจุบัน: ${status}`)];
+    // Day headers (1-31) with in/out subheaders
     for (let day = 1; day <= 31; day++) {
       headers.push(`วันที่ ${day} (เข้า)`, `วันที่ ${day} (ออก)`);
     }
-    
-    // Create department rows
-    const rows = departmentSummary.map(dept => {
-      const row = [
-        `"${dept.department}"`,
-        dept.tagCount
-      ];
-      
-      // Add day data
-      for (let i = 0; i < 31; i++) {
-        const dayData = dept.days[i] || { in: 0, out: 0 };
-        row.push(dayData.in, dayData.out);
-      }
-      
-      return row.join(',');
-    });
-    
-    // Combine all rows
-    const csvContent = [
-      titleRow.join(','),
-      headers.join(','),
-      ...rows
-    ].join('\n');
-    
-    // Create download link
-    const blob = new Blob(["\uFEFF" + csvContent], { type: 'text/csv;charset=utf-8;' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
+
+    const rows = departmentSummary.map(dept => [
+      dept.department,
+      dept.tagCount,
+      ...LIFECYCLE_STATUSES.map(status => dept.lifecycle[status] || 0),
+      ...Array.from({ length: 31 }, (_, i) => dept.days[i] || { in: 0, out: 0 }).flatMap(day => [day.in, day.out])
+    ]);
+
     const dateStr = `${year}${(month + 1).toString().padStart(2, '0')}`;
-    
-    link.href = url;
-    link.download = `ipad_summary_${dateStr}.csv`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+    downloadCsv(`ipad_summary_${dateStr}.csv`, toCsv([
+      [`รายงานการส่งเข้า-ออกอุปกรณ์ ประจำเดือน${thaiMonths[month]} ${year}`],
+      headers,
+      ...rows
+    ]));
   };
 
  
   const hasSelectedLogs = Object.values(selectedLogs).some(Boolean);
   const hasSelectedDeptLogs = Object.values(selectedDeptLogs).some(Boolean);
 
-  useEffect(() => {
-    const fetchLogs = async () => {
-      try {
-        const logs = await getLogs();
-        setLogs(logs);
-      } catch (error) {
-        console.error('Error fetching logs:', error);
-      }
-    };
-    
-    fetchLogs();
-  }, []);
+  useEffect(() => subscribeTagPolicy(setTagPolicy), []);
+  useEffect(() => subscribeEmployees(employees => setEmployeeNames(new Map(employees.map(e => [e.employeeId, e.name])))), []);
+  const tagIndex = useMemo(() => indexTags(ipadDocs.flatMap(d => d.tags || []), tagPolicy), [ipadDocs, tagPolicy]);
 
+  // Filters as sent to the database; the date picker gives yyyy-MM-dd days, made inclusive here
+  const logFilter = useMemo((): LogFilter => {
+    const filter: LogFilter = {};
+    if (dateRange.startDate && dateRange.endDate) {
+      filter.from = startOfDay(parseISO(dateRange.startDate)).toISOString();
+      filter.to = endOfDay(parseISO(dateRange.endDate)).toISOString();
+    }
+    if (filterEmployee.trim()) filter.employeeId = filterEmployee.trim();
+    // แท็กที่พิมพ์ต่างรูปแบบ (ตัวพิมพ์ ตัวคั่น เลขศูนย์นำหน้า) ใช้แท็กตามที่เก็บในระบบ
+    if (filterTag.trim()) filter.ipadTag = resolveTag(filterTag, tagIndex, tagPolicy) ?? normalizeTag(filterTag, tagPolicy);
+    if (filterDept !== 'ทั้งหมด') filter.department = filterDept;
+    if (isIpadStatus(filterStatus)) filter.status = filterStatus;
+    if (filterSource !== 'all') filter.imported = filterSource === 'imported';
+    return filter;
+  }, [dateRange, filterEmployee, filterTag, tagIndex, tagPolicy, filterDept, filterStatus, filterSource]);
+
+  // Follow the current page live so scans from the kiosks show up without a refresh
   useEffect(() => {
-    (async () => {
-      try {
-        const depts = await getDepartmentsFromDB();
-        setDepartments(['ทั้งหมด', ...depts]);
-      } catch (e) {
-        // ignore load errors for now
-      }
-    })();
-  }, []);
-
-  const filteredLogs = logs
-    .filter((log: Log): boolean => {
-      if (dateRange.startDate && dateRange.endDate) {
-        const logDate = new Date(log.timestamp);
-        const startDate = parseISO(dateRange.startDate);
-        const endDate = parseISO(dateRange.endDate);
-        if (!isWithinInterval(logDate, { start: startDate, end: endDate })) {
-          return false;
+    const page = currentPage;
+    // Rows present in the first snapshot are not "new"; anything after that gets highlighted
+    knownLogIds.current = null;
+    const unsubscribe = subscribeLogs(
+      { ...logFilter, sortOrder, pageSize: itemsPerPage, cursor: pageCursors.current[page - 1] ?? null },
+      (result) => {
+        // Remember where the following page starts and forget cursors past it
+        pageCursors.current = [...pageCursors.current.slice(0, page), result.nextCursor];
+        setLogs(result.logs);
+        setNextCursor(result.nextCursor);
+
+        const ids = result.logs.map(log => log.id);
+        if (knownLogIds.current) {
+          const known = knownLogIds.current;
+          const arrived = ids.filter(id => !known.has(id));
+          if (arrived.length > 0) {
+            setHighlightedIds(prev => new Set([...prev, ...arrived]));
+            setTimeout(() => {
+              setHighlightedIds(prev => new Set([...prev].filter(id => !arrived.includes(id))));
+            }, 5000);
+          }
+          ids.forEach(id => known.add(id));
+        } else {
+          knownLogIds.current = new Set(ids);
         }
-      }
-      if (filterEmployee && !log.employeeId.includes(filterEmployee)) return false;
-      if (filterDept !== 'ทั้งหมด' && log.department !== filterDept) return false;
-      if (filterStatus !== 'ทั้งหมด' && log.status !== filterStatus) return false;
-      return true;
-    })
-    .sort((a: Log, b: Log): number => {
-      const timeA = new Date(a.timestamp).getTime();
-      const timeB = new Date(b.timestamp).getTime();
-      return sortOrder === 'desc' ? timeB - timeA : timeA - timeB;
-    });
-
-  const totalItems = filteredLogs.length;
-  const totalPages = Math.ceil(totalItems / itemsPerPage);
-  const startIndex = (currentPage - 1) * itemsPerPage;
-  const endIndex = Math.min(startIndex + itemsPerPage, totalItems);
-  const currentLogs = filteredLogs.slice(startIndex, endIndex);
 
-  // State to store all departments and their tag counts
-  const [allDepartments, setAllDepartments] = useState<{name: string, tagCount: number}[]>([]);
+        // Counts are aggregations, so refresh them whenever the page changes
+        (async () => {
+          const [matching, all] = await Promise.all([countLogs(logFilter), countLogs()]);
+          setTotalItems(matching);
+          setTotalInSystem(all);
+        })();
+      }
+    );
+    return unsubscribe;
+  }, [logFilter, sortOrder, currentPage]);
 
-  // Fetch all departments and their tag counts
+  // The department summary needs every matching log, so follow them only while it is shown
   useEffect(() => {
-    const fetchDepartments = async () => {
-      try {
-        const depts = await getDepartmentsFromDB();
-        const departmentsWithCounts = await Promise.all(
-          depts.map(async (dept) => {
-            const tags = await getTagsByDepartment(dept);
-            return {
-              name: dept,
-              tagCount: tags.length
-            };
-          })
-        );
-        setAllDepartments(departmentsWithCounts);
-      } catch (error) {
-        console.error('Error fetching departments:', error);
-      }
-    };
+    if (!showDeptSummary) return;
+    return subscribeLogsMatching(logFilter, setSummaryLogs);
+  }, [showDeptSummary, logFilter]);
 
-    fetchDepartments();
+  // Tag moves decide which department a log counts toward in the summary
+  useEffect(() => {
+    if (!showDeptSummary) return;
+    getTagTransfers().then(setTagTransfers);
   }, [showDeptSummary]);
 
-  // Calculate department summary with per-day counts (1..31)
-  type DeptDayCounts = {
-    department: string;
-    inCount: number;
-    outCount: number;
-    total: number;
-    tagCount: number;
-    days: { in: number; out: number }[]; // index 0 => day 1, ... index 30 => day 31
-  };
+  const attributedSummaryLogs = useMemo(
+    () => attributeLogsToDepartments(summaryLogs, tagTransfers),
+    [summaryLogs, tagTransfers]
+  );
 
-  const departmentSummary = useMemo(() => {
-    // Initialize maps
-  const logCounts: Record<string, { in: number; out: number; days: { in: number; out: number }[] }> = {};
+  // Current status of every tag, read live from the status index rather than from logs
+  useEffect(() => subscribeIpadStates(setIpadStates), []);
 
-  // Prepare empty days array helper
-  const emptyDays = () => Array.from({ length: 31 }, () => ({ in: 0, out: 0 }));
+  useEffect(() => subscribeTagRules(setTagRules), []);
+  const tagRuleMatch = useMemo(() => matchTagRule(newSingleTag, tagRules), [newSingleTag, tagRules]);
 
-    // Aggregate filteredLogs into per-department totals and per-day buckets
-    filteredLogs.forEach(log => {
-      const dept = log.department || 'ไม่ระบุ';
-      if (!logCounts[dept]) {
-        logCounts[dept] = { in: 0, out: 0, days: emptyDays() };
-      }
+  const currentStatusCounts = useMemo(() => {
+    const counts = Object.fromEntries(IPAD_STATUSES.map(status => [status, 0])) as Record<IpadStatus, number>;
+    ipadStates.forEach(s => { if (s.status in counts) counts[s.status] += 1; });
+    return counts;
+  }, [ipadStates]);
 
-      // Count in/out
-      if (log.status === 'ส่งเข้า') {
-        logCounts[dept].in += 1;
-      } else {
-        logCounts[dept].out += 1;
-      }
+  const statusByTag = useMemo(() => new Map(ipadStates.map(s => [s.ipadTag, s.status])), [ipadStates]);
 
-      // Determine day of month from timestamp or date field
-      let day = 0;
-      try {
-        const d = new Date(log.timestamp);
-        if (!Number.isNaN(d.getTime())) {
-          day = d.getDate();
-        }
-      } catch (e) {
-        // fallback if timestamp malformed
-      }
-
-      if (day >= 1 && day <= 31) {
-        // increment day's in/out count for this dept
-        if (log.status === 'ส่งเข้า') {
-          logCounts[dept].days[day - 1].in += 1;
-        } else {
-          logCounts[dept].days[day - 1].out += 1;
-        }
-      }
+  useEffect(() => subscribeCheckoutLimits(setCheckoutLimits), []);
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 60000);
+    return () => clearInterval(interval);
+  }, []);
+  const overdueDevices = useMemo(() => findOverdueDevices(ipadStates, checkoutLimits, now), [ipadStates, checkoutLimits, now]);
+
+  // Devices currently out of circulation (repair, lost, ...) per department, from the status index
+  const lifecycleByDept = useMemo(() => {
+    const counts: Record<string, Partial<Record<LifecycleStatus, number>>> = {};
+    ipadStates.forEach(s => {
+      if (!(LIFECYCLE_STATUSES as IpadStatus[]).includes(s.status)) return;
+      const status = s.status as LifecycleStatus;
+      const dept = counts[s.department] || (counts[s.department] = {});
+      dept[status] = (dept[status] || 0) + 1;
     });
+    return counts;
+  }, [ipadStates]);
 
-    // Ensure we include all departments from allDepartments even if they have zero logs
-    const deptMap = new Map(allDepartments.map(dept => [dept.name, dept.tagCount]));
-
-    const result: DeptDayCounts[] = Array.from(deptMap.entries()).map(([dept, tagCount]) => {
-      const counts = logCounts[dept] || { in: 0, out: 0, days: emptyDays() };
-      return {
-        department: dept,
-        inCount: counts.in,
-        outCount: counts.out,
-        total: counts.in + counts.out,
-        tagCount: tagCount,
-        days: counts.days
-      };
-    });
+  // Department list and catalog follow edits made in other tabs
+  useEffect(() => subscribeDepartments(depts => setDepartments(['ทั้งหมด', ...depts])), []);
+  useEffect(() => subscribeIpadDocs(setIpadDocs), []);
 
-    // Also include any departments that appeared in logs but not in allDepartments (defensive)
-    Object.keys(logCounts).forEach(dept => {
-      if (!deptMap.has(dept)) {
-        const counts = logCounts[dept];
-        result.push({
-          department: dept,
-          inCount: counts.in,
-          outCount: counts.out,
-          total: counts.in + counts.out,
-          tagCount: 0,
-          days: counts.days
-        });
-      }
-    });
+  const totalPages = Math.ceil(totalItems / itemsPerPage);
+  const startIndex = (currentPage - 1) * itemsPerPage;
+  const endIndex = startIndex + logs.length;
+  const currentLogs = logs;
+
+  // Devices of the department being edited, from the live catalog
+  const selectedDevices = useMemo(
+    () => ipadDocs.find(d => d.department === selectedDeptForEdit)?.devices || [],
+    [ipadDocs, selectedDeptForEdit]
+  );
 
-    return result.sort((a, b) => b.total - a.total);
-  }, [filteredLogs, allDepartments]);
+  // All departments and their tag counts, derived from the live catalog
+  const allDepartments = useMemo(() => {
+    const tagsByDept = new Map<string, Set<string>>();
+    ipadDocs.forEach(d => {
+      if (!d.department) return;
+      const tagSet = tagsByDept.get(d.department) || new Set<string>();
+      (d.tags || []).forEach(t => { if (t.trim()) tagSet.add(t.trim()); });
+      tagsByDept.set(d.department, tagSet);
+    });
+    return Array.from(tagsByDept.entries()).map(([name, tagSet]) => ({ name, tagCount: tagSet.size }));
+  }, [ipadDocs]);
+
+  // Department summary with per-day counts (1..31), each log counted toward the department
+  // that owned the tag at the time
+  const departmentSummary = useMemo(
+    () => summarizeDepartments(attributedSummaryLogs, allDepartments, lifecycleByDept),
+    [attributedSummaryLogs, allDepartments, lifecycleByDept]
+  );
 
   // Compute a display label for the month and year to show on the department summary header.
   // Prefer the selected date range (startDate..endDate). If the range is within a single month/year,
@@ -653,14 +951,11 @@ export default function IPadTrackingSystem() {
             <div className="w-32 h-32">
               <Doughnut
                 data={{
-                  labels: ['', ''],
+                  labels: IPAD_STATUSES,
                   datasets: [{
-                    data: [
-                      logs.filter(log => log.status === 'ส่งเข้า').length,
-                      logs.filter(log => log.status === 'ส่งออก').length
-                    ],
-                    backgroundColor: ['#4ade80', '#fb923c'],
-                    borderColor: ['#fff', '#fff'],
+                    data: IPAD_STATUSES.map(status => currentStatusCounts[status]),
+                    backgroundColor: IPAD_STATUSES.map(status => STATUS_STYLES[status].color),
+                    borderColor: IPAD_STATUSES.map(() => '#fff'),
                     borderWidth: 2,
                   }]
                 }}
@@ -678,6 +973,59 @@ export default function IPadTrackingSystem() {
           </div>
         </div>
 
+        {overdueDevices.length > 0 && (
+          <div className="bg-red-50 border-2 border-red-300 rounded-xl shadow-lg mb-6 overflow-hidden">
+            <div className="p-4 flex flex-wrap items-center justify-between gap-3">
+              <p className="text-red-800 font-semibold">
+                ⚠ ไอแพดเกินเวลาคืน {overdueDevices.length} เครื่อง
+                <span className="ml-2 font-normal text-red-700">
+                  (เกินนานสุด {overdueDevices[0].ipadTag} {formatDuration(overdueDevices[0].overdueMs)})
+                </span>
+              </p>
+              <button
+                type="button"
+                onClick={() => setShowOverdue(prev => !prev)}
+                className="px-3 py-1 bg-white text-red-700 border border-red-300 rounded-lg text-sm font-medium hover:bg-red-100"
+              >
+                {showOverdue ? 'ซ่อนรายการ' : 'ดูรายการ'}
+              </button>
+            </div>
+            {showOverdue && (
+              <div className="overflow-x-auto bg-white">
+                <table className="w-full border-collapse">
+                  <thead className="bg-red-100">
+                    <tr>
+                      <th className="px-4 py-2 text-left font-semibold text-red-800 border border-red-200">แท็กไอแพด</th>
+                      <th className="px-4 py-2 text-left font-semibold text-red-800 border border-red-200">ผู้ยืม</th>
+                      <th className="px-4 py-2 text-left font-semibold text-red-800 border border-red-200">แผนก</th>
+                      <th className="px-4 py-2 text-left font-semibold text-red-800 border border-red-200">ยืมเมื่อ</th>
+                      <th className="px-4 py-2 text-left font-semibold text-red-800 border border-red-200">ยืมไปแล้ว</th>
+                      <th className="px-4 py-2 text-left font-semibold text-red-800 border border-red-200">เกินกำหนด</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {overdueDevices.map(device => (
+                      <tr key={device.ipadTag} className="border-b border-red-50 hover:bg-red-50">
+                        <td className="px-4 py-2 font-mono text-gray-700">{device.ipadTag}</td>
+                        <td className="px-4 py-2">
+                          <span className="font-semibold text-blue-700">{device.employeeId}</span>
+                          {employeeNames.has(device.employeeId) && (
+                            <span className="ml-2 text-sm text-gray-500">{employeeNames.get(device.employeeId)}</span>
+                          )}
+                        </td>
+                        <td className="px-4 py-2 text-gray-700">{device.department}</td>
+                        <td className="px-4 py-2 text-gray-600">{new Date(device.checkedOutAt).toLocaleString('th-TH')}</td>
+                        <td className="px-4 py-2 text-gray-700">{formatDuration(device.durationMs)} <span className="text-xs text-gray-400">(กำหนด {device.limitHours} ชม.)</span></td>
+                        <td className="px-4 py-2 font-semibold text-red-700">{formatDuration(device.overdueMs)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
           <div className="md:col-span-2 grid grid-cols-1 md:grid-cols-2 gap-4">
             <button
@@ -731,7 +1079,7 @@ export default function IPadTrackingSystem() {
                   >
                     <option value="">-- เลือกแผนกสำหรับแก้ไข --</option>
                     {ipadDocs.map(d => (
-                      <option key={d.id} value={d.department ?? ''}>{d.department ?? d.id}</option>
+                      <option key={d.id} value={d.department ?? ''}>{d.department ?? d.id}{d.archived ? ' (เก็บถาวร)' : ''}</option>
                     ))}
                   </select>
                 </div>
@@ -767,6 +1115,73 @@ export default function IPadTrackingSystem() {
                 </div>
               )}
 
+              {selectedDevices.length > 0 && (
+                <div className="mt-4 border-t pt-4">
+                  <h3 className="text-sm font-semibold text-gray-700 mb-2">ข้อมูลอุปกรณ์ ({selectedDevices.length})</h3>
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm border-collapse">
+                      <thead>
+                        <tr className="bg-blue-50 text-blue-800">
+                          <th className="px-2 py-2 text-left border border-blue-100">แท็ก</th>
+                          <th className="px-2 py-2 text-left border border-blue-100">สถานะ</th>
+                          {(Object.keys(DEVICE_FIELD_LABELS) as (keyof DeviceDetails)[]).map(field => (
+                            <th key={field} className="px-2 py-2 text-left border border-blue-100">{DEVICE_FIELD_LABELS[field]}</th>
+                          ))}
+                          <th className="px-2 py-2 border border-blue-100" />
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {selectedDevices.map(device => {
+                          const draft = deviceDraftFor(device);
+                          const status = statusByTag.get(device.ipadTag);
+                          const nextStatuses = status ? STATUS_TRANSITIONS[status] || [] : IPAD_STATUSES;
+                          return (
+                            <tr key={device.ipadTag}>
+                              <td className="px-2 py-1 border border-blue-100 font-mono">{device.ipadTag}</td>
+                              <td className="px-1 py-1 border border-blue-100">
+                                <select
+                                  value=""
+                                  onChange={(e) => { if (isIpadStatus(e.target.value)) handleSetDeviceStatus(device, e.target.value); }}
+                                  className={`w-full px-2 py-1 border rounded ${status ? STATUS_STYLES[status].badge : ''}`}
+                                  aria-label={`สถานะ ${device.ipadTag}`}
+                                  disabled={nextStatuses.length === 0 || savingDevice === device.ipadTag}
+                                >
+                                  <option value="">{status || 'ยังไม่มีสถานะ'}</option>
+                                  {nextStatuses.map(next => (
+                                    <option key={next} value={next}>→ {next}</option>
+                                  ))}
+                                </select>
+                              </td>
+                              {(Object.keys(DEVICE_FIELD_LABELS) as (keyof DeviceDetails)[]).map(field => (
+                                <td key={field} className="px-1 py-1 border border-blue-100">
+                                  <input
+                                    type={field === 'purchaseDate' ? 'date' : 'text'}
+                                    value={draft[field] || ''}
+                                    onChange={(e) => handleDeviceFieldChange(device, field, e.target.value)}
+                                    className="w-full px-2 py-1 border rounded"
+                                    aria-label={`${DEVICE_FIELD_LABELS[field]} ${device.ipadTag}`}
+                                  />
+                                </td>
+                              ))}
+                              <td className="px-2 py-1 border border-blue-100">
+                                <button
+                                  type="button"
+                                  onClick={() => handleSaveDevice(device)}
+                                  className="px-3 py-1 bg-blue-600 text-white rounded disabled:opacity-60"
+                                  disabled={!deviceDrafts[device.ipadTag] || savingDevice === device.ipadTag}
+                                >
+                                  {savingDevice === device.ipadTag ? 'กำลังบันทึก...' : 'บันทึก'}
+                                </button>
+                              </td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              )}
+
               {/* Small department management panel: add single tag, rename, delete */}
               <div className="mt-4 border-t pt-4">
                 <h3 className="text-sm font-semibold text-gray-700 mb-2">จัดการแผนกที่เลือก</h3>
@@ -776,10 +1191,17 @@ export default function IPadTrackingSystem() {
                     <input value={newSingleTag} onChange={(e) => setNewSingleTag(e.target.value)} className="w-full px-3 py-2 border rounded" placeholder="แท็กเดียว" />
                   </div>
                   <div>
-                    <button type="button" onClick={handleAddSingleTag} className="px-3 py-2 bg-green-600 text-white rounded disabled:opacity-60" disabled={!selectedDeptForEdit || !newSingleTag.trim()}>เพิ่มแท็ก</button>
+                    <button type="button" onClick={handleAddSingleTag} className="px-3 py-2 bg-green-600 text-white rounded disabled:opacity-60" disabled={!(selectedDeptForEdit || tagRuleMatch) || !newSingleTag.trim()}>
+                      {selectedDeptForEdit || !tagRuleMatch ? 'เพิ่มแท็ก' : `เพิ่มเข้า ${tagRuleMatch.department}`}
+                    </button>
                   </div>
                   <div />
                 </div>
+                {tagRuleMatch && (
+                  <p className={`mt-1 text-xs ${selectedDeptForEdit && tagRuleMatch.department !== selectedDeptForEdit ? 'text-amber-600' : 'text-gray-500'}`}>
+                    กฎ &quot;{tagRuleMatch.pattern}&quot; แนะนำแผนก &quot;{tagRuleMatch.department}&quot;
+                  </p>
+                )}
 
                 <div className="mt-3 grid grid-cols-1 md:grid-cols-3 gap-2 items-end">
                   <div>
@@ -793,6 +1215,94 @@ export default function IPadTrackingSystem() {
                     {/* delete button moved to action row below for clearer layout */}
                   </div>
                 </div>
+
+                <div className="mt-3 grid grid-cols-1 md:grid-cols-4 gap-2 items-end">
+                  <div>
+                    <label className="text-xs text-gray-600">ย้ายแท็ก (คั่นด้วยจุลภาคหรือเว้นวรรค)</label>
+                    <input value={transferInput} onChange={(e) => setTransferInput(e.target.value)} className="w-full px-3 py-2 border rounded" placeholder="เช่น ER-01, ER-02" />
+                  </div>
+                  <div>
+                    <label className="text-xs text-gray-600">ไปแผนก</label>
+                    <select value={transferTarget} onChange={(e) => setTransferTarget(e.target.value)} className="w-full px-3 py-2 border rounded">
+                      <option value="">-- เลือกแผนกปลายทาง --</option>
+                      {allDepartments.map(dept => (
+                        <option key={dept.name} value={dept.name}>{dept.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="text-xs text-gray-600">มีผลตั้งแต่</label>
+                    <input type="datetime-local" value={transferEffectiveAt} onChange={(e) => setTransferEffectiveAt(e.target.value)} className="w-full px-3 py-2 border rounded" />
+                  </div>
+                  <div>
+                    <button type="button" onClick={handleTransferTags} className="px-3 py-2 bg-purple-600 text-white rounded disabled:opacity-60" disabled={transferring || !transferInput.trim() || !transferTarget || !transferEffectiveAt}>
+                      {transferring ? 'กำลังย้าย...' : 'ย้ายแท็ก'}
+                    </button>
+                  </div>
+                </div>
+
+                <div className="mt-3 flex items-center gap-3">
+                  <button type="button" onClick={handleBackfillStates} className="px-3 py-2 bg-gray-600 text-white rounded disabled:opacity-60" disabled={backfilling}>
+                    {backfilling ? 'กำลังสร้างดัชนี...' : 'สร้างดัชนีสถานะจากประวัติ'}
+                  </button>
+                  <span className="text-xs text-gray-500">ใช้ครั้งแรกหลังอัปเดตระบบ หรือเมื่อสถานะแท็กไม่ตรงกับประวัติ</span>
+                </div>
+
+                <div className="mt-3 flex items-center gap-3">
+                  <button type="button" onClick={handleMigrateDevices} className="px-3 py-2 bg-gray-600 text-white rounded disabled:opacity-60" disabled={migratingDevices}>
+                    {migratingDevices ? 'กำลังย้ายข้อมูล...' : 'ย้ายแท็กเดิมเป็นข้อมูลอุปกรณ์'}
+                  </button>
+                  <span className="text-xs text-gray-500">ใช้ครั้งเดียวหลังอัปเดตระบบ แผนกที่ถูกแก้ไขจะถูกย้ายให้อัตโนมัติ</span>
+                </div>
+
+                <div className="mt-3 flex items-center gap-3">
+                  <button type="button" onClick={handleMigrateLogSchema} className="px-3 py-2 bg-gray-600 text-white rounded disabled:opacity-60" disabled={migratingLogs}>
+                    {migratingLogs ? 'กำลังตรวจข้อมูล...' : 'ปรับรูปแบบข้อมูลประวัติ'}
+                  </button>
+                  <span className="text-xs text-gray-500">แสดงรายการที่จะเปลี่ยนก่อนเขียนจริง รันซ้ำได้ รายการที่ปรับแล้วจะถูกข้าม</span>
+                </div>
+
+                <div className="mt-3 flex items-center gap-3">
+                  <button type="button" onClick={() => router.push('/sessions')} className="px-3 py-2 bg-orange-500 text-white rounded">
+                    ช่วงการยืม
+                  </button>
+                  <button type="button" onClick={() => router.push('/checkout-limits')} className="px-3 py-2 bg-red-500 text-white rounded">
+                    เวลายืมสูงสุด
+                  </button>
+                  <button type="button" onClick={() => router.push('/shifts')} className="px-3 py-2 bg-teal-600 text-white rounded">
+                    รายงานส่งเวร
+                  </button>
+                  <button type="button" onClick={() => router.push('/audit')} className="px-3 py-2 bg-indigo-600 text-white rounded">
+                    ประวัติการแก้ไขแผนก/แท็ก
+                  </button>
+                  <button type="button" onClick={handleFindDuplicateTags} className="px-3 py-2 bg-amber-500 text-white rounded">
+                    ตรวจแท็กซ้ำ
+                  </button>
+                  <button type="button" onClick={() => router.push('/employees')} className="px-3 py-2 bg-teal-600 text-white rounded">
+                    ทะเบียนพนักงาน
+                  </button>
+                  <button type="button" onClick={() => router.push('/scanner')} className="px-3 py-2 bg-blue-500 text-white rounded">
+                    เครื่องสแกน
+                  </button>
+                  <button type="button" onClick={() => router.push('/tag-rules')} className="px-3 py-2 bg-cyan-600 text-white rounded">
+                    กฎแท็กและแผนก
+                  </button>
+                  <button type="button" onClick={() => router.push('/tag-policy')} className="px-3 py-2 bg-sky-700 text-white rounded">
+                    รูปแบบแท็ก
+                  </button>
+                  <button type="button" onClick={() => router.push('/catalog-import')} className="px-3 py-2 bg-emerald-600 text-white rounded">
+                    นำเข้าแผนก/แท็กจากไฟล์
+                  </button>
+                  <button type="button" onClick={() => router.push('/log-import')} className="px-3 py-2 bg-purple-600 text-white rounded">
+                    นำเข้าประวัติจากไฟล์เดิม
+                  </button>
+                  <button type="button" onClick={() => router.push('/backup')} className="px-3 py-2 bg-slate-700 text-white rounded">
+                    สำรอง/กู้คืนข้อมูล
+                  </button>
+                  <button type="button" onClick={() => promptActor(true)} className="px-3 py-2 bg-white text-gray-700 border rounded">
+                    เปลี่ยนชื่อผู้ทำรายการ
+                  </button>
+                </div>
               </div>
 
               <div className="flex items-center justify-end space-x-3 pt-2">
@@ -829,10 +1339,12 @@ export default function IPadTrackingSystem() {
                     });
 
                     if (result.isConfirmed) {
+                      const actor = await promptActor();
+                      if (!actor) return;
                       try {
                         setSaveError(null);
                         setSavingDept(true);
-                        await upsertIpadDepartment(newDepartment.trim(), []);
+                        await upsertIpadDepartment(newDepartment.trim(), [], actor);
                         const depts = await getDepartmentsFromDB();
                         setDepartments(['ทั้งหมด', ...depts]);
                         try { const docs = await getIpadDocs(); setIpadDocs(docs); } catch {}
@@ -872,7 +1384,7 @@ export default function IPadTrackingSystem() {
             
             ตัวกรองข้อมูล
           </h2>
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-7 gap-4">
             <VercelDateRangePicker 
               initialRange={dateRange}
               onDateRangeChange={(range) => {setDateRange(range); setCurrentPage(1);}} 
@@ -880,11 +1392,18 @@ export default function IPadTrackingSystem() {
             />
             <input
               type="text"
-              placeholder="🔍 รหัสพนักงาน"
+              placeholder="🔍 รหัสพนักงาน (ตรงทั้งหมด)"
               value={filterEmployee}
               onChange={(e: ChangeEvent<HTMLInputElement>) => {setFilterEmployee(e.target.value); setCurrentPage(1);}}
               className="px-4 py-2 border-2 border-blue-200 rounded-lg focus:border-blue-500 focus:outline-none"
             />
+            <input
+              type="text"
+              placeholder="🔍 แท็กไอแพด"
+              value={filterTag}
+              onChange={(e: ChangeEvent<HTMLInputElement>) => {setFilterTag(e.target.value); setCurrentPage(1);}}
+              className="px-4 py-2 border-2 border-blue-200 rounded-lg focus:border-blue-500 focus:outline-none"
+            />
             <select
               value={filterDept}
               onChange={(e: ChangeEvent<HTMLSelectElement>) => {setFilterDept(e.target.value); setCurrentPage(1);}}
@@ -900,12 +1419,22 @@ export default function IPadTrackingSystem() {
               className="px-4 py-2 border-2 border-blue-200 rounded-lg focus:border-blue-500 focus:outline-none"
             >
               <option value="ทั้งหมด">สถานะทั้งหมด</option>
-              <option value="ส่งเข้า">ส่งเข้า</option>
-              <option value="ส่งออก">ส่งออก</option>
+              {IPAD_STATUSES.map(status => (
+                <option key={status} value={status}>{status}</option>
+              ))}
+            </select>
+            <select
+              value={filterSource}
+              onChange={(e: ChangeEvent<HTMLSelectElement>) => {setFilterSource(e.target.value as 'all' | 'scanned' | 'imported'); setCurrentPage(1);}}
+              className="px-4 py-2 border-2 border-blue-200 rounded-lg focus:border-blue-500 focus:outline-none"
+            >
+              <option value="all">ทุกแหล่งข้อมูล</option>
+              <option value="scanned">สแกนจากระบบ</option>
+              <option value="imported">นำเข้าจากไฟล์เดิม</option>
             </select>
             <select
               value={sortOrder}
-              onChange={(e: ChangeEvent<HTMLSelectElement>) => setSortOrder(e.target.value as SortOrder)}
+              onChange={(e: ChangeEvent<HTMLSelectElement>) => {setSortOrder(e.target.value as SortOrder); setCurrentPage(1);}}
               className="px-4 py-2 border-2 border-blue-200 rounded-lg focus:border-blue-500 focus:outline-none"
             >
               <option value="desc">ล่าสุดก่อน</option>
@@ -924,7 +1453,7 @@ export default function IPadTrackingSystem() {
             </div>
             <div className="text-right">
               <p className="text-sm opacity-90">ข้อมูลทั้งหมดในระบบ</p>
-              <p className="text-2xl font-bold">{logs.length} รายการ</p>
+              <p className="text-2xl font-bold">{totalInSystem} รายการ</p>
             </div>
           </div>
         </div>
@@ -951,6 +1480,13 @@ export default function IPadTrackingSystem() {
                   ลบที่เลือก ({showDeptSummary ? Object.values(selectedDeptLogs).filter(Boolean).length : Object.values(selectedLogs).filter(Boolean).length})
                 </button>
               )}
+              <button
+                onClick={() => router.push('/trash')}
+                className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors text-sm font-medium flex items-center gap-2"
+              >
+                <Trash2 className="w-4 h-4" />
+                ถังขยะ
+              </button>
               {showDeptSummary && (
                 <button
                   onClick={exportToCSV}
@@ -1012,6 +1548,11 @@ export default function IPadTrackingSystem() {
                               ({dept.tagCount} แท็ก)
                             </span>
                           )}
+                          {LIFECYCLE_STATUSES.filter(status => dept.lifecycle[status]).map(status => (
+                            <span key={status} className={`ml-2 px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[status].badge}`}>
+                              {status} {dept.lifecycle[status]}
+                            </span>
+                          ))}
                         </td>
                         {/* Render day counts (in/out badges) */}
                         {dept.days && dept.days.map((count, idx) => (
@@ -1060,18 +1601,28 @@ export default function IPadTrackingSystem() {
                       </tr>
                     ) : (
                       currentLogs.map((log: Log) => (
-                        <tr key={log.id} className="border-b border-blue-50 hover:bg-blue-50 transition-colors">
+                        <tr key={log.id} className={`border-b border-blue-50 hover:bg-blue-50 transition-colors duration-700 ${highlightedIds.has(log.id) ? 'bg-yellow-100' : ''}`}>
                           <td className="px-4 py-3 text-gray-700 font-mono">{log.ipadTag}</td>
-                          <td className="px-4 py-3 font-semibold text-blue-700">{log.employeeId}</td>
+                          <td className="px-4 py-3">
+                            {log.changedBy && !log.employeeId ? (
+                              <span className="text-sm text-gray-500">ผู้ดูแล: {log.changedBy}</span>
+                            ) : (
+                              <>
+                                <span className="font-semibold text-blue-700">{log.employeeId}</span>
+                                {employeeNames.has(log.employeeId) && (
+                                  <span className="block text-sm text-gray-500">{employeeNames.get(log.employeeId)}</span>
+                                )}
+                              </>
+                            )}
+                          </td>
                           <td className="px-4 py-3 text-gray-700">{log.department}</td>
                           <td className="px-4 py-3">
-                            <span className={`px-3 py-1 rounded-full text-sm font-semibold ${
-                              log.status === 'ส่งเข้า' 
-                                ? 'bg-green-100 text-green-700' 
-                                : 'bg-orange-100 text-orange-700'
-                            }`}>
+                            <span className={`px-3 py-1 rounded-full text-sm font-semibold ${STATUS_STYLES[log.status]?.badge || 'bg-gray-100 text-gray-700'}`}>
                               {log.status}
                             </span>
+                            {log.imported && (
+                              <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-700">นำเข้า</span>
+                            )}
                           </td>
                           <td className="px-4 py-3 text-gray-600">{log.date}</td>
                           <td className="px-4 py-3 text-gray-600">{log.time}</td>
@@ -1095,8 +1646,8 @@ export default function IPadTrackingSystem() {
                     หน้า {currentPage} จาก {totalPages}
                   </span>
                   <button
-                    onClick={() => setCurrentPage(prev => Math.min(totalPages, prev + 1))}
-                    disabled={currentPage === totalPages}
+                    onClick={() => setCurrentPage(prev => prev + 1)}
+                    disabled={!nextCursor}
                     className="px-4 py-2 bg-white text-blue-600 border-2 border-blue-200 rounded-lg font-semibold disabled:opacity-50 disabled:cursor-not-allowed hover:bg-blue-50 transition-colors"
                   >
                     ถัดไป →
@@ -0,0 +1,339 @@
+"use client";
+
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { useRouter } from 'next/navigation';
+import Swal from 'sweetalert2';
+import { Plus, Trash2 } from 'lucide-react';
+import BubbleBackground from '../../components/BubbleBackground';
+import { promptActor } from '../../components/adminPrompts';
+import { getKioskScannerProfile, setKioskScannerProfile } from '../../components/kioskScanner';
+import {
+  getScannerProfiles,
+  saveScannerProfiles,
+  validateScannerProfile,
+  parseScan,
+  getEmployees,
+  getIpadDocs,
+  getTagPolicy,
+  indexTags,
+  resolveTag,
+  CHECK_DIGIT_LABELS,
+  DEFAULT_SCANNER_FIELD,
+  DEFAULT_TAG_POLICY,
+  Employee,
+  ScannerFieldRule,
+  ScannerProfile,
+  TagPolicy
+} from '../../dbService';
+
+type ScanField = 'employee' | 'tag';
+
+const FIELD_LABELS: Record<ScanField, string> = {
+  employee: 'รหัสพนักงาน',
+  tag: 'แท็กไอแพด'
+};
+
+const newProfileId = () => `scanner-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+const splitList = (value: string): string[] => value.split(',').map(v => v.trim()).filter(Boolean);
+
+// Control characters sent by the scanner, made visible
+const showRaw = (value: string): string =>
+  value.replace(/[\x00-\x1f\x7f]/g, c => `<${c.charCodeAt(0).toString(16).padStart(2, '0')}>`);
+
+function FieldRuleEditor({ rule, onChange }: { rule: ScannerFieldRule; onChange: (change: Partial<ScannerFieldRule>) => void }) {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+      <div>
+        <label className="block text-xs font-medium text-gray-600 mb-1">ตัดคำนำหน้า (คั่นด้วย ,)</label>
+        <input
+          defaultValue={rule.prefixes.join(', ')}
+          onBlur={e => onChange({ prefixes: splitList(e.target.value) })}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-sm"
+        />
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-gray-600 mb-1">ตัดคำต่อท้าย (คั่นด้วย ,)</label>
+        <input
+          defaultValue={rule.suffixes.join(', ')}
+          onBlur={e => onChange({ suffixes: splitList(e.target.value) })}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-sm"
+        />
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-gray-600 mb-1">ดึงค่าด้วย regex (กลุ่มแรก)</label>
+        <input
+          value={rule.extract}
+          onChange={e => onChange({ extract: e.target.value })}
+          placeholder="EMP(\d+)"
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-sm"
+        />
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-gray-600 mb-1">เลขตรวจสอบ (หลักสุดท้าย)</label>
+        <div className="flex items-center gap-3">
+          <select
+            value={rule.checkDigit}
+            onChange={e => onChange({ checkDigit: e.target.value as ScannerFieldRule['checkDigit'] })}
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          >
+            {(Object.keys(CHECK_DIGIT_LABELS) as ScannerFieldRule['checkDigit'][]).map(key => (
+              <option key={key} value={key}>{CHECK_DIGIT_LABELS[key]}</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-1 text-xs text-gray-600 whitespace-nowrap">
+            <input
+              type="checkbox"
+              checked={rule.stripCheckDigit}
+              disabled={rule.checkDigit === 'none'}
+              onChange={e => onChange({ stripCheckDigit: e.target.checked })}
+            />
+            ตัดออก
+          </label>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function ScannerPage() {
+  const router = useRouter();
+  const [profiles, setProfiles] = useState<ScannerProfile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dirty, setDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [kioskProfileId, setKioskProfileId] = useState('');
+  const [testProfileId, setTestProfileId] = useState('');
+  const [testField, setTestField] = useState<ScanField>('employee');
+  const [testInput, setTestInput] = useState('');
+  const [employees, setEmployees] = useState<Employee[]>([]);
+  const [tags, setTags] = useState<string[]>([]);
+  const [tagPolicy, setTagPolicy] = useState<TagPolicy>(DEFAULT_TAG_POLICY);
+  const testInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    Promise.all([getScannerProfiles(), getEmployees(), getIpadDocs(), getTagPolicy()]).then(([stored, registry, docs, policy]) => {
+      setProfiles(stored);
+      setEmployees(registry);
+      setTags(docs.flatMap(d => d.tags || []));
+      setTagPolicy(policy);
+      const selected = getKioskScannerProfile();
+      setKioskProfileId(selected?.id || '');
+      setTestProfileId(selected?.id || stored[0]?.id || '');
+      setLoading(false);
+    });
+  }, []);
+
+  const updateProfiles = (next: ScannerProfile[]) => {
+    setProfiles(next);
+    setDirty(true);
+  };
+
+  const updateProfile = (id: string, change: Partial<ScannerProfile>) =>
+    updateProfiles(profiles.map(p => (p.id === id ? { ...p, ...change } : p)));
+
+  const updateField = (id: string, field: ScanField, change: Partial<ScannerFieldRule>) =>
+    updateProfiles(profiles.map(p => (p.id === id ? { ...p, [field]: { ...p[field], ...change } } : p)));
+
+  const addProfile = () => {
+    const profile: ScannerProfile = {
+      id: newProfileId(),
+      name: `เครื่องสแกน ${profiles.length + 1}`,
+      employee: DEFAULT_SCANNER_FIELD,
+      tag: DEFAULT_SCANNER_FIELD
+    };
+    updateProfiles([...profiles, profile]);
+    setTestProfileId(profile.id);
+  };
+
+  const removeProfile = async (profile: ScannerProfile) => {
+    const result = await Swal.fire({
+      title: 'ลบโปรไฟล์?',
+      text: `จุดสแกนที่ใช้ "${profile.name}" อยู่จะยังใช้ค่าเดิมที่เก็บในเครื่องจนกว่าจะเลือกใหม่`,
+      icon: 'warning',
+      showCancelButton: true,
+      confirmButtonText: 'ใช่, ลบ',
+      cancelButtonText: 'ยกเลิก',
+      confirmButtonColor: '#d33'
+    });
+    if (!result.isConfirmed) return;
+    updateProfiles(profiles.filter(p => p.id !== profile.id));
+  };
+
+  const handleSave = async () => {
+    const invalid = profiles.map(validateScannerProfile).find(Boolean);
+    if (invalid) {
+      Swal.fire('โปรไฟล์ไม่ถูกต้อง', invalid, 'error');
+      return;
+    }
+    const actor = await promptActor();
+    if (!actor) return;
+    try {
+      setSaving(true);
+      await saveScannerProfiles(profiles, actor);
+      setDirty(false);
+      // This kiosk keeps its own copy, so refresh it with the saved version
+      const selected = profiles.find(p => p.id === kioskProfileId);
+      if (selected) setKioskScannerProfile(selected);
+      Swal.fire('สำเร็จ', 'บันทึกโปรไฟล์เครื่องสแกนเรียบร้อยแล้ว', 'success');
+    } catch (e) {
+      console.error('Error saving scanner profiles:', e);
+      Swal.fire('เกิดข้อผิดพลาด', e instanceof Error ? e.message : 'ไม่สามารถบันทึกโปรไฟล์ได้', 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleKioskProfile = (id: string) => {
+    const profile = profiles.find(p => p.id === id) || null;
+    if (profile && dirty) {
+      Swal.fire('ยังไม่ได้บันทึก', 'บันทึกโปรไฟล์ก่อนเลือกใช้กับเครื่องนี้', 'warning');
+      return;
+    }
+    setKioskScannerProfile(profile);
+    setKioskProfileId(profile?.id || '');
+  };
+
+  const testProfile = profiles.find(p => p.id === testProfileId);
+  const parsed = testInput ? parseScan(testInput, testProfile?.[testField]) : null;
+  const tagIndex = useMemo(() => indexTags(tags, tagPolicy), [tags, tagPolicy]);
+
+  // What the kiosk would do with the parsed value
+  const lookup = (() => {
+    if (!parsed || parsed.error) return null;
+    if (testField === 'employee') {
+      if (employees.length === 0) return { ok: true, text: 'ยังไม่มีทะเบียนพนักงาน จุดสแกนจะรับทุกรหัส' };
+      const employee = employees.find(e => e.employeeId === parsed.value);
+      if (!employee) return { ok: false, text: 'ไม่พบรหัสพนักงานนี้ในทะเบียน' };
+      return { ok: employee.active, text: `${employee.name}${employee.department ? ` (${employee.department})` : ''}${employee.active ? '' : ' - ปิดการใช้งาน'}` };
+    }
+    const stored = resolveTag(parsed.value, tagIndex, tagPolicy);
+    return stored ? { ok: true, text: `พบแท็ก ${stored}` } : { ok: false, text: 'ไม่พบแท็กนี้ในระบบ' };
+  })();
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-sky-50 relative">
+      <BubbleBackground />
+      <div className="relative z-10 max-w-7xl mx-auto p-4 md:p-6">
+        <div className="bg-white rounded-2xl shadow-xl p-6 md:p-8 mb-6 flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold bg-gradient-to-r from-blue-500 to-blue-800 text-transparent bg-clip-text mb-1">เครื่องสแกน</h1>
+            <p className="text-gray-500">ตัดคำนำหน้า/ต่อท้าย ดึงค่าด้วย regex และตรวจเลขตรวจสอบ ก่อนใช้รหัสพนักงานและแท็กที่จุดสแกน</p>
+          </div>
+          <button
+            onClick={() => router.push('/')}
+            className="px-6 py-3 bg-white text-gray-700 border-2 border-gray-200 rounded-lg font-semibold hover:bg-gray-50 hover:border-gray-300 transition-all shadow-sm"
+          >
+            ย้อนกลับไปหน้าหลัก
+          </button>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-lg p-6 mb-6 border border-blue-100 flex flex-wrap items-center gap-3">
+          <label className="text-sm font-medium text-gray-700">เครื่องนี้ใช้โปรไฟล์</label>
+          <select
+            value={kioskProfileId}
+            onChange={e => handleKioskProfile(e.target.value)}
+            disabled={loading}
+            className="px-3 py-2 border border-gray-300 rounded-lg"
+          >
+            <option value="">ไม่ใช้ (รับค่าตามที่พิมพ์)</option>
+            {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </select>
+          <span className="text-xs text-gray-500">ตั้งค่าแยกแต่ละเครื่อง เปิดหน้านี้บนเครื่องของจุดสแกนแล้วเลือกโปรไฟล์</span>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-lg p-6 mb-6 border border-blue-100">
+          <h2 className="text-lg font-semibold text-blue-800 mb-3">ทดสอบการสแกน</h2>
+          <div className="flex flex-wrap items-center gap-3 mb-3">
+            <select value={testProfileId} onChange={e => setTestProfileId(e.target.value)} className="px-3 py-2 border border-gray-300 rounded-lg">
+              <option value="">ไม่ใช้โปรไฟล์</option>
+              {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </select>
+            {(Object.keys(FIELD_LABELS) as ScanField[]).map(field => (
+              <label key={field} className="flex items-center gap-1 text-sm text-gray-700">
+                <input type="radio" checked={testField === field} onChange={() => setTestField(field)} />
+                {FIELD_LABELS[field]}
+              </label>
+            ))}
+          </div>
+          <input
+            ref={testInputRef}
+            value={testInput}
+            onChange={e => setTestInput(e.target.value)}
+            // The scanner ends each code with Enter; select it so the next scan replaces it
+            onKeyDown={e => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                testInputRef.current?.select();
+              }
+            }}
+            placeholder="คลิกที่นี่แล้วสแกน"
+            className="w-full px-4 py-3 border-2 border-blue-200 rounded-lg focus:border-blue-500 focus:outline-none font-mono"
+            autoComplete="off"
+            spellCheck={false}
+          />
+          {parsed && (
+            <div className="mt-3 text-sm space-y-1">
+              <div><span className="text-gray-500">ที่สแกนได้: </span><span className="font-mono">{showRaw(testInput)}</span></div>
+              {parsed.steps.map(step => <div key={step} className="text-gray-600">• {step}</div>)}
+              {parsed.error ? (
+                <div className="text-red-600 font-medium">✗ {parsed.error}</div>
+              ) : (
+                <div><span className="text-gray-500">ผลลัพธ์: </span><span className="font-mono font-semibold text-blue-700">{parsed.value}</span></div>
+              )}
+              {lookup && <div className={lookup.ok ? 'text-green-700' : 'text-red-600'}>{lookup.ok ? '✓' : '✗'} {lookup.text}</div>}
+            </div>
+          )}
+        </div>
+
+        <div className="bg-white rounded-xl shadow-lg p-6 mb-6 border border-blue-100">
+          <div className="flex flex-wrap justify-between items-center gap-3 mb-4">
+            <h2 className="text-lg font-semibold text-blue-800">โปรไฟล์ ({profiles.length})</h2>
+            <div className="flex gap-3">
+              <button
+                onClick={addProfile}
+                disabled={loading}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm font-medium flex items-center gap-2 disabled:opacity-50"
+              >
+                <Plus className="w-4 h-4" />
+                เพิ่มโปรไฟล์
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={!dirty || saving}
+                className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 text-sm font-medium disabled:opacity-50"
+              >
+                {saving ? 'กำลังบันทึก...' : 'บันทึกโปรไฟล์'}
+              </button>
+            </div>
+          </div>
+          {profiles.length === 0 && !loading && (
+            <p className="text-gray-500 text-sm">ยังไม่มีโปรไฟล์ จุดสแกนจะรับค่าตามที่พิมพ์หรือสแกน (ตัดช่องว่างหัวท้ายเท่านั้น)</p>
+          )}
+          <div className="space-y-4">
+            {profiles.map(profile => (
+              <div key={profile.id} className="border border-blue-100 rounded-lg p-4">
+                <div className="flex items-center gap-3 mb-3">
+                  <input
+                    value={profile.name}
+                    onChange={e => updateProfile(profile.id, { name: e.target.value })}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-lg font-semibold"
+                  />
+                  <button onClick={() => removeProfile(profile)} className="p-2 text-red-600 hover:bg-red-50 rounded-lg" aria-label="ลบโปรไฟล์">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+                {(Object.keys(FIELD_LABELS) as ScanField[]).map(field => (
+                  <div key={field} className="mb-3">
+                    <p className="text-sm font-medium text-gray-700 mb-2">{FIELD_LABELS[field]}</p>
+                    <FieldRuleEditor rule={profile[field]} onChange={change => updateField(profile.id, field, change)} />
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,275 @@
+"use client";
+
+import { useState, useEffect, useMemo } from 'react';
+import { useRouter } from 'next/navigation';
+import { Download } from 'lucide-react';
+import { format, startOfDay, endOfDay, subDays } from 'date-fns';
+import BubbleBackground from '../../components/BubbleBackground';
+import { downloadCsv } from '../../components/download';
+import { toCsv } from '../../csv';
+import {
+  getCheckoutSessions,
+  getDepartmentsFromDB,
+  getEmployees,
+  formatDuration,
+  CheckoutSession,
+  SessionFilter
+} from '../../dbService';
+
+type SessionSort = 'duration-desc' | 'duration-asc' | 'checkout-desc' | 'checkout-asc';
+
+const SORT_LABELS: Record<SessionSort, string> = {
+  'duration-desc': 'นานที่สุดก่อน',
+  'duration-asc': 'สั้นที่สุดก่อน',
+  'checkout-desc': 'ยืมล่าสุดก่อน',
+  'checkout-asc': 'ยืมเก่าสุดก่อน'
+};
+
+const compareSessions: Record<SessionSort, (a: CheckoutSession, b: CheckoutSession) => number> = {
+  'duration-desc': (a, b) => b.durationMs - a.durationMs,
+  'duration-asc': (a, b) => a.durationMs - b.durationMs,
+  'checkout-desc': (a, b) => new Date(b.checkedOutAt).getTime() - new Date(a.checkedOutAt).getTime(),
+  'checkout-asc': (a, b) => new Date(a.checkedOutAt).getTime() - new Date(b.checkedOutAt).getTime()
+};
+
+const formatTime = (iso?: string) => (iso ? new Date(iso).toLocaleString('th-TH') : '-');
+
+export default function SessionsPage() {
+  const router = useRouter();
+  const [sessions, setSessions] = useState<CheckoutSession[]>([]);
+  const [departments, setDepartments] = useState<string[]>([]);
+  const [employeeNames, setEmployeeNames] = useState<Map<string, string>>(new Map());
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [startDate, setStartDate] = useState(format(subDays(new Date(), 6), 'yyyy-MM-dd'));
+  const [endDate, setEndDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [ipadTag, setIpadTag] = useState('');
+  const [department, setDepartment] = useState('');
+  const [employeeId, setEmployeeId] = useState('');
+  const [openOnly, setOpenOnly] = useState(false);
+  const [differentOnly, setDifferentOnly] = useState(false);
+  const [sort, setSort] = useState<SessionSort>('duration-desc');
+
+  useEffect(() => {
+    getDepartmentsFromDB().then(setDepartments);
+    getEmployees().then(employees => setEmployeeNames(new Map(employees.map(e => [e.employeeId, e.name]))));
+  }, []);
+
+  const filter = useMemo<SessionFilter>(() => ({
+    from: startDate ? startOfDay(new Date(startDate)).toISOString() : undefined,
+    to: endDate ? endOfDay(new Date(endDate)).toISOString() : undefined,
+    ipadTag: ipadTag.trim() || undefined,
+    department: department || undefined,
+    employeeId: employeeId.trim() || undefined
+  }), [startDate, endDate, ipadTag, department, employeeId]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    getCheckoutSessions(filter)
+      .then(result => { if (!cancelled) setSessions(result); })
+      .catch(e => { if (!cancelled) setError(e instanceof Error ? e.message : 'ไม่สามารถโหลดช่วงการยืมได้'); })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [filter]);
+
+  const visible = useMemo(() =>
+    sessions
+      .filter(s => (!openOnly || s.open) && (!differentOnly || s.differentPeople))
+      .sort(compareSessions[sort]),
+  [sessions, openOnly, differentOnly, sort]);
+
+  const closed = sessions.filter(s => !s.open);
+  const averageMs = closed.length > 0 ? closed.reduce((total, s) => total + s.durationMs, 0) / closed.length : 0;
+
+  const person = (id?: string) => {
+    if (!id) return '-';
+    const name = employeeNames.get(id);
+    return name ? `${id} ${name}` : id;
+  };
+
+  const toggleDurationSort = () => setSort(prev => (prev === 'duration-desc' ? 'duration-asc' : 'duration-desc'));
+
+  const handleDownload = () => {
+    const rows = [
+      ['แท็ก', 'แผนก', 'ยืมเมื่อ', 'ผู้ยืม', 'คืนเมื่อ', 'ผู้คืน', 'สถานะที่ปิดช่วง', 'ระยะเวลา (นาที)', 'คืนต่างคน'],
+      ...visible.map(s => [
+        s.ipadTag,
+        s.department,
+        formatTime(s.checkedOutAt),
+        person(s.checkedOutBy),
+        s.open ? 'ยังไม่คืน' : formatTime(s.endedAt),
+        person(s.endedBy),
+        s.endStatus || '',
+        Math.round(s.durationMs / 60000),
+        s.differentPeople ? 'ใช่' : ''
+      ])
+    ];
+    downloadCsv(`checkout_sessions_${format(new Date(), 'yyyyMMdd_HHmm')}.csv`, toCsv(rows));
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-sky-50 relative">
+      <BubbleBackground />
+      <div className="relative z-10 max-w-7xl mx-auto p-4 md:p-6">
+        <div className="bg-white rounded-2xl shadow-xl p-6 md:p-8 mb-6 flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold bg-gradient-to-r from-blue-500 to-blue-800 text-transparent bg-clip-text mb-1">ช่วงการยืม</h1>
+            <p className="text-gray-500">การส่งออกแต่ละครั้งจับคู่กับการส่งเข้าครั้งถัดไปของแท็กเดียวกัน พร้อมระยะเวลาและผู้ยืม/ผู้คืน</p>
+          </div>
+          <button
+            onClick={() => router.push('/')}
+            className="px-6 py-3 bg-white text-gray-700 border-2 border-gray-200 rounded-lg font-semibold hover:bg-gray-50 hover:border-gray-300 transition-all shadow-sm"
+          >
+            ย้อนกลับไปหน้าหลัก
+          </button>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-lg p-6 mb-6 border border-blue-100">
+          <div className="grid grid-cols-1 md:grid-cols-6 gap-4 items-end">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">ตั้งแต่วันที่</label>
+              <input type="date" value={startDate} onChange={e => setStartDate(e.target.value)} className="w-full px-3 py-2 border border-gray-300 rounded-lg" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">ถึงวันที่</label>
+              <input type="date" value={endDate} onChange={e => setEndDate(e.target.value)} className="w-full px-3 py-2 border border-gray-300 rounded-lg" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">แท็กไอแพด</label>
+              <input value={ipadTag} onChange={e => setIpadTag(e.target.value)} placeholder="ทั้งหมด" className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">แผนก</label>
+              <select value={department} onChange={e => setDepartment(e.target.value)} className="w-full px-3 py-2 border border-gray-300 rounded-lg">
+                <option value="">ทั้งหมด</option>
+                {departments.map(d => <option key={d} value={d}>{d}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">รหัสพนักงาน (ผู้ยืมหรือผู้คืน)</label>
+              <input value={employeeId} onChange={e => setEmployeeId(e.target.value)} placeholder="ทั้งหมด" className="w-full px-3 py-2 border border-gray-300 rounded-lg" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">เรียงตาม</label>
+              <select value={sort} onChange={e => setSort(e.target.value as SessionSort)} className="w-full px-3 py-2 border border-gray-300 rounded-lg">
+                {(Object.keys(SORT_LABELS) as SessionSort[]).map(key => <option key={key} value={key}>{SORT_LABELS[key]}</option>)}
+              </select>
+            </div>
+          </div>
+          <div className="mt-4 flex flex-wrap gap-4 text-sm text-gray-700">
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={openOnly} onChange={e => setOpenOnly(e.target.checked)} />
+              เฉพาะที่ยังไม่คืน
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={differentOnly} onChange={e => setDifferentOnly(e.target.checked)} />
+              เฉพาะที่คืนโดยคนละคน
+            </label>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 rounded-xl p-4 mb-6">{error}</div>
+        )}
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+          <div className="bg-white rounded-xl shadow p-4 border border-blue-100">
+            <p className="text-sm text-gray-500">ช่วงการยืม</p>
+            <p className="text-2xl font-bold text-blue-700">{sessions.length}</p>
+          </div>
+          <button onClick={() => setOpenOnly(prev => !prev)} className={`text-left bg-white rounded-xl shadow p-4 border ${openOnly ? 'border-orange-400' : 'border-blue-100'}`}>
+            <p className="text-sm text-gray-500">ยังไม่คืน</p>
+            <p className="text-2xl font-bold text-orange-600">{sessions.length - closed.length}</p>
+          </button>
+          <button onClick={() => setDifferentOnly(prev => !prev)} className={`text-left bg-white rounded-xl shadow p-4 border ${differentOnly ? 'border-purple-400' : 'border-blue-100'}`}>
+            <p className="text-sm text-gray-500">คืนโดยคนละคน</p>
+            <p className="text-2xl font-bold text-purple-700">{sessions.filter(s => s.differentPeople).length}</p>
+          </button>
+          <div className="bg-white rounded-xl shadow p-4 border border-blue-100">
+            <p className="text-sm text-gray-500">ระยะเวลาเฉลี่ย (ที่คืนแล้ว)</p>
+            <p className="text-2xl font-bold text-gray-800">{closed.length > 0 ? formatDuration(averageMs) : '-'}</p>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-lg mb-6 overflow-hidden border border-blue-100">
+          <div className="p-4 border-b border-blue-100 flex flex-wrap justify-between items-center gap-4">
+            <h2 className="text-lg font-semibold text-blue-800">รายการ ({visible.length})</h2>
+            <button
+              onClick={handleDownload}
+              disabled={visible.length === 0}
+              className="px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition-colors text-sm font-medium flex items-center gap-2 disabled:opacity-50"
+            >
+              <Download className="w-4 h-4" />
+              ดาวน์โหลด CSV
+            </button>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full border-collapse">
+              <thead className="bg-gradient-to-r from-blue-100 to-sky-100">
+                <tr>
+                  <th className="px-4 py-3 text-left font-semibold text-blue-800 border border-blue-200">แท็กไอแพด</th>
+                  <th className="px-4 py-3 text-left font-semibold text-blue-800 border border-blue-200">แผนก</th>
+                  <th className="px-4 py-3 text-left font-semibold text-blue-800 border border-blue-200">ยืม</th>
+                  <th className="px-4 py-3 text-left font-semibold text-blue-800 border border-blue-200">คืน</th>
+                  <th
+                    onClick={toggleDurationSort}
+                    className="px-4 py-3 text-left font-semibold text-blue-800 border border-blue-200 cursor-pointer select-none"
+                  >
+                    ระยะเวลา {sort === 'duration-desc' ? '▼' : sort === 'duration-asc' ? '▲' : ''}
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {loading && sessions.length === 0 ? (
+                  <tr>
+                    <td colSpan={5} className="px-4 py-8 text-center text-gray-500">กำลังโหลด...</td>
+                  </tr>
+                ) : visible.length === 0 ? (
+                  <tr>
+                    <td colSpan={5} className="px-4 py-8 text-center text-gray-500">ไม่มีข้อมูล</td>
+                  </tr>
+                ) : (
+                  visible.map(session => (
+                    <tr key={session.id} className="border-b border-blue-50 hover:bg-blue-50 transition-colors align-top">
+                      <td className="px-4 py-3 text-gray-700 font-mono">{session.ipadTag}</td>
+                      <td className="px-4 py-3 text-gray-700">{session.department}</td>
+                      <td className="px-4 py-3 text-sm">
+                        <div className="text-gray-600">{formatTime(session.checkedOutAt)}</div>
+                        <div className="font-semibold text-blue-700">{person(session.checkedOutBy)}</div>
+                      </td>
+                      <td className="px-4 py-3 text-sm">
+                        {session.open ? (
+                          <span className="px-2 py-1 rounded-full text-xs font-medium bg-orange-100 text-orange-800">ยังไม่คืน</span>
+                        ) : (
+                          <>
+                            <div className="text-gray-600">
+                              {formatTime(session.endedAt)}
+                              {session.endStatus !== 'ส่งเข้า' && (
+                                <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-700">ไม่ได้สแกนคืน ({session.endStatus})</span>
+                              )}
+                            </div>
+                            <div className="font-semibold text-blue-700">
+                              {person(session.endedBy)}
+                              {session.differentPeople && (
+                                <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-700">คนละคนกับผู้ยืม</span>
+                              )}
+                            </div>
+                          </>
+                        )}
+                      </td>
+                      <td className={`px-4 py-3 font-semibold ${session.open ? 'text-orange-700' : 'text-gray-800'}`}>
+                        {formatDuration(session.durationMs)}{session.open ? ' (ถึงตอนนี้)' : ''}
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,412 @@
+"use client";
+
+import { useState, useEffect, useMemo } from 'react';
+import { useRouter } from 'next/navigation';
+import { Download, Printer, ChevronLeft, ChevronRight } from 'lucide-react';
+import { format } from 'date-fns';
+import Swal from 'sweetalert2';
+import BubbleBackground from '../../components/BubbleBackground';
+import { downloadCsv } from '../../components/download';
+import { promptActor } from '../../components/adminPrompts';
+import { toCsv } from '../../csv';
+import {
+  getShiftReport,
+  subscribeShiftSchedule,
+  saveShiftSchedule,
+  validateShiftSchedule,
+  shiftWindow,
+  shiftAt,
+  sessionClosedBy,
+  getEmployees,
+  formatDuration,
+  DEFAULT_SHIFT_SCHEDULE,
+  CheckoutSession,
+  ShiftReport,
+  ShiftSchedule
+} from '../../dbService';
+
+const formatTime = (iso?: string) => (iso ? new Date(iso).toLocaleString('th-TH') : '-');
+
+export default function ShiftsPage() {
+  const router = useRouter();
+  const [schedule, setSchedule] = useState<ShiftSchedule>(DEFAULT_SHIFT_SCHEDULE);
+  // null follows the shift that is running now
+  const [selected, setSelected] = useState<{ date: string; index: number } | null>(null);
+  const [report, setReport] = useState<ShiftReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [department, setDepartment] = useState('');
+  const [employeeNames, setEmployeeNames] = useState<Map<string, string>>(new Map());
+  const [editing, setEditing] = useState(false);
+  const [draftStarts, setDraftStarts] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => subscribeShiftSchedule(setSchedule), []);
+  useEffect(() => {
+    getEmployees().then(employees => setEmployeeNames(new Map(employees.map(e => [e.employeeId, e.name]))));
+  }, []);
+
+  const shift = useMemo(
+    () => (selected ? shiftWindow(selected.date, selected.index, schedule) : shiftAt(new Date(), schedule)),
+    [selected, schedule]
+  );
+  const starts = useMemo(() => [...schedule.starts].sort(), [schedule]);
+  const ongoing = new Date(shift.to).getTime() > Date.now();
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    getShiftReport(shift)
+      .then(result => { if (!cancelled) setReport(result); })
+      .catch(e => { if (!cancelled) setError(e instanceof Error ? e.message : 'ไม่สามารถสร้างรายงานได้'); })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [shift]);
+
+  const inDepartment = (s: CheckoutSession) => !department || s.department === department;
+  const unreturned = (report?.unreturned || []).filter(inDepartment);
+  const carriedIn = (report?.carriedIn || []).filter(inDepartment);
+  const carriedReturned = report ? carriedIn.filter(s => sessionClosedBy(s, report.shift.to)) : [];
+  const totals = (report?.departments || []).filter(d => !department || d.department === department);
+
+  const person = (id?: string) => {
+    if (!id) return '-';
+    const name = employeeNames.get(id);
+    return name ? `${id} ${name}` : id;
+  };
+
+  // สถานะของช่วงการยืมเมื่อจบกะ
+  const endOfShift = (s: CheckoutSession) => {
+    if (!report || !sessionClosedBy(s, report.shift.to)) return ongoing ? 'ยังไม่คืน' : 'ยังไม่คืน ส่งต่อกะถัดไป';
+    return s.endStatus === 'ส่งเข้า' ? `คืนแล้ว ${formatTime(s.endedAt)}` : `${s.endStatus} ${formatTime(s.endedAt)}`;
+  };
+
+  const goTo = (offset: number) => setSelected({ date: shift.date, index: shift.index + offset });
+
+  const shiftTitle = `กะ ${shift.label} วันที่ ${new Date(shift.from).toLocaleDateString('th-TH')}`;
+
+  const handleDownload = () => {
+    if (!report) return;
+    const sessionRows = (list: CheckoutSession[]) => list.map(s => [
+      s.ipadTag,
+      s.department,
+      formatTime(s.checkedOutAt),
+      person(s.checkedOutBy),
+      endOfShift(s)
+    ]);
+    const rows = [
+      [`รายงานส่งเวร ${shiftTitle}${department ? ` แผนก${department}` : ''}`],
+      [],
+      ['ยืมในกะนี้และยังไม่คืนเมื่อจบกะ'],
+      ['แท็ก', 'แผนก', 'ยืมเมื่อ', 'ผู้ยืม', 'เมื่อจบกะ'],
+      ...sessionRows(unreturned),
+      [],
+      ['ยืมมาจากกะก่อน'],
+      ['แท็ก', 'แผนก', 'ยืมเมื่อ', 'ผู้ยืม', 'เมื่อจบกะ'],
+      ...sessionRows(carriedIn),
+      [],
+      ['สรุปรายแผนก'],
+      ['แผนก', 'จำนวนแท็ก', 'ส่งออก', 'ส่งเข้า', 'ยังไม่คืน (ยืมในกะนี้)', 'ยืมมาจากกะก่อน'],
+      ...totals.map(d => [d.department, d.tagCount, d.outCount, d.inCount, d.unreturned, d.carriedIn])
+    ];
+    downloadCsv(`shift_report_${format(new Date(shift.from), 'yyyyMMdd_HHmm')}.csv`, toCsv(rows));
+  };
+
+  const openEditor = () => {
+    setDraftStarts(starts);
+    setEditing(true);
+  };
+
+  const draftError = validateShiftSchedule({ starts: draftStarts });
+
+  const handleSaveSchedule = async () => {
+    if (draftError) {
+      Swal.fire('ข้อมูลไม่ถูกต้อง', draftError, 'error');
+      return;
+    }
+    const actor = await promptActor();
+    if (!actor) return;
+    try {
+      setSaving(true);
+      await saveShiftSchedule({ starts: draftStarts }, actor);
+      setSelected(null);
+      setEditing(false);
+      Swal.fire('สำเร็จ', 'บันทึกเวลาเปลี่ยนกะเรียบร้อยแล้ว', 'success');
+    } catch (e) {
+      console.error('Error saving shift schedule:', e);
+      Swal.fire('เกิดข้อผิดพลาด', e instanceof Error ? e.message : 'ไม่สามารถบันทึกได้', 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const sessionTable = (list: CheckoutSession[], empty: string) => (
+    <div className="overflow-x-auto">
+      <table className="w-full border-collapse">
+        <thead className="bg-gradient-to-r from-blue-100 to-sky-100">
+          <tr>
+            <th className="px-4 py-3 text-left font-semibold text-blue-800 border border-blue-200">แท็กไอแพด</th>
+            <th className="px-4 py-3 text-left font-semibold text-blue-800 border border-blue-200">แผนก</th>
+            <th className="px-4 py-3 text-left font-semibold text-blue-800 border border-blue-200">ยืม</th>
+            <th className="px-4 py-3 text-left font-semibold text-blue-800 border border-blue-200">เมื่อจบกะ</th>
+          </tr>
+        </thead>
+        <tbody>
+          {list.length === 0 ? (
+            <tr>
+              <td colSpan={4} className="px-4 py-6 text-center text-gray-500">{loading ? 'กำลังโหลด...' : empty}</td>
+            </tr>
+          ) : (
+            list.map(s => (
+              <tr key={s.id} className="border-b border-blue-50 align-top">
+                <td className="px-4 py-2 text-gray-700 font-mono">{s.ipadTag}</td>
+                <td className="px-4 py-2 text-gray-700">{s.department}</td>
+                <td className="px-4 py-2 text-sm">
+                  <div className="text-gray-600">{formatTime(s.checkedOutAt)}</div>
+                  <div className="font-semibold text-blue-700">{person(s.checkedOutBy)}</div>
+                </td>
+                <td className="px-4 py-2 text-sm">
+                  {report && sessionClosedBy(s, report.shift.to) ? (
+                    <>
+                      <div className="text-gray-600">{endOfShift(s)}</div>
+                      <div className="text-gray-500">{person(s.endedBy)}</div>
+                    </>
+                  ) : (
+                    <>
+                      <span className="px-2 py-1 rounded-full text-xs font-medium bg-orange-100 text-orange-800">{endOfShift(s)}</span>
+                      <div className="mt-1 text-gray-500">ยืมมาแล้ว {formatDuration(Math.min(Date.now(), new Date(shift.to).getTime()) - new Date(s.checkedOutAt).getTime())}</div>
+                    </>
+                  )}
+                </td>
+              </tr>
+            ))
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-sky-50 relative print:bg-white">
+      <div className="print:hidden">
+        <BubbleBackground />
+      </div>
+      <div className="relative z-10 max-w-7xl mx-auto p-4 md:p-6 print:p-0">
+        <div className="bg-white rounded-2xl shadow-xl p-6 md:p-8 mb-6 flex flex-wrap items-center justify-between gap-4 print:shadow-none print:p-0">
+          <div>
+            <h1 className="text-3xl font-bold bg-gradient-to-r from-blue-500 to-blue-800 text-transparent bg-clip-text mb-1 print:text-black">รายงานส่งเวร</h1>
+            <p className="text-gray-700 font-semibold">{shiftTitle}{department ? ` แผนก${department}` : ''}</p>
+            {ongoing && <p className="text-sm text-orange-600">กะนี้ยังไม่จบ ข้อมูลถึง {new Date().toLocaleString('th-TH')}</p>}
+          </div>
+          <div className="flex flex-wrap gap-2 print:hidden">
+            <button
+              onClick={() => window.print()}
+              disabled={!report}
+              className="px-4 py-3 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 transition-all shadow-sm flex items-center gap-2 disabled:opacity-50"
+            >
+              <Printer className="w-4 h-4" />
+              พิมพ์
+            </button>
+            <button
+              onClick={handleDownload}
+              disabled={!report}
+              className="px-4 py-3 bg-emerald-600 text-white rounded-lg font-semibold hover:bg-emerald-700 transition-all shadow-sm flex items-center gap-2 disabled:opacity-50"
+            >
+              <Download className="w-4 h-4" />
+              ดาวน์โหลด CSV
+            </button>
+            <button
+              onClick={() => router.push('/')}
+              className="px-6 py-3 bg-white text-gray-700 border-2 border-gray-200 rounded-lg font-semibold hover:bg-gray-50 hover:border-gray-300 transition-all shadow-sm"
+            >
+              ย้อนกลับไปหน้าหลัก
+            </button>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-lg p-6 mb-6 border border-blue-100 print:hidden">
+          <div className="flex flex-wrap items-end gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">วันที่เริ่มกะ</label>
+              <input
+                type="date"
+                value={shift.date}
+                onChange={e => e.target.value && setSelected({ date: e.target.value, index: shift.index })}
+                className="px-3 py-2 border border-gray-300 rounded-lg"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">กะ</label>
+              <select
+                value={shift.index}
+                onChange={e => setSelected({ date: shift.date, index: Number(e.target.value) })}
+                className="px-3 py-2 border border-gray-300 rounded-lg"
+              >
+                {starts.map((start, i) => (
+                  <option key={start} value={i}>{shiftWindow(shift.date, i, schedule).label}</option>
+                ))}
+              </select>
+            </div>
+            <div className="flex gap-2">
+              <button onClick={() => goTo(-1)} className="px-3 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 flex items-center gap-1 text-sm">
+                <ChevronLeft className="w-4 h-4" />
+                กะก่อนหน้า
+              </button>
+              <button onClick={() => goTo(1)} className="px-3 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 flex items-center gap-1 text-sm">
+                กะถัดไป
+                <ChevronRight className="w-4 h-4" />
+              </button>
+              <button onClick={() => setSelected(null)} className="px-3 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 text-sm">
+                กะปัจจุบัน
+              </button>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">แผนก</label>
+              <select value={department} onChange={e => setDepartment(e.target.value)} className="px-3 py-2 border border-gray-300 rounded-lg">
+                <option value="">ทั้งหมด</option>
+                {(report?.departments || []).map(d => d.department).sort((a, b) => a.localeCompare(b, 'th')).map(d => (
+                  <option key={d} value={d}>{d}</option>
+                ))}
+              </select>
+            </div>
+            <button
+              onClick={editing ? () => setEditing(false) : openEditor}
+              className="ml-auto px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 text-sm font-medium"
+            >
+              {editing ? 'ปิดการตั้งค่า' : `เวลาเปลี่ยนกะ (${starts.join(', ')})`}
+            </button>
+          </div>
+
+          {editing && (
+            <div className="mt-4 pt-4 border-t border-blue-100">
+              <p className="text-sm text-gray-500 mb-3">แต่ละกะเริ่มที่เวลาที่กำหนดและจบเมื่อกะถัดไปเริ่ม กะสุดท้ายของวันจบเมื่อกะแรกของวันถัดไปเริ่ม</p>
+              <div className="flex flex-wrap items-center gap-3">
+                {draftStarts.map((start, i) => (
+                  <div key={i} className="flex items-center gap-1">
+                    <input
+                      type="time"
+                      value={start}
+                      onChange={e => setDraftStarts(prev => prev.map((s, j) => (j === i ? e.target.value : s)))}
+                      className="px-3 py-2 border border-gray-300 rounded-lg"
+                    />
+                    <button
+                      onClick={() => setDraftStarts(prev => prev.filter((_, j) => j !== i))}
+                      className="px-2 py-1 text-red-600 hover:bg-red-50 rounded text-sm"
+                    >
+                      ลบ
+                    </button>
+                  </div>
+                ))}
+                <button
+                  onClick={() => setDraftStarts(prev => [...prev, '12:00'])}
+                  className="px-3 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 text-sm"
+                >
+                  + เพิ่มกะ
+                </button>
+                <button
+                  onClick={handleSaveSchedule}
+                  disabled={saving || !!draftError}
+                  className="ml-auto px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 text-sm font-medium disabled:opacity-50"
+                >
+                  {saving ? 'กำลังบันทึก...' : 'บันทึก'}
+                </button>
+              </div>
+              {draftError && <p className="mt-2 text-sm text-red-600">{draftError}</p>}
+            </div>
+          )}
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 rounded-xl p-4 mb-6">{error}</div>
+        )}
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+          <div className="bg-white rounded-xl shadow p-4 border border-orange-200">
+            <p className="text-sm text-gray-500">ยืมในกะนี้และยังไม่คืน</p>
+            <p className="text-2xl font-bold text-orange-600">{unreturned.length}</p>
+          </div>
+          <div className="bg-white rounded-xl shadow p-4 border border-blue-100">
+            <p className="text-sm text-gray-500">ยืมมาจากกะก่อน</p>
+            <p className="text-2xl font-bold text-blue-700">{carriedIn.length}</p>
+          </div>
+          <div className="bg-white rounded-xl shadow p-4 border border-blue-100">
+            <p className="text-sm text-gray-500">จากกะก่อน คืนแล้วในกะนี้</p>
+            <p className="text-2xl font-bold text-green-700">{carriedReturned.length}</p>
+          </div>
+          <div className="bg-white rounded-xl shadow p-4 border border-blue-100">
+            <p className="text-sm text-gray-500">สแกนในกะนี้ (ออก / เข้า)</p>
+            <p className="text-2xl font-bold text-gray-800">
+              {totals.reduce((n, d) => n + d.outCount, 0)} / {totals.reduce((n, d) => n + d.inCount, 0)}
+            </p>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-lg mb-6 overflow-hidden border border-blue-100 print:shadow-none print:break-inside-avoid">
+          <div className="p-4 border-b border-blue-100">
+            <h2 className="text-lg font-semibold text-orange-700">ยืมในกะนี้และยังไม่คืนเมื่อจบกะ ({unreturned.length})</h2>
+          </div>
+          {sessionTable(unreturned, 'ทุกเครื่องที่ยืมในกะนี้คืนครบแล้ว')}
+        </div>
+
+        <div className="bg-white rounded-xl shadow-lg mb-6 overflow-hidden border border-blue-100 print:shadow-none print:break-inside-avoid">
+          <div className="p-4 border-b border-blue-100">
+            <h2 className="text-lg font-semibold text-blue-800">ยืมมาจากกะก่อน ({carriedIn.length})</h2>
+            <p className="text-sm text-gray-500">เครื่องที่ยังไม่คืนเมื่อเริ่มกะนี้</p>
+          </div>
+          {sessionTable(carriedIn, 'ไม่มีเครื่องค้างจากกะก่อน')}
+        </div>
+
+        <div className="bg-white rounded-xl shadow-lg mb-6 overflow-hidden border border-blue-100 print:shadow-none print:break-inside-avoid">
+          <div className="p-4 border-b border-blue-100">
+            <h2 className="text-lg font-semibold text-blue-800">สรุปรายแผนก</h2>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full border-collapse">
+              <thead className="bg-gradient-to-r from-blue-100 to-sky-100">
+                <tr>
+                  <th className="px-4 py-3 text-left font-semibold text-blue-800 border border-blue-200">แผนก</th>
+                  <th className="px-4 py-3 text-center font-semibold text-blue-800 border border-blue-200">จำนวนแท็ก</th>
+                  <th className="px-4 py-3 text-center font-semibold text-blue-800 border border-blue-200">ส่งออก</th>
+                  <th className="px-4 py-3 text-center font-semibold text-blue-800 border border-blue-200">ส่งเข้า</th>
+                  <th className="px-4 py-3 text-center font-semibold text-blue-800 border border-blue-200">ยังไม่คืน (ยืมในกะนี้)</th>
+                  <th className="px-4 py-3 text-center font-semibold text-blue-800 border border-blue-200">ยืมมาจากกะก่อน</th>
+                </tr>
+              </thead>
+              <tbody>
+                {totals.length === 0 ? (
+                  <tr>
+                    <td colSpan={6} className="px-4 py-6 text-center text-gray-500">{loading ? 'กำลังโหลด...' : 'ไม่มีข้อมูล'}</td>
+                  </tr>
+                ) : (
+                  totals.map(d => (
+                    <tr key={d.department} className="border-b border-blue-50">
+                      <td className="px-4 py-2 text-gray-700">{d.department}</td>
+                      <td className="px-4 py-2 text-center text-gray-700">{d.tagCount}</td>
+                      <td className="px-4 py-2 text-center text-gray-700">{d.outCount}</td>
+                      <td className="px-4 py-2 text-center text-gray-700">{d.inCount}</td>
+                      <td className={`px-4 py-2 text-center font-semibold ${d.unreturned > 0 ? 'text-orange-600' : 'text-gray-700'}`}>{d.unreturned}</td>
+                      <td className="px-4 py-2 text-center text-gray-700">{d.carriedIn}</td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        {/* ช่องลงชื่อสำหรับฉบับพิมพ์ */}
+        <div className="hidden print:flex justify-between mt-12 px-8 text-gray-700">
+          <div className="text-center">
+            <div className="w-56 border-b border-gray-500 mb-2 h-8"></div>
+            ผู้ส่งเวร
+          </div>
+          <div className="text-center">
+            <div className="w-56 border-b border-gray-500 mb-2 h-8"></div>
+            ผู้รับเวร
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,256 @@
+"use client";
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import Swal from 'sweetalert2';
+import { Download } from 'lucide-react';
+import { format } from 'date-fns';
+import BubbleBackground from '../../components/BubbleBackground';
+import { promptActor } from '../../components/adminPrompts';
+import { downloadCsv } from '../../components/download';
+import { toCsv } from '../../csv';
+import {
+  getTagPolicy,
+  saveTagPolicy,
+  findTagPolicyChanges,
+  normalizeTag,
+  isTagAllowed,
+  validateTagPolicy,
+  DEFAULT_TAG_POLICY,
+  TagPolicy,
+  TagPolicyChange
+} from '../../dbService';
+
+const CASE_LABELS: Record<TagPolicy['letterCase'], string> = {
+  keep: 'ตามที่พิมพ์',
+  upper: 'ตัวพิมพ์ใหญ่ทั้งหมด',
+  lower: 'ตัวพิมพ์เล็กทั้งหมด'
+};
+
+const SEPARATOR_LABELS: Record<TagPolicy['separator'], string> = {
+  keep: 'ตามที่พิมพ์',
+  '-': 'ขีด (-)',
+  '': 'ไม่มีตัวคั่น'
+};
+
+export default function TagPolicyPage() {
+  const router = useRouter();
+  const [policy, setPolicy] = useState<TagPolicy>(DEFAULT_TAG_POLICY);
+  const [loading, setLoading] = useState(true);
+  const [dirty, setDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [testTag, setTestTag] = useState('');
+  const [changes, setChanges] = useState<TagPolicyChange[] | null>(null);
+  const [checking, setChecking] = useState(false);
+
+  useEffect(() => {
+    getTagPolicy().then(stored => {
+      setPolicy(stored);
+      setLoading(false);
+    });
+  }, []);
+
+  const update = (change: Partial<TagPolicy>) => {
+    setPolicy(prev => ({ ...prev, ...change }));
+    setDirty(true);
+    setChanges(null);
+  };
+
+  const error = validateTagPolicy(policy);
+  const tested = normalizeTag(testTag, policy);
+
+  const handleSave = async () => {
+    if (error) {
+      Swal.fire('นโยบายไม่ถูกต้อง', error, 'error');
+      return;
+    }
+    const actor = await promptActor();
+    if (!actor) return;
+    try {
+      setSaving(true);
+      await saveTagPolicy(policy, actor);
+      setDirty(false);
+      Swal.fire('สำเร็จ', 'บันทึกนโยบายรูปแบบแท็กเรียบร้อยแล้ว', 'success');
+    } catch (e) {
+      console.error('Error saving tag policy:', e);
+      Swal.fire('เกิดข้อผิดพลาด', e instanceof Error ? e.message : 'ไม่สามารถบันทึกนโยบายได้', 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCheck = async () => {
+    if (error) return;
+    try {
+      setChecking(true);
+      setChanges(await findTagPolicyChanges(policy));
+    } catch (e) {
+      Swal.fire('เกิดข้อผิดพลาด', e instanceof Error ? e.message : 'ไม่สามารถตรวจแท็กได้', 'error');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handleDownload = () => {
+    if (!changes) return;
+    const rows = [
+      ['แท็ก', 'แผนก', 'หลังปรับ', 'ไม่ตรงรูปแบบ', 'ซ้ำกับแท็ก'],
+      ...changes.map(c => [c.ipadTag, c.department, c.normalized, c.invalid ? 'ใช่' : '', c.collidesWith.join(' ')])
+    ];
+    downloadCsv(`tag_policy_report_${format(new Date(), 'yyyyMMdd_HHmm')}.csv`, toCsv(rows));
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-sky-50 relative">
+      <BubbleBackground />
+      <div className="relative z-10 max-w-7xl mx-auto p-4 md:p-6">
+        <div className="bg-white rounded-2xl shadow-xl p-6 md:p-8 mb-6 flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold bg-gradient-to-r from-blue-500 to-blue-800 text-transparent bg-clip-text mb-1">รูปแบบแท็ก</h1>
+            <p className="text-gray-500">ปรับแท็กก่อนบันทึกและก่อนค้นหา ใช้ทั้งตอนเพิ่มแท็ก ตอนสแกนที่จุดบริการ และตัวกรองในหน้าหลัก</p>
+          </div>
+          <button
+            onClick={() => router.push('/')}
+            className="px-6 py-3 bg-white text-gray-700 border-2 border-gray-200 rounded-lg font-semibold hover:bg-gray-50 hover:border-gray-300 transition-all shadow-sm"
+          >
+            ย้อนกลับไปหน้าหลัก
+          </button>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-lg p-6 mb-6 border border-blue-100">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">ตัวพิมพ์</label>
+              <select
+                value={policy.letterCase}
+                onChange={e => update({ letterCase: e.target.value as TagPolicy['letterCase'] })}
+                disabled={loading}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+              >
+                {(Object.keys(CASE_LABELS) as TagPolicy['letterCase'][]).map(key => (
+                  <option key={key} value={key}>{CASE_LABELS[key]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">ตัวคั่น (ช่องว่าง _ . / -)</label>
+              <select
+                value={policy.separator}
+                onChange={e => update({ separator: e.target.value as TagPolicy['separator'] })}
+                disabled={loading}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+              >
+                {(Object.keys(SEPARATOR_LABELS) as TagPolicy['separator'][]).map(key => (
+                  <option key={key} value={key}>{SEPARATOR_LABELS[key]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">เติมศูนย์ให้เลขท้ายครบ (หลัก, 0 = ไม่เติม)</label>
+              <input
+                type="number"
+                min={0}
+                max={10}
+                value={policy.padDigits}
+                onChange={e => update({ padDigits: Number(e.target.value) })}
+                disabled={loading}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">รูปแบบที่อนุญาต (regex, เว้นว่างได้)</label>
+              <input
+                value={policy.pattern}
+                onChange={e => update({ pattern: e.target.value })}
+                disabled={loading}
+                placeholder="^[A-Z]+-\d{3}$"
+                className={`w-full px-3 py-2 border rounded-lg font-mono ${error ? 'border-red-400' : 'border-gray-300'}`}
+              />
+            </div>
+          </div>
+          {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+
+          <div className="mt-4 flex flex-wrap items-center gap-3 text-sm">
+            <label className="text-gray-700">ทดสอบแท็ก</label>
+            <input value={testTag} onChange={e => setTestTag(e.target.value)} className="px-3 py-2 border border-gray-300 rounded-lg font-mono" placeholder="er 1" />
+            {testTag.trim() && !error && (
+              <span className={isTagAllowed(tested, policy) ? 'text-green-700' : 'text-red-600'}>
+                → <span className="font-mono">{tested}</span> {isTagAllowed(tested, policy) ? '' : '(ไม่ตรงรูปแบบที่อนุญาต)'}
+              </span>
+            )}
+          </div>
+
+          <div className="mt-4 flex justify-end gap-3">
+            <button
+              onClick={handleCheck}
+              disabled={checking || !!error || loading}
+              className="px-4 py-2 bg-amber-500 text-white rounded-lg hover:bg-amber-600 text-sm font-medium disabled:opacity-50"
+            >
+              {checking ? 'กำลังตรวจ...' : 'ตรวจแท็กที่มีอยู่'}
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={!dirty || saving || !!error}
+              className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 text-sm font-medium disabled:opacity-50"
+            >
+              {saving ? 'กำลังบันทึก...' : 'บันทึกนโยบาย'}
+            </button>
+          </div>
+        </div>
+
+        {changes && (
+          <div className="bg-white rounded-xl shadow-lg mb-6 overflow-hidden border border-blue-100">
+            <div className="p-4 border-b border-blue-100 flex flex-wrap justify-between items-center gap-4">
+              <div>
+                <h2 className="text-lg font-semibold text-blue-800">แท็กที่นโยบายนี้จะเปลี่ยน ({changes.length})</h2>
+                <p className="text-sm text-gray-500">แท็กเดิมยังสแกนได้ตามเดิม แท็กที่ซ้ำกันหลังปรับควรรวมหรือลบออกด้วยตนเอง</p>
+              </div>
+              {changes.length > 0 && (
+                <button
+                  onClick={handleDownload}
+                  className="px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition-colors text-sm font-medium flex items-center gap-2"
+                >
+                  <Download className="w-4 h-4" />
+                  ดาวน์โหลด CSV
+                </button>
+              )}
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full border-collapse">
+                <thead className="bg-gradient-to-r from-blue-100 to-sky-100">
+                  <tr>
+                    <th className="px-4 py-3 text-left font-semibold text-blue-800 border border-blue-200">แท็ก</th>
+                    <th className="px-4 py-3 text-left font-semibold text-blue-800 border border-blue-200">แผนก</th>
+                    <th className="px-4 py-3 text-left font-semibold text-blue-800 border border-blue-200">หลังปรับ</th>
+                    <th className="px-4 py-3 text-left font-semibold text-blue-800 border border-blue-200">หมายเหตุ</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {changes.length === 0 ? (
+                    <tr>
+                      <td colSpan={4} className="px-4 py-8 text-center text-gray-500">ทุกแท็กตรงตามนโยบายแล้ว</td>
+                    </tr>
+                  ) : (
+                    changes.map(c => (
+                      <tr key={c.ipadTag} className="border-b border-blue-50 hover:bg-blue-50 transition-colors">
+                        <td className="px-4 py-2 text-gray-700 font-mono">{c.ipadTag}</td>
+                        <td className="px-4 py-2 text-gray-700">{c.department}</td>
+                        <td className="px-4 py-2 text-gray-700 font-mono">{c.normalized}</td>
+                        <td className="px-4 py-2 text-sm">
+                          {c.invalid && <span className="mr-2 px-2 py-1 rounded-full text-xs font-medium bg-red-100 text-red-700">ไม่ตรงรูปแบบ</span>}
+                          {c.collidesWith.length > 0 && (
+                            <span className="px-2 py-1 rounded-full text-xs font-medium bg-amber-100 text-amber-800">ซ้ำกับ {c.collidesWith.join(', ')}</span>
+                          )}
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,327 @@
+"use client";
+
+import { useState, useEffect, useMemo } from 'react';
+import { useRouter } from 'next/navigation';
+import Swal from 'sweetalert2';
+import { ArrowDown, ArrowUp, Download, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import BubbleBackground from '../../components/BubbleBackground';
+import { promptActor } from '../../components/adminPrompts';
+import { downloadCsv } from '../../components/download';
+import { toCsv } from '../../csv';
+import {
+  getDepartmentsFromDB,
+  getTagRules,
+  saveTagRules,
+  matchTagRule,
+  validateTagRule,
+  findTagRuleViolations,
+  transferTags,
+  DEFAULT_TAG_RULES,
+  TagRule,
+  TagRuleViolation
+} from '../../dbService';
+
+const KIND_LABELS: Record<TagRule['kind'], string> = {
+  prefix: 'ขึ้นต้นด้วย',
+  regex: 'Regex'
+};
+
+const newRuleId = () => `rule-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+export default function TagRulesPage() {
+  const router = useRouter();
+  const [rules, setRules] = useState<TagRule[]>([]);
+  const [departments, setDepartments] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dirty, setDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [testTag, setTestTag] = useState('');
+  const [violations, setViolations] = useState<TagRuleViolation[] | null>(null);
+  const [checking, setChecking] = useState(false);
+
+  useEffect(() => {
+    Promise.all([getTagRules(), getDepartmentsFromDB()]).then(([stored, depts]) => {
+      setRules(stored);
+      setDepartments(depts);
+      setLoading(false);
+    });
+  }, []);
+
+  const updateRules = (next: TagRule[]) => {
+    setRules(next);
+    setDirty(true);
+  };
+
+  const updateRule = (id: string, change: Partial<TagRule>) =>
+    updateRules(rules.map(rule => (rule.id === id ? { ...rule, ...change } : rule)));
+
+  const moveRule = (index: number, offset: number) => {
+    const next = [...rules];
+    const [rule] = next.splice(index, 1);
+    next.splice(index + offset, 0, rule);
+    updateRules(next);
+  };
+
+  const testMatch = useMemo(() => matchTagRule(testTag, rules), [testTag, rules]);
+
+  const handleSave = async () => {
+    const invalid = rules.map(validateTagRule).find(Boolean);
+    if (invalid) {
+      Swal.fire('กฎไม่ถูกต้อง', invalid, 'error');
+      return;
+    }
+    const actor = await promptActor();
+    if (!actor) return;
+    try {
+      setSaving(true);
+      await saveTagRules(rules, actor);
+      setDirty(false);
+      Swal.fire('สำเร็จ', 'บันทึกกฎแท็กเรียบร้อยแล้ว', 'success');
+    } catch (e) {
+      console.error('Error saving tag rules:', e);
+      Swal.fire('เกิดข้อผิดพลาด', e instanceof Error ? e.message : 'ไม่สามารถบันทึกกฎแท็กได้', 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCheck = async () => {
+    try {
+      setChecking(true);
+      setViolations(await findTagRuleViolations());
+    } catch (e) {
+      Swal.fire('เกิดข้อผิดพลาด', e instanceof Error ? e.message : 'ไม่สามารถตรวจแท็กได้', 'error');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handleMoveToExpected = async (violation: TagRuleViolation) => {
+    const result = await Swal.fire({
+      title: 'ย้ายแท็กตามกฎ',
+      text: `ย้ายแท็ก "${violation.ipadTag}" จากแผนก "${violation.department}" ไปแผนก "${violation.expected}" มีผลตั้งแต่ตอนนี้ ใช่หรือไม่?`,
+      icon: 'question',
+      showCancelButton: true,
+      confirmButtonText: 'ใช่, ย้ายแท็ก',
+      cancelButtonText: 'ยกเลิก'
+    });
+    if (!result.isConfirmed) return;
+    const actor = await promptActor();
+    if (!actor) return;
+    try {
+      await transferTags([violation.ipadTag], violation.expected, new Date().toISOString(), actor);
+      setViolations(await findTagRuleViolations());
+    } catch (e) {
+      console.error('Error moving tag to rule department:', e);
+      Swal.fire('เกิดข้อผิดพลาด', e instanceof Error ? e.message : 'ไม่สามารถย้ายแท็กได้', 'error');
+    }
+  };
+
+  const handleDownloadViolations = () => {
+    if (!violations) return;
+    const rows = [
+      ['แท็ก', 'แผนกปัจจุบัน', 'แผนกตามกฎ', 'กฎ'],
+      ...violations.map(v => [v.ipadTag, v.department, v.expected, `${KIND_LABELS[v.rule.kind]} ${v.rule.pattern}`])
+    ];
+    downloadCsv(`tag_rule_violations_${format(new Date(), 'yyyyMMdd_HHmm')}.csv`, toCsv(rows));
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-sky-50 relative">
+      <BubbleBackground />
+      <div className="relative z-10 max-w-7xl mx-auto p-4 md:p-6">
+        <div className="bg-white rounded-2xl shadow-xl p-6 md:p-8 mb-6 flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold bg-gradient-to-r from-blue-500 to-blue-800 text-transparent bg-clip-text mb-1">กฎแท็กและแผนก</h1>
+            <p className="text-gray-500">ใช้แนะนำแผนกเมื่อเพิ่มแท็ก และกำหนดแผนกให้แถวที่ไม่ระบุแผนกเมื่อนำเข้าจากไฟล์ กฎด้านบนมีความสำคัญกว่า</p>
+          </div>
+          <button
+            onClick={() => router.push('/')}
+            className="px-6 py-3 bg-white text-gray-700 border-2 border-gray-200 rounded-lg font-semibold hover:bg-gray-50 hover:border-gray-300 transition-all shadow-sm"
+          >
+            ย้อนกลับไปหน้าหลัก
+          </button>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-lg mb-6 overflow-hidden border border-blue-100">
+          <div className="p-4 border-b border-blue-100 flex flex-wrap justify-between items-center gap-4">
+            <h2 className="text-lg font-semibold text-blue-800">กฎ ({rules.length})</h2>
+            <div className="flex gap-2">
+              {rules.length === 0 && !loading && (
+                <button
+                  onClick={() => updateRules(DEFAULT_TAG_RULES.map(rule => ({ ...rule })))}
+                  className="px-4 py-2 bg-white text-blue-700 border border-blue-300 rounded-lg hover:bg-blue-50 text-sm font-medium"
+                >
+                  ใช้กฎตั้งต้น
+                </button>
+              )}
+              <button
+                onClick={() => updateRules([...rules, { id: newRuleId(), kind: 'prefix', pattern: '', department: '' }])}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm font-medium"
+              >
+                เพิ่มกฎ
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={!dirty || saving}
+                className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 text-sm font-medium disabled:opacity-50"
+              >
+                {saving ? 'กำลังบันทึก...' : 'บันทึกกฎ'}
+              </button>
+            </div>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full border-collapse">
+              <thead className="bg-gradient-to-r from-blue-100 to-sky-100">
+                <tr>
+                  <th className="px-4 py-3 text-left font-semibold text-blue-800 border border-blue-200">ลำดับ</th>
+                  <th className="px-4 py-3 text-left font-semibold text-blue-800 border border-blue-200">ชนิด</th>
+                  <th className="px-4 py-3 text-left font-semibold text-blue-800 border border-blue-200">รูปแบบ</th>
+                  <th className="px-4 py-3 text-left font-semibold text-blue-800 border border-blue-200">แผนก</th>
+                  <th className="px-4 py-3 text-left font-semibold text-blue-800 border border-blue-200"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {loading ? (
+                  <tr>
+                    <td colSpan={5} className="px-4 py-8 text-center text-gray-500">กำลังโหลด...</td>
+                  </tr>
+                ) : rules.length === 0 ? (
+                  <tr>
+                    <td colSpan={5} className="px-4 py-8 text-center text-gray-500">ยังไม่มีกฎ</td>
+                  </tr>
+                ) : (
+                  rules.map((rule, index) => {
+                    const error = validateTagRule(rule);
+                    return (
+                      <tr key={rule.id} className={`border-b border-blue-50 ${testMatch?.id === rule.id ? 'bg-green-50' : ''}`}>
+                        <td className="px-4 py-2 text-gray-600">{index + 1}</td>
+                        <td className="px-4 py-2">
+                          <select
+                            value={rule.kind}
+                            onChange={e => updateRule(rule.id, { kind: e.target.value as TagRule['kind'] })}
+                            className="px-2 py-1 border border-gray-300 rounded"
+                          >
+                            {(Object.keys(KIND_LABELS) as TagRule['kind'][]).map(kind => (
+                              <option key={kind} value={kind}>{KIND_LABELS[kind]}</option>
+                            ))}
+                          </select>
+                        </td>
+                        <td className="px-4 py-2">
+                          <input
+                            value={rule.pattern}
+                            onChange={e => updateRule(rule.id, { pattern: e.target.value })}
+                            placeholder={rule.kind === 'prefix' ? 'ER-' : '^ICU-\\d+$'}
+                            className={`w-full px-2 py-1 border rounded font-mono ${error && rule.pattern ? 'border-red-400' : 'border-gray-300'}`}
+                          />
+                        </td>
+                        <td className="px-4 py-2">
+                          <input
+                            value={rule.department}
+                            onChange={e => updateRule(rule.id, { department: e.target.value })}
+                            list="tag-rule-departments"
+                            className="w-full px-2 py-1 border border-gray-300 rounded"
+                          />
+                          {rule.department && !departments.includes(rule.department.trim()) && (
+                            <p className="text-xs text-amber-600 mt-1">ยังไม่มีแผนกนี้ในระบบ</p>
+                          )}
+                        </td>
+                        <td className="px-4 py-2 whitespace-nowrap">
+                          <button onClick={() => moveRule(index, -1)} disabled={index === 0} className="p-1 text-gray-600 hover:text-blue-700 disabled:opacity-30" title="เลื่อนขึ้น">
+                            <ArrowUp className="w-4 h-4" />
+                          </button>
+                          <button onClick={() => moveRule(index, 1)} disabled={index === rules.length - 1} className="p-1 text-gray-600 hover:text-blue-700 disabled:opacity-30" title="เลื่อนลง">
+                            <ArrowDown className="w-4 h-4" />
+                          </button>
+                          <button onClick={() => updateRules(rules.filter(r => r.id !== rule.id))} className="p-1 text-red-600 hover:text-red-800" title="ลบกฎ">
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </td>
+                      </tr>
+                    );
+                  })
+                )}
+              </tbody>
+            </table>
+            <datalist id="tag-rule-departments">
+              {departments.map(d => <option key={d} value={d} />)}
+            </datalist>
+          </div>
+          <div className="p-4 border-t border-blue-100 flex flex-wrap items-center gap-3 text-sm">
+            <label className="text-gray-700">ทดสอบแท็ก</label>
+            <input value={testTag} onChange={e => setTestTag(e.target.value)} className="px-3 py-2 border border-gray-300 rounded-lg font-mono" placeholder="ER-001" />
+            {testTag.trim() && (
+              <span className={testMatch ? 'text-green-700' : 'text-gray-500'}>
+                {testMatch ? `แผนก "${testMatch.department}" (กฎลำดับที่ ${rules.indexOf(testMatch) + 1})` : 'ไม่มีกฎที่ตรงกัน'}
+              </span>
+            )}
+          </div>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-lg mb-6 overflow-hidden border border-blue-100">
+          <div className="p-4 border-b border-blue-100 flex flex-wrap justify-between items-center gap-4">
+            <div>
+              <h2 className="text-lg font-semibold text-blue-800">แท็กที่ขัดกับกฎ{violations ? ` (${violations.length})` : ''}</h2>
+              <p className="text-sm text-gray-500">ตรวจตามกฎที่บันทึกไว้แล้ว</p>
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={handleCheck}
+                disabled={checking}
+                className="px-4 py-2 bg-amber-500 text-white rounded-lg hover:bg-amber-600 text-sm font-medium disabled:opacity-50"
+              >
+                {checking ? 'กำลังตรวจ...' : 'ตรวจแท็ก'}
+              </button>
+              {violations && violations.length > 0 && (
+                <button
+                  onClick={handleDownloadViolations}
+                  className="px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition-colors text-sm font-medium flex items-center gap-2"
+                >
+                  <Download className="w-4 h-4" />
+                  ดาวน์โหลด CSV
+                </button>
+              )}
+            </div>
+          </div>
+          {violations && (
+            <div className="overflow-x-auto">
+              <table className="w-full border-collapse">
+                <thead className="bg-gradient-to-r from-blue-100 to-sky-100">
+                  <tr>
+                    <th className="px-4 py-3 text-left font-semibold text-blue-800 border border-blue-200">แท็ก</th>
+                    <th className="px-4 py-3 text-left font-semibold text-blue-800 border border-blue-200">แผนกปัจจุบัน</th>
+                    <th className="px-4 py-3 text-left font-semibold text-blue-800 border border-blue-200">แผนกตามกฎ</th>
+                    <th className="px-4 py-3 text-left font-semibold text-blue-800 border border-blue-200">กฎ</th>
+                    <th className="px-4 py-3 text-left font-semibold text-blue-800 border border-blue-200"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {violations.length === 0 ? (
+                    <tr>
+                      <td colSpan={5} className="px-4 py-8 text-center text-gray-500">ทุกแท็กตรงกับกฎ</td>
+                    </tr>
+                  ) : (
+                    violations.map(v => (
+                      <tr key={v.ipadTag} className="border-b border-blue-50 hover:bg-blue-50 transition-colors">
+                        <td className="px-4 py-2 text-gray-700 font-mono">{v.ipadTag}</td>
+                        <td className="px-4 py-2 text-gray-700">{v.department}</td>
+                        <td className="px-4 py-2 text-gray-700">{v.expected}</td>
+                        <td className="px-4 py-2 text-sm text-gray-600">{KIND_LABELS[v.rule.kind]} <span className="font-mono">{v.rule.pattern}</span></td>
+                        <td className="px-4 py-2">
+                          <button onClick={() => handleMoveToExpected(v)} className="px-3 py-1 bg-purple-600 text-white rounded text-sm hover:bg-purple-700">
+                            ย้ายตามกฎ
+                          </button>
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,216 @@
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import Swal from 'sweetalert2';
+import { RotateCcw, Trash2 } from 'lucide-react';
+import BubbleBackground from '../../components/BubbleBackground';
+import {
+  getDeletedLogs,
+  restoreLogs,
+  purgeDeletedLogs,
+  purgeExpiredLogs,
+  purgeableAt,
+  DeletedLog,
+  TRASH_RETENTION_DAYS
+} from '../../dbService';
+
+export default function TrashPage() {
+  const router = useRouter();
+  const [deletedLogs, setDeletedLogs] = useState<DeletedLog[]>([]);
+  const [selected, setSelected] = useState<Record<string, boolean>>({});
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+
+  const loadTrash = useCallback(async () => {
+    setLoading(true);
+    setDeletedLogs(await getDeletedLogs());
+    setSelected({});
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadTrash();
+  }, [loadTrash]);
+
+  const selectedIds = Object.entries(selected).filter(([, isSelected]) => isSelected).map(([id]) => id);
+  const now = Date.now();
+  const isPurgeable = (log: DeletedLog) => purgeableAt(log).getTime() <= now;
+  const expiredCount = deletedLogs.filter(isPurgeable).length;
+  const allSelected = deletedLogs.length > 0 && selectedIds.length === deletedLogs.length;
+
+  const toggleAll = () => {
+    if (allSelected) {
+      setSelected({});
+    } else {
+      setSelected(Object.fromEntries(deletedLogs.map(log => [log.id, true])));
+    }
+  };
+
+  const handleRestore = async () => {
+    if (selectedIds.length === 0) return;
+    const result = await Swal.fire({
+      title: 'ยืนยันการกู้คืน',
+      text: `คุณต้องการกู้คืน ${selectedIds.length} รายการที่เลือกใช่หรือไม่?`,
+      icon: 'question',
+      showCancelButton: true,
+      confirmButtonText: 'ใช่, กู้คืน',
+      cancelButtonText: 'ยกเลิก'
+    });
+    if (!result.isConfirmed) return;
+
+    try {
+      setWorking(true);
+      await restoreLogs(selectedIds);
+      await loadTrash();
+      Swal.fire('สำเร็จ', 'กู้คืนรายการเรียบร้อยแล้ว', 'success');
+    } catch (e) {
+      console.error('Error restoring logs:', e);
+      Swal.fire('เกิดข้อผิดพลาด', e instanceof Error ? e.message : 'ไม่สามารถกู้คืนได้', 'error');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handlePurge = async (ids: string[] | 'expired') => {
+    const count = ids === 'expired' ? expiredCount : ids.length;
+    if (count === 0) return;
+    const result = await Swal.fire({
+      title: 'ยืนยันการลบถาวร',
+      text: `ลบถาวร ${count} รายการ ข้อมูลจะไม่สามารถกู้คืนได้อีก`,
+      icon: 'warning',
+      showCancelButton: true,
+      confirmButtonText: 'ใช่, ลบถาวร',
+      cancelButtonText: 'ยกเลิก',
+      confirmButtonColor: '#d33'
+    });
+    if (!result.isConfirmed) return;
+
+    try {
+      setWorking(true);
+      const purged = ids === 'expired' ? await purgeExpiredLogs() : await purgeDeletedLogs(ids);
+      await loadTrash();
+      Swal.fire('สำเร็จ', `ลบถาวร ${purged} รายการเรียบร้อยแล้ว`, 'success');
+    } catch (e) {
+      console.error('Error purging logs:', e);
+      Swal.fire('เกิดข้อผิดพลาด', e instanceof Error ? e.message : 'ไม่สามารถลบถาวรได้', 'error');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const selectedPurgeable = selectedIds.length > 0 &&
+    deletedLogs.filter(log => selected[log.id]).every(isPurgeable);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-sky-50 relative">
+      <BubbleBackground />
+      <div className="relative z-10 max-w-7xl mx-auto p-4 md:p-6">
+        <div className="bg-white rounded-2xl shadow-xl p-6 md:p-8 mb-6 flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold bg-gradient-to-r from-blue-500 to-blue-800 text-transparent bg-clip-text mb-1">ถังขยะ</h1>
+            <p className="text-gray-500">
+              รายการที่ถูกลบจะถูกซ่อนจากหน้าหลัก กู้คืนได้ตลอด และลบถาวรได้เมื่อครบ {TRASH_RETENTION_DAYS} วัน
+            </p>
+          </div>
+          <button
+            onClick={() => router.push('/')}
+            className="px-6 py-3 bg-white text-gray-700 border-2 border-gray-200 rounded-lg font-semibold hover:bg-gray-50 hover:border-gray-300 transition-all shadow-sm"
+          >
+            ย้อนกลับไปหน้าหลัก
+          </button>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-lg mb-6 overflow-hidden border border-blue-100">
+          <div className="p-4 border-b border-blue-100 flex flex-wrap justify-between items-center gap-4">
+            <h2 className="text-lg font-semibold text-blue-800">รายการในถังขยะ ({deletedLogs.length})</h2>
+            <div className="flex items-center gap-3">
+              <button
+                onClick={handleRestore}
+                disabled={working || selectedIds.length === 0}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium flex items-center gap-2 disabled:opacity-50"
+              >
+                <RotateCcw className="w-4 h-4" />
+                กู้คืนที่เลือก ({selectedIds.length})
+              </button>
+              <button
+                onClick={() => handlePurge(selectedIds)}
+                disabled={working || !selectedPurgeable}
+                title={selectedIds.length > 0 && !selectedPurgeable ? `เลือกเฉพาะรายการที่ครบ ${TRASH_RETENTION_DAYS} วันแล้ว` : undefined}
+                className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors text-sm font-medium flex items-center gap-2 disabled:opacity-50"
+              >
+                <Trash2 className="w-4 h-4" />
+                ลบถาวรที่เลือก
+              </button>
+              <button
+                onClick={() => handlePurge('expired')}
+                disabled={working || expiredCount === 0}
+                className="px-4 py-2 bg-red-100 text-red-700 rounded-lg hover:bg-red-200 transition-colors text-sm font-medium disabled:opacity-50"
+              >
+                ล้างรายการที่หมดอายุ ({expiredCount})
+              </button>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full border-collapse">
+              <thead className="bg-gradient-to-r from-blue-100 to-sky-100">
+                <tr>
+                  <th className="px-4 py-3 border border-blue-200">
+                    <input type="checkbox" checked={allSelected} onChange={toggleAll} aria-label="เลือกทั้งหมด" />
+                  </th>
+                  <th className="px-4 py-3 text-left font-semibold text-blue-800 border border-blue-200">แท็กไอแพด</th>
+                  <th className="px-4 py-3 text-left font-semibold text-blue-800 border border-blue-200">รหัสพนักงาน</th>
+                  <th className="px-4 py-3 text-left font-semibold text-blue-800 border border-blue-200">แผนก</th>
+                  <th className="px-4 py-3 text-left font-semibold text-blue-800 border border-blue-200">สถานะ</th>
+                  <th className="px-4 py-3 text-left font-semibold text-blue-800 border border-blue-200">วันที่/เวลา</th>
+                  <th className="px-4 py-3 text-left font-semibold text-blue-800 border border-blue-200">ลบโดย</th>
+                  <th className="px-4 py-3 text-left font-semibold text-blue-800 border border-blue-200">ลบเมื่อ</th>
+                  <th className="px-4 py-3 text-left font-semibold text-blue-800 border border-blue-200">เหตุผล</th>
+                  <th className="px-4 py-3 text-left font-semibold text-blue-800 border border-blue-200">ลบถาวรได้ตั้งแต่</th>
+                </tr>
+              </thead>
+              <tbody>
+                {loading ? (
+                  <tr>
+                    <td colSpan={10} className="px-4 py-8 text-center text-gray-500">กำลังโหลด...</td>
+                  </tr>
+                ) : deletedLogs.length === 0 ? (
+                  <tr>
+                    <td colSpan={10} className="px-4 py-8 text-center text-gray-500">ไม่มีรายการในถังขยะ</td>
+                  </tr>
+                ) : (
+                  deletedLogs.map(log => (
+                    <tr key={log.id} className="border-b border-blue-50 hover:bg-blue-50 transition-colors">
+                      <td className="px-4 py-3 text-center">
+                        <input
+                          type="checkbox"
+                          checked={!!selected[log.id]}
+                          onChange={() => setSelected(prev => ({ ...prev, [log.id]: !prev[log.id] }))}
+                          aria-label={`เลือก ${log.ipadTag}`}
+                        />
+                      </td>
+                      <td className="px-4 py-3 text-gray-700 font-mono">{log.ipadTag}</td>
+                      <td className="px-4 py-3 font-semibold text-blue-700">
+                        {log.changedBy && !log.employeeId ? <span className="text-sm font-normal text-gray-500">ผู้ดูแล: {log.changedBy}</span> : log.employeeId}
+                      </td>
+                      <td className="px-4 py-3 text-gray-700">{log.department}</td>
+                      <td className="px-4 py-3 text-gray-700">{log.status}</td>
+                      <td className="px-4 py-3 text-gray-600">{log.date} {log.time}</td>
+                      <td className="px-4 py-3 text-gray-700">{log.deletedBy}</td>
+                      <td className="px-4 py-3 text-gray-600">{new Date(log.deletedAt).toLocaleString('th-TH')}</td>
+                      <td className="px-4 py-3 text-gray-700">{log.reason}</td>
+                      <td className={`px-4 py-3 ${isPurgeable(log) ? 'text-red-600 font-semibold' : 'text-gray-600'}`}>
+                        {purgeableAt(log).toLocaleDateString('th-TH')}
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { setStorage } from './storage';
+import { createMemoryBackend, MemoryBackend } from './storage/memory';
+import { BACKUP_FORMAT, BACKUP_VERSION, createBackup, restoreBackup, validateBackup } from './backup';
+import { getIpadStatus } from './dbService';
+
+const log = (id: string, ipadTag: string, status: 'ส่งเข้า' | 'ส่งออก', timestamp: string) => ({
+  id,
+  employeeId: 'E001',
+  ipadTag,
+  department: 'ER',
+  status,
+  date: '2026-01-01',
+  time: '08:00:00',
+  timestamp
+});
+
+const archive = (overrides: Record<string, unknown> = {}) => ({
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  createdAt: '2026-01-02T00:00:00.000Z',
+  logSchemaVersion: 3,
+  logs: [log('a', 'ER-1', 'ส่งออก', '2026-01-01T01:00:00.000Z')],
+  ipad: [{ id: 'er', department: 'ER', tags: [] }],
+  devices: [{ ipadTag: 'ER-1', department: 'ER' }],
+  ...overrides
+});
+
+describe('validateBackup', () => {
+  it('accepts a complete archive', () => {
+    expect(validateBackup(archive())).toEqual({ archive: archive(), errors: [] });
+  });
+
+  it('rejects files that are not archives or come from a newer version', () => {
+    expect(validateBackup({ logs: [] }).errors).toEqual(['ไม่ใช่ไฟล์สำรองข้อมูลของระบบนี้']);
+    expect(validateBackup(archive({ version: BACKUP_VERSION + 1 })).errors[0]).toContain('รุ่นใหม่กว่า');
+    expect(validateBackup(archive({ devices: undefined })).errors).toEqual(['ไม่พบรายการ devices']);
+  });
+
+  it('lists every broken entry', () => {
+    const result = validateBackup(archive({
+      logs: [log('a', 'ER-1', 'ส่งออก', 'yesterday'), log('b', 'ER-1', 'ส่งออก', '2026-01-01T01:00:00.000Z'), log('b', 'ER-1', 'ส่งเข้า', '2026-01-01T02:00:00.000Z')],
+      ipad: [{ department: 'ER' }, { id: 'icu', archived: 'yes' }],
+      devices: [{ ipadTag: 'ER-1' }]
+    }));
+    expect(result.archive).toBeNull();
+    expect(result.errors).toEqual([
+      'log ลำดับที่ 1 ข้อมูลไม่ครบหรือไม่ถูกต้อง',
+      'log id "b" ซ้ำกัน',
+      'แผนกลำดับที่ 1 ไม่มี id',
+      'แผนก "icu" มีสถานะเก็บถาวรไม่ถูกต้อง',
+      'อุปกรณ์ลำดับที่ 1 ไม่มีแท็กหรือแผนก'
+    ]);
+  });
+
+  it('caps the number of errors it reports', () => {
+    const logs = Array.from({ length: 30 }, () => ({}));
+    const { errors } = validateBackup(archive({ logs }));
+    expect(errors).toHaveLength(21);
+    expect(errors[20]).toBe('และอีก 10 รายการ');
+  });
+});
+
+describe('restoreBackup', () => {
+  let source: MemoryBackend;
+
+  beforeEach(() => {
+    source = createMemoryBackend({
+      initial: {
+        logs: [log('a', 'ER-1', 'ส่งออก', '2026-01-01T01:00:00.000Z'), log('b', 'ER-2', 'ส่งออก', '2026-01-01T02:00:00.000Z'), log('c', 'ER-2', 'ส่งเข้า', '2026-01-01T03:00:00.000Z')],
+        ipad: [{ id: 'er', department: 'ER' }],
+        devices: [{ ipadTag: 'ER-1', department: 'ER' }, { ipadTag: 'ER-2', department: 'ER' }]
+      }
+    });
+  });
+
+  it('restores what it backed up into an empty store and rebuilds the status index', async () => {
+    setStorage(source);
+    const backup = await createBackup();
+
+    const target = createMemoryBackend();
+    setStorage(target);
+    const result = await restoreBackup(backup, { mode: 'merge' });
+
+    expect(result).toMatchObject({ logs: 3, departments: 1, devices: 2 });
+    const byId = (a: { id: string }, b: { id: string }) => a.id.localeCompare(b.id);
+    expect(target.snapshot().logs.sort(byId)).toEqual(source.snapshot().logs.sort(byId));
+    expect(await getIpadStatus('ER-1')).toBe('ส่งออก');
+    expect(await getIpadStatus('ER-2')).toBe('ส่งเข้า');
+  });
+
+  it('keeps the schema fields of the stored logs', async () => {
+    const canonical = { ...log('d', 'ER-1', 'ส่งเข้า', '2026-01-01T04:00:00.000Z'), imported: false, schemaVersion: 4 };
+    setStorage(createMemoryBackend({ initial: { logs: [canonical] } }));
+    const backup = await createBackup();
+    expect(backup.logs).toEqual([canonical]);
+
+    const target = createMemoryBackend();
+    setStorage(target);
+    await restoreBackup(validateBackup(JSON.parse(JSON.stringify(backup))).archive!, { mode: 'merge' });
+    expect(target.snapshot().logs).toEqual([canonical]);
+  });
+
+  it('keeps archived departments archived and unarchives those the file has as active', async () => {
+    setStorage(createMemoryBackend({ initial: { ipad: [{ id: 'er', department: 'ER', tags: [], archived: true }, { id: 'icu', department: 'ICU', tags: [] }] } }));
+    const backup = await createBackup();
+
+    const target = createMemoryBackend({ initial: { ipad: [{ id: 'icu', department: 'ICU', tags: [], archived: true }] } });
+    setStorage(target);
+    await restoreBackup(backup, { mode: 'merge' });
+    const archived = Object.fromEntries(target.snapshot().ipad.map(d => [d.id, !!d.archived]));
+    expect(archived).toEqual({ er: true, icu: false });
+  });
+
+  it('keeps data missing from the file when merging and removes it when replacing', async () => {
+    setStorage(source);
+    const backup = await createBackup();
+    const partial = { ...backup, logs: backup.logs.filter(l => l.id !== 'c'), devices: backup.devices.filter(d => d.ipadTag === 'ER-1') };
+
+    await restoreBackup(partial, { mode: 'merge' });
+    expect(source.snapshot().logs).toHaveLength(3);
+
+    const progress: string[] = [];
+    const result = await restoreBackup(partial, { mode: 'replace', onProgress: p => progress.push(p.phase) });
+    expect(result).toMatchObject({ removedLogs: 1, removedDevices: 1, removedDepartments: 0 });
+    expect(source.snapshot().logs.map(l => l.id).sort()).toEqual(['a', 'b']);
+    expect(await getIpadStatus('ER-2')).toBe('ส่งออก');
+    expect(progress[progress.length - 1]).toBe('states');
+  });
+});
@@ -0,0 +1,200 @@
+import { format } from 'date-fns';
+import { getStorage, isIpadStatus, isLog, Device, IpadDocument, Log, LOG_SCHEMA_VERSION } from './storage';
+import { backfillIpadStates } from './dbService';
+
+// ไฟล์สำรองข้อมูล: log ทั้งหมด เอกสารแผนก (`ipad`) และอุปกรณ์ พร้อม id และเวลาเดิม
+export const BACKUP_FORMAT = 'ipad-tracking-backup';
+export const BACKUP_VERSION = 1;
+
+// log ตามที่เก็บจริง รวมฟิลด์ที่ตัวอ่านละไว้ เช่น `schemaVersion` และ `imported: false`
+export type BackupLog = Log & { schemaVersion?: number };
+
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  // LOG_SCHEMA_VERSION ของระบบที่สร้างไฟล์
+  logSchemaVersion: number;
+  logs: BackupLog[];
+  ipad: IpadDocument[];
+  devices: Device[];
+}
+
+// merge: เขียนทับเฉพาะรายการที่มีในไฟล์ replace: ลบรายการที่ไม่มีในไฟล์ออกด้วย
+export type RestoreMode = 'merge' | 'replace';
+
+export interface RestoreProgress {
+  phase: 'logs' | 'cleanup' | 'catalog' | 'devices' | 'states';
+  done: number;
+  total: number;
+}
+
+export interface RestoreResult {
+  logs: number;
+  departments: number;
+  devices: number;
+  removedLogs: number;
+  removedDepartments: number;
+  removedDevices: number;
+}
+
+export const RESTORE_PHASE_LABELS: Record<RestoreProgress['phase'], string> = {
+  logs: 'กู้คืนประวัติ',
+  cleanup: 'ลบรายการที่ไม่มีในไฟล์',
+  catalog: 'กู้คืนแผนก',
+  devices: 'กู้คืนอุปกรณ์',
+  states: 'สร้างดัชนีสถานะ'
+};
+
+// จำนวนรายการต่อรอบการเขียน (ตรงกับขนาด batch ของ Firestore) และเป็นจังหวะรายงานความคืบหน้า
+const RESTORE_CHUNK = 500;
+const MAX_ERRORS = 20;
+
+export const backupFileName = (createdAt: Date = new Date()): string =>
+  `ipad_backup_${format(createdAt, 'yyyyMMdd_HHmm')}.json`;
+
+export const createBackup = async (): Promise<BackupArchive> => {
+  try {
+    const storage = getStorage();
+    const [stored, ipad, devices] = await Promise.all([storage.logs.listStored(), storage.catalog.list(), storage.devices.list()]);
+    // ใช้ข้อมูลตามที่เก็บแทน list() ซึ่งเติมค่าเริ่มต้นและตัดฟิลด์ของ schema ออก
+    const logs = stored.map(record => ({ ...record.data, id: record.id }) as BackupLog);
+    return {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      createdAt: new Date().toISOString(),
+      logSchemaVersion: LOG_SCHEMA_VERSION,
+      logs,
+      ipad,
+      devices
+    };
+  } catch (error) {
+    console.error('Error creating backup:', error);
+    throw new Error('ไม่สามารถสร้างไฟล์สำรองข้อมูลได้');
+  }
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// ตรวจไฟล์สำรองก่อนกู้คืน คืน archive เมื่อถูกต้องทั้งหมด มิฉะนั้นคืนรายการข้อผิดพลาด
+export const validateBackup = (data: unknown): { archive: BackupArchive | null; errors: string[] } => {
+  const errors: string[] = [];
+  if (!isObject(data) || data.format !== BACKUP_FORMAT) {
+    return { archive: null, errors: ['ไม่ใช่ไฟล์สำรองข้อมูลของระบบนี้'] };
+  }
+  if (typeof data.version !== 'number' || data.version < 1) {
+    return { archive: null, errors: ['ไม่พบรุ่นของไฟล์สำรองข้อมูล'] };
+  }
+  if (data.version > BACKUP_VERSION) {
+    return { archive: null, errors: [`ไฟล์สำรองมาจากระบบรุ่นใหม่กว่า (รุ่น ${data.version})`] };
+  }
+  (['logs', 'ipad', 'devices'] as const).forEach(key => {
+    if (!Array.isArray(data[key])) errors.push(`ไม่พบรายการ ${key}`);
+  });
+  if (errors.length > 0) return { archive: null, errors };
+
+  const logIds = new Set<string>();
+  (data.logs as unknown[]).forEach((log, i) => {
+    if (!isLog(log) || !isIpadStatus(log.status) || Number.isNaN(Date.parse(log.timestamp))) {
+      errors.push(`log ลำดับที่ ${i + 1} ข้อมูลไม่ครบหรือไม่ถูกต้อง`);
+    } else if (logIds.has(log.id)) {
+      errors.push(`log id "${log.id}" ซ้ำกัน`);
+    } else {
+      logIds.add(log.id);
+    }
+  });
+  (data.ipad as unknown[]).forEach((doc, i) => {
+    if (!isObject(doc) || typeof doc.id !== 'string' || !doc.id) {
+      errors.push(`แผนกลำดับที่ ${i + 1} ไม่มี id`);
+    } else if (doc.tags !== undefined && !(Array.isArray(doc.tags) && doc.tags.every(t => typeof t === 'string'))) {
+      errors.push(`แผนก "${doc.id}" มีรายการแท็กไม่ถูกต้อง`);
+    } else if (doc.archived !== undefined && typeof doc.archived !== 'boolean') {
+      errors.push(`แผนก "${doc.id}" มีสถานะเก็บถาวรไม่ถูกต้อง`);
+    }
+  });
+  (data.devices as unknown[]).forEach((device, i) => {
+    if (!isObject(device) || typeof device.ipadTag !== 'string' || !device.ipadTag || typeof device.department !== 'string') {
+      errors.push(`อุปกรณ์ลำดับที่ ${i + 1} ไม่มีแท็กหรือแผนก`);
+    }
+  });
+
+  if (errors.length > MAX_ERRORS) {
+    const more = errors.length - MAX_ERRORS;
+    return { archive: null, errors: [...errors.slice(0, MAX_ERRORS), `และอีก ${more} รายการ`] };
+  }
+  return errors.length > 0 ? { archive: null, errors } : { archive: data as unknown as BackupArchive, errors };
+};
+
+const inChunks = async <T>(
+  items: T[],
+  phase: RestoreProgress['phase'],
+  write: (part: T[]) => Promise<void>,
+  onProgress?: (progress: RestoreProgress) => void
+): Promise<void> => {
+  onProgress?.({ phase, done: 0, total: items.length });
+  for (let i = 0; i < items.length; i += RESTORE_CHUNK) {
+    const part = items.slice(i, i + RESTORE_CHUNK);
+    await write(part);
+    onProgress?.({ phase, done: i + part.length, total: items.length });
+  }
+};
+
+// กู้คืนจากไฟล์สำรองที่ผ่าน validateBackup แล้ว เขียนเป็นชุดละ RESTORE_CHUNK รายการและรายงานความคืบหน้าทุกชุด
+// สุดท้ายสร้างดัชนีสถานะใหม่จาก log ที่กู้คืน
+export const restoreBackup = async (
+  archive: BackupArchive,
+  options: { mode: RestoreMode; onProgress?: (progress: RestoreProgress) => void }
+): Promise<RestoreResult> => {
+  const { mode, onProgress } = options;
+  const storage = getStorage();
+  const result: RestoreResult = {
+    logs: archive.logs.length,
+    departments: archive.ipad.length,
+    devices: archive.devices.length,
+    removedLogs: 0,
+    removedDepartments: 0,
+    removedDevices: 0
+  };
+  try {
+    await inChunks(archive.logs, 'logs', part => storage.logs.putMany(part), onProgress);
+
+    if (mode === 'replace') {
+      const keepLogs = new Set(archive.logs.map(l => l.id));
+      const keepDocs = new Set(archive.ipad.map(d => d.id));
+      const keepDevices = new Set(archive.devices.map(d => d.ipadTag));
+      const [stored, docs, devices] = await Promise.all([storage.logs.listStored(), storage.catalog.list(), storage.devices.list()]);
+      const staleLogs = stored.map(r => r.id).filter(id => !keepLogs.has(id));
+      const staleDocs = docs.map(d => d.id).filter(id => !keepDocs.has(id));
+      const staleDevices = devices.map(d => d.ipadTag).filter(tag => !keepDevices.has(tag));
+      const total = staleLogs.length + staleDocs.length + staleDevices.length;
+      onProgress?.({ phase: 'cleanup', done: 0, total });
+      for (let i = 0; i < staleLogs.length; i += RESTORE_CHUNK) {
+        await storage.logs.removeMany(staleLogs.slice(i, i + RESTORE_CHUNK));
+        onProgress?.({ phase: 'cleanup', done: Math.min(i + RESTORE_CHUNK, staleLogs.length), total });
+      }
+      for (const id of staleDocs) await storage.catalog.remove(id);
+      if (staleDevices.length > 0) await storage.devices.removeMany(staleDevices);
+      onProgress?.({ phase: 'cleanup', done: total, total });
+      result.removedLogs = staleLogs.length;
+      result.removedDepartments = staleDocs.length;
+      result.removedDevices = staleDevices.length;
+    }
+
+    await inChunks(archive.ipad, 'catalog', async part => {
+      for (const { id, ...data } of part) {
+        // archived ต้องเขียนเสมอ เพราะ save รวมกับเอกสารเดิมและจะคงค่า archived ของปลายทางไว้
+        await storage.catalog.save(id, { ...data, department: data.department || id, tags: data.tags || [], archived: data.archived === true });
+      }
+    }, onProgress);
+    await inChunks(archive.devices, 'devices', part => storage.devices.saveMany(part), onProgress);
+
+    onProgress?.({ phase: 'states', done: 0, total: 1 });
+    await backfillIpadStates();
+    onProgress?.({ phase: 'states', done: 1, total: 1 });
+    return result;
+  } catch (error) {
+    console.error('Error restoring backup:', error);
+    throw new Error('กู้คืนข้อมูลไม่สำเร็จ ข้อมูลอาจถูกกู้คืนเพียงบางส่วน กรุณาลองใหม่อีกครั้ง');
+  }
+};
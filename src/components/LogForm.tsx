@@ -2,15 +2,38 @@
 
 import { useState, useEffect, useRef, ChangeEvent, KeyboardEvent, useCallback } from 'react';
 import Image from 'next/image';
-import { addLog, getTagsByDepartment, getDepartmentsFromDB } from '../dbService';
+import { addLog, isConnectionError, getTagsByDepartment, getDepartmentsFromDB, getEmployees, getTagPolicy, getScannerProfiles, getOverdueDevices, formatDuration, indexTags, resolveTag, parseScan, DEFAULT_TAG_POLICY, OverdueDevice, ScanStatus, ScannerProfile, TagPolicy } from '../dbService';
+import { enqueueScan, countQueuedScans, replayQueuedScans } from '../offlineQueue';
+import { getKioskScannerProfile, setKioskScannerProfile } from './kioskScanner';
 
 // Cache interface
 interface TagCache {
   [key: string]: string; // tag -> department
 }
 
+// Employee ID -> name, department and whether they may scan
+interface EmployeeCache {
+  [employeeId: string]: { name: string; department: string; active: boolean };
+}
+
+// Last good tag cache, so a kiosk reloaded while offline can still recognise tags
+const TAG_CACHE_KEY = 'ipadTagCache';
+const TAG_POLICY_KEY = 'ipadTagPolicy';
+const EMPLOYEE_CACHE_KEY = 'ipadEmployeeCache';
+
+// Why a scanned employee ID cannot be used, or '' while it is empty, allowed or not checked yet
+const employeeErrorFor = (raw: string, scanError: string | null, employees: EmployeeCache, scannedId: string): string => {
+  if (!raw.trim()) return '';
+  if (scanError) return scanError;
+  if (Object.keys(employees).length === 0) return '';
+  const employee = employees[scannedId];
+  if (!employee) return 'ไม่พบรหัสพนักงานนี้ในระบบ';
+  if (!employee.active) return 'รหัสพนักงานนี้ถูกปิดการใช้งาน';
+  return '';
+};
+
 interface LogFormProps {
-  status: 'ส่งเข้า' | 'ส่งออก';
+  status: ScanStatus;
   onSuccess?: () => void;
 }
 
@@ -24,9 +47,16 @@ export default function LogForm({ status, onSuccess }: LogFormProps) {
   const [success, setSuccess] = useState('');
   const [isValidTag, setIsValidTag] = useState(false);
   const [count, setCount] = useState(0);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [employees, setEmployees] = useState<EmployeeCache>({});
+  const [scannerProfile, setScannerProfile] = useState<ScannerProfile | null>(null);
+  const [overdue, setOverdue] = useState<OverdueDevice[]>([]);
   const employeeIdInputRef = useRef<HTMLInputElement>(null);
   const ipadTagInputRef = useRef<HTMLInputElement>(null);
   const tagsCache = useRef<TagCache>({});
+  // Cached tags keyed also by their normalized form, so "er 01" finds a stored "ER-01"
+  const tagPolicy = useRef<TagPolicy>(DEFAULT_TAG_POLICY);
+  const tagIndex = useRef<Map<string, string>>(new Map());
   const lastFetchTime = useRef<number>(0);
   const lastActivityTime = useRef<number>(Date.now());
   const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes cache
@@ -112,7 +142,7 @@ export default function LogForm({ status, onSuccess }: LogFormProps) {
     if (now - lastFetchTime.current < CACHE_DURATION) return;
 
     try {
-      const departments = await getDepartmentsFromDB();
+      const [departments, policy, registry, profiles] = await Promise.all([getDepartmentsFromDB(), getTagPolicy(), getEmployees(), getScannerProfiles()]);
       const newCache: TagCache = {};
       
       // Process departments in parallel
@@ -126,7 +156,26 @@ export default function LogForm({ status, onSuccess }: LogFormProps) {
       );
       
       tagsCache.current = newCache;
+      tagPolicy.current = policy;
+      tagIndex.current = indexTags(Object.keys(newCache), policy);
+      const employeeCache: EmployeeCache = {};
+      registry.forEach(e => {
+        employeeCache[e.employeeId] = { name: e.name, department: e.department, active: e.active };
+      });
+      setEmployees(employeeCache);
+      // Pick up edits an admin made to this kiosk's scanner profile
+      const selected = getKioskScannerProfile();
+      const latest = selected && profiles.find(p => p.id === selected.id);
+      if (latest) {
+        setKioskScannerProfile(latest);
+        setScannerProfile(latest);
+      }
       lastFetchTime.current = now;
+      try {
+        localStorage.setItem(TAG_CACHE_KEY, JSON.stringify(newCache));
+        localStorage.setItem(TAG_POLICY_KEY, JSON.stringify(policy));
+        localStorage.setItem(EMPLOYEE_CACHE_KEY, JSON.stringify(employeeCache));
+      } catch {}
     } catch (error) {
       console.error('Error loading tags:', error);
     }
@@ -134,26 +183,104 @@ export default function LogForm({ status, onSuccess }: LogFormProps) {
 
   // Initial load of tags
   useEffect(() => {
+    try {
+      const saved = localStorage.getItem(TAG_CACHE_KEY);
+      if (saved) tagsCache.current = JSON.parse(saved) as TagCache;
+      const savedPolicy = localStorage.getItem(TAG_POLICY_KEY);
+      if (savedPolicy) tagPolicy.current = { ...DEFAULT_TAG_POLICY, ...(JSON.parse(savedPolicy) as TagPolicy) };
+      tagIndex.current = indexTags(Object.keys(tagsCache.current), tagPolicy.current);
+      const savedEmployees = localStorage.getItem(EMPLOYEE_CACHE_KEY);
+      if (savedEmployees) setEmployees(JSON.parse(savedEmployees) as EmployeeCache);
+    } catch {}
+    setScannerProfile(getKioskScannerProfile());
     loadAndCacheTags();
   }, [loadAndCacheTags]);
 
+  // Send scans queued while offline, in order, and report any that were rejected
+  const flushQueue = useCallback(async () => {
+    if (!navigator.onLine) return;
+    try {
+      const { sent, conflicts } = await replayQueuedScans();
+      if (sent > 0) {
+        setSuccess(`ส่งรายการที่ค้างไว้ ${sent} รายการเรียบร้อยแล้ว`);
+        if (onSuccess) onSuccess();
+      }
+      if (conflicts.length > 0) {
+        setError(
+          `รายการที่ค้างไว้ถูกปฏิเสธ ${conflicts.length} รายการ: ` +
+          conflicts.map(c => `${c.scan.ipadTag} (${c.message})`).join(', ')
+        );
+      }
+    } catch (error) {
+      console.error('Error replaying offline scans:', error);
+    } finally {
+      setPendingCount(await countQueuedScans());
+    }
+  }, [onSuccess]);
+
+  // Replay on load, when the connection returns, and periodically while scans are pending
+  useEffect(() => {
+    flushQueue();
+    window.addEventListener('online', flushQueue);
+    return () => window.removeEventListener('online', flushQueue);
+  }, [flushQueue]);
+
+  useEffect(() => {
+    if (pendingCount === 0) return;
+    const interval = setInterval(flushQueue, 30000);
+    return () => clearInterval(interval);
+  }, [pendingCount, flushQueue]);
+
   // Refresh cache periodically
   useEffect(() => {
     const interval = setInterval(loadAndCacheTags, CACHE_DURATION);
     return () => clearInterval(interval);
   }, [loadAndCacheTags]);
 
+  // Scans cleaned up by this kiosk's scanner profile; without one they are only trimmed
+  const readScan = (raw: string, field: 'employee' | 'tag') => parseScan(raw, scannerProfile?.[field]);
+
+  // An empty registry means employee IDs are not checked yet, so kiosks keep working until it is filled
+  const employeeScan = readScan(employeeId, 'employee');
+  const scannedEmployeeId = employeeScan.error ? '' : employeeScan.value;
+  const employee = employees[scannedEmployeeId];
+  const employeeError = employeeErrorFor(employeeId, employeeScan.error, employees, scannedEmployeeId);
+
+  // Devices this employee still has past their department's limit, checked again after every scan
+  useEffect(() => {
+    if (!scannedEmployeeId || !navigator.onLine) {
+      setOverdue([]);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      getOverdueDevices().then(devices => {
+        if (!cancelled) setOverdue(devices.filter(d => d.employeeId === scannedEmployeeId));
+      });
+    }, 500);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [scannedEmployeeId, count]);
+
   const findDepartmentForTag = (tag: string): string => {
     return tagsCache.current[tag] || 'ไม่ระบุแผนก';
   };
 
+  // The tag as stored, for a value typed or scanned in any spelling the tag policy accepts
+  const findStoredTag = (tag: string): string | null => {
+    const scan = readScan(tag, 'tag');
+    return scan.error ? null : resolveTag(scan.value, tagIndex.current, tagPolicy.current);
+  };
+
   const checkTagValidity = (tag: string): boolean => {
     if (!tag) {
       setIsValidTag(false);
       return false;
     }
     
-    const isValid = tag in tagsCache.current;
+    const isValid = findStoredTag(tag) !== null;
     setIsValidTag(isValid);
     return isValid;
   };
@@ -187,10 +314,15 @@ export default function LogForm({ status, onSuccess }: LogFormProps) {
   };
 
   const processTag = async (tag: string) => {
-    if (!tag || !employeeId) {
+    if (!tag || !scannedEmployeeId) {
       setError('กรุณากรอกข้อมูลให้ครบถ้วน');
       return false;
     }
+    if (employeeError) {
+      setError(`${employeeError}: ${scannedEmployeeId || employeeId.trim()}`);
+      employeeIdInputRef.current?.focus();
+      return false;
+    }
     
     setIsSubmitting(true);
     setError('');
@@ -199,23 +331,31 @@ export default function LogForm({ status, onSuccess }: LogFormProps) {
       // Check if tag is valid before proceeding
       const isValid = checkTagValidity(tag);
       if (!isValid) {
-        setError(`ไม่พบแท็ก: ${tag} ในระบบ`);
+        const scanError = readScan(tag, 'tag').error;
+        setError(scanError ? `${scanError}: ${tag}` : `ไม่พบแท็ก: ${tag} ในระบบ`);
         return false;
       }
       
-      const department = findDepartmentForTag(tag);
+      const storedTag = findStoredTag(tag) || tag;
+      const department = findDepartmentForTag(storedTag);
+      const scan = { employeeId: scannedEmployeeId, ipadTag: storedTag, department, status };
       
       try {
-        await addLog({ 
-          employeeId, 
-          ipadTag: tag,
-          department,
-          status 
-        });
-        
-        const successMsg = status === 'ส่งเข้า' 
+        let successMsg = status === 'ส่งเข้า' 
           ? `Ipad Tags นี้ส่งเข้าระบบแล้ว (รับคืนสำเร็จ)` 
           : `Ipad Tags นี้ส่งเข้าระบบแล้ว (ส่งคืนสำเร็จ)`;
+
+        try {
+          if (!navigator.onLine) throw new Error('offline');
+          await addLog(scan);
+        } catch (error) {
+          // Only a lost connection keeps the scan in the offline queue with its original
+          // time; rule violations and any other failure are shown to the user
+          if (!isConnectionError(error)) throw error;
+          await enqueueScan({ ...scan, timestamp: new Date().toISOString() });
+          setPendingCount(await countQueuedScans());
+          successMsg = `ไม่มีการเชื่อมต่อ: บันทึก ${tag} ไว้ในเครื่องแล้ว ระบบจะส่งให้อัตโนมัติเมื่อออนไลน์`;
+        }
         
         setSuccess(successMsg);
         setIpadTag(''); // Clear the iPad tag input
@@ -275,7 +415,7 @@ export default function LogForm({ status, onSuccess }: LogFormProps) {
   const handleEmployeeIdKeyPress = (e: KeyboardEvent<HTMLInputElement>) => {
     if (e.key === 'Enter') {
       e.preventDefault();
-      ipadTagInputRef.current?.focus();
+      if (!employeeError) ipadTagInputRef.current?.focus();
     }
   };
 
@@ -342,7 +482,12 @@ export default function LogForm({ status, onSuccess }: LogFormProps) {
       </div>
       <div className="space-y-4">
         <div>
-          <label className="block text-sm font-medium text-gray-700 mb-1">รหัสพนักงาน</label>
+          <div className="flex justify-between items-center mb-1">
+            <label className="block text-sm font-medium text-gray-700">รหัสพนักงาน</label>
+            {scannerProfile && (
+              <span className="text-xs text-gray-400">เครื่องสแกน: {scannerProfile.name}</span>
+            )}
+          </div>
           <input
             type="text"
             placeholder=""
@@ -352,20 +497,44 @@ export default function LogForm({ status, onSuccess }: LogFormProps) {
             onKeyDown={handleEmployeeIdKeyPress}
             onKeyPress={handleEmployeeIdKeyPress}
             disabled={isSubmitting}
-            className="w-full px-4 py-3 border-2 border-blue-200 rounded-lg focus:border-blue-500 focus:outline-none transition-colors disabled:opacity-70"
+            className={`w-full px-4 py-3 border-2 rounded-lg focus:outline-none transition-colors disabled:opacity-70 ${
+              employeeError ? 'border-red-300 bg-red-50' : 'border-blue-200 focus:border-blue-500'
+            }`}
             autoComplete="off"
           />
+          {employeeError ? (
+            <p className="mt-1 text-sm text-red-500">{employeeError}</p>
+          ) : (employee || scannedEmployeeId !== employeeId.trim()) && (
+            <p className="mt-1 text-sm text-green-700">
+              {/* The ID as parsed, when the scanner profile changed what was scanned */}
+              {scannedEmployeeId !== employeeId.trim() && <span className="font-mono mr-2">{scannedEmployeeId}</span>}
+              {employee && `${employee.name}${employee.department ? ` (${employee.department})` : ''}`}
+            </p>
+          )}
+          {overdue.length > 0 && (
+            <div className="mt-2 p-3 bg-amber-100 text-amber-900 rounded-lg text-sm">
+              ⚠ มีไอแพดที่ยังไม่คืนและเกินเวลาที่กำหนด:{' '}
+              {overdue.map(d => `${d.ipadTag} (ยืมไป ${formatDuration(d.durationMs)})`).join(', ')} กรุณาส่งคืน
+            </div>
+          )}
         </div>
         <div className="mb-4">
           <div className="flex justify-between items-center mb-2">
             <label className="block text-gray-700 text-sm font-bold" htmlFor="ipadTag">
               แท็กไอแพด {isValidTag && '✓'}
             </label>
-            {count > 0 && (
-              <span className="bg-blue-100 text-blue-800 text-xs font-medium px-2.5 py-0.5 rounded-full">
-                จำนวน: {count}
-              </span>
-            )}
+            <div className="flex items-center gap-2">
+              {pendingCount > 0 && (
+                <span className="bg-amber-100 text-amber-800 text-xs font-medium px-2.5 py-0.5 rounded-full" title="รายการที่สแกนขณะออฟไลน์ และรอส่งเข้าระบบ">
+                  รอส่ง: {pendingCount}
+                </span>
+              )}
+              {count > 0 && (
+                <span className="bg-blue-100 text-blue-800 text-xs font-medium px-2.5 py-0.5 rounded-full">
+                  จำนวน: {count}
+                </span>
+              )}
+            </div>
           </div>
           <form onSubmit={handleSubmit} className="relative">
             <input
@@ -0,0 +1,72 @@
+import Swal from 'sweetalert2';
+import type { LogDeletion } from '../dbService';
+
+// ชื่อผู้ดูแลที่ทำรายการล่าสุดบนเครื่องนี้ ใช้เติมให้อัตโนมัติในครั้งถัดไป
+const ACTOR_KEY = 'ipadAdminName';
+
+export const getSavedActor = (): string => {
+  try {
+    return localStorage.getItem(ACTOR_KEY) || '';
+  } catch {
+    return '';
+  }
+};
+
+export const saveActor = (name: string): void => {
+  try {
+    localStorage.setItem(ACTOR_KEY, name.trim());
+  } catch {}
+};
+
+// ชื่อผู้ทำรายการสำหรับบันทึกการแก้ไขแผนก/แท็ก ใช้ชื่อที่บันทึกไว้ถ้ามี
+// (หรือถามใหม่เมื่อ force) คืนค่า null ถ้ายกเลิก
+export const promptActor = async (force = false): Promise<string | null> => {
+  const saved = getSavedActor();
+  if (saved && !force) return saved;
+  const result = await Swal.fire({
+    title: 'ชื่อผู้ทำรายการ',
+    input: 'text',
+    inputValue: saved,
+    inputPlaceholder: 'ชื่อผู้ดูแล',
+    showCancelButton: true,
+    confirmButtonText: 'บันทึก',
+    cancelButtonText: 'ยกเลิก',
+    inputValidator: value => (value && value.trim() ? null : 'กรุณาระบุชื่อผู้ทำรายการ')
+  });
+  if (!result.isConfirmed || !result.value) return null;
+  saveActor(result.value);
+  return result.value.trim();
+};
+
+export const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c] as string));
+
+// ถามชื่อผู้ลบและเหตุผลก่อนย้ายรายการไปถังขยะ คืนค่า null ถ้ายกเลิก
+export const promptLogDeletion = async (count: number): Promise<LogDeletion | null> => {
+  const result = await Swal.fire({
+    title: 'ยืนยันการลบ',
+    html: `
+      <p class="mb-3">ย้าย ${count} รายการไปถังขยะ (กู้คืนได้ภายหลัง)</p>
+      <input id="swal-deleted-by" class="swal2-input" placeholder="ชื่อผู้ลบ" value="${escapeHtml(getSavedActor())}">
+      <input id="swal-delete-reason" class="swal2-input" placeholder="เหตุผล">
+    `,
+    icon: 'warning',
+    showCancelButton: true,
+    confirmButtonText: 'ใช่, ลบ',
+    cancelButtonText: 'ยกเลิก',
+    confirmButtonColor: '#d33',
+    preConfirm: () => {
+      const deletedBy = (document.getElementById('swal-deleted-by') as HTMLInputElement).value.trim();
+      const reason = (document.getElementById('swal-delete-reason') as HTMLInputElement).value.trim();
+      if (!deletedBy || !reason) {
+        Swal.showValidationMessage('กรุณาระบุชื่อผู้ลบและเหตุผล');
+        return false;
+      }
+      return { deletedBy, reason };
+    }
+  });
+
+  if (!result.isConfirmed || !result.value) return null;
+  saveActor(result.value.deletedBy);
+  return result.value;
+};
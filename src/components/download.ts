@@ -0,0 +1,16 @@
+// Save generated text as a file in the browser
+export const downloadFile = (filename: string, content: string, type: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+// CSV with a byte order mark so Excel opens Thai text correctly
+export const downloadCsv = (filename: string, csv: string) =>
+  downloadFile(filename, '\uFEFF' + csv, 'text/csv;charset=utf-8;');
@@ -0,0 +1,25 @@
+import type { ScannerProfile } from '../dbService';
+
+// The scanner profile this kiosk uses. The whole profile is kept, not only its id,
+// so a kiosk reloaded while offline still parses scans the same way.
+const SCANNER_PROFILE_KEY = 'ipadScannerProfile';
+
+export const getKioskScannerProfile = (): ScannerProfile | null => {
+  try {
+    const saved = localStorage.getItem(SCANNER_PROFILE_KEY);
+    return saved ? (JSON.parse(saved) as ScannerProfile) : null;
+  } catch {
+    return null;
+  }
+};
+
+// Pass null to go back to plain typed input
+export const setKioskScannerProfile = (profile: ScannerProfile | null): void => {
+  try {
+    if (profile) {
+      localStorage.setItem(SCANNER_PROFILE_KEY, JSON.stringify(profile));
+    } else {
+      localStorage.removeItem(SCANNER_PROFILE_KEY);
+    }
+  } catch {}
+};
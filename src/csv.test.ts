@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { parseDelimited, toCsv } from './csv';
+
+describe('parseDelimited', () => {
+  it('splits comma separated rows', () => {
+    expect(parseDelimited('แผนก,แท็ก\nER,ER-1\r\nOR,OR-1\n')).toEqual([
+      ['แผนก', 'แท็ก'],
+      ['ER', 'ER-1'],
+      ['OR', 'OR-1']
+    ]);
+  });
+
+  it('uses tabs when the first line has one', () => {
+    expect(parseDelimited('ER\tER-1,ER-2\n')).toEqual([['ER', 'ER-1,ER-2']]);
+  });
+
+  it('reads quoted cells with delimiters, quotes and newlines', () => {
+    expect(parseDelimited('"ห้อง ""ฉุกเฉิน""","ER-1,\nER-2"')).toEqual([['ห้อง "ฉุกเฉิน"', 'ER-1,\nER-2']]);
+  });
+
+  it('drops a leading byte order mark', () => {
+    expect(parseDelimited('\uFEFFER,ER-1')).toEqual([['ER', 'ER-1']]);
+  });
+});
+
+describe('toCsv', () => {
+  it('quotes only the cells that need it', () => {
+    expect(toCsv([['ER', 'a,b', 'say "hi"', null, 3]])).toBe('ER,"a,b","say ""hi""",,3');
+  });
+
+  it('reads back what it writes', () => {
+    const rows = [['แผนก', 'หมายเหตุ'], ['ER', 'บรรทัด 1\nบรรทัด 2']];
+    expect(parseDelimited(toCsv(rows))).toEqual(rows);
+  });
+});
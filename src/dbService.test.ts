@@ -0,0 +1,599 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { setStorage } from './storage';
+import { createMemoryBackend } from './storage/memory';
+import { addLog, applyCatalogImport, applyLogImport, deleteEmployee, deleteLogs, evaluateScan, findOverdueDevices, findTagPolicyChanges, findTagRuleViolations, formatDuration, getCatalogAudit, getCheckoutSessions, getDeletedLogs, getEmployees, getIpadDocs, getIpadStatus, getLogs, getShiftReport, getTagTransfers, guessLogImportMapping, isConnectionError, matchTagRule, migrateLogSchema, previewCatalogImport, previewLogImport, purgeDeletedLogs, purgeExpiredLogs, restoreLogs, saveCheckoutLimits, saveShiftSchedule, saveTagPolicy, saveTagRules, setDeviceStatus, shiftAt, shiftWindow, transferTags, upsertIpadDepartment, IpadState, ScanRuleError, TagRule } from './dbService';
+
+describe('evaluateScan', () => {
+  it('accepts the first scan of a tag either way', () => {
+    expect(evaluateScan(null, 'ส่งออก').canAdd).toBe(true);
+    expect(evaluateScan(null, 'ส่งเข้า').canAdd).toBe(true);
+  });
+
+  it('alternates check-out and check-in', () => {
+    expect(evaluateScan('ส่งเข้า', 'ส่งออก').canAdd).toBe(true);
+    expect(evaluateScan('ส่งออก', 'ส่งเข้า').canAdd).toBe(true);
+  });
+
+  it('rejects repeating the current status', () => {
+    expect(evaluateScan('ส่งออก', 'ส่งออก')).toEqual({
+      canAdd: false,
+      message: 'ไม่สามารถส่งออกได้ เนื่องจากแท็กนี้อยู่ในสถานะ ส่งออก อยู่แล้ว'
+    });
+    expect(evaluateScan('ส่งเข้า', 'ส่งเข้า').canAdd).toBe(false);
+  });
+
+  it('rejects scans of devices an admin has taken out of circulation', () => {
+    const result = evaluateScan('ส่งซ่อม', 'ส่งเข้า');
+    expect(result.canAdd).toBe(false);
+    expect(result.message).toContain('ส่งซ่อม');
+  });
+});
+
+describe('addLog', () => {
+  beforeEach(async () => {
+    // ER-1 is out and ER-2 has been returned
+    const last = { employeeId: 'E001', department: 'ER', date: '2026-01-01', time: '08:00:00', timestamp: '2026-01-01T01:00:00.000Z' };
+    setStorage(createMemoryBackend({
+      initial: {
+        logs: [
+          { ...last, id: 'a', ipadTag: 'ER-1', status: 'ส่งออก' },
+          { ...last, id: 'b', ipadTag: 'ER-2', status: 'ส่งเข้า' }
+        ]
+      }
+    }));
+    await upsertIpadDepartment('ER', ['ER-1', 'ER-2'], 'admin');
+  });
+
+  const scan = (ipadTag: string, status: 'ส่งเข้า' | 'ส่งออก') =>
+    addLog({ employeeId: 'E001', ipadTag, department: 'ER', status });
+
+  it('records a check-in of a device that is out', async () => {
+    await scan('ER-1', 'ส่งเข้า');
+    expect(await getIpadStatus('ER-1')).toBe('ส่งเข้า');
+  });
+
+  it('rejects a second check-out before the device is returned', async () => {
+    await expect(scan('ER-1', 'ส่งออก')).rejects.toBeInstanceOf(ScanRuleError);
+    expect(await getIpadStatus('ER-1')).toBe('ส่งออก');
+  });
+
+  it('rejects a check-in when the device was never checked out again', async () => {
+    await expect(scan('ER-2', 'ส่งเข้า')).rejects.toBeInstanceOf(ScanRuleError);
+  });
+
+  it('rejects tags that belong to another department', async () => {
+    await expect(
+      addLog({ employeeId: 'E001', ipadTag: 'ER-1', department: 'OR', status: 'ส่งเข้า' })
+    ).rejects.toBeInstanceOf(ScanRuleError);
+  });
+
+  it('keeps the scan time of a scan replayed from the offline queue', async () => {
+    const saved = await addLog(
+      { employeeId: 'E001', ipadTag: 'ER-1', department: 'ER', status: 'ส่งเข้า' },
+      { timestamp: '2026-01-01T02:00:00.000Z' }
+    );
+    expect(saved.timestamp).toBe('2026-01-01T02:00:00.000Z');
+    expect((await getLogs()).find(l => l.id === saved.id)?.timestamp).toBe('2026-01-01T02:00:00.000Z');
+  });
+
+  it('rejects a replayed scan older than the latest record of the tag', async () => {
+    await expect(addLog(
+      { employeeId: 'E001', ipadTag: 'ER-1', department: 'ER', status: 'ส่งเข้า' },
+      { timestamp: '2026-01-01T00:30:00.000Z' }
+    )).rejects.toThrow(ScanRuleError);
+
+    // The state document now exists and is newer than the queued check-out
+    await scan('ER-1', 'ส่งเข้า');
+    await expect(addLog(
+      { employeeId: 'E001', ipadTag: 'ER-1', department: 'ER', status: 'ส่งออก' },
+      { timestamp: '2026-01-01T02:00:00.000Z' }
+    )).rejects.toThrow('ใหม่กว่าเวลาที่สแกน');
+    expect(await getIpadStatus('ER-1')).toBe('ส่งเข้า');
+  });
+
+  it('does not reject the scan as a rule violation when storage fails', async () => {
+    const backend = createMemoryBackend();
+    backend.devices.get = async () => { throw new Error('client is offline'); };
+    setStorage(backend);
+    const error = await scan('ER-1', 'ส่งออก').catch(e => e);
+    expect(error).toBeInstanceOf(Error);
+    expect(error).not.toBeInstanceOf(ScanRuleError);
+    expect(isConnectionError(error)).toBe(false);
+  });
+
+  it('passes connection failures on with their code so the kiosk can queue the scan', async () => {
+    const backend = createMemoryBackend();
+    backend.devices.get = async () => { throw Object.assign(new Error('client is offline'), { code: 'unavailable' }); };
+    setStorage(backend);
+    const error = await scan('ER-1', 'ส่งออก').catch(e => e);
+    expect(error.code).toBe('unavailable');
+    expect(isConnectionError(error)).toBe(true);
+  });
+});
+
+describe('isConnectionError', () => {
+  it('counts only the Firestore codes for an unreachable server', () => {
+    expect(isConnectionError({ code: 'unavailable' })).toBe(true);
+    expect(isConnectionError({ code: 'deadline-exceeded' })).toBe(true);
+    expect(isConnectionError({ code: 'permission-denied' })).toBe(false);
+    expect(isConnectionError(new Error('offline'))).toBe(false);
+  });
+
+  it('treats every error as a connection failure while the browser is offline', () => {
+    vi.stubGlobal('navigator', { onLine: false });
+    try {
+      expect(isConnectionError(new Error('anything'))).toBe(true);
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+});
+
+describe('setDeviceStatus', () => {
+  beforeEach(async () => {
+    setStorage(createMemoryBackend());
+    await upsertIpadDepartment('ER', ['ER-1'], 'admin');
+  });
+
+  it('blocks scans until an admin returns the device to service', async () => {
+    await setDeviceStatus('ER-1', 'ส่งซ่อม', 'admin');
+    await expect(
+      addLog({ employeeId: 'E001', ipadTag: 'ER-1', department: 'ER', status: 'ส่งออก' })
+    ).rejects.toBeInstanceOf(ScanRuleError);
+    await setDeviceStatus('ER-1', 'ส่งเข้า', 'admin');
+    expect(await getIpadStatus('ER-1')).toBe('ส่งเข้า');
+  });
+
+  it('follows the transition table', async () => {
+    await setDeviceStatus('ER-1', 'ปลดระวาง', 'admin');
+    await expect(setDeviceStatus('ER-1', 'ส่งเข้า', 'admin')).rejects.toBeInstanceOf(ScanRuleError);
+  });
+});
+
+describe('trash bin', () => {
+  const base = { employeeId: 'E001', ipadTag: 'ER-1', department: 'ER', date: '2026-01-01', time: '08:00:00' };
+
+  beforeEach(() => {
+    setStorage(createMemoryBackend({
+      initial: {
+        logs: [
+          { ...base, id: 'out', status: 'ส่งออก', timestamp: '2026-01-01T01:00:00.000Z' },
+          { ...base, id: 'in', status: 'ส่งเข้า', timestamp: '2026-01-01T02:00:00.000Z' }
+        ],
+        deletedLogs: [
+          { ...base, id: 'old', status: 'ส่งออก', timestamp: '2025-12-01T01:00:00.000Z', deletedBy: 'admin', reason: 'ซ้ำ', deletedAt: '2025-12-01T02:00:00.000Z' }
+        ]
+      }
+    }));
+  });
+
+  it('recomputes the status of a tag when its latest log is deleted and restored', async () => {
+    await deleteLogs(['in'], { deletedBy: 'admin', reason: 'สแกนผิด' });
+    expect(await getIpadStatus('ER-1')).toBe('ส่งออก');
+    await restoreLogs(['in']);
+    expect(await getIpadStatus('ER-1')).toBe('ส่งเข้า');
+  });
+
+  it('requires the name of whoever deletes', async () => {
+    await expect(deleteLogs(['in'], { deletedBy: ' ', reason: '' })).rejects.toThrow('กรุณาระบุชื่อผู้ลบ');
+  });
+
+  it('keeps logs in the trash for the retention period', async () => {
+    await deleteLogs(['in'], { deletedBy: 'admin', reason: 'สแกนผิด' });
+    await expect(purgeDeletedLogs(['in'])).rejects.toThrow('ยังลบถาวรไม่ได้ 1 รายการ');
+    expect(await purgeExpiredLogs()).toBe(1);
+    expect((await getDeletedLogs()).map(l => l.id)).toEqual(['in']);
+  });
+});
+
+describe('catalog import', () => {
+  const file = [
+    'แผนก,แท็ก',
+    'er,ER-1',
+    'ER,ER-3',
+    'OR,ER-2',
+    'ICU,ICU-1',
+    'ICU,ICU-1',
+    ',OR-9'
+  ].join('\n');
+
+  beforeEach(async () => {
+    setStorage(createMemoryBackend());
+    await upsertIpadDepartment('ER', ['ER-1', 'ER-2'], 'admin');
+  });
+
+  it('reports what each line would do without writing', async () => {
+    const preview = await previewCatalogImport(file);
+    expect(preview.entries.map(e => [e.line, e.department, e.ipadTag, e.outcome])).toEqual([
+      [2, 'ER', 'ER-1', 'existing'],
+      [3, 'ER', 'ER-3', 'new'],
+      [4, 'OR', 'ER-2', 'conflict'],
+      [5, 'ICU', 'ICU-1', 'new'],
+      [6, 'ICU', 'ICU-1', 'invalid'],
+      [7, '', 'OR-9', 'invalid']
+    ]);
+    expect(preview.newDepartments).toEqual(['ICU']);
+    expect((await getIpadDocs()).map(d => d.department)).toEqual(['ER']);
+  });
+
+  it('adds only the new tags and records who imported them', async () => {
+    const report = await applyCatalogImport(file, 'admin');
+    expect(report.entries.filter(e => e.message === 'เพิ่มแล้ว').map(e => e.ipadTag)).toEqual(['ER-3', 'ICU-1']);
+    const docs = await getIpadDocs();
+    expect(docs.find(d => d.department === 'ER')?.tags).toEqual(expect.arrayContaining(['ER-1', 'ER-2', 'ER-3']));
+    expect(docs.find(d => d.department === 'ICU')?.tags).toEqual(['ICU-1']);
+    expect((await getCatalogAudit()).filter(e => e.actor === 'admin').map(e => e.department)).toEqual(expect.arrayContaining(['ER', 'ICU']));
+  });
+
+  it('requires the name of whoever imports', async () => {
+    await expect(applyCatalogImport(file, '')).rejects.toThrow();
+  });
+});
+
+describe('log import', () => {
+  const file = [
+    'รหัสพนักงาน,แท็ก,สถานะ,วันเวลา',
+    'E001,ER-1,out,2026-01-01T01:00:00.000Z',
+    'E001,ER-1,in,2026-01-01T06:00:00.000Z',
+    'E001,ER-1,ส่งออก,2026-01-01T05:00:00.000Z',
+    'E001,ER-9,in,2026-01-01T06:00:00.000Z',
+    'E001,ER-2,maybe,2026-01-01T06:00:00.000Z',
+    'E001,ER-2,in,2099-01-01T00:00:00.000Z',
+    'E001,ER-2,ออก,1/2/2569 08:00',
+    'E001,ER-2,out,2026-02-03T00:00:00.000Z'
+  ].join('\n');
+  const options = () => ({ mapping: guessLogImportMapping(['รหัสพนักงาน', 'แท็ก', 'สถานะ', 'วันเวลา']), hasHeader: true, dayFirst: true });
+
+  beforeEach(async () => {
+    // ER-1 is already out since 05:00
+    setStorage(createMemoryBackend({
+      initial: {
+        logs: [{ id: 'out', employeeId: 'E002', ipadTag: 'ER-1', department: 'ER', status: 'ส่งออก', date: '2026-01-01', time: '12:00:00', timestamp: '2026-01-01T05:00:00.000Z' }]
+      }
+    }));
+    await upsertIpadDepartment('ER', ['ER-1', 'ER-2'], 'admin');
+  });
+
+  it('guesses the columns from the header', () => {
+    expect(options().mapping).toEqual({ employeeId: 0, ipadTag: 1, status: 2, timestamp: 3 });
+  });
+
+  it('checks each row and the check-in/check-out sequence against existing logs', async () => {
+    const rows = await previewLogImport(file, options());
+    expect(rows.map(r => [r.line, r.accepted, r.message])).toEqual([
+      [2, false, expect.stringContaining('ขัดกับรายการส่งออก')],
+      [3, true, 'นำเข้าได้'],
+      [4, false, 'มีรายการนี้ในระบบแล้ว'],
+      [5, false, 'ไม่พบแท็กนี้ในระบบ'],
+      [6, false, 'สถานะไม่ถูกต้อง: maybe'],
+      [7, false, 'วันเวลาอยู่ในอนาคต'],
+      [8, true, 'นำเข้าได้'],
+      [9, false, expect.stringContaining('ส่งออก อยู่แล้ว')]
+    ]);
+    // Buddhist year, day first
+    expect(rows[6].timestamp.slice(0, 7)).toBe('2026-02');
+    expect(rows[6]).toMatchObject({ status: 'ส่งออก', department: 'ER' });
+  });
+
+  it('writes the accepted rows as imported logs and updates the status', async () => {
+    await applyLogImport(file, options());
+    const imported = (await getLogs()).filter(l => l.imported);
+    expect(imported.map(l => l.ipadTag).sort()).toEqual(['ER-1', 'ER-2']);
+    expect(await getIpadStatus('ER-1')).toBe('ส่งเข้า');
+    expect(await getIpadStatus('ER-2')).toBe('ส่งออก');
+  });
+
+  it('matches tags typed differently to the stored ones under the tag policy', async () => {
+    await saveTagPolicy({ letterCase: 'upper', separator: '-', padDigits: 0, pattern: '' }, 'admin');
+    const rows = await previewLogImport(['รหัสพนักงาน,แท็ก,สถานะ,วันเวลา', 'E001,er 2,out,2026-01-01T01:00:00.000Z'].join('\n'), options());
+    expect(rows[0]).toMatchObject({ ipadTag: 'ER-2', department: 'ER', accepted: true });
+  });
+});
+
+describe('tag rules', () => {
+  const rules: TagRule[] = [
+    { id: 'broken', kind: 'regex', pattern: '([', department: 'OR' },
+    { id: 'er', kind: 'prefix', pattern: 'ER-', department: 'ER' },
+    { id: 'icu', kind: 'regex', pattern: '^icu\\d+$', department: 'ICU' },
+    { id: 'all-er', kind: 'prefix', pattern: 'E', department: 'OR' }
+  ];
+
+  it('picks the first valid rule that matches, ignoring case', () => {
+    expect(matchTagRule(' er-12 ', rules)?.id).toBe('er');
+    expect(matchTagRule('ICU7', rules)?.id).toBe('icu');
+    expect(matchTagRule('EX-1', rules)?.id).toBe('all-er');
+    expect(matchTagRule('OR-1', rules)).toBeNull();
+    expect(matchTagRule('', rules)).toBeNull();
+  });
+
+  it('refuses to save invalid rules', async () => {
+    setStorage(createMemoryBackend());
+    await expect(saveTagRules(rules, 'admin')).rejects.toThrow('รูปแบบ regex "([" ไม่ถูกต้อง');
+    await expect(saveTagRules([{ id: 'x', kind: 'prefix', pattern: 'ER-', department: ' ' }], 'admin')).rejects.toThrow('กรุณาเลือกแผนก');
+  });
+
+  it('reports tags kept in a department their rule does not name', async () => {
+    setStorage(createMemoryBackend());
+    await upsertIpadDepartment('ER', ['ER-1'], 'admin');
+    await upsertIpadDepartment('OR', ['ER-2', 'OR-1'], 'admin');
+    await saveTagRules(rules.slice(1), 'admin');
+    expect(await findTagRuleViolations()).toEqual([
+      expect.objectContaining({ ipadTag: 'ER-2', department: 'OR', expected: 'ER' })
+    ]);
+  });
+
+  it('fills in the department of catalog import rows from the rules', async () => {
+    setStorage(createMemoryBackend());
+    await upsertIpadDepartment('ER', [], 'admin');
+    await saveTagRules(rules.slice(1), 'admin');
+    const preview = await previewCatalogImport(',ER-5\nOR,ER-6\n,XR-1');
+    expect(preview.entries.map(e => [e.department, e.outcome])).toEqual([['ER', 'new'], ['OR', 'new'], ['', 'invalid']]);
+    expect(preview.entries[1].message).toContain('ขัดกับกฎ ER-');
+  });
+});
+
+describe('tag policy in the catalog', () => {
+  beforeEach(async () => {
+    setStorage(createMemoryBackend());
+    await upsertIpadDepartment('ER', ['er-1', 'ER_02'], 'admin');
+    await saveTagPolicy({ letterCase: 'upper', separator: '-', padDigits: 2, pattern: '^[A-Z]+-\\d{2}$' }, 'admin');
+  });
+
+  it('stores new tags in normalized form', async () => {
+    await upsertIpadDepartment('ER', ['er 3'], 'admin');
+    expect((await getIpadDocs())[0].tags).toContain('ER-03');
+  });
+
+  it('rejects new tags that break the pattern or repeat a stored tag', async () => {
+    await expect(upsertIpadDepartment('ER', ['ER-100'], 'admin')).rejects.toThrow('ไม่ตรงรูปแบบแท็กที่กำหนด');
+    await expect(upsertIpadDepartment('OR', ['ER 1'], 'admin')).rejects.toThrow('"er-1"');
+  });
+
+  it('reports stored tags the policy would change', async () => {
+    expect((await findTagPolicyChanges()).map(c => [c.ipadTag, c.normalized])).toEqual([
+      ['ER_02', 'ER-02'],
+      ['er-1', 'ER-01']
+    ]);
+  });
+});
+
+describe('overdue devices', () => {
+  const now = new Date('2026-01-02T12:00:00.000Z');
+  const state = (ipadTag: string, department: string, status: IpadState['status'], hoursAgo: number): IpadState => ({
+    ipadTag,
+    department,
+    status,
+    employeeId: 'E001',
+    timestamp: new Date(now.getTime() - hoursAgo * 3600000).toISOString(),
+    logId: ipadTag
+  });
+  const states = [
+    state('ER-1', 'ER', 'ส่งออก', 13),
+    state('ER-2', 'ER', 'ส่งออก', 11),
+    state('ER-3', 'ER', 'ส่งเข้า', 30),
+    state('OR-1', 'OR', 'ส่งออก', 30),
+    state('ICU-1', 'ICU', 'ส่งออก', 50)
+  ];
+
+  it('flags checked-out devices past their department limit, most overdue first', () => {
+    const overdue = findOverdueDevices(states, { defaultHours: 12, departments: { OR: 24, ICU: 0 } }, now);
+    expect(overdue.map(d => [d.ipadTag, d.limitHours, d.overdueMs / 3600000])).toEqual([
+      ['OR-1', 24, 6],
+      ['ER-1', 12, 1]
+    ]);
+  });
+
+  it('turns the check off with a zero default', () => {
+    expect(findOverdueDevices(states, { defaultHours: 0, departments: {} }, now)).toEqual([]);
+  });
+
+  it('refuses limits outside 0 to 90 days', async () => {
+    setStorage(createMemoryBackend());
+    await expect(saveCheckoutLimits({ defaultHours: -1, departments: {} }, 'admin')).rejects.toThrow('ค่าตั้งต้น');
+    await expect(saveCheckoutLimits({ defaultHours: 12, departments: { ER: 24 * 91 } }, 'admin')).rejects.toThrow('(ER)');
+  });
+
+  it('formats durations for the alerts', () => {
+    expect(formatDuration(5 * 60000)).toBe('5 นาที');
+    expect(formatDuration(65 * 60000)).toBe('1 ชม. 5 นาที');
+    expect(formatDuration(51 * 3600000)).toBe('2 วัน 3 ชม.');
+    expect(formatDuration(48 * 3600000)).toBe('2 วัน');
+  });
+});
+
+describe('shifts', () => {
+  const schedule = { starts: ['15:00', '07:00', '23:00'] };
+  // Shift times are local to the machine, like the dashboard's
+  const local = (day: number, hour: number) => new Date(2026, 0, day, hour).toISOString();
+
+  it('builds the window of a shift, the last one ending the next morning', () => {
+    expect(shiftWindow('2026-01-01', 0, schedule)).toEqual({ date: '2026-01-01', index: 0, label: '07:00–15:00', from: local(1, 7), to: local(1, 15) });
+    expect(shiftWindow('2026-01-01', 2, schedule)).toEqual({ date: '2026-01-01', index: 2, label: '23:00–07:00', from: local(1, 23), to: local(2, 7) });
+  });
+
+  it('rolls shift numbers over into the next or previous day', () => {
+    expect(shiftWindow('2026-01-31', 3, schedule)).toMatchObject({ date: '2026-02-01', index: 0 });
+    expect(shiftWindow('2026-01-01', -1, schedule)).toMatchObject({ date: '2025-12-31', index: 2, from: new Date(2025, 11, 31, 23).toISOString() });
+  });
+
+  it('finds the shift a moment falls in across midnight', () => {
+    expect(shiftAt(new Date(2026, 0, 2, 3), schedule)).toMatchObject({ date: '2026-01-01', index: 2 });
+    expect(shiftAt(new Date(2026, 0, 2, 7), schedule)).toMatchObject({ date: '2026-01-02', index: 0 });
+    expect(shiftAt(new Date(2026, 0, 1, 23, 30), schedule)).toMatchObject({ date: '2026-01-01', index: 2 });
+  });
+
+  it('refuses schedules with bad or repeated times', async () => {
+    setStorage(createMemoryBackend());
+    await expect(saveShiftSchedule({ starts: [] }, 'admin')).rejects.toThrow('อย่างน้อย 1 เวลา');
+    await expect(saveShiftSchedule({ starts: ['7:00'] }, 'admin')).rejects.toThrow('"7:00"');
+    await expect(saveShiftSchedule({ starts: ['07:00', '07:00'] }, 'admin')).rejects.toThrow('ซ้ำกัน');
+  });
+
+  it('reports what was handed over to and left for the next shift', async () => {
+    const log = (id: string, ipadTag: string, status: 'ส่งเข้า' | 'ส่งออก', timestamp: string) =>
+      ({ id, employeeId: 'E001', ipadTag, department: 'ER', status, date: '', time: '', timestamp });
+    setStorage(createMemoryBackend({
+      initial: {
+        logs: [
+          log('a', 'ER-2', 'ส่งออก', local(1, 6)),
+          log('b', 'ER-2', 'ส่งเข้า', local(1, 9)),
+          log('c', 'ER-1', 'ส่งออก', local(1, 10)),
+          log('d', 'ER-3', 'ส่งออก', local(1, 11)),
+          log('e', 'ER-3', 'ส่งเข้า', local(1, 12))
+        ]
+      }
+    }));
+    await upsertIpadDepartment('ER', ['ER-1', 'ER-2', 'ER-3'], 'admin');
+
+    const report = await getShiftReport(shiftWindow('2026-01-01', 0, schedule));
+    expect(report.unreturned.map(s => s.ipadTag)).toEqual(['ER-1']);
+    expect(report.carriedIn.map(s => s.ipadTag)).toEqual(['ER-2']);
+    expect(report.departments).toEqual([
+      expect.objectContaining({ department: 'ER', inCount: 2, outCount: 2, tagCount: 3, unreturned: 1, carriedIn: 1 })
+    ]);
+  });
+
+  it('fails instead of reporting an empty shift when the logs cannot be read', async () => {
+    const backend = createMemoryBackend();
+    backend.logs.query = async () => { throw new Error('unavailable'); };
+    setStorage(backend);
+    await expect(getShiftReport(shiftWindow('2026-01-01', 0, schedule))).rejects.toThrow('ไม่สามารถสร้างรายงานส่งเวรได้');
+    await expect(getCheckoutSessions()).rejects.toThrow('ไม่สามารถโหลดช่วงการยืมได้');
+
+    const noCatalog = createMemoryBackend();
+    noCatalog.catalog.list = async () => { throw new Error('unavailable'); };
+    setStorage(noCatalog);
+    await expect(getShiftReport(shiftWindow('2026-01-01', 0, schedule))).rejects.toThrow('ไม่สามารถสร้างรายงานส่งเวรได้');
+  });
+});
+
+describe('getCheckoutSessions', () => {
+  beforeEach(async () => {
+    setStorage(createMemoryBackend());
+    await upsertIpadDepartment('ER', ['ER-1', 'ER-2', 'ER-3', 'ER-4', 'ER-5'], 'admin');
+    const scan = (ipadTag: string, status: 'ส่งเข้า' | 'ส่งออก', at: string) =>
+      addLog({ employeeId: 'E001', ipadTag, department: 'ER', status }, { timestamp: new Date(at).toISOString() });
+    // Out before the range, returned inside it
+    await scan('ER-1', 'ส่งออก', '2026-03-01T10:00:00Z');
+    await scan('ER-1', 'ส่งเข้า', '2026-03-02T10:00:00Z');
+    // Out before the range and returned after it, with nothing logged inside it
+    await scan('ER-2', 'ส่งออก', '2026-03-01T09:00:00Z');
+    await scan('ER-2', 'ส่งเข้า', '2026-03-05T09:00:00Z');
+    // Out inside the range and returned after it, then out again
+    await scan('ER-3', 'ส่งออก', '2026-03-02T12:00:00Z');
+    await scan('ER-3', 'ส่งเข้า', '2026-03-04T12:00:00Z');
+    await scan('ER-3', 'ส่งออก', '2026-03-04T13:00:00Z');
+    // Out before the range and still out
+    await scan('ER-4', 'ส่งออก', '2026-03-01T08:00:00Z');
+    // Returned before the range
+    await scan('ER-5', 'ส่งออก', '2026-02-01T08:00:00Z');
+    await scan('ER-5', 'ส่งเข้า', '2026-02-02T08:00:00Z');
+  });
+
+  it('returns every session that overlaps the range', async () => {
+    const sessions = await getCheckoutSessions({ from: '2026-03-02T00:00:00.000Z', to: '2026-03-02T23:59:59.999Z' });
+    const summary = sessions
+      .map(s => [s.ipadTag, s.checkedOutAt.slice(0, 10), s.endedAt?.slice(0, 10) ?? 'open'])
+      .sort((a, b) => a[0].localeCompare(b[0]));
+    expect(summary).toEqual([
+      ['ER-1', '2026-03-01', '2026-03-02'],
+      ['ER-2', '2026-03-01', '2026-03-05'],
+      ['ER-3', '2026-03-02', '2026-03-04'],
+      ['ER-4', '2026-03-01', 'open']
+    ]);
+  });
+});
+
+describe('tag policy at admin entry points', () => {
+  beforeEach(async () => {
+    setStorage(createMemoryBackend());
+    await saveTagPolicy({ letterCase: 'upper', separator: '-', padDigits: 0, pattern: '' }, 'admin');
+    await upsertIpadDepartment('ER', ['ER-1'], 'admin');
+    await upsertIpadDepartment('OR', [], 'admin');
+  });
+
+  it('records status changes under the stored tag', async () => {
+    const log = await setDeviceStatus('er 1', 'ส่งซ่อม', 'admin');
+    expect(log.ipadTag).toBe('ER-1');
+    expect(log).toMatchObject({ employeeId: '', changedBy: 'admin' });
+    expect(await getIpadStatus('ER-1')).toBe('ส่งซ่อม');
+  });
+
+  it('records transfers under the stored tag', async () => {
+    await transferTags(['er_1'], 'OR', new Date().toISOString(), 'admin');
+    expect((await getTagTransfers()).map(t => t.ipadTag)).toEqual(['ER-1']);
+  });
+});
+
+describe('migrateLogSchema', () => {
+  it('moves the admin of an old lifecycle status change out of employeeId', async () => {
+    const old = { employeeId: 'admin', ipadTag: 'ER-1', department: 'ER', date: '2026-01-01', time: '08:00:00', timestamp: '2026-01-01T08:00:00.000Z', imported: false, schemaVersion: 3 };
+    setStorage(createMemoryBackend({
+      initial: {
+        logs: [
+          { ...old, id: 'a', status: 'ส่งซ่อม' },
+          { ...old, id: 'b', status: 'ส่งเข้า', employeeId: 'E001' }
+        ]
+      }
+    }));
+    await migrateLogSchema();
+    const logs = await getLogs();
+    expect(logs.find(l => l.id === 'a')).toMatchObject({ employeeId: '', changedBy: 'admin' });
+    expect(logs.find(l => l.id === 'b')).toMatchObject({ employeeId: 'E001' });
+    expect(logs.find(l => l.id === 'b')?.changedBy).toBeUndefined();
+  });
+
+  it('reads and writes legacy dates and times as Bangkok time', async () => {
+    setStorage(createMemoryBackend({
+      initial: {
+        logs: [{ id: 'a', employeeId: 'E001', ipadTag: 'ER-1', department: 'ER', status: 'ส่งออก', date: '1/2/2026', time: '08:05:09', timestamp: '' }]
+      }
+    }));
+    await migrateLogSchema();
+    const [log] = await getLogs();
+    expect(log).toMatchObject({ date: '2026-01-02', time: '08:05:09', timestamp: '2026-01-02T01:05:09.000Z' });
+  });
+});
+
+describe('purgeDeletedLogs', () => {
+  it('counts only the logs that were in the trash', async () => {
+    const deleted = { employeeId: 'E001', ipadTag: 'ER-1', department: 'ER', status: 'ส่งออก' as const, date: '2026-01-01', time: '08:00:00', timestamp: '2026-01-01T01:00:00.000Z', deletedBy: 'admin', reason: 'ซ้ำ', deletedAt: '2026-01-01T02:00:00.000Z' };
+    setStorage(createMemoryBackend({ initial: { deletedLogs: [{ ...deleted, id: 'a' }, { ...deleted, id: 'b' }] } }));
+    expect(await purgeDeletedLogs(['a', 'gone'])).toBe(1);
+    expect(await purgeDeletedLogs(['a'])).toBe(0);
+  });
+
+  it('fails instead of purging nothing when the trash cannot be read', async () => {
+    const backend = createMemoryBackend();
+    backend.logs.listTrash = async () => { throw new Error('unavailable'); };
+    setStorage(backend);
+    await expect(purgeDeletedLogs(['a'])).rejects.toThrow('ไม่สามารถอ่านรายการในถังขยะได้');
+    await expect(purgeExpiredLogs()).rejects.toThrow('ไม่สามารถอ่านรายการในถังขยะได้');
+  });
+});
+
+describe('employee registry', () => {
+  const employee = { employeeId: 'E001', name: 'สมชาย', department: 'ER', active: true };
+
+  beforeEach(() => {
+    setStorage(createMemoryBackend({ initial: { employees: [employee] } }));
+  });
+
+  it('records who deleted an employee in the audit trail', async () => {
+    await expect(deleteEmployee('E001', ' ')).rejects.toThrow('กรุณาระบุชื่อผู้ทำรายการ');
+    await deleteEmployee('E001', 'admin');
+    expect(await getEmployees()).toEqual([]);
+    expect(await getCatalogAudit()).toEqual([
+      expect.objectContaining({ actor: 'admin', action: 'delete_employee', department: 'ER', employee })
+    ]);
+  });
+
+  it('checks a scanned ID without reading the whole registry', async () => {
+    const backend = createMemoryBackend({ initial: { employees: [employee] } });
+    backend.employees.list = async () => { throw new Error('read the whole registry'); };
+    setStorage(backend);
+    await upsertIpadDepartment('ER', ['ER-1'], 'admin');
+    await expect(addLog({ employeeId: 'E999', ipadTag: 'ER-1', department: 'ER', status: 'ส่งออก' })).rejects.toThrow('ไม่พบรหัสพนักงาน "E999"');
+    await expect(addLog({ employeeId: 'E001', ipadTag: 'ER-1', department: 'ER', status: 'ส่งออก' })).resolves.toMatchObject({ ipadTag: 'ER-1' });
+  });
+});
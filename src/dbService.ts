@@ -1,494 +1,2568 @@
-import { db } from './firebaseConfig';
-import { 
-  collection, 
-  getDocs, 
-  query, 
-  where, 
-  addDoc, 
-  serverTimestamp, 
-  orderBy, 
-  limit, 
-  doc, 
-  deleteDoc,
-  writeBatch,
-  Timestamp
-  , getDoc, setDoc, updateDoc
-} from 'firebase/firestore';
-
-// Base log interface
-export interface LogBase {
-  employeeId: string;
-  ipadTag: string;
-  department: string;
-  status: 'ส่งเข้า' | 'ส่งออก';
+import { getStorage, SCAN_STATUSES, canonicalDateTime, CanonicalLog, CheckoutLimits, isIpadStatus, LOG_SCHEMA_VERSION, StoredLogRecord, Log, LogBase, IpadStatus, LifecycleStatus, LIFECYCLE_STATUSES, Device, DeviceDetails, IpadDocument, IpadDocumentData, IpadState, LogFilter, LogPage, LogPageRequest, Unsubscribe, DeletedLog, LogDeletion, AuditFilter, CatalogAuditEvent, DepartmentDeletionRecord, Employee, DepartmentDeletionResolution, NewCatalogAuditEvent, NewTagTransfer, ScannerFieldRule, ScannerProfile, ShiftSchedule, TagPolicy, TagRule, TagTransfer } from './storage';
+import { parseDelimited } from './csv';
+import { DEFAULT_TAG_POLICY, indexTags, isTagAllowed, normalizeTag, resolveTag, validateTagPolicy } from './tagPolicy';
+import { validateScannerProfile } from './scannerProfile';
+
+export type { CanonicalLog, CheckoutLimits, Log, LogBase, IpadStatus, LifecycleStatus, ScanStatus, Device, DeviceDetails, IpadDocument, IpadState, LogFilter, LogPage, LogPageRequest, Unsubscribe, DeletedLog, LogDeletion, AuditFilter, CatalogAction, CatalogAuditEvent, DepartmentDeletionRecord, DepartmentDeletionResolution, Employee, ScannerFieldRule, ScannerProfile, ShiftSchedule, TagPolicy, TagRule, TagTransfer } from './storage';
+export { isLog, isIpadStatus, LOG_SCHEMA_VERSION, IPAD_STATUSES, LIFECYCLE_STATUSES, SCAN_STATUSES } from './storage';
+export { DEFAULT_TAG_POLICY, indexTags, isTagAllowed, normalizeTag, resolveTag, validateTagPolicy } from './tagPolicy';
+export { CHECK_DIGIT_LABELS, DEFAULT_SCANNER_FIELD, parseScan, validateScannerProfile } from './scannerProfile';
+export type { ScanParseResult } from './scannerProfile';
+
+const LOGS_KEY = 'ipadTrackingLogs';
+
+// การสแกนถูกปฏิเสธตามกฎของระบบ (แท็กไม่ถูกต้อง หรือสถานะซ้ำ) ไม่ใช่ปัญหาการเชื่อมต่อ
+export class ScanRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScanRuleError';
+  }
 }
 
-export interface Log extends LogBase {
-  id: string;
-  timestamp: string;
-  date: string;
-  time: string;
+// รหัสข้อผิดพลาดของ Firestore ที่หมายถึงติดต่อเซิร์ฟเวอร์ไม่ได้
+const CONNECTION_ERROR_CODES = ['unavailable', 'deadline-exceeded'];
+
+// เครื่องออฟไลน์หรือติดต่อเซิร์ฟเวอร์ไม่ได้ สแกนควรเก็บเข้าคิวออฟไลน์และลองส่งใหม่
+// ข้อผิดพลาดอื่นทั้งหมดต้องแสดงให้ผู้ใช้เห็น
+export const isConnectionError = (error: unknown): boolean => {
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) return true;
+  const code = typeof error === 'object' && error !== null ? (error as { code?: unknown }).code : undefined;
+  return typeof code === 'string' && CONNECTION_ERROR_CODES.includes(code);
+};
+
+// แท็กนี้เป็นของแผนกอื่นอยู่แล้ว แท็กหนึ่งอยู่ได้เพียงแผนกเดียว
+export class TagConflictError extends Error {
+  constructor(public ipadTag: string, public ownerDepartment: string) {
+    super(`แท็ก "${ipadTag}" เป็นของแผนก "${ownerDepartment}" อยู่แล้ว`);
+    this.name = 'TagConflictError';
+  }
 }
 
-// Type for localStorage log (simplified version of Log)
-interface LocalLog {
-  id?: string;
-  employeeId: string;
+export const getDepartmentsFromDB = async (): Promise<string[]> => {
+  try {
+    const docs = await getStorage().catalog.list();
+    return departmentNames(docs);
+  } catch (error) {
+    console.error('Error fetching departments:', error);
+    return [];
+  }
+};
+
+// รายชื่อแผนกจากเอกสารใน `ipad` เรียงตามภาษาไทย
+const departmentNames = (docs: IpadDocument[]): string[] => {
+  const departments = new Set<string>();
+  docs.forEach(d => {
+    if (d.department) {
+      departments.add(d.department);
+    }
+  });
+  return Array.from(departments).sort((a, b) => a.localeCompare(b, 'th'));
+};
+
+// ติดตามรายชื่อแผนกแบบเรียลไทม์ คืนฟังก์ชันสำหรับยกเลิกการติดตาม
+export const subscribeDepartments = (onChange: (departments: string[]) => void): Unsubscribe =>
+  getStorage().catalog.subscribe(
+    docs => onChange(departmentNames(docs)),
+    error => console.error('Error subscribing to departments:', error)
+  );
+
+// Helper to create a stable doc id for a department
+const deptIdFor = (department: string) => department.trim().toLowerCase().replace(/\s+/g, '_');
+
+// ผู้ทำรายการต้องระบุชื่อเสมอ เพื่อให้ตรวจสอบย้อนหลังได้ว่าใครแก้ไขแผนก/แท็ก
+const requireActor = (actor: string): string => {
+  const name = (actor || '').trim();
+  if (!name) throw new Error('กรุณาระบุชื่อผู้ทำรายการ');
+  return name;
+};
+
+const catalogData = (doc: IpadDocument | null): IpadDocumentData | null =>
+  doc ? { department: doc.department, tags: doc.tags || [], ...(doc.archived ? { archived: true } : {}) } : null;
+
+// แท็กตามรูปแบบเดิม (`tags` ในเอกสารแผนก) ที่ยังไม่ได้ย้ายไปเป็น device
+const legacyTags = (doc: IpadDocument | null): string[] =>
+  Array.from(new Set((doc?.tags || []).map(t => String(t).trim()).filter(Boolean)));
+
+// รวมเอกสารแผนกกับ device ของแผนกนั้น แท็กแบบเดิมที่ยังไม่ได้ย้ายแสดงเป็น device ที่มีแค่แท็กและแผนก
+const withDevices = (doc: IpadDocument, devices: Device[]): IpadDocument => {
+  const department = doc.department || doc.id;
+  const own = devices.filter(d => d.department === department);
+  const ownTags = new Set(own.map(d => d.ipadTag));
+  const pending = legacyTags(doc).filter(t => !ownTags.has(t)).map(ipadTag => ({ ipadTag, department }));
+  const all = [...own, ...pending].sort((a, b) => a.ipadTag.localeCompare(b.ipadTag, 'th'));
+  return { id: doc.id, department: doc.department, tags: all.map(d => d.ipadTag), devices: all, ...(doc.archived ? { archived: true } : {}) };
+};
+
+// เอกสารแผนกทั้งหมดพร้อม device รวมถึงแผนกที่มี device แต่ไม่มีเอกสาร
+const joinCatalog = (docs: IpadDocument[], devices: Device[]): IpadDocument[] => {
+  const joined = docs.map(d => withDevices(d, devices));
+  const known = new Set(joined.map(d => d.department || d.id));
+  const orphans = Array.from(new Set(devices.map(d => d.department))).filter(dept => dept && !known.has(dept));
+  orphans.forEach(department => joined.push(withDevices({ id: deptIdFor(department), department }, devices)));
+  return joined;
+};
+
+// เอกสารแผนกหนึ่งพร้อม device หรือ null ถ้าไม่มีเอกสาร
+const loadDepartment = async (id: string): Promise<IpadDocument | null> => {
+  const storage = getStorage();
+  const doc = await storage.catalog.get(id);
+  if (!doc) return null;
+  return withDevices(doc, await storage.devices.findByDepartment(doc.department || doc.id));
+};
+
+export interface LegacyTagConflict {
   ipadTag: string;
   department: string;
-  status: 'ส่งเข้า' | 'ส่งออก';
-  timestamp: string;
-  date: string;
-  time: string;
+  // Department of the existing device with the same tag
+  owner: string;
 }
 
-// Type guard for LocalLog
-const isLocalLog = (data: unknown): data is LocalLog => {
-  return (
-    typeof data === 'object' &&
-    data !== null &&
-    'employeeId' in data &&
-    'ipadTag' in data &&
-    'department' in data &&
-    'status' in data &&
-    'timestamp' in data &&
-    'date' in data &&
-    'time' in data &&
-    (data.status === 'ส่งเข้า' || data.status === 'ส่งออก')
-  );
+// ย้ายแท็กแบบเดิมของเอกสารแผนกไปเป็น device ของแผนกนั้นแล้วล้างรายการเดิม
+// แท็กที่เป็น device ของแผนกอื่นอยู่แล้ว (แท็กซ้ำจากข้อมูลเดิม) จะคงไว้และคืนเป็นรายการขัดแย้ง
+const migrateLegacyTags = async (doc: IpadDocument): Promise<{ created: number; conflicts: LegacyTagConflict[] }> => {
+  const tags = legacyTags(doc);
+  if (tags.length === 0) return { created: 0, conflicts: [] };
+  const storage = getStorage();
+  const department = doc.department || doc.id;
+  const created: Device[] = [];
+  const conflicts: LegacyTagConflict[] = [];
+  for (const ipadTag of tags) {
+    const existing = await storage.devices.get(ipadTag);
+    if (!existing) {
+      created.push({ ipadTag, department });
+    } else if (existing.department !== department) {
+      conflicts.push({ ipadTag, department, owner: existing.department });
+    }
+  }
+  if (created.length > 0) await storage.devices.saveMany(created);
+  await storage.catalog.save(doc.id, { tags: conflicts.map(c => c.ipadTag) });
+  return { created: created.length, conflicts };
 };
 
-// Type guard for Log
-export const isLog = (data: unknown): data is Log => {
-  if (!isLocalLog(data)) return false;
-  return typeof data.id === 'string';
+// ย้ายแท็กแบบเดิมของทุกแผนกไปเป็น device ครั้งเดียว (แผนกที่ถูกแก้ไขจะถูกย้ายให้อัตโนมัติอยู่แล้ว)
+export const migrateTagsToDevices = async (): Promise<{ created: number; conflicts: LegacyTagConflict[] }> => {
+  const result = { created: 0, conflicts: [] as LegacyTagConflict[] };
+  try {
+    const docs = await getStorage().catalog.list();
+    for (const doc of docs) {
+      const { created, conflicts } = await migrateLegacyTags(doc);
+      result.created += created;
+      result.conflicts.push(...conflicts);
+    }
+    return result;
+  } catch (error) {
+    console.error('Error migrating tags to devices:', error);
+    throw error;
+  }
 };
 
-type FirestoreLog = Omit<LocalLog, 'id' | 'timestamp'> & {
-  timestamp: Timestamp;
-  date: string;
-  time: string;
+// เอาแท็กออกจากรายการแบบเดิมของเอกสารแผนก (แท็กซ้ำที่ค้างจากการย้าย)
+const stripLegacyTags = async (id: string, tags: string[]): Promise<void> => {
+  const catalog = getStorage().catalog;
+  const legacy = legacyTags(await catalog.get(id));
+  if (legacy.some(t => tags.includes(t))) {
+    await catalog.save(id, { tags: legacy.filter(t => !tags.includes(t)) });
+  }
 };
 
-const LOGS_KEY = 'ipadTrackingLogs';
+// ตรวจว่าไม่มีแท็กใดเป็นของแผนกอื่น ถ้ามีจะโยน TagConflictError
+const assertTagsAvailable = async (tags: string[], department: string): Promise<void> => {
+  const storage = getStorage();
+  for (const tag of tags) {
+    const device = await storage.devices.get(tag);
+    if (device) {
+      if (device.department !== department) throw new TagConflictError(tag, device.department);
+      continue;
+    }
+    const owner = (await storage.catalog.findByTag(tag)).find(d => (d.department || d.id) !== department);
+    if (owner) throw new TagConflictError(tag, owner.department || owner.id);
+  }
+};
 
-export const getDepartmentsFromDB = async (): Promise<string[]> => {
+export const getTagPolicy = async (): Promise<TagPolicy> => {
   try {
-    const snap = await getDocs(collection(db, 'ipad'));
-    const departments = new Set<string>();
-    snap.forEach(doc => {
-      const data = doc.data();
-      if (data.department) {
-        departments.add(data.department);
-      }
-    });
-    return Array.from(departments).sort((a, b) => a.localeCompare(b, 'th'));
+    return { ...DEFAULT_TAG_POLICY, ...(await getStorage().settings.get('tagPolicy')) };
   } catch (error) {
-    console.error('Error fetching departments:', error);
-    return [];
+    console.error('Error fetching tag policy:', error);
+    return DEFAULT_TAG_POLICY;
   }
 };
 
-interface IpadDocument {
-  department?: string;
-  tags?: string[];
-  [key: string]: unknown;
+export const subscribeTagPolicy = (onChange: (policy: TagPolicy) => void): Unsubscribe =>
+  getStorage().settings.subscribe(
+    'tagPolicy',
+    policy => onChange({ ...DEFAULT_TAG_POLICY, ...policy }),
+    error => console.error('Error subscribing to tag policy:', error)
+  );
+
+export const saveTagPolicy = async (policy: TagPolicy, actor: string): Promise<void> => {
+  const by = requireActor(actor);
+  const invalid = validateTagPolicy(policy);
+  if (invalid) throw new Error(invalid);
+  try {
+    await getStorage().settings.save('tagPolicy', policy, by);
+  } catch (error) {
+    console.error('Error saving tag policy:', error);
+    throw new Error('ไม่สามารถบันทึกนโยบายรูปแบบแท็กได้');
+  }
+};
+
+// ปรับแท็กใหม่ตามนโยบายรูปแบบแท็ก แล้วตรวจว่าตรงรูปแบบที่อนุญาต และไม่ใช่แท็กเดิมที่เขียนต่างกัน
+const prepareNewTags = async (tags: string[]): Promise<string[]> => {
+  const policy = await getTagPolicy();
+  const normalized = Array.from(new Set(tags.map(t => normalizeTag(t, policy)).filter(Boolean)));
+  const invalid = normalized.filter(t => !isTagAllowed(t, policy));
+  if (invalid.length > 0) {
+    throw new Error(`แท็ก ${invalid.map(t => `"${t}"`).join(', ')} ไม่ตรงรูปแบบแท็กที่กำหนด`);
+  }
+  if (normalized.length > 0 && JSON.stringify(policy) !== JSON.stringify(DEFAULT_TAG_POLICY)) {
+    const storage = getStorage();
+    const [docs, devices] = await Promise.all([storage.catalog.list(), storage.devices.list()]);
+    const index = indexTags(joinCatalog(docs, devices).flatMap(d => d.tags || []), policy);
+    normalized.forEach(t => {
+      const existing = index.get(t);
+      if (existing && existing !== t) throw new Error(`แท็ก "${t}" คือแท็ก "${existing}" ที่มีอยู่แล้วตามนโยบายรูปแบบแท็ก`);
+    });
+  }
+  return normalized;
+};
+
+// แท็กตามที่เก็บในระบบของแท็กที่รับเข้ามา: ตรงตามที่พิมพ์ หรือรูปแบบตามนโยบายแท็ก
+// ถ้าไม่พบทั้งสองแบบคืนรูปแบบตามนโยบาย เพื่อไม่ให้บันทึกหรือแจ้งแท็กในรูปแบบอื่น
+const storedTagFor = async (ipadTag: string, policy?: TagPolicy): Promise<string> => {
+  const storage = getStorage();
+  const typed = (ipadTag || '').toString().trim();
+  const normalized = normalizeTag(typed, policy || await getTagPolicy());
+  for (const tag of Array.from(new Set([typed, normalized]))) {
+    if (!tag) continue;
+    if (await storage.devices.get(tag)) return tag;
+    if ((await storage.catalog.findByTag(tag)).length > 0) return tag;
+  }
+  return normalized;
+};
+
+export interface TagPolicyChange {
+  ipadTag: string;
+  department: string;
+  normalized: string;
+  // ไม่ตรงรูปแบบที่อนุญาตแม้ปรับแล้ว
+  invalid: boolean;
+  // แท็กอื่นที่ได้ค่าเดียวกันหลังปรับ
+  collidesWith: string[];
 }
 
-// Helper to create a stable doc id for a department
-const deptIdFor = (department: string) => department.trim().toLowerCase().replace(/\s+/g, '_');
+// แท็กที่มีอยู่ซึ่งนโยบาย (ค่าที่บันทึกไว้ หรือค่าที่ส่งมาเพื่อดูตัวอย่าง) จะเปลี่ยน ไม่ยอมรับ หรือรวมเป็นแท็กเดียวกัน
+export const findTagPolicyChanges = async (policy?: TagPolicy): Promise<TagPolicyChange[]> => {
+  try {
+    const active = policy || await getTagPolicy();
+    const devices = (await getIpadDocs()).flatMap(d => d.devices || []);
+    const byNormalized = new Map<string, string[]>();
+    devices.forEach(d => {
+      const key = normalizeTag(d.ipadTag, active);
+      byNormalized.set(key, [...(byNormalized.get(key) || []), d.ipadTag]);
+    });
+    return devices
+      .map(d => {
+        const normalized = normalizeTag(d.ipadTag, active);
+        return {
+          ipadTag: d.ipadTag,
+          department: d.department,
+          normalized,
+          invalid: !isTagAllowed(normalized, active),
+          collidesWith: (byNormalized.get(normalized) || []).filter(t => t !== d.ipadTag)
+        };
+      })
+      .filter(c => c.normalized !== c.ipadTag || c.invalid || c.collidesWith.length > 0)
+      .sort((a, b) => a.ipadTag.localeCompare(b.ipadTag, 'th'));
+  } catch (error) {
+    console.error('Error checking tags against policy:', error);
+    throw new Error('ไม่สามารถตรวจแท็กตามนโยบายได้');
+  }
+};
+
+// บันทึกการเปลี่ยนแปลงลง audit trail หลังแก้ไข `ipad` สำเร็จ
+// ถ้าบันทึกไม่สำเร็จจะแจ้งใน console แต่ไม่ย้อนการแก้ไขที่ทำไปแล้ว
+const recordCatalogChange = async (event: NewCatalogAuditEvent): Promise<void> => {
+  const unchanged = JSON.stringify(event.before) === JSON.stringify(event.after);
+  if (unchanged && !(event.details && event.details.length > 0) && !event.deletion && !event.employee) return;
+  try {
+    await getStorage().audit.record(event);
+  } catch (error) {
+    console.error('Error recording catalog audit:', error);
+  }
+};
 
 // Create or update a department document in the `ipad` collection.
-// If the doc exists we merge tags; otherwise we create a new doc with the provided tags.
-export const upsertIpadDepartment = async (department: string, tags: string[] = []): Promise<void> => {
+// If the doc exists we add the tags as its devices; otherwise we create it with them.
+export const upsertIpadDepartment = async (department: string, tags: string[], actor: string): Promise<void> => {
   if (!department || !department.trim()) throw new Error('department required');
+  const by = requireActor(actor);
   const id = deptIdFor(department);
-  const docRef = doc(db, 'ipad', id);
-  try {
-    const snap = await getDoc(docRef);
-    const normalizedTags = Array.from(new Set((tags || []).map(t => (t || '').toString().trim()).filter(Boolean)));
-    if (snap.exists()) {
-      const data = snap.data() as IpadDocument;
-      const existing = Array.isArray(data.tags) ? data.tags.map(t => String(t)) : [];
-      const merged = Array.from(new Set([...existing, ...normalizedTags]));
-      await updateDoc(docRef, { department, tags: merged });
-    } else {
-      await setDoc(docRef, { department, tags: normalizedTags });
-    }
+  const storage = getStorage();
+  try {
+    const raw = await storage.catalog.get(id);
+    if (raw) await migrateLegacyTags(raw);
+    const existingDoc = raw ? await loadDepartment(id) : null;
+    // devices refer to the department by name, so keep the existing spelling
+    const name = existingDoc?.department || department;
+    const normalizedTags = await prepareNewTags((tags || []).map(t => (t || '').toString()));
+    await assertTagsAvailable(normalizedTags, name);
+
+    const added = normalizedTags.filter(t => !(existingDoc?.tags || []).includes(t));
+    if (!existingDoc) await storage.catalog.save(id, { department: name });
+    if (added.length > 0) await storage.devices.saveMany(added.map(ipadTag => ({ ipadTag, department: name })));
+    await recordCatalogChange({
+      actor: by,
+      action: existingDoc ? 'add_tag' : 'create_department',
+      department: name,
+      tag: existingDoc ? added.join(', ') : undefined,
+      before: catalogData(existingDoc),
+      after: catalogData(await loadDepartment(id))
+    });
   } catch (error) {
     console.error('Error upserting department:', error instanceof Error ? error.message : String(error));
     throw error;
   }
 };
 
-// Remove a tag from a department document. If the resulting tags array is empty, keep the document (caller can delete if desired).
-export const removeTagFromDepartment = async (department: string, tag: string): Promise<void> => {
+// Remove a tag (and its device record) from a department. The department document stays even when it has no tags left.
+export const removeTagFromDepartment = async (department: string, ipadTag: string, actor: string): Promise<void> => {
+  const by = requireActor(actor);
   const id = deptIdFor(department);
-  const docRef = doc(db, 'ipad', id);
+  const storage = getStorage();
   try {
-    const snap = await getDoc(docRef);
-    if (!snap.exists()) return;
-    const data = snap.data() as IpadDocument;
-    const existing = Array.isArray(data.tags) ? data.tags.map(t => String(t)) : [];
-    const updated = existing.filter(t => t !== tag);
-    await updateDoc(docRef, { tags: updated });
+    const tag = await storedTagFor(ipadTag);
+    const raw = await storage.catalog.get(id);
+    if (!raw) return;
+    await migrateLegacyTags(raw);
+    const before = await loadDepartment(id);
+    const device = await storage.devices.get(tag);
+    if (device && device.department === (raw.department || id)) {
+      await storage.devices.removeMany([tag]);
+    }
+    await stripLegacyTags(id, [tag]);
+    await recordCatalogChange({
+      actor: by,
+      action: 'remove_tag',
+      department,
+      tag,
+      before: catalogData(before),
+      after: catalogData(await loadDepartment(id))
+    });
   } catch (error) {
     console.error('Error removing tag from dept:', error instanceof Error ? error.message : String(error));
     throw error;
   }
 };
 
-// Delete a department document entirely
-export const deleteDepartment = async (department: string): Promise<void> => {
+// Delete a department document entirely, together with its devices
+export interface DepartmentDeletionImpact {
+  department: string;
+  devices: Device[];
+  // สถานะของแท็กในแผนกที่ยังถูกยืมออก (ส่งออก) อยู่
+  checkedOut: IpadState[];
+  // จำนวน log ที่บันทึกด้วยชื่อแผนกนี้
+  logCount: number;
+  archived: boolean;
+}
+
+// สิ่งที่แผนกยังถืออยู่ ใช้แสดงก่อนยืนยันการลบ
+export const getDepartmentDeletionImpact = async (department: string): Promise<DepartmentDeletionImpact> => {
+  try {
+    const storage = getStorage();
+    const doc = await loadDepartment(deptIdFor(department));
+    const name = doc?.department || department;
+    const devices = doc?.devices || [];
+    const tags = new Set(devices.map(d => d.ipadTag));
+    const [states, logCount] = await Promise.all([storage.states.list(), storage.logs.count({ department: name })]);
+    return {
+      department: name,
+      devices,
+      checkedOut: states.filter(state => tags.has(state.ipadTag) && state.status === 'ส่งออก'),
+      logCount,
+      archived: !!doc?.archived
+    };
+  } catch (error) {
+    console.error('Error checking department deletion:', error);
+    throw new Error('ไม่สามารถตรวจสอบข้อมูลแผนกก่อนลบได้');
+  }
+};
+
+// ลบแผนกตามวิธีที่ผู้ดูแลเลือก และบันทึกผลลงประวัติการแก้ไขพร้อมแท็กที่ยังถูกยืมออกและจำนวน log
+// - block: ไม่ลบ บันทึกไว้ว่าถูกระงับ
+// - reassign: ย้ายแท็กทั้งหมดไป reassignTo (มีผลทันที) แล้วลบแผนก
+// - archive: เก็บแผนกและแท็กไว้ให้ส่งคืนได้ แต่ยืมออกใหม่ไม่ได้
+// - delete: ลบแผนกและแท็ก ทำได้เมื่อไม่มีอุปกรณ์ค้างอยู่ข้างนอก
+export const deleteDepartment = async (
+  department: string,
+  actor: string,
+  resolution: DepartmentDeletionResolution = 'delete',
+  reassignTo?: string
+): Promise<void> => {
+  const by = requireActor(actor);
   const id = deptIdFor(department);
-  const docRef = doc(db, 'ipad', id);
+  const storage = getStorage();
+  const impact = await getDepartmentDeletionImpact(department);
+  const deletion: DepartmentDeletionRecord = {
+    resolution,
+    checkedOut: impact.checkedOut.map(state => state.ipadTag),
+    logCount: impact.logCount
+  };
   try {
-    await deleteDoc(docRef);
+    const existingDoc = await loadDepartment(id);
+    const before = catalogData(existingDoc);
+
+    if (resolution === 'block') {
+      await recordCatalogChange({ actor: by, action: 'block_delete_department', department, before, after: before, deletion });
+      return;
+    }
+
+    if (resolution === 'archive') {
+      await storage.catalog.save(id, { archived: true });
+      await recordCatalogChange({
+        actor: by,
+        action: 'archive_department',
+        department,
+        before,
+        after: catalogData(await loadDepartment(id)),
+        deletion
+      });
+      return;
+    }
+
+    if (resolution === 'reassign') {
+      const target = (reassignTo || '').trim();
+      if (!target) throw new Error('กรุณาเลือกแผนกที่จะรับแท็ก');
+      if (deptIdFor(target) === id) throw new Error('แผนกที่รับแท็กต้องไม่ใช่แผนกที่จะลบ');
+      if (impact.devices.length > 0) {
+        await transferTags(impact.devices.map(d => d.ipadTag), target, new Date().toISOString(), by);
+      }
+      deletion.reassignedTo = target;
+    } else if (impact.checkedOut.length > 0) {
+      throw new Error(
+        `มีอุปกรณ์ที่ยังไม่ได้ส่งคืน ${impact.checkedOut.length} เครื่อง (${deletion.checkedOut.join(', ')}) กรุณาย้ายแท็กไปแผนกอื่นหรือเก็บแผนกถาวรแทน`
+      );
+    }
+
+    const devices = await storage.devices.findByDepartment(existingDoc?.department || department);
+    if (devices.length > 0) await storage.devices.removeMany(devices.map(d => d.ipadTag));
+    await storage.catalog.remove(id);
+    await recordCatalogChange({
+      actor: by,
+      action: 'delete_department',
+      department,
+      before,
+      after: null,
+      deletion
+    });
   } catch (error) {
     console.error('Error deleting department:', error instanceof Error ? error.message : String(error));
     throw error;
   }
 };
 
-// Return all documents in the 'ipad' collection with id, department and tags
-export const getIpadDocs = async (): Promise<{ id: string; department?: string; tags?: string[] }[]> => {
+// Return all documents in the 'ipad' collection with id, department, tags and devices
+export const getIpadDocs = async (): Promise<IpadDocument[]> => {
   try {
-    const snap = await getDocs(collection(db, 'ipad'));
-    const out: { id: string; department?: string; tags?: string[] }[] = [];
-    snap.forEach(d => {
-      const data = d.data() as IpadDocument;
-      out.push({ id: d.id, department: data.department, tags: Array.isArray(data.tags) ? data.tags.map(t => String(t)) : [] });
-    });
-    return out;
+    const storage = getStorage();
+    const [docs, devices] = await Promise.all([storage.catalog.list(), storage.devices.list()]);
+    return joinCatalog(docs, devices);
   } catch (error) {
     console.error('Error fetching ipad docs:', error);
     return [];
   }
 };
 
+// ติดตามเอกสารใน 'ipad' พร้อม device แบบเรียลไทม์
+export const subscribeIpadDocs = (onChange: (docs: IpadDocument[]) => void): Unsubscribe => {
+  const storage = getStorage();
+  let docs: IpadDocument[] | null = null;
+  let devices: Device[] | null = null;
+  const emit = () => {
+    if (docs && devices) onChange(joinCatalog(docs, devices));
+  };
+  const onError = (error: unknown) => console.error('Error subscribing to ipad docs:', error);
+  const stopDocs = storage.catalog.subscribe(next => { docs = next; emit(); }, onError);
+  const stopDevices = storage.devices.subscribe(next => { devices = next; emit(); }, onError);
+  return () => {
+    stopDocs();
+    stopDevices();
+  };
+};
+
 // Add a single tag to a department (creates department doc if missing)
-export const addTagToDepartment = async (department: string, tag: string): Promise<void> => {
+export const addTagToDepartment = async (department: string, tag: string, actor: string): Promise<void> => {
   if (!tag || !tag.trim()) return;
+  const by = requireActor(actor);
   const id = deptIdFor(department);
-  const docRef = doc(db, 'ipad', id);
-  try {
-    const snap = await getDoc(docRef);
-    const t = tag.trim();
-    if (snap.exists()) {
-      const data = snap.data() as IpadDocument;
-      const existing = Array.isArray(data.tags) ? data.tags.map(x => String(x)) : [];
-      if (!existing.includes(t)) {
-        await updateDoc(docRef, { tags: [...existing, t], department });
-      }
-    } else {
-      await setDoc(docRef, { department, tags: [t] });
-    }
+  const storage = getStorage();
+  try {
+    const raw = await storage.catalog.get(id);
+    if (raw) await migrateLegacyTags(raw);
+    const existingDoc = raw ? await loadDepartment(id) : null;
+    const name = existingDoc?.department || department;
+    const [t] = await prepareNewTags([tag]);
+    if (!t) return;
+    await assertTagsAvailable([t], name);
+    if (existingDoc?.tags?.includes(t)) return;
+
+    if (!existingDoc) await storage.catalog.save(id, { department: name });
+    await storage.devices.saveMany([{ ipadTag: t, department: name }]);
+    await recordCatalogChange({
+      actor: by,
+      action: 'add_tag',
+      department,
+      tag: t,
+      before: catalogData(existingDoc),
+      after: catalogData(await loadDepartment(id))
+    });
   } catch (error) {
     console.error('Error adding tag to department:', error);
     throw error;
   }
 };
 
-// Rename a department: merge tags into target doc and delete the old doc
-export const renameIpadDepartment = async (oldName: string, newName: string): Promise<void> => {
+// Rename a department: move its devices to the new name, merge into the target doc and delete the old doc
+export interface RenameDepartmentOptions {
+  // เขียนชื่อใหม่ลงใน log เดิม (รวมถังขยะ) ดัชนีสถานะ และประวัติการย้ายแท็ก เพื่อให้ตัวกรองและสรุปรายแผนกต่อเนื่อง
+  rewriteLogs?: boolean;
+  onProgress?: (done: number, total: number) => void;
+}
+
+// คืนจำนวน log ที่ถูกเปลี่ยนชื่อแผนก (0 เมื่อไม่ได้เลือก rewriteLogs)
+export const renameIpadDepartment = async (
+  oldName: string,
+  newName: string,
+  actor: string,
+  options: RenameDepartmentOptions = {}
+): Promise<number> => {
   if (!oldName || !newName) throw new Error('old and new department required');
+  const by = requireActor(actor);
+  const storage = getStorage();
   const oldId = deptIdFor(oldName);
   const newId = deptIdFor(newName);
-  if (oldId === newId) {
-    // names normalize to same id; just update department field
-    const docRef = doc(db, 'ipad', oldId);
-    await updateDoc(docRef, { department: newName });
-    return;
-  }
 
-  const oldRef = doc(db, 'ipad', oldId);
-  const newRef = doc(db, 'ipad', newId);
   try {
-    const oldSnap = await getDoc(oldRef);
-    const newSnap = await getDoc(newRef);
-    const oldTags = oldSnap.exists() && Array.isArray(oldSnap.data().tags) ? (oldSnap.data().tags as string[]) : [];
-    const newTags = newSnap.exists() && Array.isArray(newSnap.data().tags) ? (newSnap.data().tags as string[]) : [];
-
-    const merged = Array.from(new Set([...(newTags || []), ...(oldTags || [])].map(t => String(t).trim()).filter(Boolean)));
+    const oldRaw = await storage.catalog.get(oldId);
+    const oldLeftover = oldRaw ? (await migrateLegacyTags(oldRaw)).conflicts.map(c => c.ipadTag) : [];
+    const oldDoc = oldRaw ? await loadDepartment(oldId) : null;
+    const renamed = (await storage.devices.findByDepartment(oldRaw?.department || oldName))
+      .map(d => ({ ...d, department: newName }));
 
-    // write merged into newRef (create or update)
-    if (newSnap.exists()) {
-      await updateDoc(newRef, { department: newName, tags: merged });
+    if (oldId === newId) {
+      // names normalize to same id; just update department field
+      await storage.catalog.save(oldId, { department: newName });
+      if (renamed.length > 0) await storage.devices.saveMany(renamed);
     } else {
-      await setDoc(newRef, { department: newName, tags: merged });
-    }
+      const newRaw = await storage.catalog.get(newId);
+      const newLeftover = newRaw ? (await migrateLegacyTags(newRaw)).conflicts.map(c => c.ipadTag) : [];
+      if (newRaw?.department && newRaw.department !== newName) {
+        const existing = await storage.devices.findByDepartment(newRaw.department);
+        renamed.push(...existing.map(d => ({ ...d, department: newName })));
+      }
 
-    // delete old doc if exists and id differs
-    if (oldSnap.exists()) {
-      await deleteDoc(oldRef);
+      // write the target doc (create or update), keeping any duplicate legacy tags for cleanup
+      await storage.catalog.save(newId, { department: newName, tags: Array.from(new Set([...newLeftover, ...oldLeftover])) });
+      if (renamed.length > 0) await storage.devices.saveMany(renamed);
+
+      // delete old doc if exists and id differs
+      if (oldRaw) {
+        await storage.catalog.remove(oldId);
+      }
     }
+    await recordCatalogChange({
+      actor: by,
+      action: 'rename_department',
+      department: oldName,
+      before: catalogData(oldDoc),
+      after: catalogData(await loadDepartment(newId))
+    });
+
+    const previousName = oldRaw?.department || oldName;
+    if (!options.rewriteLogs || previousName === newName) return 0;
+    const changed = await storage.logs.renameDepartment(previousName, newName, options.onProgress);
+    await storage.transfers.renameDepartment(previousName, newName);
+    const states = (await storage.states.list()).filter(state => state.department === previousName);
+    if (states.length > 0) await storage.states.saveMany(states.map(state => ({ ...state, department: newName })));
+    return changed;
   } catch (error) {
     console.error('Error renaming department:', error);
     throw error;
   }
 };
 
-export const getLogs = async (): Promise<Log[]> => {
+// ย้ายแท็กหนึ่งหรือหลายแท็กไปแผนกอื่น โดยมีผลตั้งแต่ effectiveAt (ย้อนหลังได้)
+// บันทึกประวัติการย้ายไว้ใน `tagTransfers` เพื่อให้รายงานนับ log ก่อนวันย้ายเป็นของแผนกเดิม
+export const transferTags = async (tags: string[], toDepartment: string, effectiveAt: string, actor: string): Promise<void> => {
+  const by = requireActor(actor);
+  const target = (toDepartment || '').trim();
+  const policy = await getTagPolicy();
+  const normalizedTags = Array.from(new Set(
+    (await Promise.all((tags || []).filter(t => (t || '').toString().trim()).map(t => storedTagFor(t, policy)))).filter(Boolean)
+  ));
+  if (normalizedTags.length === 0) throw new Error('กรุณาระบุแท็กที่ต้องการย้าย');
+  if (!target) throw new Error('กรุณาเลือกแผนกปลายทาง');
+  const effective = new Date(effectiveAt);
+  if (Number.isNaN(effective.getTime())) throw new Error('วันที่มีผลไม่ถูกต้อง');
+
+  const storage = getStorage();
+  const targetId = deptIdFor(target);
   try {
-    const logsCollection = collection(db, 'logs');
-    const q = query(logsCollection, orderBy('timestamp', 'desc'));
-    const querySnapshot = await getDocs(q);
-    
-    const logs: Log[] = [];
-    
-    querySnapshot.forEach((doc) => {
-      const data = doc.data() as FirestoreLog;
-      // Convert Firestore timestamp to ISO string
-      const timestamp = data.timestamp?.toDate 
-        ? data.timestamp.toDate().toISOString() 
-        : typeof data.timestamp === 'string' 
-          ? data.timestamp 
-          : new Date().toISOString();
-      
-      const log: Log = {
-        id: doc.id,
-        employeeId: data.employeeId || '',
-        ipadTag: data.ipadTag,
-        department: data.department,
-        status: data.status,
-        timestamp,
-        date: data.date || new Date(timestamp).toLocaleDateString('th-TH'),
-        time: data.time || new Date(timestamp).toLocaleTimeString('th-TH')
-      };
-      
-      if (isLog(log)) {
-        logs.push(log);
-      } else {
-        console.warn('Invalid log data:', log);
+    const targetRaw = await storage.catalog.get(targetId);
+    if (!targetRaw) throw new Error(`ไม่พบแผนก "${target}"`);
+    await migrateLegacyTags(targetRaw);
+    const targetName = targetRaw.department || target;
+
+    const moved: Device[] = [];
+    const transfers: NewTagTransfer[] = [];
+    // เอกสารที่ยังมีแท็กนี้ในรูปแบบเดิม (แท็กซ้ำ) ต้องเอาออกหลังย้าย
+    const legacyHolders = new Map<string, string[]>();
+    for (const tag of normalizedTags) {
+      for (const holder of await storage.catalog.findByTag(tag)) {
+        const { conflicts } = await migrateLegacyTags(holder);
+        if (conflicts.some(c => c.ipadTag === tag)) {
+          legacyHolders.set(holder.id, [...(legacyHolders.get(holder.id) || []), tag]);
+        }
       }
+      const device = await storage.devices.get(tag);
+      if (!device) throw new Error(`ไม่พบแท็ก "${tag}" ในระบบ`);
+      if (device.department === targetName) throw new Error(`แท็ก "${tag}" อยู่ในแผนก "${targetName}" อยู่แล้ว`);
+      moved.push(device);
+      transfers.push({
+        ipadTag: tag,
+        fromDepartment: device.department,
+        toDepartment: targetName,
+        effectiveAt: effective.toISOString(),
+        actor: by
+      });
+    }
+
+    const sourceIds = Array.from(new Set(moved.map(d => deptIdFor(d.department))));
+    const sourcesBefore = await Promise.all(sourceIds.map(loadDepartment));
+    const targetBefore = await loadDepartment(targetId);
+
+    await storage.devices.saveMany(moved.map(d => ({ ...d, department: targetName })));
+    for (const [id, holderTags] of legacyHolders) {
+      await stripLegacyTags(id, holderTags);
+    }
+
+    for (let i = 0; i < sourceIds.length; i++) {
+      const before = sourcesBefore[i];
+      const department = before?.department || moved.find(d => deptIdFor(d.department) === sourceIds[i])?.department || sourceIds[i];
+      await recordCatalogChange({
+        actor: by,
+        action: 'transfer_tag',
+        department,
+        tag: moved.filter(d => d.department === department).map(d => d.ipadTag).join(', '),
+        before: catalogData(before),
+        after: catalogData(await loadDepartment(sourceIds[i]))
+      });
+    }
+    await recordCatalogChange({
+      actor: by,
+      action: 'transfer_tag',
+      department: targetName,
+      tag: normalizedTags.join(', '),
+      before: catalogData(targetBefore),
+      after: catalogData(await loadDepartment(targetId))
     });
-    
-    return logs;
+
+    await storage.transfers.record(transfers);
   } catch (error) {
-    console.error('เกิดข้อผิดพลาดในการดึงข้อมูลประวัติ:', error);
-    return [];
+    console.error('Error transferring tags:', error);
+    throw error;
   }
 };
 
-const getDepartmentFromIpadTag = (ipadTag: string): string => {
-  const mappings: { [key: string]: string } = {
-    'ER': 'ห้องฉุกเฉิน',
-    'OR': 'ห้องผ่าตัด',
-    'COM': 'ห้องคอมพิวเตอร์',
-    'IPD': 'ห้องพักผู้ป่วย',
-    'OPD': 'ห้องตรวจ',
-    'XRAY': 'แผนกรังสี',
-    'DENT': 'ห้องทันตกรรม',
-  };
-  const prefix = ipadTag.split('-')[0].toUpperCase();
-  return mappings[prefix] || 'ไม่ระบุแผนก';
+// ชื่อที่แสดงของข้อมูลอุปกรณ์แต่ละช่อง ตามลำดับที่แสดงในฟอร์ม
+export const DEVICE_FIELD_LABELS: Record<keyof DeviceDetails, string> = {
+  serialNumber: 'หมายเลขเครื่อง',
+  model: 'รุ่น',
+  assetNumber: 'เลขครุภัณฑ์',
+  purchaseDate: 'วันที่ซื้อ',
+  notes: 'หมายเหตุ'
 };
 
-// ตรวจสอบสถานะล่าสุดของแท็กไอแพด
-interface LocalStorageLog {
-  ipadTag: string;
-  status: 'ส่งเข้า' | 'ส่งออก';
-  timestamp: string;
-  [key: string]: unknown;
-}
+const DEVICE_FIELDS = Object.keys(DEVICE_FIELD_LABELS) as (keyof DeviceDetails)[];
 
-export const getIpadStatus = async (ipadTag: string): Promise<'ส่งเข้า' | 'ส่งออก' | null> => {
-  try {
-    // 1. ใช้ getLogs ซึ่งมี orderBy timestamp อยู่แล้ว
-    const allLogs = await getLogs();
-    
-    // 2. กรองเฉพาะ log ของ ipadTag ที่ต้องการ
-    const ipadLogs = allLogs.filter(log => log.ipadTag === ipadTag);
-    
-    // 3. เรียงลำดับตาม timestamp ล่าสุด
-    ipadLogs.sort((a, b) => 
-      new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
-    );
-    
-    // 4. คืนค่าสถานะล่าสุดถ้ามี
-    return ipadLogs[0]?.status || null;
-  } catch (error) {
-    console.error('เกิดข้อผิดพลาดในการตรวจสอบสถานะไอแพด:', error);
-    
-    // Fallback 1: ลองค้นหาจาก cache ใหม่
-    try {
-      const logsCollection = collection(db, 'logs');
-      const q = query(
-        logsCollection, 
-        where('ipadTag', '==', ipadTag), 
-        orderBy('timestamp', 'desc'),
-        limit(1)
-      );
-      const querySnapshot = await getDocs(q);
-      
-      if (!querySnapshot.empty) {
-        const data = querySnapshot.docs[0].data() as FirestoreLog;
-        return data.status || null;
-      }
-    } catch (e) {
-      console.error('Error in fallback query:', e instanceof Error ? e.message : String(e));
+// แก้ไขข้อมูลอุปกรณ์ของแท็ก (หมายเลขเครื่อง รุ่น เลขครุภัณฑ์ วันที่ซื้อ หมายเหตุ) ค่าว่างคือล้างข้อมูล
+export const updateDeviceDetails = async (ipadTag: string, details: DeviceDetails, actor: string): Promise<void> => {
+  const by = requireActor(actor);
+  const storage = getStorage();
+  try {
+    const tag = await storedTagFor(ipadTag);
+    let device = await storage.devices.get(tag);
+    if (!device) {
+      for (const holder of await storage.catalog.findByTag(tag)) await migrateLegacyTags(holder);
+      device = await storage.devices.get(tag);
     }
-    
-    // Fallback 2: ใช้ localStorage
-    try {
-      const logsStr = localStorage.getItem('ipadLogs');
-      if (!logsStr) return null;
-      
-      const logs = JSON.parse(logsStr) as unknown[];
-      const ipadLogs = logs
-        .filter((log): log is LocalStorageLog => 
-          typeof log === 'object' && 
-          log !== null && 
-          'ipadTag' in log && 
-          'status' in log &&
-          'timestamp' in log
-        )
-        .filter(log => log.ipadTag === ipadTag)
-        .sort((a, b) => 
-          new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
-        );
-      
-      return ipadLogs[0]?.status || null;
-    } catch (e) {
-      console.error('Error getting status from localStorage:', e instanceof Error ? e.message : String(e));
-      return null;
+    if (!device) throw new Error(`ไม่พบแท็ก "${tag}" ในระบบ`);
+
+    const next: DeviceDetails = {};
+    DEVICE_FIELDS.forEach(field => { next[field] = (details[field] || '').trim(); });
+    if (next.purchaseDate && !/^\d{4}-\d{2}-\d{2}$/.test(next.purchaseDate)) {
+      throw new Error('วันที่ซื้อไม่ถูกต้อง (ใช้รูปแบบ ปปปป-ดด-วว)');
     }
+    const changes = DEVICE_FIELDS
+      .filter(field => (device[field] || '') !== next[field])
+      .map(field => ({ field, before: device[field] || '', after: next[field] || '' }));
+    if (changes.length === 0) return;
+
+    await storage.devices.saveMany([{ ...device, ...next }]);
+    const doc = catalogData(await loadDepartment(deptIdFor(device.department)));
+    await recordCatalogChange({
+      actor: by,
+      action: 'update_device',
+      department: device.department,
+      tag,
+      before: doc,
+      after: doc,
+      details: changes
+    });
+  } catch (error) {
+    console.error('Error updating device:', error);
+    throw error;
   }
 };
 
-// ตรวจสอบว่าสามารถเพิ่ม log ใหม่ได้หรือไม่
-export const canAddLog = async (ipadTag: string, newStatus: 'ส่งเข้า' | 'ส่งออก'): Promise<{ canAdd: boolean; message: string }> => {
-  const currentStatus = await getIpadStatus(ipadTag);
-  
-  // ถ้ายังไม่มีประวัติ ให้สามารถส่งเข้าได้เลยในครั้งแรก
-  if (!currentStatus) {
-    return { canAdd: true, message: '' };
+// ประวัติการย้ายแท็กทั้งหมด เรียงตามวันที่มีผล
+export const getTagTransfers = async (): Promise<TagTransfer[]> => {
+  try {
+    return await getStorage().transfers.list();
+  } catch (error) {
+    console.error('Error fetching tag transfers:', error);
+    return [];
   }
-  
-  // ถ้าสถานะปัจจุบันเหมือนกับที่ต้องการเพิ่ม
-  if (currentStatus === newStatus) {
-    return { 
-      canAdd: false, 
-      message: `ไม่สามารถ${newStatus}ได้ เนื่องจากแท็กนี้อยู่ในสถานะ ${newStatus} อยู่แล้ว` 
+};
+
+// แผนกของ log ตามประวัติการย้าย: หลังการย้ายครั้งล่าสุดที่มีผลก่อนเวลาของ log นับเป็นแผนกปลายทาง
+// ก่อนการย้ายครั้งแรกนับเป็นแผนกต้นทาง ถ้าแท็กไม่เคยถูกย้ายใช้แผนกที่บันทึกไว้ใน log
+export const attributeLogsToDepartments = (logs: Log[], transfers: TagTransfer[]): Log[] => {
+  if (transfers.length === 0) return logs;
+  const byTag = new Map<string, TagTransfer[]>();
+  transfers.forEach(t => {
+    const list = byTag.get(t.ipadTag) || [];
+    list.push(t);
+    byTag.set(t.ipadTag, list);
+  });
+  byTag.forEach(list => list.sort((a, b) => a.effectiveAt.localeCompare(b.effectiveAt)));
+
+  return logs.map(log => {
+    const history = byTag.get(log.ipadTag);
+    if (!history) return log;
+    const at = new Date(log.timestamp).toISOString();
+    const applied = history.filter(t => t.effectiveAt <= at);
+    const department = applied.length > 0 ? applied[applied.length - 1].toDepartment : history[0].fromDepartment;
+    return department === log.department ? log : { ...log, department };
+  });
+};
+
+// ยอดส่งเข้า/ส่งออกของแต่ละแผนก พร้อมยอดรายวัน (วันที่ 1..31)
+export interface DepartmentSummary {
+  department: string;
+  inCount: number;
+  outCount: number;
+  total: number;
+  tagCount: number;
+  days: { in: number; out: number }[]; // index 0 => day 1, ... index 30 => day 31
+  lifecycle: Partial<Record<LifecycleStatus, number>>; // devices currently in each lifecycle state
+}
+
+// รวม log (ที่ผ่าน attributeLogsToDepartments แล้ว) เป็นยอดรายแผนก ใช้กับสรุปรายแผนกและรายงานส่งเวร
+// ทุกแผนกใน departments จะมีแถวแม้ไม่มี log เรียงจากยอดรวมมากไปน้อย
+export const summarizeDepartments = (
+  logs: Log[],
+  departments: { name: string; tagCount: number }[],
+  lifecycleByDept: Record<string, Partial<Record<LifecycleStatus, number>>> = {}
+): DepartmentSummary[] => {
+  const logCounts: Record<string, { in: number; out: number; days: { in: number; out: number }[] }> = {};
+
+  // Prepare empty days array helper
+  const emptyDays = () => Array.from({ length: 31 }, () => ({ in: 0, out: 0 }));
+
+  logs.forEach(log => {
+    const dept = log.department || 'ไม่ระบุ';
+    if (!logCounts[dept]) {
+      logCounts[dept] = { in: 0, out: 0, days: emptyDays() };
+    }
+
+    // Count in/out; lifecycle changes made by admins are not scans
+    if (log.status === 'ส่งเข้า') {
+      logCounts[dept].in += 1;
+    } else if (log.status === 'ส่งออก') {
+      logCounts[dept].out += 1;
+    } else {
+      return;
+    }
+
+    // Determine day of month from timestamp
+    const d = new Date(log.timestamp);
+    const day = Number.isNaN(d.getTime()) ? 0 : d.getDate();
+    if (day >= 1 && day <= 31) {
+      if (log.status === 'ส่งเข้า') {
+        logCounts[dept].days[day - 1].in += 1;
+      } else {
+        logCounts[dept].days[day - 1].out += 1;
+      }
+    }
+  });
+
+  const toSummary = (dept: string, tagCount: number): DepartmentSummary => {
+    const counts = logCounts[dept] || { in: 0, out: 0, days: emptyDays() };
+    return {
+      department: dept,
+      inCount: counts.in,
+      outCount: counts.out,
+      total: counts.in + counts.out,
+      tagCount,
+      days: counts.days,
+      lifecycle: lifecycleByDept[dept] || {}
     };
-  }
-  
-  // อนุญาตให้ส่งออกได้เสมอถ้าเป็นสถานะส่งเข้า
-  if (newStatus === 'ส่งออก' && currentStatus === 'ส่งเข้า') {
-    return { canAdd: true, message: '' };
-  }
-  
-  // อนุญาตให้ส่งเข้าได้ถ้าเป็นสถานะส่งออก
-  if (newStatus === 'ส่งเข้า' && currentStatus === 'ส่งออก') {
-    return { canAdd: true, message: '' };
-  }
-  
-  return { 
-    canAdd: false, 
-    message: `ไม่สามารถ${newStatus}ได้ เนื่องจากสถานะปัจจุบันไม่สอดคล้อง` 
   };
+
+  // Include every known department even without logs, then any department seen only in logs
+  const deptMap = new Map(departments.map(dept => [dept.name, dept.tagCount]));
+  const result = Array.from(deptMap.entries()).map(([dept, tagCount]) => toSummary(dept, tagCount));
+  Object.keys(logCounts).forEach(dept => {
+    if (!deptMap.has(dept)) result.push(toSummary(dept, 0));
+  });
+
+  return result.sort((a, b) => b.total - a.total);
 };
 
-// ตรวจสอบว่าแท็กไอแพดและแผนกถูกต้อง
-const validateIpadTag = async (ipadTag: string, department: string): Promise<boolean> => {
+export const getLogs = async (): Promise<Log[]> => {
   try {
-    const ipadQuery = query(
-      collection(db, 'ipad'),
-      where('tags', 'array-contains', ipadTag),
-      where('department', '==', department)
-    );
-    const querySnapshot = await getDocs(ipadQuery);
-    return !querySnapshot.empty;
+    return await getStorage().logs.list();
   } catch (error) {
-    console.error('Error validating iPad tag:', error);
-    return false;
+    console.error('เกิดข้อผิดพลาดในการดึงข้อมูลประวัติ:', error);
+    return [];
   }
 };
 
+// ติดตาม log แบบเรียลไทม์: ทุกครั้งที่มีการสแกนหรือลบ onChange จะได้รับหน้าปัจจุบันใหม่
+export const subscribeLogs = (request: LogPageRequest, onChange: (page: LogPage) => void): Unsubscribe =>
+  getStorage().logs.subscribe(
+    request,
+    onChange,
+    error => console.error('เกิดข้อผิดพลาดในการติดตามประวัติ:', error)
+  );
+
+// ติดตาม log ทั้งหมดที่ตรงกับตัวกรองแบบเรียลไทม์ (ใช้กับสรุปรายแผนก)
+export const subscribeLogsMatching = (filter: LogFilter, onChange: (logs: Log[]) => void): Unsubscribe =>
+  getStorage().logs.subscribeMatching(
+    filter,
+    onChange,
+    error => console.error('เกิดข้อผิดพลาดในการติดตามประวัติ:', error)
+  );
 
-export const addLog = async (log: LogBase): Promise<Log> => {
+// ดึง log หนึ่งหน้าตามตัวกรอง โดยกรองและแบ่งหน้าที่ฐานข้อมูล
+export const queryLogs = async (request: LogPageRequest): Promise<LogPage> => {
   try {
-    // ตรวจสอบว่าแท็กไอแพดและแผนกถูกต้อง
-    const isValid = await validateIpadTag(log.ipadTag, log.department);
-    if (!isValid) {
-      throw new Error('ไม่พบข้อมูลแท็กไอแพดหรือแผนกไม่ถูกต้อง');
-    }
-
-    // ตรวจสอบว่าสามารถเพิ่ม log ใหม่ได้หรือไม่
-    const { canAdd, message } = await canAddLog(log.ipadTag, log.status);
-    if (!canAdd) {
-      throw new Error(message);
-    }
-    
-    // ตรวจสอบสถานะปัจจุบันของแท็กไอแพด
-    const currentStatus = await getIpadStatus(log.ipadTag);
-    
-    // ตรวจสอบการส่งเข้าซ้ำ (ไม่ให้ส่งเข้าซ้ำโดยไม่มีการส่งออก)
-    if (currentStatus === 'ส่งเข้า' && log.status === 'ส่งเข้า') {
-      throw new Error('ไม่สามารถส่งเข้าได้ เนื่องจากแท็กนี้ยังไม่ได้ถูกส่งออก');
-    }
-    
-    // ตรวจสอบการส่งออกซ้ำ (ไม่ให้ส่งออกซ้ำโดยไม่มีการส่งเข้า)
-    if (currentStatus === 'ส่งออก' && log.status === 'ส่งออก') {
-      throw new Error('ไม่สามารถส่งออกได้ เนื่องจากแท็กนี้ยังไม่ถูกส่งเข้า');
-    }
-    
-    // เพิ่มข้อมูลลงใน Firestore
-    const logsCollection = collection(db, 'logs');
-    const timestamp = serverTimestamp();
-    const date = new Date().toLocaleDateString('en-US');
-    const time = new Date().toLocaleTimeString('th-TH');
-    
-    const docRef = await addDoc(logsCollection, {
-      ...log,
-      timestamp,
-      date,
-      time
-    });
-    
-    // ส่งกลับข้อมูล log พร้อม ID ที่สร้างขึ้น
-    return {
-      ...log,
-      id: docRef.id,
-      timestamp: new Date().toISOString(),
-      date,
-      time
-    };
+    return await getStorage().logs.query(request);
   } catch (error) {
-    console.error('เกิดข้อผิดพลาดในการบันทึกข้อมูล:', error);
-    const errorMessage = error instanceof Error ? error.message : 'ไม่สามารถบันทึกข้อมูลได้ กรุณาลองใหม่อีกครั้ง';
-    throw new Error(errorMessage);
+    console.error('เกิดข้อผิดพลาดในการค้นหาประวัติ:', error);
+    return { logs: [], nextCursor: null };
   }
 };
 
+// นับจำนวน log ที่ตรงกับตัวกรอง (ไม่ต้องดาวน์โหลดข้อมูล)
+export const countLogs = async (filter: LogFilter = {}): Promise<number> => {
+  try {
+    return await getStorage().logs.count(filter);
+  } catch (error) {
+    console.error('Error counting logs:', error);
+    return 0;
+  }
+};
 
-export const getTagsByDepartment = async (department: string): Promise<string[]> => {
-  const q = query(collection(db, 'ipad'), where('department', '==', department));
-  const snap = await getDocs(q);
-  const tagSet = new Set<string>();
-  snap.forEach(doc => {
-    const data = doc.data() as { tags?: string[] };
-    if (Array.isArray(data?.tags)) {
-      for (const t of data.tags) {
-        if (typeof t === 'string' && t.trim()) tagSet.add(t.trim());
-      }
-    }
-  });
-  return Array.from(tagSet).sort((a, b) => a.localeCompare(b, 'th'));
+// ดึง log ทั้งหมดที่ตรงกับตัวกรองทีละหน้า ใช้กับรายงานที่ต้องรวมทุกแถว เช่น สรุปรายแผนก
+export const getLogsMatching = async (filter: LogFilter, pageSize = 500): Promise<Log[]> => {
+  const out: Log[] = [];
+  let cursor: string | null = null;
+  do {
+    const page: LogPage = await getStorage().logs.query({ ...filter, sortOrder: 'desc', pageSize, cursor });
+    out.push(...page.logs);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return out;
 };
 
-export const deleteLogs = async (logIds: string[]): Promise<void> => {
-  try {
-    const batch = writeBatch(db);
-    
-    logIds.forEach(id => {
-      const docRef = doc(db, 'logs', id);
-      batch.delete(docRef);
+// ---- ช่วงการยืม: จับคู่ ส่งออก กับรายการถัดไปของแท็กเดียวกัน ----
+
+export interface CheckoutSession {
+  // id ของ log ส่งออก
+  id: string;
+  ipadTag: string;
+  department: string;
+  checkedOutAt: string;
+  checkedOutBy: string;
+  // log ที่ปิดช่วงนี้ ปกติคือ ส่งเข้า หากเป็นสถานะอื่น (ส่งซ่อม สูญหาย หรือส่งออกซ้ำ) แปลว่าไม่ได้สแกนคืน
+  endedAt?: string;
+  endedBy?: string;
+  endStatus?: IpadStatus;
+  // มิลลิวินาที ช่วงที่ยังไม่คืนนับถึงเวลาที่คำนวณ
+  durationMs: number;
+  open: boolean;
+  // คืนโดยคนละคนกับที่ยืม
+  differentPeople: boolean;
+}
+
+export interface SessionFilter {
+  // ช่วงเวลา (ISO, รวมปลายทั้งสองด้าน) ได้ทุกช่วงที่ยืมหรือคืนในช่วงนี้ รวมถึงเครื่องที่ยังไม่คืน
+  from?: string;
+  to?: string;
+  ipadTag?: string;
+  department?: string;
+  // ผู้ยืมหรือผู้คืน
+  employeeId?: string;
+}
+
+// จับคู่ log (ลำดับใดก็ได้) เป็นช่วงการยืม ช่วงที่ยังเปิดอยู่นับเวลาถึง now
+export const pairCheckoutSessions = (logs: Log[], now: Date = new Date()): CheckoutSession[] => {
+  const byTag = new Map<string, Log[]>();
+  logs.forEach(log => {
+    const list = byTag.get(log.ipadTag) || [];
+    list.push(log);
+    byTag.set(log.ipadTag, list);
+  });
+
+  const sessions: CheckoutSession[] = [];
+  byTag.forEach(tagLogs => {
+    tagLogs.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime() || a.id.localeCompare(b.id));
+    let current: CheckoutSession | null = null;
+    tagLogs.forEach(log => {
+      if (current) {
+        current.endedAt = log.timestamp;
+        current.endedBy = log.employeeId;
+        current.endStatus = log.status;
+        current.durationMs = new Date(log.timestamp).getTime() - new Date(current.checkedOutAt).getTime();
+        current.open = false;
+        current.differentPeople = log.status === 'ส่งเข้า' && log.employeeId !== current.checkedOutBy;
+        current = null;
+      }
+      if (log.status === 'ส่งออก') {
+        current = {
+          id: log.id,
+          ipadTag: log.ipadTag,
+          department: log.department,
+          checkedOutAt: log.timestamp,
+          checkedOutBy: log.employeeId,
+          durationMs: Math.max(0, now.getTime() - new Date(log.timestamp).getTime()),
+          open: true,
+          differentPeople: false
+        };
+        sessions.push(current);
+      }
+    });
+  });
+  return sessions.sort((a, b) => new Date(b.checkedOutAt).getTime() - new Date(a.checkedOutAt).getTime());
+};
+
+// ช่วงการยืมที่ทับกับช่วงเวลาในตัวกรอง ใหม่สุดก่อน
+export const getCheckoutSessions = async (filter: SessionFilter = {}): Promise<CheckoutSession[]> => {
+  try {
+    const storage = getStorage();
+    const { from, to, ipadTag, department, employeeId } = filter;
+    // ดึง log ตั้งแต่ต้นช่วงจนถึงปัจจุบันในครั้งเดียว รายการหลังช่วงใช้ปิดช่วงการยืมที่คืนหลังช่วงนี้
+    // รวมถึงเครื่องที่ยืมไปก่อนช่วงนี้และคืนหลังช่วงนี้ ซึ่งไม่มี log ในช่วงเลย
+    const [logs, states] = await Promise.all([
+      getLogsMatching({ from, ipadTag, department }),
+      storage.states.list()
+    ]);
+    const byId = new Map(logs.map(log => [log.id, log]));
+
+    // แท็กที่รายการแรกตั้งแต่ต้นช่วงไม่ใช่ ส่งออก อาจคืนเครื่องที่ยืมไปก่อนช่วงนี้ จึงดูรายการก่อนช่วงของแท็กเหล่านั้น
+    if (from) {
+      const firstByTag = new Map<string, Log>();
+      logs.forEach(log => {
+        const first = firstByTag.get(log.ipadTag);
+        if (!first || new Date(log.timestamp).getTime() < new Date(first.timestamp).getTime()) firstByTag.set(log.ipadTag, log);
+      });
+      const needBefore = Array.from(firstByTag.values()).filter(log => log.status !== 'ส่งออก').map(log => log.ipadTag);
+      const before = await Promise.all(needBefore.map(async tag =>
+        (await storage.logs.query({ ipadTag: tag, to: from, sortOrder: 'desc', pageSize: 1 })).logs[0]
+      ));
+      before.forEach(log => {
+        if (log && log.status === 'ส่งออก' && (!department || log.department === department)) byId.set(log.id, log);
+      });
+    }
+
+    const now = new Date();
+    const sessions = pairCheckoutSessions(Array.from(byId.values()), now)
+      .filter(session =>
+        (!from || session.open || new Date(session.endedAt as string).getTime() >= new Date(from).getTime()) &&
+        (!to || new Date(session.checkedOutAt).getTime() <= new Date(to).getTime())
+      );
+
+    // เครื่องที่ยืมไปก่อนช่วงนี้และยังไม่คืน ไม่มี log ตั้งแต่ต้นช่วง จึงเติมจากดัชนีสถานะ
+    const covered = new Set(sessions.map(session => session.ipadTag));
+    states
+      .filter(state =>
+        state.status === 'ส่งออก' &&
+        !covered.has(state.ipadTag) &&
+        (!to || new Date(state.timestamp).getTime() <= new Date(to).getTime()) &&
+        (!ipadTag || state.ipadTag === ipadTag) &&
+        (!department || state.department === department)
+      )
+      .forEach(state => sessions.push({
+        id: state.logId,
+        ipadTag: state.ipadTag,
+        department: state.department,
+        checkedOutAt: state.timestamp,
+        checkedOutBy: state.employeeId,
+        durationMs: Math.max(0, now.getTime() - new Date(state.timestamp).getTime()),
+        open: true,
+        differentPeople: false
+      }));
+
+    return sessions
+      .filter(session => !employeeId || session.checkedOutBy === employeeId || session.endedBy === employeeId)
+      .sort((a, b) => new Date(b.checkedOutAt).getTime() - new Date(a.checkedOutAt).getTime());
+  } catch (error) {
+    console.error('Error building checkout sessions:', error);
+    throw new Error('ไม่สามารถโหลดช่วงการยืมได้');
+  }
+};
+
+// ---- อุปกรณ์เกินเวลาคืน ----
+
+export const DEFAULT_CHECKOUT_LIMITS: CheckoutLimits = { defaultHours: 12, departments: {} };
+
+export const validateCheckoutLimits = (limits: CheckoutLimits): string | null => {
+  const entries: [string, number][] = [['ค่าตั้งต้น', limits.defaultHours], ...Object.entries(limits.departments)];
+  const bad = entries.find(([, hours]) => !Number.isFinite(hours) || hours < 0 || hours > 24 * 90);
+  return bad ? `เวลายืมสูงสุด (${bad[0]}) ต้องอยู่ระหว่าง 0 ถึง ${24 * 90} ชั่วโมง` : null;
+};
+
+export const getCheckoutLimits = async (): Promise<CheckoutLimits> => {
+  try {
+    return { ...DEFAULT_CHECKOUT_LIMITS, ...(await getStorage().settings.get('checkoutLimits')) };
+  } catch (error) {
+    console.error('Error fetching checkout limits:', error);
+    return DEFAULT_CHECKOUT_LIMITS;
+  }
+};
+
+export const subscribeCheckoutLimits = (onChange: (limits: CheckoutLimits) => void): Unsubscribe =>
+  getStorage().settings.subscribe(
+    'checkoutLimits',
+    limits => onChange({ ...DEFAULT_CHECKOUT_LIMITS, ...limits }),
+    error => console.error('Error subscribing to checkout limits:', error)
+  );
+
+export const saveCheckoutLimits = async (limits: CheckoutLimits, actor: string): Promise<void> => {
+  const by = requireActor(actor);
+  const invalid = validateCheckoutLimits(limits);
+  if (invalid) throw new Error(invalid);
+  try {
+    await getStorage().settings.save('checkoutLimits', limits, by);
+  } catch (error) {
+    console.error('Error saving checkout limits:', error);
+    throw new Error('ไม่สามารถบันทึกเวลายืมสูงสุดได้');
+  }
+};
+
+// ชั่วโมงที่ยืมได้ของแผนกนี้ 0 คือไม่จำกัด
+export const checkoutLimitHours = (department: string, limits: CheckoutLimits): number =>
+  limits.departments[department] ?? limits.defaultHours;
+
+export interface OverdueDevice {
+  ipadTag: string;
+  department: string;
+  employeeId: string;
+  checkedOutAt: string;
+  limitHours: number;
+  // มิลลิวินาทีที่ยืมไปแล้ว และที่เกินกำหนด
+  durationMs: number;
+  overdueMs: number;
+}
+
+// อุปกรณ์ที่สถานะล่าสุดเป็น ส่งออก นานกว่าเวลายืมสูงสุดของแผนก เกินนานสุดก่อน
+export const findOverdueDevices = (states: IpadState[], limits: CheckoutLimits, now: Date = new Date()): OverdueDevice[] =>
+  states
+    .filter(state => state.status === 'ส่งออก')
+    .map(state => {
+      const limitHours = checkoutLimitHours(state.department, limits);
+      const durationMs = now.getTime() - new Date(state.timestamp).getTime();
+      return {
+        ipadTag: state.ipadTag,
+        department: state.department,
+        employeeId: state.employeeId,
+        checkedOutAt: state.timestamp,
+        limitHours,
+        durationMs,
+        overdueMs: durationMs - limitHours * 3600000
+      };
+    })
+    .filter(device => device.limitHours > 0 && device.overdueMs > 0)
+    .sort((a, b) => b.overdueMs - a.overdueMs);
+
+export const getOverdueDevices = async (): Promise<OverdueDevice[]> => {
+  try {
+    const [states, limits] = await Promise.all([getStorage().states.list(), getCheckoutLimits()]);
+    return findOverdueDevices(states, limits);
+  } catch (error) {
+    console.error('Error fetching overdue devices:', error);
+    return [];
+  }
+};
+
+// ---- รายงานส่งเวร ----
+
+export const DEFAULT_SHIFT_SCHEDULE: ShiftSchedule = { starts: ['07:00', '15:00', '23:00'] };
+
+const SHIFT_START_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export const validateShiftSchedule = (schedule: ShiftSchedule): string | null => {
+  if (schedule.starts.length === 0) return 'กรุณาระบุเวลาเริ่มกะอย่างน้อย 1 เวลา';
+  const bad = schedule.starts.find(start => !SHIFT_START_PATTERN.test(start));
+  if (bad !== undefined) return `เวลาเริ่มกะ "${bad}" ไม่ถูกต้อง ใช้รูปแบบ ชช:นน เช่น 07:00`;
+  if (new Set(schedule.starts).size !== schedule.starts.length) return 'เวลาเริ่มกะซ้ำกัน';
+  return null;
+};
+
+const sortedShiftStarts = (schedule: ShiftSchedule): string[] => [...schedule.starts].sort();
+
+export const getShiftSchedule = async (): Promise<ShiftSchedule> => {
+  try {
+    return (await getStorage().settings.get('shiftSchedule')) || DEFAULT_SHIFT_SCHEDULE;
+  } catch (error) {
+    console.error('Error fetching shift schedule:', error);
+    return DEFAULT_SHIFT_SCHEDULE;
+  }
+};
+
+export const subscribeShiftSchedule = (onChange: (schedule: ShiftSchedule) => void): Unsubscribe =>
+  getStorage().settings.subscribe(
+    'shiftSchedule',
+    schedule => onChange(schedule || DEFAULT_SHIFT_SCHEDULE),
+    error => console.error('Error subscribing to shift schedule:', error)
+  );
+
+export const saveShiftSchedule = async (schedule: ShiftSchedule, actor: string): Promise<void> => {
+  const by = requireActor(actor);
+  const invalid = validateShiftSchedule(schedule);
+  if (invalid) throw new Error(invalid);
+  try {
+    await getStorage().settings.save('shiftSchedule', { starts: sortedShiftStarts(schedule) }, by);
+  } catch (error) {
+    console.error('Error saving shift schedule:', error);
+    throw new Error('ไม่สามารถบันทึกเวลาเปลี่ยนกะได้');
+  }
+};
+
+export interface ShiftWindow {
+  // วันที่กะเริ่ม (yyyy-MM-dd ตามเวลาเครื่อง) และลำดับกะในวันนั้น
+  date: string;
+  index: number;
+  // เช่น "07:00–15:00"
+  label: string;
+  // ISO เริ่มกะ และเริ่มกะถัดไป (ไม่รวม)
+  from: string;
+  to: string;
+}
+
+const localDateString = (d: Date): string =>
+  `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+
+const atLocalTime = (date: string, time: string, addDays = 0): Date => {
+  const [y, m, d] = date.split('-').map(Number);
+  const [hh, mm] = time.split(':').map(Number);
+  return new Date(y, m - 1, d + addDays, hh, mm);
+};
+
+// กะลำดับ index ของวันที่ date ลำดับที่เกินหรือติดลบจะเลื่อนไปวันถัดไปหรือวันก่อน
+export const shiftWindow = (date: string, index: number, schedule: ShiftSchedule): ShiftWindow => {
+  const starts = sortedShiftStarts(schedule);
+  const dayOffset = Math.floor(index / starts.length);
+  const i = index - dayOffset * starts.length;
+  const day = localDateString(atLocalTime(date, '00:00', dayOffset));
+  const from = atLocalTime(day, starts[i]);
+  const last = i === starts.length - 1;
+  const to = atLocalTime(day, starts[last ? 0 : i + 1], last ? 1 : 0);
+  return {
+    date: day,
+    index: i,
+    label: `${starts[i]}–${starts[last ? 0 : i + 1]}`,
+    from: from.toISOString(),
+    to: to.toISOString()
+  };
+};
+
+// กะที่เวลา at อยู่ กะสุดท้ายของเมื่อวานอาจยังไม่จบในช่วงเช้า
+export const shiftAt = (at: Date, schedule: ShiftSchedule): ShiftWindow => {
+  const today = localDateString(at);
+  const count = schedule.starts.length;
+  for (let index = count - 1; index >= 0; index--) {
+    const window = shiftWindow(today, index, schedule);
+    if (new Date(window.from).getTime() <= at.getTime()) return window;
+  }
+  return shiftWindow(today, -1, schedule);
+};
+
+export interface ShiftDepartmentTotals extends DepartmentSummary {
+  unreturned: number;
+  carriedIn: number;
+}
+
+export interface ShiftReport {
+  shift: ShiftWindow;
+  // ยืมในกะนี้และยังไม่คืนเมื่อจบกะ จึงต้องส่งต่อให้กะถัดไป
+  unreturned: CheckoutSession[];
+  // ยืมมาตั้งแต่กะก่อนและยังไม่คืนเมื่อเริ่มกะนี้ ช่วงที่ปิดแล้วก่อนจบกะคือคืนในกะนี้
+  carriedIn: CheckoutSession[];
+  departments: ShiftDepartmentTotals[];
+}
+
+// ช่วงการยืมนี้คืนแล้ว (หรือปิดด้วยสถานะอื่น) ก่อนเวลา at หรือไม่
+export const sessionClosedBy = (session: CheckoutSession, at: string): boolean =>
+  !session.open && new Date(session.endedAt as string).getTime() < new Date(at).getTime();
+
+export const getShiftReport = async (shift: ShiftWindow): Promise<ShiftReport> => {
+  try {
+    const from = shift.from;
+    const to = new Date(new Date(shift.to).getTime() - 1).toISOString();
+    const storage = getStorage();
+    // อ่านจาก storage โดยตรง เพราะ getTagTransfers และ getIpadDocs คืนรายการว่างเมื่อเกิดข้อผิดพลาด
+    // ซึ่งจะทำให้รายงานขาดแผนกไปโดยไม่มีใครรู้
+    const [logs, transfers, catalog, devices, sessions] = await Promise.all([
+      getLogsMatching({ from, to }),
+      storage.transfers.list(),
+      storage.catalog.list(),
+      storage.devices.list(),
+      getCheckoutSessions({ from, to })
+    ]);
+    const docs = joinCatalog(catalog, devices);
+    const startedAt = new Date(from).getTime();
+    const unreturned = sessions.filter(s => new Date(s.checkedOutAt).getTime() >= startedAt && !sessionClosedBy(s, shift.to));
+    const carriedIn = sessions.filter(s => new Date(s.checkedOutAt).getTime() < startedAt);
+
+    const tagsByDept = new Map<string, Set<string>>();
+    docs.forEach(doc => {
+      if (!doc.department) return;
+      const tags = tagsByDept.get(doc.department) || new Set<string>();
+      (doc.tags || []).forEach(tag => { if (tag.trim()) tags.add(tag.trim()); });
+      tagsByDept.set(doc.department, tags);
+    });
+    [...unreturned, ...carriedIn].forEach(s => {
+      if (!tagsByDept.has(s.department)) tagsByDept.set(s.department, new Set());
+    });
+
+    const count = (list: CheckoutSession[], department: string) => list.filter(s => s.department === department).length;
+    const departments = summarizeDepartments(
+      attributeLogsToDepartments(logs, transfers),
+      Array.from(tagsByDept.entries()).map(([name, tags]) => ({ name, tagCount: tags.size }))
+    ).map(summary => ({
+      ...summary,
+      unreturned: count(unreturned, summary.department),
+      carriedIn: count(carriedIn, summary.department)
+    }));
+
+    return { shift, unreturned, carriedIn, departments };
+  } catch (error) {
+    console.error('Error building shift report:', error);
+    throw new Error('ไม่สามารถสร้างรายงานส่งเวรได้');
+  }
+};
+
+// ระยะเวลาแบบอ่านง่าย เช่น "2 วัน 3 ชม." หรือ "1 ชม. 5 นาที"
+export const formatDuration = (ms: number): string => {
+  const minutes = Math.floor(ms / 60000);
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  if (days > 0) return `${days} วัน${hours > 0 ? ` ${hours} ชม.` : ''}`;
+  if (hours > 0) return `${hours} ชม.${minutes % 60 > 0 ? ` ${minutes % 60} นาที` : ''}`;
+  return `${minutes} นาที`;
+};
+
+// ตรวจสอบสถานะล่าสุดของแท็กไอแพด
+interface LocalStorageLog {
+  ipadTag: string;
+  status: IpadStatus;
+  timestamp: string;
+  [key: string]: unknown;
+}
+
+export const getIpadStatus = async (ipadTag: string): Promise<IpadStatus | null> => {
+  try {
+    // 1. อ่านจากดัชนีสถานะปัจจุบัน (ipadState) ซึ่งอัปเดตทุกครั้งที่บันทึก
+    const state = await getStorage().states.get(ipadTag);
+    if (state) return state.status;
+
+    // 2. แท็กที่ยังไม่มีในดัชนี (ก่อน backfill) ใช้ log ล่าสุดของแท็กนี้
+    const [latest] = await getStorage().logs.listByTag(ipadTag, 1);
+    return latest?.status || null;
+  } catch (error) {
+    console.error('เกิดข้อผิดพลาดในการตรวจสอบสถานะไอแพด:', error);
+
+    // Fallback: ใช้ localStorage
+    try {
+      const logsStr = localStorage.getItem('ipadLogs');
+      if (!logsStr) return null;
+
+      const logs = JSON.parse(logsStr) as unknown[];
+      const ipadLogs = logs
+        .filter((log): log is LocalStorageLog =>
+          typeof log === 'object' &&
+          log !== null &&
+          'ipadTag' in log &&
+          'status' in log &&
+          'timestamp' in log
+        )
+        .filter(log => log.ipadTag === ipadTag)
+        .sort((a, b) =>
+          new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+        );
+
+      return ipadLogs[0]?.status || null;
+    } catch (e) {
+      console.error('Error getting status from localStorage:', e instanceof Error ? e.message : String(e));
+      return null;
+    }
+  }
+};
+
+// สถานะถัดไปที่อนุญาตจากแต่ละสถานะ ส่งเข้า/ส่งออก มาจากจุดสแกน สถานะอื่นผู้ดูแลเป็นผู้ตั้ง
+export const STATUS_TRANSITIONS: Record<IpadStatus, IpadStatus[]> = {
+  'ส่งเข้า': ['ส่งออก', 'ส่งซ่อม', 'สูญหาย', 'ปลดระวาง', 'กักเพื่อทำความสะอาด'],
+  'ส่งออก': ['ส่งเข้า', 'ส่งซ่อม', 'สูญหาย', 'กักเพื่อทำความสะอาด'],
+  'ส่งซ่อม': ['ส่งเข้า', 'สูญหาย', 'ปลดระวาง'],
+  'สูญหาย': ['ส่งเข้า', 'ปลดระวาง'],
+  'ปลดระวาง': [],
+  'กักเพื่อทำความสะอาด': ['ส่งเข้า', 'ส่งซ่อม']
+};
+
+// อุปกรณ์ในสถานะเหล่านี้ใช้งานไม่ได้ จุดสแกนจะไม่รับจนกว่าผู้ดูแลจะเปลี่ยนสถานะ
+export const isBlockedStatus = (status: IpadStatus | null): status is LifecycleStatus =>
+  status !== null && (LIFECYCLE_STATUSES as IpadStatus[]).includes(status);
+
+// กฎการเปลี่ยนสถานะ: ใช้ทั้งใน canAddLog และภายใน transaction ของ addLog
+export const evaluateTransition = (
+  currentStatus: IpadStatus | null,
+  newStatus: IpadStatus
+): { canAdd: boolean; message: string } => {
+  // ถ้ายังไม่มีประวัติ ให้สามารถบันทึกได้เลยในครั้งแรก
+  if (!currentStatus) {
+    return { canAdd: true, message: '' };
+  }
+
+  // ถ้าสถานะปัจจุบันเหมือนกับที่ต้องการเพิ่ม
+  if (currentStatus === newStatus) {
+    return {
+      canAdd: false,
+      message: `ไม่สามารถ${newStatus}ได้ เนื่องจากแท็กนี้อยู่ในสถานะ ${newStatus} อยู่แล้ว`
+    };
+  }
+
+  if ((STATUS_TRANSITIONS[currentStatus] || []).includes(newStatus)) {
+    return { canAdd: true, message: '' };
+  }
+
+  return {
+    canAdd: false,
+    message: `ไม่สามารถ${newStatus}ได้ เนื่องจากสถานะปัจจุบันไม่สอดคล้อง (${currentStatus})`
+  };
+};
+
+// กฎของจุดสแกน: นอกจากตารางสถานะแล้ว ยังไม่รับแท็กที่อยู่ในสถานะถูกระงับ
+export const evaluateScan = (
+  currentStatus: IpadStatus | null,
+  newStatus: IpadStatus
+): { canAdd: boolean; message: string } => {
+  if (isBlockedStatus(currentStatus)) {
+    return {
+      canAdd: false,
+      message: `แท็กนี้อยู่ในสถานะ ${currentStatus} ไม่สามารถสแกนได้ กรุณาติดต่อผู้ดูแลระบบ`
+    };
+  }
+  return evaluateTransition(currentStatus, newStatus);
+};
+
+// ตรวจสอบว่าสามารถเพิ่ม log ใหม่ได้หรือไม่
+export const canAddLog = async (ipadTag: string, newStatus: IpadStatus): Promise<{ canAdd: boolean; message: string }> => {
+  const currentStatus = await getIpadStatus(await storedTagFor(ipadTag));
+  return evaluateScan(currentStatus, newStatus);
+};
+
+// ตรวจสอบว่าแท็กไอแพดและแผนกถูกต้อง คืนแท็กตามที่เก็บในระบบ (ตรงตามที่สแกน หรือรูปแบบตามนโยบายแท็ก) หรือ null
+// null หมายถึงค้นสำเร็จแต่ไม่พบเท่านั้น ข้อผิดพลาดของการเชื่อมต่อต้องส่งต่อ เพื่อให้จุดสแกนเก็บเข้าคิวออฟไลน์แทนการปฏิเสธ
+const validateIpadTag = async (ipadTag: string, department: string): Promise<string | null> => {
+  try {
+    const storage = getStorage();
+    const typed = ipadTag.trim();
+    const normalized = normalizeTag(typed, await getTagPolicy());
+    for (const tag of Array.from(new Set([typed, normalized]))) {
+      const device = await storage.devices.get(tag);
+      if (device) return device.department === department ? tag : null;
+      // แท็กแบบเดิมที่ยังไม่ได้ย้ายเป็น device
+      const docs = await storage.catalog.findByTag(tag);
+      if (docs.length > 0) return docs.some(d => d.department === department) ? tag : null;
+    }
+    return null;
+  } catch (error) {
+    console.error('Error validating iPad tag:', error);
+    throw error;
+  }
+};
+
+
+// options.timestamp ใช้เวลาที่สแกนจริงแทนเวลาปัจจุบัน เช่น เมื่อส่งรายการที่ค้างจากคิวออฟไลน์
+export const addLog = async (log: LogBase, options: { timestamp?: string } = {}): Promise<Log> => {
+  try {
+    // รหัสพนักงานต้องอยู่ในทะเบียนและยังใช้งานอยู่
+    await requireActiveEmployee(log.employeeId);
+    log = { ...log, employeeId: log.employeeId.trim() };
+
+    // ตรวจสอบว่าแท็กไอแพดและแผนกถูกต้อง
+    const ipadTag = await validateIpadTag(log.ipadTag, log.department);
+    if (!ipadTag) {
+      throw new ScanRuleError('ไม่พบข้อมูลแท็กไอแพดหรือแผนกไม่ถูกต้อง');
+    }
+    log = { ...log, ipadTag };
+    if (log.status === 'ส่งออก' && (await getStorage().catalog.get(deptIdFor(log.department)))?.archived) {
+      throw new ScanRuleError(`แผนก "${log.department}" ถูกเก็บถาวรแล้ว รับคืนอุปกรณ์ได้อย่างเดียว`);
+    }
+
+    // แท็กที่ยังไม่มีเอกสารสถานะ ใช้สถานะจาก getIpadStatus เป็นค่าตั้งต้น
+    const seedStatus = await getIpadStatus(log.ipadTag);
+
+    const scannedAt = options.timestamp ? new Date(options.timestamp) : new Date();
+    const { date, time } = canonicalDateTime(scannedAt);
+    // สแกนที่ส่งย้อนหลังจากคิวออฟไลน์ต้องไม่เก่ากว่ารายการล่าสุดของแท็ก ไม่เช่นนั้นจะเขียนทับสถานะที่ใหม่กว่า
+    // แท็กที่ยังไม่มีเอกสารสถานะเทียบกับ log ล่าสุดแทน
+    const seedTimestamp = options.timestamp ? (await getStorage().logs.listByTag(log.ipadTag, 1))[0]?.timestamp : undefined;
+
+    // ตรวจสอบสถานะและบันทึก log ภายใน transaction เดียวกัน
+    // เพื่อไม่ให้สองจุดสแกนแท็กเดียวกันพร้อมกันแล้วผ่านทั้งคู่
+    const newLog = { ...log, date, time, timestamp: options.timestamp, imported: false, schemaVersion: LOG_SCHEMA_VERSION };
+    return await getStorage().logs.recordScan(newLog, (current) => {
+      const latestAt = current ? current.timestamp : seedTimestamp;
+      if (options.timestamp && latestAt && new Date(latestAt).getTime() > scannedAt.getTime()) {
+        throw new ScanRuleError('แท็กนี้มีการบันทึกที่ใหม่กว่าเวลาที่สแกนไว้แล้ว จึงไม่สามารถส่งรายการที่ค้างไว้ได้');
+      }
+      const { canAdd, message } = evaluateScan(current ? current.status : seedStatus, log.status);
+      if (!canAdd) {
+        throw new ScanRuleError(message);
+      }
+    });
+  } catch (error) {
+    console.error('เกิดข้อผิดพลาดในการบันทึกข้อมูล:', error);
+    // ส่งต่อทั้งก้อนเพื่อให้ผู้เรียกแยกปัญหาการเชื่อมต่อจากรหัสข้อผิดพลาดได้
+    if (error instanceof ScanRuleError || isConnectionError(error)) throw error;
+    const errorMessage = error instanceof Error ? error.message : 'ไม่สามารถบันทึกข้อมูลได้ กรุณาลองใหม่อีกครั้ง';
+    throw new Error(errorMessage);
+  }
+};
+
+// ผู้ดูแลเปลี่ยนสถานะอุปกรณ์ (ส่งซ่อม สูญหาย ปลดระวาง กักเพื่อทำความสะอาด หรือนำกลับมาใช้เป็นส่งเข้า)
+// บันทึกเป็น log ปกติที่ไม่มีรหัสพนักงาน ชื่อผู้ทำรายการอยู่ใน changedBy และตรวจตาม STATUS_TRANSITIONS เท่านั้น
+export const setDeviceStatus = async (ipadTag: string, status: IpadStatus, actor: string): Promise<Log> => {
+  const by = requireActor(actor);
+  const tag = await storedTagFor(ipadTag);
+  const storage = getStorage();
+  const device = await storage.devices.get(tag);
+  const department = device?.department || (await storage.catalog.findByTag(tag))[0]?.department;
+  if (!department) {
+    throw new ScanRuleError(`ไม่พบแท็ก "${tag}" ในระบบ`);
+  }
+
+  const seedStatus = await getIpadStatus(tag);
+  const now = new Date();
+  try {
+    return await storage.logs.recordScan(
+      {
+        employeeId: '',
+        changedBy: by,
+        ipadTag: tag,
+        department,
+        status,
+        ...canonicalDateTime(now),
+        imported: false,
+        schemaVersion: LOG_SCHEMA_VERSION
+      },
+      (current) => {
+        const { canAdd, message } = evaluateTransition(current ? current.status : seedStatus, status);
+        if (!canAdd) {
+          throw new ScanRuleError(message);
+        }
+      }
+    );
+  } catch (error) {
+    console.error('Error setting device status:', error);
+    throw error;
+  }
+};
+
+
+// อุปกรณ์ทั้งหมดของแผนก เรียงตามแท็ก
+export const getDevicesByDepartment = async (department: string): Promise<Device[]> => {
+  const storage = getStorage();
+  const [docs, devices] = await Promise.all([
+    storage.catalog.findByDepartment(department),
+    storage.devices.findByDepartment(department)
+  ]);
+  const doc: IpadDocument = { id: docs[0]?.id || deptIdFor(department), department, tags: docs.flatMap(d => d.tags || []) };
+  return withDevices(doc, devices).devices || [];
+};
+
+export const getTagsByDepartment = async (department: string): Promise<string[]> =>
+  (await getDevicesByDepartment(department)).map(d => d.ipadTag);
+
+export interface DuplicateTag {
+  ipadTag: string;
+  departments: string[];
+}
+
+// รายการแท็กที่อยู่มากกว่าหนึ่งแผนก (ข้อมูลเดิมก่อนบังคับให้แท็กไม่ซ้ำ) สำหรับตามแก้ไข
+export const findDuplicateTags = async (): Promise<DuplicateTag[]> => {
+  const storage = getStorage();
+  const [rawDocs, devices] = await Promise.all([storage.catalog.list(), storage.devices.list()]);
+  const docs = joinCatalog(rawDocs, devices);
+  const owners = new Map<string, Set<string>>();
+  docs.forEach(d => {
+    (d.tags || []).forEach(raw => {
+      const tag = String(raw).trim();
+      if (!tag) return;
+      const departments = owners.get(tag) || new Set<string>();
+      departments.add(d.department || d.id);
+      owners.set(tag, departments);
+    });
+  });
+  return Array.from(owners.entries())
+    .filter(([, departments]) => departments.size > 1)
+    .map(([ipadTag, departments]) => ({
+      ipadTag,
+      departments: Array.from(departments).sort((a, b) => a.localeCompare(b, 'th'))
+    }))
+    .sort((a, b) => a.ipadTag.localeCompare(b.ipadTag, 'th'));
+};
+
+// ---- นำเข้าแผนก/แท็กจากไฟล์ CSV/TSV (คอลัมน์: แผนก, แท็ก) ----
+
+// new: จะเพิ่มแท็ก, existing: แท็กอยู่ในแผนกนี้แล้ว, conflict: แท็กเป็นของแผนกอื่น, invalid: แถวไม่ถูกต้อง
+export type CatalogImportOutcome = 'new' | 'existing' | 'conflict' | 'invalid';
+
+export interface CatalogImportEntry {
+  // บรรทัดในไฟล์ (เริ่มที่ 1)
+  line: number;
+  department: string;
+  ipadTag: string;
+  outcome: CatalogImportOutcome;
+  message: string;
+}
+
+export interface CatalogImportPreview {
+  entries: CatalogImportEntry[];
+  // แผนกที่ยังไม่มีในระบบและจะถูกสร้าง
+  newDepartments: string[];
+}
+
+export const CATALOG_IMPORT_OUTCOME_LABELS: Record<CatalogImportOutcome, string> = {
+  new: 'แท็กใหม่',
+  existing: 'มีอยู่แล้ว',
+  conflict: 'ขัดแย้ง',
+  invalid: 'ข้อมูลไม่ถูกต้อง'
+};
+
+const isCatalogHeader = (cells: string[]): boolean =>
+  /แผนก|department/i.test(cells[0] || '') && /แท็ก|tag/i.test(cells[1] || '');
+
+// กฎตั้งต้นจากตารางคำนำหน้าแท็กเดิม (ส่วนก่อนขีดแรกของแท็ก)
+export const DEFAULT_TAG_RULES: TagRule[] = [
+  ['ER', 'ห้องฉุกเฉิน'],
+  ['OR', 'ห้องผ่าตัด'],
+  ['COM', 'ห้องคอมพิวเตอร์'],
+  ['IPD', 'ห้องพักผู้ป่วย'],
+  ['OPD', 'ห้องตรวจ'],
+  ['XRAY', 'แผนกรังสี'],
+  ['DENT', 'ห้องทันตกรรม']
+].map(([prefix, department]) => ({ id: `default-${prefix.toLowerCase()}`, kind: 'prefix', pattern: `${prefix}-`, department }));
+
+// ข้อความข้อผิดพลาดของกฎ หรือ null ถ้าใช้ได้
+export const validateTagRule = (rule: TagRule): string | null => {
+  if (!rule.pattern.trim()) return 'กรุณาระบุรูปแบบแท็ก';
+  if (!rule.department.trim()) return `กรุณาเลือกแผนกของกฎ "${rule.pattern}"`;
+  if (rule.kind === 'regex') {
+    try {
+      new RegExp(rule.pattern, 'i');
+    } catch {
+      return `รูปแบบ regex "${rule.pattern}" ไม่ถูกต้อง`;
+    }
+  }
+  return null;
+};
+
+// กฎแรกที่ตรงกับแท็ก หรือ null; กฎที่ไม่ถูกต้องจะถูกข้าม
+export const matchTagRule = (ipadTag: string, rules: TagRule[]): TagRule | null => {
+  const tag = ipadTag.trim();
+  if (!tag) return null;
+  return rules.find(rule => {
+    if (validateTagRule(rule)) return false;
+    return rule.kind === 'prefix'
+      ? tag.toUpperCase().startsWith(rule.pattern.trim().toUpperCase())
+      : new RegExp(rule.pattern, 'i').test(tag);
+  }) || null;
+};
+
+export const getTagRules = async (): Promise<TagRule[]> => {
+  try {
+    return (await getStorage().settings.get('tagRules')) || [];
+  } catch (error) {
+    console.error('Error fetching tag rules:', error);
+    return [];
+  }
+};
+
+export const subscribeTagRules = (onChange: (rules: TagRule[]) => void): Unsubscribe =>
+  getStorage().settings.subscribe(
+    'tagRules',
+    rules => onChange(rules || []),
+    error => console.error('Error subscribing to tag rules:', error)
+  );
+
+// บันทึกกฎทั้งชุดตามลำดับที่ส่งมา (ลำดับคือความสำคัญ)
+export const saveTagRules = async (rules: TagRule[], actor: string): Promise<void> => {
+  const by = requireActor(actor);
+  const cleaned = rules.map(rule => ({ ...rule, pattern: rule.pattern.trim(), department: rule.department.trim() }));
+  const invalid = cleaned.map(validateTagRule).find(Boolean);
+  if (invalid) throw new Error(invalid);
+  try {
+    await getStorage().settings.save('tagRules', cleaned, by);
+  } catch (error) {
+    console.error('Error saving tag rules:', error);
+    throw new Error('ไม่สามารถบันทึกกฎแท็กได้');
+  }
+};
+
+// แผนกที่กฎแนะนำสำหรับแท็กนี้ หรือ null ถ้าไม่มีกฎที่ตรง
+export const suggestDepartmentForTag = async (ipadTag: string): Promise<string | null> =>
+  matchTagRule(ipadTag, await getTagRules())?.department || null;
+
+export interface TagRuleViolation {
+  ipadTag: string;
+  department: string;
+  // แผนกตามกฎ
+  expected: string;
+  rule: TagRule;
+}
+
+// แท็กที่อยู่ในแผนกซึ่งขัดกับกฎ (แท็กที่ไม่มีกฎตรงจะไม่ถูกนับ)
+export const findTagRuleViolations = async (): Promise<TagRuleViolation[]> => {
+  try {
+    const [docs, rules] = await Promise.all([getIpadDocs(), getTagRules()]);
+    const violations: TagRuleViolation[] = [];
+    docs.forEach(doc => {
+      (doc.devices || []).forEach(device => {
+        const rule = matchTagRule(device.ipadTag, rules);
+        if (rule && deptIdFor(rule.department) !== deptIdFor(device.department)) {
+          violations.push({ ipadTag: device.ipadTag, department: device.department, expected: rule.department, rule });
+        }
+      });
+    });
+    return violations.sort((a, b) => a.ipadTag.localeCompare(b.ipadTag, 'th'));
+  } catch (error) {
+    console.error('Error checking tag rules:', error);
+    throw new Error('ไม่สามารถตรวจแท็กตามกฎได้');
+  }
+};
+
+// เทียบแถวในไฟล์กับแผนก/แท็กปัจจุบัน (แบบเดียวกับ getIpadDocs) โดยยังไม่เขียนข้อมูล
+export const previewCatalogImport = async (text: string): Promise<CatalogImportPreview> => {
+  const storage = getStorage();
+  const [rawDocs, devices, rules, policy] = await Promise.all([storage.catalog.list(), storage.devices.list(), getTagRules(), getTagPolicy()]);
+  const docs = joinCatalog(rawDocs, devices);
+
+  // ชื่อแผนกเทียบแบบไม่สนตัวพิมพ์และช่องว่าง (เหมือน id ของเอกสาร) แล้วใช้ชื่อที่มีอยู่ในระบบ
+  const departmentById = new Map<string, string>();
+  const owners = new Map<string, string>();
+  docs.forEach(d => {
+    const department = d.department || d.id;
+    departmentById.set(deptIdFor(department), department);
+    (d.tags || []).forEach(tag => { if (!owners.has(tag)) owners.set(tag, department); });
+  });
+  // แท็กเดิมที่เขียนต่างจากแท็กในไฟล์แต่เป็นแท็กเดียวกันตามนโยบายรูปแบบแท็ก
+  const storedTags = indexTags(Array.from(owners.keys()), policy);
+
+  const entries: CatalogImportEntry[] = [];
+  const newDepartments = new Set<string>();
+  const inFile = new Map<string, CatalogImportEntry>();
+  parseDelimited(text).forEach((cells, index) => {
+    const line = index + 1;
+    if (cells.every(c => !c.trim())) return;
+    if (index === 0 && isCatalogHeader(cells)) return;
+    const ipadTag = normalizeTag(cells[1] || '', policy);
+    // แถวที่ไม่ระบุแผนกใช้แผนกตามกฎแท็ก
+    const rule = matchTagRule(ipadTag, rules);
+    const rawDepartment = (cells[0] || '').trim() || rule?.department || '';
+    const entry: CatalogImportEntry = { line, department: rawDepartment, ipadTag, outcome: 'invalid', message: '' };
+    entries.push(entry);
+    if (!rawDepartment || !ipadTag) {
+      entry.message = ipadTag ? 'ไม่ระบุแผนกและไม่มีกฎแท็กที่ตรงกัน' : 'ต้องมีทั้งแผนกและแท็ก';
+      return;
+    }
+    if (!isTagAllowed(ipadTag, policy)) {
+      entry.message = 'แท็กไม่ตรงรูปแบบแท็กที่กำหนด';
+      return;
+    }
+    const department = departmentById.get(deptIdFor(rawDepartment)) || rawDepartment;
+    entry.department = department;
+    const ruleNote = !rule
+      ? ''
+      : !(cells[0] || '').trim()
+        ? ` (แผนกตามกฎ ${rule.pattern})`
+        : deptIdFor(rule.department) !== deptIdFor(department)
+          ? ` (ขัดกับกฎ ${rule.pattern}: ควรเป็นแผนก "${rule.department}")`
+          : '';
+
+    const storedTag = resolveTag(ipadTag, storedTags, policy);
+    const owner = storedTag ? owners.get(storedTag) : undefined;
+    if (owner && owner !== department) {
+      entry.outcome = 'conflict';
+      entry.message = `แท็กเป็นของแผนก "${owner}" อยู่แล้ว`;
+      return;
+    }
+
+    const earlier = inFile.get(ipadTag);
+    if (earlier) {
+      entry.message = earlier.department === department
+        ? `ซ้ำกับบรรทัด ${earlier.line}`
+        : `แท็กนี้อยู่ในแผนก "${earlier.department}" ที่บรรทัด ${earlier.line}`;
+      return;
+    }
+    inFile.set(ipadTag, entry);
+
+    if (owner) {
+      entry.outcome = 'existing';
+      entry.message = storedTag === ipadTag ? 'แท็กอยู่ในแผนกนี้แล้ว' : `แท็กอยู่ในแผนกนี้แล้วในชื่อ "${storedTag}"`;
+    } else {
+      entry.outcome = 'new';
+      if (departmentById.has(deptIdFor(department))) {
+        entry.message = 'จะเพิ่มเข้าแผนกนี้';
+      } else {
+        entry.message = 'จะเพิ่มพร้อมสร้างแผนกใหม่';
+        newDepartments.add(department);
+      }
+    }
+    entry.message += ruleNote;
+  });
+
+  return {
+    entries,
+    newDepartments: Array.from(newDepartments).sort((a, b) => a.localeCompare(b, 'th'))
+  };
+};
+
+// นำเข้าแท็กใหม่จากไฟล์: ตรวจซ้ำกับข้อมูลล่าสุดก่อนเขียน แล้วเขียนเป็นชุด (batch)
+// คืนรายงานผลรายบรรทัด แท็กที่ขัดแย้งหรือไม่ถูกต้องจะไม่ถูกเขียน
+export const applyCatalogImport = async (text: string, actor: string): Promise<CatalogImportPreview> => {
+  const by = requireActor(actor);
+  const storage = getStorage();
+  try {
+    const preview = await previewCatalogImport(text);
+    const toAdd = preview.entries.filter(e => e.outcome === 'new');
+    const departments = Array.from(new Set(toAdd.map(e => e.department)));
+
+    const before = new Map<string, IpadDocumentData | null>();
+    for (const department of departments) {
+      const id = deptIdFor(department);
+      const raw = await storage.catalog.get(id);
+      if (raw) await migrateLegacyTags(raw);
+      before.set(department, catalogData(raw ? await loadDepartment(id) : null));
+      if (!raw) await storage.catalog.save(id, { department });
+    }
+    await storage.devices.saveMany(toAdd.map(e => ({ ipadTag: e.ipadTag, department: e.department })));
+
+    for (const department of departments) {
+      const previous = before.get(department) ?? null;
+      await recordCatalogChange({
+        actor: by,
+        action: previous ? 'add_tag' : 'create_department',
+        department,
+        tag: previous ? toAdd.filter(e => e.department === department).map(e => e.ipadTag).join(', ') : undefined,
+        before: previous,
+        after: catalogData(await loadDepartment(deptIdFor(department)))
+      });
+    }
+
+    toAdd.forEach(e => { e.message = 'เพิ่มแล้ว'; });
+    return preview;
+  } catch (error) {
+    console.error('Error importing catalog:', error);
+    throw error;
+  }
+};
+
+// ---- โปรไฟล์เครื่องสแกน (แต่ละจุดสแกนเลือกโปรไฟล์ที่ใช้เอง) ----
+
+export const getScannerProfiles = async (): Promise<ScannerProfile[]> => {
+  try {
+    return (await getStorage().settings.get('scannerProfiles')) || [];
+  } catch (error) {
+    console.error('Error fetching scanner profiles:', error);
+    return [];
+  }
+};
+
+export const subscribeScannerProfiles = (onChange: (profiles: ScannerProfile[]) => void): Unsubscribe =>
+  getStorage().settings.subscribe(
+    'scannerProfiles',
+    profiles => onChange(profiles || []),
+    error => console.error('Error subscribing to scanner profiles:', error)
+  );
+
+// บันทึกโปรไฟล์ทั้งชุด ช่องคำนำหน้า/ต่อท้ายที่ว่างจะถูกตัดทิ้ง
+export const saveScannerProfiles = async (profiles: ScannerProfile[], actor: string): Promise<void> => {
+  const by = requireActor(actor);
+  const cleanField = (rule: ScannerFieldRule): ScannerFieldRule => ({
+    ...rule,
+    prefixes: rule.prefixes.filter(Boolean),
+    suffixes: rule.suffixes.filter(Boolean),
+    extract: rule.extract.trim()
+  });
+  const cleaned = profiles.map(p => ({ ...p, name: p.name.trim(), employee: cleanField(p.employee), tag: cleanField(p.tag) }));
+  const invalid = cleaned.map(validateScannerProfile).find(Boolean);
+  if (invalid) throw new Error(invalid);
+  try {
+    await getStorage().settings.save('scannerProfiles', cleaned, by);
+  } catch (error) {
+    console.error('Error saving scanner profiles:', error);
+    throw new Error('ไม่สามารถบันทึกโปรไฟล์เครื่องสแกนได้');
+  }
+};
+
+// ---- ทะเบียนพนักงาน (รหัส ชื่อ แผนก สถานะใช้งาน) ----
+
+const sortEmployees = (employees: Employee[]): Employee[] =>
+  employees.sort((a, b) => a.employeeId.localeCompare(b.employeeId, 'th', { numeric: true }));
+
+export const getEmployees = async (): Promise<Employee[]> => {
+  try {
+    return sortEmployees(await getStorage().employees.list());
+  } catch (error) {
+    console.error('Error fetching employees:', error);
+    return [];
+  }
+};
+
+export const subscribeEmployees = (onChange: (employees: Employee[]) => void): Unsubscribe =>
+  getStorage().employees.subscribe(
+    employees => onChange(sortEmployees(employees)),
+    error => console.error('Error subscribing to employees:', error)
+  );
+
+// ข้อความผิดพลาดของข้อมูลพนักงาน หรือ null ถ้าบันทึกได้
+export const validateEmployee = (employee: Employee): string | null => {
+  if (!employee.employeeId.trim()) return 'กรุณาระบุรหัสพนักงาน';
+  if (/,/.test(employee.employeeId)) return 'รหัสพนักงานต้องไม่มีเครื่องหมายจุลภาค';
+  if (!employee.name.trim()) return 'กรุณาระบุชื่อพนักงาน';
+  return null;
+};
+
+const cleanEmployee = (employee: Employee, by: string): Employee => ({
+  employeeId: employee.employeeId.trim(),
+  name: employee.name.trim(),
+  department: employee.department.trim(),
+  active: employee.active,
+  updatedBy: by,
+  updatedAt: new Date().toISOString()
+});
+
+// options.create ใช้ตอนเพิ่มพนักงานใหม่ จะไม่เขียนทับรหัสที่มีอยู่แล้ว
+export const saveEmployee = async (employee: Employee, actor: string, options: { create?: boolean } = {}): Promise<void> => {
+  const by = requireActor(actor);
+  const invalid = validateEmployee(employee);
+  if (invalid) throw new Error(invalid);
+  const storage = getStorage();
+  const cleaned = cleanEmployee(employee, by);
+  if (options.create && (await storage.employees.get(cleaned.employeeId))) {
+    throw new Error(`รหัสพนักงาน "${cleaned.employeeId}" มีอยู่แล้ว`);
+  }
+  try {
+    await storage.employees.saveMany([cleaned]);
+  } catch (error) {
+    console.error('Error saving employee:', error);
+    throw new Error('ไม่สามารถบันทึกข้อมูลพนักงานได้');
+  }
+};
+
+// ลบออกจากทะเบียน ประวัติเดิมยังเก็บรหัสไว้แต่จะไม่แสดงชื่อ (ปิดการใช้งานแทนได้)
+// ข้อมูลพนักงานที่ลบเก็บไว้ในประวัติการแก้ไข
+export const deleteEmployee = async (employeeId: string, actor: string): Promise<void> => {
+  const by = requireActor(actor);
+  const storage = getStorage();
+  try {
+    const employee = await storage.employees.get(employeeId);
+    if (!employee) return;
+    await storage.employees.remove(employeeId);
+    await recordCatalogChange({ actor: by, action: 'delete_employee', department: employee.department, before: null, after: null, employee });
+  } catch (error) {
+    console.error('Error deleting employee:', error);
+    throw new Error('ไม่สามารถลบพนักงานได้');
+  }
+};
+
+// พนักงานที่สแกนได้ หรือ null เมื่อยังไม่มีทะเบียนพนักงานเลย (ยังไม่เปิดใช้การตรวจรหัส)
+const requireActiveEmployee = async (employeeId: string): Promise<Employee | null> => {
+  const storage = getStorage();
+  const id = employeeId.trim();
+  const employee = id ? await storage.employees.get(id) : null;
+  if (employee) {
+    if (!employee.active) throw new ScanRuleError(`รหัสพนักงาน "${id}" ถูกปิดการใช้งานแล้ว`);
+    return employee;
+  }
+  if (!(await storage.employees.hasAny())) return null;
+  throw new ScanRuleError(`ไม่พบรหัสพนักงาน "${id}" ในระบบ`);
+};
+
+// นำเข้าพนักงานจาก CSV/TSV (คอลัมน์: รหัสพนักงาน, ชื่อ, แผนก, สถานะ)
+// new: เพิ่มใหม่, update: แก้ไขข้อมูลเดิม, unchanged: ข้อมูลตรงกันอยู่แล้ว, invalid: แถวไม่ถูกต้อง
+export type EmployeeImportOutcome = 'new' | 'update' | 'unchanged' | 'invalid';
+
+export interface EmployeeImportEntry {
+  // บรรทัดในไฟล์ (เริ่มที่ 1)
+  line: number;
+  employee: Employee;
+  outcome: EmployeeImportOutcome;
+  message: string;
+}
+
+export const EMPLOYEE_IMPORT_OUTCOME_LABELS: Record<EmployeeImportOutcome, string> = {
+  new: 'เพิ่มใหม่',
+  update: 'แก้ไข',
+  unchanged: 'ไม่เปลี่ยนแปลง',
+  invalid: 'ข้อมูลไม่ถูกต้อง'
+};
+
+const isEmployeeHeader = (cells: string[]): boolean =>
+  /รหัส|id/i.test(cells[0] || '') && /ชื่อ|name/i.test(cells[1] || '');
+
+// คอลัมน์สถานะที่เว้นว่างถือว่าใช้งาน
+const parseEmployeeActive = (value: string): boolean | null => {
+  const text = value.trim().toLowerCase();
+  if (!text || /^(1|true|yes|y|active|ใช้งาน|ใช่)$/.test(text)) return true;
+  if (/^(0|false|no|n|inactive|ไม่ใช้งาน|ปิด|ปิดใช้งาน|ลาออก|ไม่ใช่)$/.test(text)) return false;
+  return null;
+};
+
+export const previewEmployeeImport = async (text: string): Promise<EmployeeImportEntry[]> => {
+  const existing = new Map((await getStorage().employees.list()).map(e => [e.employeeId, e]));
+  const inFile = new Map<string, number>();
+  const entries: EmployeeImportEntry[] = [];
+  parseDelimited(text).forEach((cells, index) => {
+    const line = index + 1;
+    if (cells.every(c => !c.trim())) return;
+    if (index === 0 && isEmployeeHeader(cells)) return;
+    const active = parseEmployeeActive(cells[3] || '');
+    const employee: Employee = {
+      employeeId: (cells[0] || '').trim(),
+      name: (cells[1] || '').trim(),
+      department: (cells[2] || '').trim(),
+      active: active ?? true
+    };
+    const entry: EmployeeImportEntry = { line, employee, outcome: 'invalid', message: '' };
+    entries.push(entry);
+    const invalid = validateEmployee(employee);
+    if (invalid) {
+      entry.message = invalid;
+      return;
+    }
+    if (active === null) {
+      entry.message = `ไม่รู้จักสถานะ "${cells[3].trim()}" (ใช้ ใช้งาน หรือ ไม่ใช้งาน)`;
+      return;
+    }
+    const earlier = inFile.get(employee.employeeId);
+    if (earlier) {
+      entry.message = `รหัสซ้ำกับบรรทัด ${earlier}`;
+      return;
+    }
+    inFile.set(employee.employeeId, line);
+
+    const current = existing.get(employee.employeeId);
+    if (!current) {
+      entry.outcome = 'new';
+      entry.message = 'จะเพิ่มพนักงานใหม่';
+      return;
+    }
+    const changes = [
+      current.name !== employee.name ? `ชื่อ: ${current.name} → ${employee.name}` : '',
+      current.department !== employee.department ? `แผนก: ${current.department || '-'} → ${employee.department || '-'}` : '',
+      current.active !== employee.active ? (employee.active ? 'เปิดใช้งาน' : 'ปิดใช้งาน') : ''
+    ].filter(Boolean);
+    entry.outcome = changes.length > 0 ? 'update' : 'unchanged';
+    entry.message = changes.length > 0 ? changes.join(', ') : 'ข้อมูลตรงกันอยู่แล้ว';
+  });
+  return entries;
+};
+
+// เขียนแถวที่เพิ่มใหม่หรือแก้ไข เป็นชุด (batch) แถวที่ไม่ถูกต้องจะไม่ถูกเขียน
+export const applyEmployeeImport = async (text: string, actor: string): Promise<EmployeeImportEntry[]> => {
+  const by = requireActor(actor);
+  try {
+    const entries = await previewEmployeeImport(text);
+    const toSave = entries.filter(e => e.outcome === 'new' || e.outcome === 'update');
+    await getStorage().employees.saveMany(toSave.map(e => cleanEmployee(e.employee, by)));
+    toSave.forEach(e => { e.message = e.outcome === 'new' ? 'เพิ่มแล้ว' : 'แก้ไขแล้ว'; });
+    return entries;
+  } catch (error) {
+    console.error('Error importing employees:', error);
+    throw error;
+  }
+};
+
+// ประวัติการแก้ไขแผนก/แท็ก ล่าสุดก่อน สูงสุด max รายการ
+export const getCatalogAudit = async (filter: AuditFilter = {}, max = 100): Promise<CatalogAuditEvent[]> => {
+  try {
+    return await getStorage().audit.query(filter, max);
+  } catch (error) {
+    console.error('Error fetching catalog audit:', error);
+    return [];
+  }
+};
+
+// สร้างสถานะปัจจุบันของแท็กจาก log ล่าสุด
+const stateFromLog = (log: Log): IpadState => ({
+  ipadTag: log.ipadTag,
+  status: log.status,
+  employeeId: log.employeeId,
+  department: log.department,
+  timestamp: log.timestamp,
+  logId: log.id
+});
+
+// คำนวณดัชนีสถานะของแท็กที่ระบุใหม่จาก log ล่าสุดที่เหลืออยู่
+const refreshIpadStates = async (ipadTags: string[]): Promise<void> => {
+  const storage = getStorage();
+  const toSave: IpadState[] = [];
+  const toRemove: string[] = [];
+  for (const tag of ipadTags) {
+    const [latest] = await storage.logs.listByTag(tag, 1);
+    if (latest) {
+      toSave.push(stateFromLog(latest));
+    } else {
+      toRemove.push(tag);
+    }
+  }
+  if (toSave.length > 0) await storage.states.saveMany(toSave);
+  if (toRemove.length > 0) await storage.states.removeMany(toRemove);
+};
+
+// สถานะปัจจุบันของทุกแท็กจากดัชนี
+export const getIpadStates = async (): Promise<IpadState[]> => {
+  try {
+    return await getStorage().states.list();
+  } catch (error) {
+    console.error('Error fetching ipad states:', error);
+    return [];
+  }
+};
+
+// ติดตามสถานะปัจจุบันของทุกแท็กแบบเรียลไทม์
+export const subscribeIpadStates = (onChange: (states: IpadState[]) => void): Unsubscribe =>
+  getStorage().states.subscribe(
+    onChange,
+    error => console.error('Error subscribing to ipad states:', error)
+  );
+
+// สร้างดัชนีสถานะจากประวัติทั้งหมด (ใช้ครั้งเดียวหลังอัปเดตระบบ หรือเมื่อดัชนีไม่ตรง เช่น หลังกู้คืนข้อมูลสำรอง)
+// คืนค่าจำนวนแท็กที่ถูกบันทึก
+export const backfillIpadStates = async (): Promise<number> => {
+  try {
+    const storage = getStorage();
+    const allLogs = await storage.logs.list();
+    const latestByTag = new Map<string, Log>();
+    // logs เรียงจากใหม่ไปเก่า ตัวแรกที่พบของแต่ละแท็กจึงเป็นล่าสุด
+    allLogs.forEach(log => {
+      if (!latestByTag.has(log.ipadTag)) latestByTag.set(log.ipadTag, log);
+    });
+    const states = Array.from(latestByTag.values()).map(stateFromLog);
+    await storage.states.saveMany(states);
+    // แท็กที่ไม่มี log เหลืออยู่แล้ว (เช่น หลังกู้คืนแบบแทนที่) ไม่ควรมีสถานะค้าง
+    const stale = (await storage.states.list()).filter(s => !latestByTag.has(s.ipadTag)).map(s => s.ipadTag);
+    if (stale.length > 0) await storage.states.removeMany(stale);
+    return states.length;
+  } catch (error) {
+    console.error('Error backfilling ipad states:', error);
+    throw new Error('ไม่สามารถสร้างดัชนีสถานะได้');
+  }
+};
+
+// ---- ปรับ log เก่าให้อยู่ในรูปแบบมาตรฐาน (LOG_SCHEMA_VERSION) ----
+
+export interface LogFieldChange {
+  field: string;
+  before: string;
+  after: string;
+}
+
+export interface LogMigrationReport {
+  dryRun: boolean;
+  schemaVersion: number;
+  // จำนวน log ทั้งหมดที่ตรวจ
+  scanned: number;
+  // log ที่อยู่ในรูปแบบปัจจุบันแล้ว (มี schemaVersion ล่าสุด)
+  upToDate: number;
+  // log ที่ถูกเขียนใหม่ (หรือจะถูกเขียนใหม่เมื่อ dryRun)
+  changed: { id: string; changes: LogFieldChange[] }[];
+  // log ที่ปรับอัตโนมัติไม่ได้ ต้องตรวจสอบเอง
+  skipped: { id: string; reason: string }[];
+}
+
+const describeValue = (value: unknown): string =>
+  value === undefined ? '(ไม่มี)' : typeof value === 'string' ? value : JSON.stringify(value);
+
+const BANGKOK_UTC_OFFSET_MS = 7 * 60 * 60 * 1000;
+
+// วันที่/เวลาแบบข้อความ: yyyy-MM-dd หรือ ว/ด/ปี หรือ ด/ว/ปี โดยปีที่เกิน 2400 ถือเป็น พ.ศ.
+// ถ้าไม่ระบุ dayFirst: ปี พ.ศ. เป็น วัน/เดือน (th-TH) ปี ค.ศ. เป็น เดือน/วัน (en-US) ตามที่ addLog รุ่นเก่าบันทึก
+const parseLegacyDateTime = (date: unknown, time: unknown, dayFirst?: boolean): Date | null => {
+  const text = typeof date === 'string' ? date.trim() : '';
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const slashed = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+  let year: number;
+  let month: number;
+  let day: number;
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (slashed) {
+    const [a, b] = [Number(slashed[1]), Number(slashed[2])];
+    year = Number(slashed[3]);
+    const buddhist = year > 2400;
+    [day, month] = (dayFirst ?? buddhist) ? [a, b] : [b, a];
+    if (buddhist) year -= 543;
+  } else {
+    return null;
+  }
+  const t = typeof time === 'string' ? time.trim().match(/^(\d{1,2})[:.](\d{2})(?:[:.](\d{2}))?/) : null;
+  // ค่าที่บันทึกเป็นเวลาไทย (UTC+7 ไม่มีเวลาออมแสง) ไม่ว่าเครื่องที่รันจะอยู่เขตเวลาใด
+  const wall = new Date(Date.UTC(
+    year,
+    month - 1,
+    day,
+    t ? Number(t[1]) : 0,
+    t ? Number(t[2]) : 0,
+    t && t[3] ? Number(t[3]) : 0
+  ));
+  if (Number.isNaN(wall.getTime()) || wall.getUTCDate() !== day) return null;
+  return new Date(wall.getTime() - BANGKOK_UTC_OFFSET_MS);
+};
+
+const legacyTimestamp = (record: StoredLogRecord): Date | null => {
+  if (record.timestamp) return new Date(record.timestamp);
+  const raw = record.data.timestamp;
+  if (typeof raw === 'string' || typeof raw === 'number') {
+    const parsed = new Date(raw);
+    if (!Number.isNaN(parsed.getTime())) return parsed;
+  }
+  return parseLegacyDateTime(record.data.date, record.data.time);
+};
+
+// แปลง log หนึ่งรายการเป็นรูปแบบมาตรฐาน พร้อมรายการฟิลด์ที่เปลี่ยน หรือเหตุผลที่แปลงไม่ได้
+const normalizeStoredLog = (record: StoredLogRecord): { log: CanonicalLog; changes: LogFieldChange[] } | { reason: string } => {
+  const data = record.data;
+  const ipadTag = typeof data.ipadTag === 'string' || typeof data.ipadTag === 'number' ? String(data.ipadTag).trim() : '';
+  if (!ipadTag) return { reason: 'ไม่มีแท็กไอแพด' };
+  if (!isIpadStatus(data.status)) return { reason: `สถานะไม่ถูกต้อง: ${describeValue(data.status)}` };
+  const moment = legacyTimestamp(record);
+  if (!moment) return { reason: 'ไม่พบเวลาที่บันทึก' };
+
+  const employeeId = typeof data.employeeId === 'string' || typeof data.employeeId === 'number' ? String(data.employeeId).trim() : '';
+  // ก่อนเวอร์ชัน 4 ชื่อผู้ดูแลที่เปลี่ยนสถานะถูกเก็บใน employeeId สถานะพักใช้งานตั้งได้จากผู้ดูแลเท่านั้น จึงย้ายไป changedBy ได้
+  // ส่วน ส่งเข้า ที่ผู้ดูแลตั้งแยกจากการสแกนไม่ได้ จึงคงไว้ตามเดิม
+  const storedChangedBy = typeof data.changedBy === 'string' ? data.changedBy.trim() : '';
+  const movedToChangedBy = !storedChangedBy && isBlockedStatus(data.status) && employeeId !== '';
+  const changedBy = storedChangedBy || (movedToChangedBy ? employeeId : '');
+
+  const log: CanonicalLog = {
+    id: record.id,
+    employeeId: movedToChangedBy ? '' : employeeId,
+    ipadTag,
+    department: typeof data.department === 'string' ? data.department.trim() : '',
+    status: data.status,
+    timestamp: moment.toISOString(),
+    ...canonicalDateTime(moment),
+    imported: data.imported === true,
+    schemaVersion: LOG_SCHEMA_VERSION
+  };
+  if (changedBy) log.changedBy = changedBy;
+
+  const changes: LogFieldChange[] = [];
+  (['employeeId', 'ipadTag', 'department', 'date', 'time', 'imported', 'changedBy'] as const).forEach(field => {
+    if (data[field] !== log[field]) {
+      changes.push({ field, before: describeValue(data[field]), after: String(log[field] ?? '') });
+    }
+  });
+  if (!record.timestamp) {
+    changes.push({ field: 'timestamp', before: describeValue(data.timestamp), after: log.timestamp });
+  }
+  const stale = Object.keys(data).filter(key => !(key in log) && key !== 'id');
+  if (stale.length > 0) {
+    changes.push({ field: 'ฟิลด์อื่น', before: stale.join(', '), after: '(ลบ)' });
+  }
+  changes.push({ field: 'schemaVersion', before: describeValue(data.schemaVersion), after: String(LOG_SCHEMA_VERSION) });
+  return { log, changes };
+};
+
+// เขียน log ทุกรายการใหม่ในรูปแบบมาตรฐาน log ที่มี schemaVersion ล่าสุดแล้วจะถูกข้าม จึงรันซ้ำได้
+// dryRun: ตรวจและคืนรายงานโดยไม่เขียนข้อมูล
+export const migrateLogSchema = async (options: { dryRun?: boolean } = {}): Promise<LogMigrationReport> => {
+  const dryRun = options.dryRun ?? false;
+  try {
+    const storage = getStorage();
+    const records = await storage.logs.listStored();
+    const report: LogMigrationReport = {
+      dryRun,
+      schemaVersion: LOG_SCHEMA_VERSION,
+      scanned: records.length,
+      upToDate: 0,
+      changed: [],
+      skipped: []
+    };
+    const rewrites: CanonicalLog[] = [];
+    records.forEach(record => {
+      if (record.data.schemaVersion === LOG_SCHEMA_VERSION) {
+        report.upToDate += 1;
+        return;
+      }
+      const result = normalizeStoredLog(record);
+      if ('reason' in result) {
+        report.skipped.push({ id: record.id, reason: result.reason });
+        return;
+      }
+      rewrites.push(result.log);
+      report.changed.push({ id: record.id, changes: result.changes });
     });
-    
-    await batch.commit();
+
+    if (!dryRun && rewrites.length > 0) {
+      await storage.logs.rewrite(rewrites);
+      // แท็กหรือเวลาที่ถูกแก้อาจเปลี่ยนรายการล่าสุดของแท็ก
+      await backfillIpadStates();
+    }
+    return report;
+  } catch (error) {
+    console.error('Error migrating log schema:', error);
+    throw new Error('ไม่สามารถปรับรูปแบบข้อมูลประวัติได้');
+  }
+};
+
+// ---- นำเข้าประวัติเดิมจากไฟล์ Excel (บันทึกเป็น CSV/TSV) ----
+
+export type LogImportField = 'employeeId' | 'ipadTag' | 'department' | 'status' | 'timestamp' | 'date' | 'time';
+
+export const LOG_IMPORT_FIELD_LABELS: Record<LogImportField, string> = {
+  employeeId: 'รหัสพนักงาน',
+  ipadTag: 'แท็กไอแพด',
+  department: 'แผนก',
+  status: 'สถานะ',
+  timestamp: 'วันเวลา (คอลัมน์เดียว)',
+  date: 'วันที่',
+  time: 'เวลา'
+};
+
+// คอลัมน์ (เริ่มที่ 0) ของแต่ละฟิลด์ ฟิลด์ที่ไม่มีในไฟล์ไม่ต้องระบุ
+export type LogImportMapping = Partial<Record<LogImportField, number>>;
+
+export interface LogImportOptions {
+  mapping: LogImportMapping;
+  // แถวแรกเป็นหัวตาราง
+  hasHeader: boolean;
+  // วันที่แบบ 1/2/2024 อ่านเป็น วัน/เดือน (true) หรือ เดือน/วัน (false)
+  dayFirst: boolean;
+}
+
+export interface LogImportRow {
+  // บรรทัดในไฟล์ (เริ่มที่ 1)
+  line: number;
+  employeeId: string;
+  ipadTag: string;
+  department: string;
+  status: string;
+  // เวลา ISO เมื่ออ่านได้ มิฉะนั้นเป็นค่าว่าง
+  timestamp: string;
+  accepted: boolean;
+  message: string;
+}
+
+const IMPORT_FIELD_PATTERNS: [LogImportField, RegExp][] = [
+  ['employeeId', /พนักงาน|employee|staff/i],
+  ['ipadTag', /แท็ก|tag|ipad|ไอแพด/i],
+  ['department', /แผนก|ward|dep/i],
+  ['status', /สถานะ|status/i],
+  ['timestamp', /วันเวลา|timestamp|datetime/i],
+  ['date', /วันที่|date/i],
+  ['time', /เวลา|time/i]
+];
+
+// เดาคอลัมน์จากหัวตาราง เช่น "รหัสพนักงาน" หรือ "Tag"
+export const guessLogImportMapping = (header: string[]): LogImportMapping => {
+  const mapping: LogImportMapping = {};
+  const used = new Set<number>();
+  IMPORT_FIELD_PATTERNS.forEach(([field, pattern]) => {
+    const index = header.findIndex((cell, i) => !used.has(i) && pattern.test(cell));
+    if (index >= 0) {
+      mapping[field] = index;
+      used.add(index);
+    }
+  });
+  return mapping;
+};
+
+const IMPORT_STATUS_ALIASES: Record<string, IpadStatus> = {
+  'in': 'ส่งเข้า',
+  'เข้า': 'ส่งเข้า',
+  'รับคืน': 'ส่งเข้า',
+  'out': 'ส่งออก',
+  'ออก': 'ส่งออก'
+};
+
+const importStatus = (value: string): IpadStatus | null => {
+  const text = value.trim();
+  if (isIpadStatus(text)) return text;
+  return IMPORT_STATUS_ALIASES[text.toLowerCase()] || null;
+};
+
+const importTimestamp = (cells: string[], options: LogImportOptions): Date | null => {
+  const cell = (field: LogImportField) => {
+    const index = options.mapping[field];
+    return index === undefined ? '' : (cells[index] || '').trim();
+  };
+  const combined = cell('timestamp');
+  if (combined) {
+    if (/^\d{4}-\d{2}-\d{2}T/.test(combined)) {
+      const parsed = new Date(combined);
+      return Number.isNaN(parsed.getTime()) ? null : parsed;
+    }
+    const [datePart, ...timeParts] = combined.split(/\s+/);
+    return parseLegacyDateTime(datePart, timeParts.join(' '), options.dayFirst);
+  }
+  return parseLegacyDateTime(cell('date'), cell('time'), options.dayFirst);
+};
+
+// อ่านไฟล์ตามคอลัมน์ที่เลือก ตรวจแท็กกับรายการแผนก/แท็ก และตรวจลำดับเข้า/ออกตามกฎเดียวกับ canAddLog
+// รวมกับ log ที่มีอยู่ของแท็กนั้น แถวที่วางไม่ได้จะถูกตั้ง accepted = false พร้อมเหตุผล
+export const previewLogImport = async (text: string, options: LogImportOptions): Promise<LogImportRow[]> => {
+  const storage = getStorage();
+  const [rawDocs, devices, transfers, policy] = await Promise.all([
+    storage.catalog.list(),
+    storage.devices.list(),
+    storage.transfers.list(),
+    getTagPolicy()
+  ]);
+  const owners = new Map<string, string>();
+  joinCatalog(rawDocs, devices).forEach(d => {
+    (d.tags || []).forEach(tag => { if (!owners.has(tag)) owners.set(tag, d.department || d.id); });
+  });
+  // แท็กในไฟล์เก่ามักพิมพ์ต่างจากที่เก็บไว้ (ตัวพิมพ์ ตัวคั่น เลขศูนย์นำหน้า) จึงหาแท็กที่เก็บไว้ตามนโยบายรูปแบบแท็ก
+  const storedTags = indexTags(Array.from(owners.keys()), policy);
+
+  const cell = (cells: string[], field: LogImportField) => {
+    const index = options.mapping[field];
+    return index === undefined ? '' : (cells[index] || '').trim();
+  };
+
+  const rows: LogImportRow[] = [];
+  const now = Date.now();
+  parseDelimited(text).forEach((cells, index) => {
+    if (index === 0 && options.hasHeader) return;
+    if (cells.every(c => !c.trim())) return;
+    const moment = importTimestamp(cells, options);
+    const row: LogImportRow = {
+      line: index + 1,
+      employeeId: cell(cells, 'employeeId'),
+      ipadTag: cell(cells, 'ipadTag'),
+      department: cell(cells, 'department'),
+      status: cell(cells, 'status'),
+      timestamp: moment ? moment.toISOString() : '',
+      accepted: false,
+      message: ''
+    };
+    rows.push(row);
+
+    const status = importStatus(row.status);
+    const storedTag = row.ipadTag ? resolveTag(row.ipadTag, storedTags, policy) : null;
+    if (storedTag) row.ipadTag = storedTag;
+    const owner = storedTag ? owners.get(storedTag) : undefined;
+    if (!row.ipadTag) {
+      row.message = 'ไม่มีแท็กไอแพด';
+    } else if (!owner) {
+      row.message = 'ไม่พบแท็กนี้ในระบบ';
+    } else if (!status) {
+      row.message = `สถานะไม่ถูกต้อง: ${row.status || '(ว่าง)'}`;
+    } else if (!moment) {
+      row.message = 'อ่านวันเวลาไม่ได้';
+    } else if (moment.getTime() > now) {
+      row.message = 'วันเวลาอยู่ในอนาคต';
+    } else {
+      row.status = status;
+      // แผนกของแท็ก ณ เวลานั้น (คำนึงถึงการย้ายแท็ก)
+      const [attributed] = attributeLogsToDepartments(
+        [{ id: '', employeeId: row.employeeId, ipadTag: row.ipadTag, department: owner, status, timestamp: row.timestamp, date: '', time: '' }],
+        transfers
+      );
+      if (!row.department) {
+        row.department = attributed.department;
+      } else if (deptIdFor(row.department) !== deptIdFor(attributed.department)) {
+        row.message = `แผนกไม่ตรงกับแท็ก (ขณะนั้นแท็กอยู่แผนก ${attributed.department})`;
+        return;
+      } else {
+        row.department = attributed.department;
+      }
+      row.accepted = true;
+    }
+  });
+
+  // ตรวจลำดับสถานะของแต่ละแท็ก รวมกับ log ที่มีอยู่แล้ว
+  const byTag = new Map<string, LogImportRow[]>();
+  rows.filter(r => r.accepted).forEach(r => byTag.set(r.ipadTag, [...(byTag.get(r.ipadTag) || []), r]));
+  for (const [tag, imported] of byTag) {
+    const existing = await storage.logs.listByTag(tag);
+    type TimelineEvent = { at: number; status: IpadStatus; row?: LogImportRow };
+    const timeline: TimelineEvent[] = [
+      ...existing.map((log): TimelineEvent => ({ at: new Date(log.timestamp).getTime(), status: log.status })),
+      ...imported.map((row): TimelineEvent => ({ at: new Date(row.timestamp).getTime(), status: row.status as IpadStatus, row }))
+    ].sort((a, b) => a.at - b.at || (a.row ? 1 : 0) - (b.row ? 1 : 0));
+    const existingKeys = new Set(existing.map(log => `${new Date(log.timestamp).getTime()}|${log.status}`));
+
+    let current: IpadStatus | null = null;
+    timeline.forEach((event, i) => {
+      const row = event.row;
+      if (!row) {
+        current = event.status;
+        return;
+      }
+      if (existingKeys.has(`${event.at}|${event.status}`)) {
+        row.accepted = false;
+        row.message = 'มีรายการนี้ในระบบแล้ว';
+        return;
+      }
+      const rule = (SCAN_STATUSES as IpadStatus[]).includes(event.status) ? evaluateScan : evaluateTransition;
+      const check = rule(current, event.status);
+      if (!check.canAdd) {
+        row.accepted = false;
+        row.message = check.message;
+        return;
+      }
+      const next = timeline[i + 1];
+      if (next && !next.row) {
+        const nextRule = (SCAN_STATUSES as IpadStatus[]).includes(next.status) ? evaluateScan : evaluateTransition;
+        if (!nextRule(event.status, next.status).canAdd) {
+          row.accepted = false;
+          row.message = `ขัดกับรายการ${next.status}ที่มีอยู่เมื่อ ${new Date(next.at).toLocaleString('th-TH')}`;
+          return;
+        }
+      }
+      current = event.status;
+      row.message = 'นำเข้าได้';
+    });
+  }
+  return rows;
+};
+
+// เขียนแถวที่ผ่านการตรวจเป็น log ที่มีเครื่องหมาย imported แล้วคำนวณสถานะปัจจุบันของแท็กเหล่านั้นใหม่
+export const applyLogImport = async (text: string, options: LogImportOptions): Promise<LogImportRow[]> => {
+  try {
+    const rows = await previewLogImport(text, options);
+    const accepted = rows.filter(r => r.accepted);
+    if (accepted.length === 0) return rows;
+    await getStorage().logs.importMany(accepted.map(row => ({
+      employeeId: row.employeeId,
+      ipadTag: row.ipadTag,
+      department: row.department,
+      status: row.status as IpadStatus,
+      timestamp: row.timestamp,
+      ...canonicalDateTime(new Date(row.timestamp)),
+      imported: true,
+      schemaVersion: LOG_SCHEMA_VERSION
+    })));
+    await refreshIpadStates(Array.from(new Set(accepted.map(r => r.ipadTag))));
+    accepted.forEach(row => { row.message = 'นำเข้าแล้ว'; });
+    return rows;
+  } catch (error) {
+    console.error('Error importing logs:', error);
+    throw new Error('ไม่สามารถนำเข้าประวัติได้');
+  }
+};
+
+// จำนวนวันที่ log ต้องอยู่ในถังขยะก่อนจะลบถาวรได้
+export const TRASH_RETENTION_DAYS = 30;
+
+// วันที่ที่ log ในถังขยะสามารถลบถาวรได้
+export const purgeableAt = (log: DeletedLog): Date =>
+  new Date(new Date(log.deletedAt).getTime() + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+
+// ย้าย log ไปถังขยะ (ซ่อนจากหน้าปกติ) พร้อมบันทึกผู้ลบและเหตุผล สามารถกู้คืนได้
+export const deleteLogs = async (logIds: string[], deletion: LogDeletion): Promise<void> => {
+  if (!deletion.deletedBy.trim()) throw new Error('กรุณาระบุชื่อผู้ลบ');
+  try {
+    const storage = getStorage();
+    // สถานะที่ชี้ไปยัง log ที่ถูกลบต้องคำนวณใหม่หลังลบ
+    const affected = await storage.states.findByLogIds(logIds);
+    await storage.logs.trash(logIds, { deletedBy: deletion.deletedBy.trim(), reason: deletion.reason.trim() });
+    await refreshIpadStates(affected.map(s => s.ipadTag));
   } catch (error) {
     console.error('Error deleting logs:', error);
     throw new Error('ไม่สามารถลบรายการที่เลือกได้');
   }
-};
\ No newline at end of file
+};
+
+// รายการในถังขยะ เรียงจากลบล่าสุด
+export const getDeletedLogs = async (): Promise<DeletedLog[]> => {
+  try {
+    return await getStorage().logs.listTrash();
+  } catch (error) {
+    console.error('Error fetching deleted logs:', error);
+    return [];
+  }
+};
+
+// กู้คืน log จากถังขยะ และคำนวณสถานะของแท็กที่เกี่ยวข้องใหม่
+export const restoreLogs = async (logIds: string[]): Promise<void> => {
+  try {
+    const storage = getStorage();
+    const ids = new Set(logIds);
+    const tags = (await storage.logs.listTrash()).filter(log => ids.has(log.id)).map(log => log.ipadTag);
+    await storage.logs.restore(logIds);
+    await refreshIpadStates(Array.from(new Set(tags)));
+  } catch (error) {
+    console.error('Error restoring logs:', error);
+    throw new Error('ไม่สามารถกู้คืนรายการที่เลือกได้');
+  }
+};
+
+// ลบถาวรเฉพาะรายการที่อยู่ในถังขยะครบระยะเวลาเก็บรักษาแล้ว คืนค่าจำนวนที่ลบ
+// ถังขยะสำหรับการลบถาวร ต่างจาก getDeletedLogs ตรงที่ส่งข้อผิดพลาดต่อ ไม่ถือว่าถังขยะว่าง
+const readTrash = async (): Promise<DeletedLog[]> => {
+  try {
+    return await getStorage().logs.listTrash();
+  } catch (error) {
+    console.error('Error fetching deleted logs:', error);
+    throw new Error('ไม่สามารถอ่านรายการในถังขยะได้');
+  }
+};
+
+export const purgeDeletedLogs = async (logIds: string[]): Promise<number> => {
+  const ids = new Set(logIds);
+  const now = Date.now();
+  const trash = await readTrash();
+  // นับเฉพาะ id ที่ยังอยู่ในถังขยะ รายการที่ถูกกู้คืนหรือลบถาวรไปแล้วจะไม่ถูกนับ
+  const found = trash.filter(log => ids.has(log.id));
+  const tooRecent = found.filter(log => purgeableAt(log).getTime() > now);
+  if (tooRecent.length > 0) {
+    throw new Error(`ยังลบถาวรไม่ได้ ${tooRecent.length} รายการ เนื่องจากยังไม่ครบ ${TRASH_RETENTION_DAYS} วัน`);
+  }
+  if (found.length === 0) return 0;
+  try {
+    await getStorage().logs.purge(found.map(log => log.id));
+    return found.length;
+  } catch (error) {
+    console.error('Error purging logs:', error);
+    throw new Error('ไม่สามารถลบถาวรได้');
+  }
+};
+
+// ลบถาวรทุกรายการในถังขยะที่ครบระยะเวลาเก็บรักษาแล้ว
+export const purgeExpiredLogs = async (): Promise<number> => {
+  const now = Date.now();
+  const expired = (await readTrash()).filter(log => purgeableAt(log).getTime() <= now);
+  if (expired.length === 0) return 0;
+  return purgeDeletedLogs(expired.map(log => log.id));
+};
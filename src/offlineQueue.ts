@@ -0,0 +1,100 @@
+import { addLog, isConnectionError, LogBase } from './dbService';
+
+// สแกนที่บันทึกไว้ในเครื่องระหว่างออฟไลน์ พร้อมเวลาที่สแกนจริง
+export interface QueuedScan extends LogBase {
+  id?: number;
+  timestamp: string;
+}
+
+export interface ReplayResult {
+  sent: number;
+  // สแกนที่ส่งไม่สำเร็จด้วยเหตุอื่นนอกจากการเชื่อมต่อ (เช่น มีจุดอื่นสแกนแท็กเดียวกันไปก่อนแล้ว) และถูกนำออกจากคิว
+  conflicts: { scan: QueuedScan; message: string }[];
+  remaining: number;
+}
+
+const DB_NAME = 'ipadTrackingOffline';
+const STORE_NAME = 'scanQueue';
+
+const openQueue = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      // autoIncrement keys keep scans in the order they were made
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openQueue();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = run(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+export const enqueueScan = async (scan: QueuedScan): Promise<void> => {
+  const record = { ...scan };
+  delete record.id;
+  await withStore('readwrite', store => store.add(record));
+};
+
+export const getQueuedScans = async (): Promise<QueuedScan[]> =>
+  withStore('readonly', store => store.getAll() as IDBRequest<QueuedScan[]>);
+
+export const countQueuedScans = async (): Promise<number> => {
+  try {
+    return await withStore('readonly', store => store.count());
+  } catch (error) {
+    console.error('Error counting queued scans:', error);
+    return 0;
+  }
+};
+
+const removeQueuedScan = async (id: number): Promise<void> => {
+  await withStore('readwrite', store => store.delete(id));
+};
+
+let replaying: Promise<ReplayResult> | null = null;
+
+// ส่งสแกนที่ค้างตามลำดับเดิม หยุดเมื่อพบปัญหาการเชื่อมต่อ และเก็บรายการที่เหลือไว้ลองใหม่
+// เรียกซ้อนกันได้ (เช่น จาก event online และตัวจับเวลา) โดยจะใช้รอบที่กำลังทำงานอยู่
+export const replayQueuedScans = (): Promise<ReplayResult> => {
+  if (replaying) return replaying;
+  replaying = (async () => {
+    const result: ReplayResult = { sent: 0, conflicts: [], remaining: 0 };
+    const scans = await getQueuedScans();
+    for (let i = 0; i < scans.length; i++) {
+      const scan = scans[i];
+      const { id, timestamp, employeeId, ipadTag, department, status } = scan;
+      try {
+        await addLog({ employeeId, ipadTag, department, status }, { timestamp });
+        result.sent += 1;
+      } catch (error) {
+        if (isConnectionError(error)) {
+          result.remaining = scans.length - i;
+          break;
+        }
+        // รายการที่ส่งไม่ได้ด้วยเหตุอื่นจะไม่ผ่านในรอบถัดไปเช่นกัน จึงไม่ให้ค้างขวางรายการหลังจากนั้น
+        result.conflicts.push({ scan, message: error instanceof Error ? error.message : String(error) });
+      }
+      if (id !== undefined) await removeQueuedScan(id);
+    }
+    return result;
+  })().finally(() => {
+    replaying = null;
+  });
+  return replaying;
+};
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_SCANNER_FIELD, parseScan, validateScannerProfile } from './scannerProfile';
+
+const rule = (overrides: Partial<typeof DEFAULT_SCANNER_FIELD>) => ({ ...DEFAULT_SCANNER_FIELD, ...overrides });
+
+describe('parseScan', () => {
+  it('only drops control characters and spaces by default', () => {
+    expect(parseScan(' ER-1\r\n\x1d')).toEqual({ value: 'ER-1', steps: [], error: null });
+  });
+
+  it('removes the first matching prefix and suffix', () => {
+    const result = parseScan(']C1TAG:ER-1#', rule({ prefixes: ['X', ']C1TAG:', ']C1'], suffixes: ['#'] }));
+    expect(result.value).toBe('ER-1');
+    expect(result.steps).toHaveLength(2);
+  });
+
+  it('extracts the first capture group, or the whole match', () => {
+    expect(parseScan('EMP=12345;DEPT=ER', rule({ extract: 'EMP=(\\d+)' })).value).toBe('12345');
+    expect(parseScan('id 12345 ok', rule({ extract: '\\d+' })).value).toBe('12345');
+    expect(parseScan('no digits', rule({ extract: '\\d+' })).error).toBe('ข้อมูลที่สแกนไม่ตรงรูปแบบที่กำหนด');
+    expect(parseScan('x', rule({ extract: '([' })).error).toContain('ไม่ถูกต้อง');
+  });
+
+  it('checks Luhn check digits and can strip them', () => {
+    expect(parseScan('79927398713', rule({ checkDigit: 'luhn' }))).toMatchObject({ value: '79927398713', error: null });
+    expect(parseScan('79927398713', rule({ checkDigit: 'luhn', stripCheckDigit: true })).value).toBe('7992739871');
+    expect(parseScan('79927398710', rule({ checkDigit: 'luhn' })).error).toContain('เลขตรวจสอบไม่ถูกต้อง');
+  });
+
+  it('checks GS1 check digits of EAN-13 and UPC-A codes', () => {
+    expect(parseScan('4006381333931', rule({ checkDigit: 'gs1' })).error).toBeNull();
+    expect(parseScan('036000291452', rule({ checkDigit: 'gs1' })).error).toBeNull();
+    expect(parseScan('4006381333932', rule({ checkDigit: 'gs1' })).error).toContain('เลขตรวจสอบไม่ถูกต้อง');
+  });
+
+  it('needs at least two digits for a check digit', () => {
+    expect(parseScan('ER-1', rule({ checkDigit: 'luhn' })).error).toContain('อย่างน้อย 2 หลัก');
+  });
+
+  it('rejects scans with nothing left after trimming', () => {
+    expect(parseScan('TAG:', rule({ prefixes: ['TAG:'] })).error).toBe('ไม่มีข้อมูลหลังตัดคำนำหน้า/ต่อท้าย');
+  });
+});
+
+describe('validateScannerProfile', () => {
+  it('requires a name and valid patterns', () => {
+    const profile = { id: 'p', name: 'Zebra', employee: DEFAULT_SCANNER_FIELD, tag: DEFAULT_SCANNER_FIELD };
+    expect(validateScannerProfile(profile)).toBeNull();
+    expect(validateScannerProfile({ ...profile, name: ' ' })).toBe('กรุณาตั้งชื่อโปรไฟล์');
+    expect(validateScannerProfile({ ...profile, tag: rule({ extract: '(' }) })).toContain('ของแท็ก');
+  });
+});
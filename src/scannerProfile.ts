@@ -0,0 +1,89 @@
+import type { ScannerFieldRule, ScannerProfile } from './storage';
+
+// Leaves a scan as typed apart from trimming
+export const DEFAULT_SCANNER_FIELD: ScannerFieldRule = { prefixes: [], suffixes: [], extract: '', checkDigit: 'none', stripCheckDigit: false };
+
+export const CHECK_DIGIT_LABELS: Record<ScannerFieldRule['checkDigit'], string> = {
+  none: 'ไม่ตรวจ',
+  luhn: 'Luhn (บัตรพนักงานส่วนใหญ่)',
+  gs1: 'GS1 / EAN / UPC'
+};
+
+export interface ScanParseResult {
+  value: string;
+  // What each step did, for the scanner test page
+  steps: string[];
+  // Why the scan was rejected, or null
+  error: string | null;
+}
+
+// Whether the last digit of value is the check digit of the rest
+const checkDigitValid = (value: string, scheme: ScannerFieldRule['checkDigit']): boolean => {
+  const digits = value.split('').map(Number).reverse();
+  if (scheme === 'luhn') {
+    const sum = digits.reduce((total, d, i) => {
+      if (i % 2 === 0) return total + d;
+      const doubled = d * 2;
+      return total + (doubled > 9 ? doubled - 9 : doubled);
+    }, 0);
+    return sum % 10 === 0;
+  }
+  // GS1: weights 3 and 1 alternate from the digit next to the check digit
+  const sum = digits.slice(1).reduce((total, d, i) => total + d * (i % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10 === digits[0];
+};
+
+export const parseScan = (raw: string, rule: ScannerFieldRule = DEFAULT_SCANNER_FIELD): ScanParseResult => {
+  const steps: string[] = [];
+  // Scanners may send control characters such as GS or CR alongside the data
+  let value = String(raw ?? '').replace(/[\x00-\x1f\x7f]/g, '').trim();
+  const fail = (error: string): ScanParseResult => ({ value, steps, error });
+
+  const prefix = rule.prefixes.find(p => p && value.startsWith(p));
+  if (prefix) {
+    value = value.slice(prefix.length);
+    steps.push(`ตัดคำนำหน้า "${prefix}" → ${value}`);
+  }
+  const suffix = rule.suffixes.find(s => s && value.endsWith(s));
+  if (suffix) {
+    value = value.slice(0, value.length - suffix.length);
+    steps.push(`ตัดคำต่อท้าย "${suffix}" → ${value}`);
+  }
+
+  if (rule.extract) {
+    let match: RegExpMatchArray | null;
+    try {
+      match = value.match(new RegExp(rule.extract));
+    } catch {
+      return fail(`รูปแบบ regex "${rule.extract}" ไม่ถูกต้อง`);
+    }
+    if (!match) return fail('ข้อมูลที่สแกนไม่ตรงรูปแบบที่กำหนด');
+    value = match[1] ?? match[0];
+    steps.push(`ดึงตามรูปแบบ → ${value}`);
+  }
+
+  if (rule.checkDigit !== 'none') {
+    if (!/^\d{2,}$/.test(value)) return fail('เลขตรวจสอบใช้ได้กับตัวเลขอย่างน้อย 2 หลักเท่านั้น');
+    if (!checkDigitValid(value, rule.checkDigit)) return fail('เลขตรวจสอบไม่ถูกต้อง อาจสแกนผิด กรุณาสแกนใหม่');
+    if (rule.stripCheckDigit) value = value.slice(0, -1);
+    steps.push(`เลขตรวจสอบถูกต้อง${rule.stripCheckDigit ? ` ตัดออก → ${value}` : ''}`);
+  }
+
+  value = value.trim();
+  if (!value) return fail('ไม่มีข้อมูลหลังตัดคำนำหน้า/ต่อท้าย');
+  return { value, steps, error: null };
+};
+
+// An error message for the profile, or null if it can be saved
+export const validateScannerProfile = (profile: ScannerProfile): string | null => {
+  if (!profile.name.trim()) return 'กรุณาตั้งชื่อโปรไฟล์';
+  for (const [label, rule] of [['รหัสพนักงาน', profile.employee], ['แท็ก', profile.tag]] as const) {
+    if (!rule.extract) continue;
+    try {
+      new RegExp(rule.extract);
+    } catch {
+      return `รูปแบบ regex ของ${label} "${rule.extract}" ไม่ถูกต้อง`;
+    }
+  }
+  return null;
+};
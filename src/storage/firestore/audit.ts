@@ -0,0 +1,71 @@
+import { db } from '../../firebaseConfig';
+import {
+  addDoc,
+  collection,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  serverTimestamp,
+  where,
+  Timestamp,
+  QueryConstraint,
+  QueryDocumentSnapshot,
+  DocumentData
+} from 'firebase/firestore';
+import { AuditFilter, AuditRepository, CatalogAuditEvent, IpadDocumentData } from '../types';
+
+const auditCollection = () => collection(db, 'catalogAudit');
+
+const toDocumentData = (value: unknown): IpadDocumentData | null => {
+  if (!value || typeof value !== 'object') return null;
+  const data = value as DocumentData;
+  return {
+    department: data.department,
+    tags: Array.isArray(data.tags) ? data.tags.map((t: unknown) => String(t)) : [],
+    ...(data.archived ? { archived: true } : {})
+  };
+};
+
+const toAuditEvent = (snap: QueryDocumentSnapshot<DocumentData>): CatalogAuditEvent => {
+  const data = snap.data();
+  const event: CatalogAuditEvent = {
+    id: snap.id,
+    actor: data.actor || '',
+    action: data.action,
+    department: data.department || '',
+    before: toDocumentData(data.before),
+    after: toDocumentData(data.after),
+    timestamp: data.timestamp?.toDate ? data.timestamp.toDate().toISOString() : new Date().toISOString()
+  };
+  if (data.tag) event.tag = data.tag;
+  if (Array.isArray(data.details)) event.details = data.details;
+  if (data.deletion) event.deletion = data.deletion;
+  if (data.employee) event.employee = data.employee;
+  return event;
+};
+
+// Where clauses for an AuditFilter; every combination is covered by firestore.indexes.json
+const filterConstraints = (filter: AuditFilter): QueryConstraint[] => {
+  const constraints: QueryConstraint[] = [];
+  if (filter.actor) constraints.push(where('actor', '==', filter.actor));
+  if (filter.action) constraints.push(where('action', '==', filter.action));
+  if (filter.department) constraints.push(where('department', '==', filter.department));
+  if (filter.from) constraints.push(where('timestamp', '>=', Timestamp.fromDate(new Date(filter.from))));
+  if (filter.to) constraints.push(where('timestamp', '<=', Timestamp.fromDate(new Date(filter.to))));
+  return constraints;
+};
+
+export const firestoreAuditRepository: AuditRepository = {
+  async record(event) {
+    // Firestore rejects undefined fields, so drop them (e.g. tag on department events)
+    const data = JSON.parse(JSON.stringify(event));
+    await addDoc(auditCollection(), { ...data, timestamp: serverTimestamp() });
+  },
+
+  async query(filter, max) {
+    const q = query(auditCollection(), ...filterConstraints(filter), orderBy('timestamp', 'desc'), limit(max));
+    const snap = await getDocs(q);
+    return snap.docs.map(toAuditEvent);
+  }
+};
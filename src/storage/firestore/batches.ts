@@ -0,0 +1,9 @@
+// Firestore caps a write batch at 500 operations and an `in` filter at 30 values
+export const BATCH_SIZE = 500;
+export const IN_QUERY_SIZE = 30;
+
+export const chunk = <T>(items: T[], size: number): T[][] => {
+  const out: T[][] = [];
+  for (let i = 0; i < items.length; i += size) out.push(items.slice(i, i + size));
+  return out;
+};
@@ -0,0 +1,61 @@
+import { db } from '../../firebaseConfig';
+import {
+  collection,
+  getDocs,
+  query,
+  where,
+  doc,
+  getDoc,
+  setDoc,
+  deleteDoc,
+  onSnapshot,
+  DocumentData
+} from 'firebase/firestore';
+import { CatalogRepository, IpadDocument } from '../types';
+
+const toIpadDocument = (id: string, data: DocumentData): IpadDocument => ({
+  id,
+  department: data.department,
+  tags: Array.isArray(data.tags) ? data.tags.map((t: unknown) => String(t)) : [],
+  ...(data.archived ? { archived: true } : {})
+});
+
+export const firestoreCatalogRepository: CatalogRepository = {
+  async list() {
+    const snap = await getDocs(collection(db, 'ipad'));
+    return snap.docs.map(d => toIpadDocument(d.id, d.data()));
+  },
+
+  subscribe(onChange, onError) {
+    return onSnapshot(
+      collection(db, 'ipad'),
+      snap => onChange(snap.docs.map(d => toIpadDocument(d.id, d.data()))),
+      onError
+    );
+  },
+
+  async get(id) {
+    const snap = await getDoc(doc(db, 'ipad', id));
+    return snap.exists() ? toIpadDocument(snap.id, snap.data()) : null;
+  },
+
+  async save(id, data) {
+    await setDoc(doc(db, 'ipad', id), data, { merge: true });
+  },
+
+  async remove(id) {
+    await deleteDoc(doc(db, 'ipad', id));
+  },
+
+  async findByDepartment(department) {
+    const q = query(collection(db, 'ipad'), where('department', '==', department));
+    const snap = await getDocs(q);
+    return snap.docs.map(d => toIpadDocument(d.id, d.data()));
+  },
+
+  async findByTag(ipadTag) {
+    const q = query(collection(db, 'ipad'), where('tags', 'array-contains', ipadTag));
+    const snap = await getDocs(q);
+    return snap.docs.map(d => toIpadDocument(d.id, d.data()));
+  }
+};
@@ -0,0 +1,70 @@
+import { db } from '../../firebaseConfig';
+import {
+  collection,
+  getDocs,
+  getDoc,
+  query,
+  where,
+  doc,
+  writeBatch,
+  onSnapshot,
+  DocumentData
+} from 'firebase/firestore';
+import { Device, DeviceRepository } from '../types';
+import { BATCH_SIZE, chunk } from './batches';
+import { stateIdFor } from './states';
+
+// Devices use the same tag-based document ids as `ipadState`
+const deviceRef = (ipadTag: string) => doc(db, 'devices', stateIdFor(ipadTag));
+
+const toDevice = (data: DocumentData): Device => {
+  const device: Device = { ipadTag: String(data.ipadTag), department: data.department || '' };
+  if (data.serialNumber) device.serialNumber = data.serialNumber;
+  if (data.model) device.model = data.model;
+  if (data.assetNumber) device.assetNumber = data.assetNumber;
+  if (data.purchaseDate) device.purchaseDate = data.purchaseDate;
+  if (data.notes) device.notes = data.notes;
+  return device;
+};
+
+export const firestoreDeviceRepository: DeviceRepository = {
+  async list() {
+    const snap = await getDocs(collection(db, 'devices'));
+    return snap.docs.map(d => toDevice(d.data()));
+  },
+
+  subscribe(onChange, onError) {
+    return onSnapshot(
+      collection(db, 'devices'),
+      snap => onChange(snap.docs.map(d => toDevice(d.data()))),
+      onError
+    );
+  },
+
+  async get(ipadTag) {
+    const snap = await getDoc(deviceRef(ipadTag));
+    return snap.exists() ? toDevice(snap.data()) : null;
+  },
+
+  async findByDepartment(department) {
+    const snap = await getDocs(query(collection(db, 'devices'), where('department', '==', department)));
+    return snap.docs.map(d => toDevice(d.data()));
+  },
+
+  async saveMany(devices) {
+    for (const part of chunk(devices, BATCH_SIZE)) {
+      const batch = writeBatch(db);
+      // Firestore rejects undefined fields, so drop the details that were not given
+      part.forEach(device => batch.set(deviceRef(device.ipadTag), JSON.parse(JSON.stringify(device)), { merge: true }));
+      await batch.commit();
+    }
+  },
+
+  async removeMany(ipadTags) {
+    for (const part of chunk(ipadTags, BATCH_SIZE)) {
+      const batch = writeBatch(db);
+      part.forEach(tag => batch.delete(deviceRef(tag)));
+      await batch.commit();
+    }
+  }
+};
@@ -0,0 +1,68 @@
+import { db } from '../../firebaseConfig';
+import {
+  collection,
+  getDocs,
+  getDoc,
+  doc,
+  query,
+  limit,
+  deleteDoc,
+  writeBatch,
+  onSnapshot,
+  DocumentData
+} from 'firebase/firestore';
+import { Employee, EmployeeRepository } from '../types';
+import { BATCH_SIZE, chunk } from './batches';
+
+// Employee IDs may contain characters Firestore does not allow in document ids
+const employeeRef = (employeeId: string) => doc(db, 'employees', encodeURIComponent(employeeId.trim()));
+
+const toEmployee = (data: DocumentData): Employee => {
+  const employee: Employee = {
+    employeeId: String(data.employeeId),
+    name: data.name || '',
+    department: data.department || '',
+    active: data.active !== false
+  };
+  if (data.updatedBy) employee.updatedBy = data.updatedBy;
+  if (data.updatedAt) employee.updatedAt = data.updatedAt;
+  return employee;
+};
+
+export const firestoreEmployeeRepository: EmployeeRepository = {
+  async list() {
+    const snap = await getDocs(collection(db, 'employees'));
+    return snap.docs.map(d => toEmployee(d.data()));
+  },
+
+  subscribe(onChange, onError) {
+    return onSnapshot(
+      collection(db, 'employees'),
+      snap => onChange(snap.docs.map(d => toEmployee(d.data()))),
+      onError
+    );
+  },
+
+  async get(employeeId) {
+    const snap = await getDoc(employeeRef(employeeId));
+    return snap.exists() ? toEmployee(snap.data()) : null;
+  },
+
+  async hasAny() {
+    const snap = await getDocs(query(collection(db, 'employees'), limit(1)));
+    return !snap.empty;
+  },
+
+  async saveMany(employees) {
+    for (const part of chunk(employees, BATCH_SIZE)) {
+      const batch = writeBatch(db);
+      // Firestore rejects undefined fields
+      part.forEach(employee => batch.set(employeeRef(employee.employeeId), JSON.parse(JSON.stringify(employee))));
+      await batch.commit();
+    }
+  },
+
+  async remove(employeeId) {
+    await deleteDoc(employeeRef(employeeId));
+  }
+};
@@ -0,0 +1,22 @@
+import { StorageBackend } from '../types';
+import { firestoreLogRepository } from './logs';
+import { firestoreIpadStateRepository } from './states';
+import { firestoreCatalogRepository } from './catalog';
+import { firestoreDeviceRepository } from './devices';
+import { firestoreAuditRepository } from './audit';
+import { firestoreTransferRepository } from './transfers';
+import { firestoreSettingsRepository } from './settings';
+import { firestoreEmployeeRepository } from './employees';
+
+// Backend backed by the live Firestore project configured in firebaseConfig.ts
+export const createFirestoreBackend = (): StorageBackend => ({
+  name: 'firestore',
+  logs: firestoreLogRepository,
+  states: firestoreIpadStateRepository,
+  catalog: firestoreCatalogRepository,
+  devices: firestoreDeviceRepository,
+  audit: firestoreAuditRepository,
+  transfers: firestoreTransferRepository,
+  settings: firestoreSettingsRepository,
+  employees: firestoreEmployeeRepository
+});
@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import indexes from '../../../firestore.indexes.json';
+
+// Equality filters in the order filterConstraints adds them
+const FILTER_FIELDS = ['status', 'department', 'employeeId', 'ipadTag', 'imported'];
+
+describe('firestore log indexes', () => {
+  it('declare an index for every combination of dashboard filters in both sort orders', () => {
+    const declared = new Set(
+      indexes.indexes
+        .filter(index => index.collectionGroup === 'logs')
+        .map(index => index.fields.map(f => `${f.fieldPath}:${f.order}`).join(','))
+    );
+    const missing: string[] = [];
+    for (let mask = 1; mask < 1 << FILTER_FIELDS.length; mask++) {
+      const fields = FILTER_FIELDS.filter((_, i) => mask & (1 << i)).map(f => `${f}:ASCENDING`);
+      ['ASCENDING', 'DESCENDING'].forEach(order => {
+        const key = [...fields, `timestamp:${order}`].join(',');
+        if (!declared.has(key)) missing.push(key);
+      });
+    }
+    expect(missing).toEqual([]);
+  });
+});
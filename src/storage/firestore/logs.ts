@@ -0,0 +1,328 @@
+import { db } from '../../firebaseConfig';
+import {
+  collection,
+  getDocs,
+  query,
+  where,
+  serverTimestamp,
+  orderBy,
+  limit,
+  doc,
+  getDoc,
+  startAfter,
+  documentId,
+  getCountFromServer,
+  onSnapshot,
+  writeBatch,
+  runTransaction,
+  Timestamp,
+  QueryDocumentSnapshot,
+  QueryConstraint,
+  DocumentData
+} from 'firebase/firestore';
+import { canonicalDateTime, DeletedLog, isLog, Log, LocalLog, LogFilter, LogPage, LogPageRequest, LogRepository, LOG_SCHEMA_VERSION, NewLog, StoredLogRecord } from '../types';
+import { BATCH_SIZE, chunk } from './batches';
+import { stateIdFor, toIpadState } from './states';
+
+type FirestoreLog = Omit<LocalLog, 'id' | 'timestamp'> & {
+  timestamp: Timestamp;
+  date: string;
+  time: string;
+  imported?: boolean;
+  changedBy?: string;
+};
+
+const logsCollection = () => collection(db, 'logs');
+
+// Convert a Firestore log document into a Log, or null if the data is malformed
+const toLog = (snap: QueryDocumentSnapshot<DocumentData>): Log | null => {
+  const data = snap.data() as FirestoreLog;
+  // Convert Firestore timestamp to ISO string
+  const timestamp = data.timestamp?.toDate
+    ? data.timestamp.toDate().toISOString()
+    : typeof data.timestamp === 'string'
+      ? data.timestamp
+      : new Date().toISOString();
+
+  const log: Log = {
+    id: snap.id,
+    employeeId: data.employeeId || '',
+    ipadTag: data.ipadTag,
+    department: data.department,
+    status: data.status,
+    timestamp,
+    // Logs from before the schema migration may lack these; derive them the canonical way
+    date: data.date || canonicalDateTime(new Date(timestamp)).date,
+    time: data.time || canonicalDateTime(new Date(timestamp)).time
+  };
+  if (data.imported === true) log.imported = true;
+  if (data.changedBy) log.changedBy = data.changedBy;
+
+  if (!isLog(log)) {
+    console.warn('Invalid log data:', log);
+    return null;
+  }
+  return log;
+};
+
+// Where clauses for a LogFilter; every combination is covered by firestore.indexes.json
+const filterConstraints = (filter: LogFilter): QueryConstraint[] => {
+  const constraints: QueryConstraint[] = [];
+  if (filter.status) constraints.push(where('status', '==', filter.status));
+  if (filter.department) constraints.push(where('department', '==', filter.department));
+  if (filter.employeeId) constraints.push(where('employeeId', '==', filter.employeeId));
+  if (filter.ipadTag) constraints.push(where('ipadTag', '==', filter.ipadTag));
+  if (filter.imported !== undefined) constraints.push(where('imported', '==', filter.imported));
+  if (filter.from) constraints.push(where('timestamp', '>=', Timestamp.fromDate(new Date(filter.from))));
+  if (filter.to) constraints.push(where('timestamp', '<=', Timestamp.fromDate(new Date(filter.to))));
+  return constraints;
+};
+
+const collect = (docs: QueryDocumentSnapshot<DocumentData>[]): Log[] => {
+  const logs: Log[] = [];
+  docs.forEach(d => {
+    const log = toLog(d);
+    if (log) logs.push(log);
+  });
+  return logs;
+};
+
+// Constraints for one page; fetches one extra row to know whether another page follows
+const pageConstraints = async (request: LogPageRequest): Promise<QueryConstraint[]> => {
+  const constraints = [
+    ...filterConstraints(request),
+    orderBy('timestamp', request.sortOrder),
+    orderBy(documentId(), request.sortOrder)
+  ];
+  // The cursor is the id of the last log on the previous page
+  if (request.cursor) {
+    const cursorSnap = await getDoc(doc(db, 'logs', request.cursor));
+    if (cursorSnap.exists()) constraints.push(startAfter(cursorSnap));
+  }
+  constraints.push(limit(request.pageSize + 1));
+  return constraints;
+};
+
+const toPage = (docs: QueryDocumentSnapshot<DocumentData>[], pageSize: number): LogPage => {
+  const hasMore = docs.length > pageSize;
+  const pageDocs = docs.slice(0, pageSize);
+  return {
+    logs: collect(pageDocs),
+    nextCursor: hasMore ? pageDocs[pageDocs.length - 1].id : null
+  };
+};
+
+export const firestoreLogRepository: LogRepository = {
+  async list() {
+    const q = query(logsCollection(), orderBy('timestamp', 'desc'));
+    const snap = await getDocs(q);
+    return collect(snap.docs);
+  },
+
+  async listByTag(ipadTag, max) {
+    const q = max
+      ? query(logsCollection(), where('ipadTag', '==', ipadTag), orderBy('timestamp', 'desc'), limit(max))
+      : query(logsCollection(), where('ipadTag', '==', ipadTag), orderBy('timestamp', 'desc'));
+    const snap = await getDocs(q);
+    return collect(snap.docs);
+  },
+
+  async query(request) {
+    const snap = await getDocs(query(logsCollection(), ...(await pageConstraints(request))));
+    return toPage(snap.docs, request.pageSize);
+  },
+
+  async count(filter) {
+    const snap = await getCountFromServer(query(logsCollection(), ...filterConstraints(filter)));
+    return snap.data().count;
+  },
+
+  subscribe(request, onChange, onError) {
+    let cancelled = false;
+    let unsubscribe: (() => void) | null = null;
+    // Resolving the cursor is async, so the listener is attached once it is known
+    pageConstraints(request)
+      .then(constraints => {
+        if (cancelled) return;
+        unsubscribe = onSnapshot(
+          query(logsCollection(), ...constraints),
+          snap => onChange(toPage(snap.docs, request.pageSize)),
+          onError
+        );
+      })
+      .catch(onError);
+    return () => {
+      cancelled = true;
+      if (unsubscribe) unsubscribe();
+    };
+  },
+
+  subscribeMatching(filter, onChange, onError) {
+    const q = query(logsCollection(), ...filterConstraints(filter), orderBy('timestamp', 'desc'));
+    return onSnapshot(q, snap => onChange(collect(snap.docs)), onError);
+  },
+
+  async recordScan(log: NewLog, guard) {
+    const logRef = doc(logsCollection());
+    const stateRef = doc(db, 'ipadState', stateIdFor(log.ipadTag));
+    await runTransaction(db, async (transaction) => {
+      const stateSnap = await transaction.get(stateRef);
+      guard(stateSnap.exists() ? toIpadState(stateSnap.data()) : null);
+      const timestamp = log.timestamp ? Timestamp.fromDate(new Date(log.timestamp)) : serverTimestamp();
+      transaction.set(logRef, {
+        ...log,
+        timestamp
+      });
+      transaction.set(stateRef, {
+        ipadTag: log.ipadTag,
+        status: log.status,
+        employeeId: log.employeeId,
+        department: log.department,
+        timestamp,
+        logId: logRef.id
+      });
+    });
+    return {
+      ...log,
+      id: logRef.id,
+      timestamp: log.timestamp ?? new Date().toISOString()
+    };
+  },
+
+  async trash(ids, deletion) {
+    const deletedAt = Timestamp.now();
+    // Each log is a write to `deletedLogs` plus a delete from `logs`
+    for (const part of chunk(ids, BATCH_SIZE / 2)) {
+      const snaps = await Promise.all(part.map(id => getDoc(doc(db, 'logs', id))));
+      const batch = writeBatch(db);
+      snaps.forEach(snap => {
+        if (!snap.exists()) return;
+        batch.set(doc(db, 'deletedLogs', snap.id), {
+          ...snap.data(),
+          deletedBy: deletion.deletedBy,
+          deleteReason: deletion.reason,
+          deletedAt
+        });
+        batch.delete(snap.ref);
+      });
+      await batch.commit();
+    }
+  },
+
+  async listTrash() {
+    const snap = await getDocs(query(collection(db, 'deletedLogs'), orderBy('deletedAt', 'desc')));
+    const out: DeletedLog[] = [];
+    snap.docs.forEach(d => {
+      const log = toLog(d);
+      if (!log) return;
+      const data = d.data();
+      out.push({
+        ...log,
+        deletedBy: data.deletedBy || '',
+        reason: data.deleteReason || '',
+        deletedAt: data.deletedAt?.toDate ? data.deletedAt.toDate().toISOString() : String(data.deletedAt)
+      });
+    });
+    return out;
+  },
+
+  async restore(ids) {
+    for (const part of chunk(ids, BATCH_SIZE / 2)) {
+      const snaps = await Promise.all(part.map(id => getDoc(doc(db, 'deletedLogs', id))));
+      const batch = writeBatch(db);
+      snaps.forEach(snap => {
+        if (!snap.exists()) return;
+        const original = { ...snap.data() };
+        delete original.deletedBy;
+        delete original.deleteReason;
+        delete original.deletedAt;
+        batch.set(doc(db, 'logs', snap.id), original);
+        batch.delete(snap.ref);
+      });
+      await batch.commit();
+    }
+  },
+
+  async purge(ids) {
+    for (const part of chunk(ids, BATCH_SIZE)) {
+      const batch = writeBatch(db);
+      part.forEach(id => batch.delete(doc(db, 'deletedLogs', id)));
+      await batch.commit();
+    }
+  },
+
+  async listStored() {
+    const snap = await getDocs(logsCollection());
+    return snap.docs.map((d): StoredLogRecord => {
+      const data = d.data();
+      const native = data.timestamp instanceof Timestamp ? data.timestamp.toDate().toISOString() : null;
+      return { id: d.id, data: { ...data, timestamp: native ?? data.timestamp }, timestamp: native };
+    });
+  },
+
+  async rewrite(logs) {
+    for (const part of chunk(logs, BATCH_SIZE)) {
+      const batch = writeBatch(db);
+      part.forEach(log => {
+        const { id, timestamp, ...fields } = log;
+        batch.set(doc(db, 'logs', id), {
+          ...fields,
+          timestamp: Timestamp.fromDate(new Date(timestamp)),
+          schemaVersion: LOG_SCHEMA_VERSION
+        });
+      });
+      await batch.commit();
+    }
+  },
+
+  async importMany(logs) {
+    const saved: Log[] = [];
+    for (const part of chunk(logs, BATCH_SIZE)) {
+      const batch = writeBatch(db);
+      part.forEach(log => {
+        const ref = doc(logsCollection());
+        batch.set(ref, { ...log, timestamp: Timestamp.fromDate(new Date(log.timestamp)) });
+        saved.push({ ...log, id: ref.id });
+      });
+      await batch.commit();
+    }
+    return saved;
+  },
+
+  async putMany(logs) {
+    for (const part of chunk(logs, BATCH_SIZE)) {
+      const batch = writeBatch(db);
+      part.forEach(log => {
+        const { id, timestamp, ...fields } = log;
+        batch.set(doc(db, 'logs', id), { ...fields, timestamp: Timestamp.fromDate(new Date(timestamp)) });
+      });
+      await batch.commit();
+    }
+  },
+
+  async removeMany(ids) {
+    for (const part of chunk(ids, BATCH_SIZE)) {
+      const batch = writeBatch(db);
+      part.forEach(id => batch.delete(doc(db, 'logs', id)));
+      await batch.commit();
+    }
+  },
+
+  async renameDepartment(from, to, onProgress) {
+    const [live, trashed] = await Promise.all([
+      getDocs(query(logsCollection(), where('department', '==', from))),
+      getDocs(query(collection(db, 'deletedLogs'), where('department', '==', from)))
+    ]);
+    const refs = [...live.docs, ...trashed.docs].map(d => d.ref);
+    let done = 0;
+    onProgress?.(done, refs.length);
+    for (const part of chunk(refs, BATCH_SIZE)) {
+      const batch = writeBatch(db);
+      part.forEach(ref => batch.update(ref, { department: to }));
+      await batch.commit();
+      done += part.length;
+      onProgress?.(done, refs.length);
+    }
+    return refs.length;
+  }
+};
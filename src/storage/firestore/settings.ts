@@ -0,0 +1,26 @@
+import { db } from '../../firebaseConfig';
+import { doc, getDoc, onSnapshot, serverTimestamp, setDoc, DocumentData } from 'firebase/firestore';
+import { Settings, SettingsKey, SettingsRepository } from '../types';
+
+const settingsDoc = (key: SettingsKey) => doc(db, 'settings', key);
+
+// Each document holds the setting under `value`, plus who saved it and when
+const toValue = <K extends SettingsKey>(data: DocumentData | undefined): Settings[K] | null =>
+  data && data.value !== undefined ? (data.value as Settings[K]) : null;
+
+export const firestoreSettingsRepository: SettingsRepository = {
+  async get(key) {
+    const snap = await getDoc(settingsDoc(key));
+    return toValue(snap.data());
+  },
+
+  async save(key, value, actor) {
+    // Firestore rejects undefined fields, so drop them
+    const data = JSON.parse(JSON.stringify(value));
+    await setDoc(settingsDoc(key), { value: data, updatedBy: actor, updatedAt: serverTimestamp() });
+  },
+
+  subscribe(key, onChange, onError) {
+    return onSnapshot(settingsDoc(key), snap => onChange(toValue(snap.data())), onError);
+  }
+};
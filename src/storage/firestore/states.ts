@@ -0,0 +1,84 @@
+import { db } from '../../firebaseConfig';
+import {
+  collection,
+  getDocs,
+  getDoc,
+  query,
+  where,
+  doc,
+  writeBatch,
+  onSnapshot,
+  Timestamp,
+  DocumentData
+} from 'firebase/firestore';
+import { IpadState, IpadStateRepository } from '../types';
+import { BATCH_SIZE, chunk, IN_QUERY_SIZE } from './batches';
+
+type FirestoreIpadState = Omit<IpadState, 'timestamp'> & {
+  timestamp: Timestamp;
+};
+
+// Tags become document ids in `ipadState`, so escape anything Firestore would treat as a path
+export const stateIdFor = (ipadTag: string) => encodeURIComponent(ipadTag.trim());
+
+export const toIpadState = (data: DocumentData): IpadState => {
+  const state = data as FirestoreIpadState;
+  return {
+    ipadTag: state.ipadTag,
+    status: state.status,
+    employeeId: state.employeeId || '',
+    department: state.department,
+    timestamp: state.timestamp?.toDate ? state.timestamp.toDate().toISOString() : String(state.timestamp),
+    logId: state.logId
+  };
+};
+
+export const firestoreIpadStateRepository: IpadStateRepository = {
+  async get(ipadTag) {
+    const snap = await getDoc(doc(db, 'ipadState', stateIdFor(ipadTag)));
+    return snap.exists() ? toIpadState(snap.data()) : null;
+  },
+
+  async list() {
+    const snap = await getDocs(collection(db, 'ipadState'));
+    return snap.docs.map(d => toIpadState(d.data()));
+  },
+
+  subscribe(onChange, onError) {
+    return onSnapshot(
+      collection(db, 'ipadState'),
+      snap => onChange(snap.docs.map(d => toIpadState(d.data()))),
+      onError
+    );
+  },
+
+  async findByLogIds(logIds) {
+    const out: IpadState[] = [];
+    for (const ids of chunk(logIds, IN_QUERY_SIZE)) {
+      const snap = await getDocs(query(collection(db, 'ipadState'), where('logId', 'in', ids)));
+      snap.forEach(d => out.push(toIpadState(d.data())));
+    }
+    return out;
+  },
+
+  async saveMany(states) {
+    for (const part of chunk(states, BATCH_SIZE)) {
+      const batch = writeBatch(db);
+      part.forEach(state => {
+        batch.set(doc(db, 'ipadState', stateIdFor(state.ipadTag)), {
+          ...state,
+          timestamp: Timestamp.fromDate(new Date(state.timestamp))
+        });
+      });
+      await batch.commit();
+    }
+  },
+
+  async removeMany(ipadTags) {
+    for (const part of chunk(ipadTags, BATCH_SIZE)) {
+      const batch = writeBatch(db);
+      part.forEach(tag => batch.delete(doc(db, 'ipadState', stateIdFor(tag))));
+      await batch.commit();
+    }
+  }
+};
@@ -0,0 +1,66 @@
+import { db } from '../../firebaseConfig';
+import {
+  collection,
+  doc,
+  getDocs,
+  orderBy,
+  query,
+  where,
+  serverTimestamp,
+  writeBatch,
+  Timestamp,
+  QueryDocumentSnapshot,
+  DocumentData
+} from 'firebase/firestore';
+import { TagTransfer, TransferRepository } from '../types';
+import { BATCH_SIZE, chunk } from './batches';
+
+const transfersCollection = () => collection(db, 'tagTransfers');
+
+const toIso = (value: unknown): string =>
+  value instanceof Timestamp ? value.toDate().toISOString() : typeof value === 'string' ? value : new Date().toISOString();
+
+const toTagTransfer = (snap: QueryDocumentSnapshot<DocumentData>): TagTransfer => {
+  const data = snap.data();
+  return {
+    id: snap.id,
+    ipadTag: data.ipadTag,
+    fromDepartment: data.fromDepartment || '',
+    toDepartment: data.toDepartment || '',
+    effectiveAt: toIso(data.effectiveAt),
+    actor: data.actor || '',
+    createdAt: toIso(data.createdAt)
+  };
+};
+
+export const firestoreTransferRepository: TransferRepository = {
+  async record(transfers) {
+    for (const part of chunk(transfers, BATCH_SIZE)) {
+      const batch = writeBatch(db);
+      part.forEach(transfer => {
+        batch.set(doc(transfersCollection()), {
+          ...transfer,
+          effectiveAt: Timestamp.fromDate(new Date(transfer.effectiveAt)),
+          createdAt: serverTimestamp()
+        });
+      });
+      await batch.commit();
+    }
+  },
+
+  async list() {
+    const snap = await getDocs(query(transfersCollection(), orderBy('effectiveAt', 'asc')));
+    return snap.docs.map(toTagTransfer);
+  },
+
+  async renameDepartment(from, to) {
+    for (const field of ['fromDepartment', 'toDepartment'] as const) {
+      const snap = await getDocs(query(transfersCollection(), where(field, '==', from)));
+      for (const part of chunk(snap.docs, BATCH_SIZE)) {
+        const batch = writeBatch(db);
+        part.forEach(d => batch.update(d.ref, { [field]: to }));
+        await batch.commit();
+      }
+    }
+  }
+};
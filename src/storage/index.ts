@@ -0,0 +1,45 @@
+import { StorageBackend } from './types';
+import { createFirestoreBackend } from './firestore';
+import { createMemoryBackend, MemorySnapshot } from './memory';
+
+export * from './types';
+
+// Where the browser memory backend keeps its JSON snapshot
+const LOCAL_STORE_KEY = 'ipadTrackingStore';
+
+let current: StorageBackend | null = null;
+
+const loadLocalSnapshot = (): Partial<MemorySnapshot> | undefined => {
+  try {
+    const raw = localStorage.getItem(LOCAL_STORE_KEY);
+    return raw ? (JSON.parse(raw) as Partial<MemorySnapshot>) : undefined;
+  } catch (error) {
+    console.error('Error reading local store:', error instanceof Error ? error.message : String(error));
+    return undefined;
+  }
+};
+
+// Pick the backend from NEXT_PUBLIC_STORAGE_BACKEND ('firestore' by default, or 'memory').
+// In the browser the memory backend survives reloads through localStorage.
+const createConfiguredBackend = (): StorageBackend => {
+  const kind = (process.env.NEXT_PUBLIC_STORAGE_BACKEND || 'firestore').toLowerCase();
+  if (kind === 'memory') {
+    if (typeof window === 'undefined') return createMemoryBackend();
+    return createMemoryBackend({
+      initial: loadLocalSnapshot(),
+      onChange: snapshot => localStorage.setItem(LOCAL_STORE_KEY, JSON.stringify(snapshot))
+    });
+  }
+  return createFirestoreBackend();
+};
+
+export const getStorage = (): StorageBackend => {
+  if (!current) current = createConfiguredBackend();
+  return current;
+};
+
+// Swap the active backend, e.g. a JSON file backend in a Node script or a fresh
+// memory backend per test. Pass null to fall back to the configured one.
+export const setStorage = (backend: StorageBackend | null): void => {
+  current = backend;
+};
@@ -0,0 +1,14 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { createMemoryBackend, MemoryBackend, MemorySnapshot } from './memory';
+
+// Memory backend persisted to a JSON file on disk. Node only: import it from
+// scripts and tests, never from client components.
+export const createJsonFileBackend = (filePath: string): MemoryBackend => {
+  const initial = existsSync(filePath)
+    ? (JSON.parse(readFileSync(filePath, 'utf8')) as Partial<MemorySnapshot>)
+    : undefined;
+  return createMemoryBackend({
+    initial,
+    onChange: snapshot => writeFileSync(filePath, JSON.stringify(snapshot, null, 2))
+  });
+};
@@ -0,0 +1,23 @@
+import { AuditFilter, AuditRepository, CatalogAuditEvent } from '../types';
+import { clone, MemoryStore } from './store';
+
+const matches = (event: CatalogAuditEvent, filter: AuditFilter): boolean =>
+  (!filter.actor || event.actor === filter.actor) &&
+  (!filter.action || event.action === filter.action) &&
+  (!filter.department || event.department === filter.department) &&
+  (!filter.from || event.timestamp >= new Date(filter.from).toISOString()) &&
+  (!filter.to || event.timestamp <= new Date(filter.to).toISOString());
+
+export const createMemoryAuditRepository = (store: MemoryStore): AuditRepository => ({
+  async record(event) {
+    store.data.catalogAudit.push({ ...clone(event), id: store.nextId(), timestamp: new Date().toISOString() });
+    store.commit();
+  },
+
+  async query(filter, max) {
+    const found = store.data.catalogAudit
+      .filter(event => matches(event, filter))
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp) || b.id.localeCompare(a.id));
+    return clone(found.slice(0, max));
+  }
+});
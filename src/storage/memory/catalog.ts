@@ -0,0 +1,40 @@
+import { CatalogRepository } from '../types';
+import { clone, MemoryStore, watch } from './store';
+
+export const createMemoryCatalogRepository = (store: MemoryStore): CatalogRepository => ({
+  async list() {
+    return clone(store.data.ipad);
+  },
+
+  subscribe(onChange, onError) {
+    return watch(store, async () => clone(store.data.ipad), onChange, onError);
+  },
+
+  async get(id) {
+    const found = store.data.ipad.find(d => d.id === id);
+    return found ? clone(found) : null;
+  },
+
+  async save(id, data) {
+    const existing = store.data.ipad.find(d => d.id === id);
+    if (existing) {
+      Object.assign(existing, clone(data));
+    } else {
+      store.data.ipad.push({ id, ...clone(data) });
+    }
+    store.commit();
+  },
+
+  async remove(id) {
+    store.data.ipad = store.data.ipad.filter(d => d.id !== id);
+    store.commit();
+  },
+
+  async findByDepartment(department) {
+    return clone(store.data.ipad.filter(d => d.department === department));
+  },
+
+  async findByTag(ipadTag) {
+    return clone(store.data.ipad.filter(d => Array.isArray(d.tags) && d.tags.includes(ipadTag)));
+  }
+});
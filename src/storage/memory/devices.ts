@@ -0,0 +1,39 @@
+import { DeviceRepository } from '../types';
+import { clone, MemoryStore, watch } from './store';
+
+export const createMemoryDeviceRepository = (store: MemoryStore): DeviceRepository => ({
+  async list() {
+    return clone(store.data.devices);
+  },
+
+  subscribe(onChange, onError) {
+    return watch(store, async () => clone(store.data.devices), onChange, onError);
+  },
+
+  async get(ipadTag) {
+    const found = store.data.devices.find(d => d.ipadTag === ipadTag);
+    return found ? clone(found) : null;
+  },
+
+  async findByDepartment(department) {
+    return clone(store.data.devices.filter(d => d.department === department));
+  },
+
+  async saveMany(devices) {
+    devices.forEach(device => {
+      const existing = store.data.devices.find(d => d.ipadTag === device.ipadTag);
+      if (existing) {
+        Object.assign(existing, clone(device));
+      } else {
+        store.data.devices.push(clone(device));
+      }
+    });
+    store.commit();
+  },
+
+  async removeMany(ipadTags) {
+    const tags = new Set(ipadTags);
+    store.data.devices = store.data.devices.filter(d => !tags.has(d.ipadTag));
+    store.commit();
+  }
+});
@@ -0,0 +1,38 @@
+import { EmployeeRepository } from '../types';
+import { clone, MemoryStore, watch } from './store';
+
+export const createMemoryEmployeeRepository = (store: MemoryStore): EmployeeRepository => ({
+  async list() {
+    return clone(store.data.employees);
+  },
+
+  subscribe(onChange, onError) {
+    return watch(store, async () => clone(store.data.employees), onChange, onError);
+  },
+
+  async get(employeeId) {
+    const found = store.data.employees.find(e => e.employeeId === employeeId.trim());
+    return found ? clone(found) : null;
+  },
+
+  async hasAny() {
+    return store.data.employees.length > 0;
+  },
+
+  async saveMany(employees) {
+    employees.forEach(employee => {
+      const index = store.data.employees.findIndex(e => e.employeeId === employee.employeeId);
+      if (index >= 0) {
+        store.data.employees[index] = clone(employee);
+      } else {
+        store.data.employees.push(clone(employee));
+      }
+    });
+    store.commit();
+  },
+
+  async remove(employeeId) {
+    store.data.employees = store.data.employees.filter(e => e.employeeId !== employeeId.trim());
+    store.commit();
+  }
+});
@@ -0,0 +1,41 @@
+import { StorageBackend } from '../types';
+import { createMemoryStore, MemorySnapshot } from './store';
+import { createMemoryLogRepository } from './logs';
+import { createMemoryIpadStateRepository } from './states';
+import { createMemoryCatalogRepository } from './catalog';
+import { createMemoryDeviceRepository } from './devices';
+import { createMemoryAuditRepository } from './audit';
+import { createMemoryTransferRepository } from './transfers';
+import { createMemorySettingsRepository } from './settings';
+import { createMemoryEmployeeRepository } from './employees';
+
+export type { MemorySnapshot } from './store';
+
+export interface MemoryBackendOptions {
+  // Data to start from, e.g. a demo fixture or a previously saved snapshot
+  initial?: Partial<MemorySnapshot>;
+  // Called with a fresh snapshot after every write
+  onChange?: (snapshot: MemorySnapshot) => void;
+}
+
+export interface MemoryBackend extends StorageBackend {
+  snapshot(): MemorySnapshot;
+}
+
+// Backend that keeps everything in process memory. Used for offline demos,
+// local development and tests; pair it with onChange to persist as JSON.
+export const createMemoryBackend = (options: MemoryBackendOptions = {}): MemoryBackend => {
+  const store = createMemoryStore(options.initial, options.onChange);
+  return {
+    name: 'memory',
+    logs: createMemoryLogRepository(store),
+    states: createMemoryIpadStateRepository(store),
+    catalog: createMemoryCatalogRepository(store),
+    devices: createMemoryDeviceRepository(store),
+    audit: createMemoryAuditRepository(store),
+    transfers: createMemoryTransferRepository(store),
+    settings: createMemorySettingsRepository(store),
+    employees: createMemoryEmployeeRepository(store),
+    snapshot: () => JSON.parse(JSON.stringify(store.data)) as MemorySnapshot
+  };
+};
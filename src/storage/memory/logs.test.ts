@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createMemoryBackend, MemoryBackend } from './index';
+import { Log, NewLog } from '../types';
+
+const log = (ipadTag: string, status: NewLog['status']): NewLog => ({
+  employeeId: 'E001',
+  ipadTag,
+  department: 'ER',
+  status,
+  date: '2026-01-01',
+  time: '08:00:00'
+});
+
+const stored = (id: string, ipadTag: string, timestamp: string): Log => ({
+  ...log(ipadTag, 'ส่งออก'),
+  id,
+  timestamp
+});
+
+describe('memory log repository', () => {
+  let backend: MemoryBackend;
+
+  beforeEach(() => {
+    backend = createMemoryBackend({
+      initial: {
+        logs: [
+          stored('a', 'ER-1', '2026-01-01T01:00:00.000Z'),
+          stored('b', 'ER-2', '2026-01-01T03:00:00.000Z'),
+          stored('c', 'ER-1', '2026-01-01T02:00:00.000Z')
+        ]
+      }
+    });
+  });
+
+  it('lists logs newest first', async () => {
+    expect((await backend.logs.list()).map(l => l.id)).toEqual(['b', 'c', 'a']);
+  });
+
+  it('lists the newest logs of one tag', async () => {
+    expect((await backend.logs.listByTag('ER-1')).map(l => l.id)).toEqual(['c', 'a']);
+    expect((await backend.logs.listByTag('ER-1', 1)).map(l => l.id)).toEqual(['c']);
+  });
+
+  describe('recordScan', () => {
+    it('passes the current state to the guard and updates it after writing', async () => {
+      const seen: (string | null)[] = [];
+      const guard = (state: { status: string } | null) => { seen.push(state ? state.status : null); };
+
+      await backend.logs.recordScan(log('ER-3', 'ส่งออก'), guard);
+      const saved = await backend.logs.recordScan(log('ER-3', 'ส่งเข้า'), guard);
+
+      expect(seen).toEqual([null, 'ส่งออก']);
+      expect(backend.snapshot().ipadState.find(s => s.ipadTag === 'ER-3')).toMatchObject({ status: 'ส่งเข้า', logId: saved.id });
+    });
+
+    it('writes nothing when the guard throws', async () => {
+      await backend.logs.recordScan(log('ER-3', 'ส่งออก'), () => {});
+      await expect(
+        backend.logs.recordScan(log('ER-3', 'ส่งออก'), () => { throw new Error('rejected'); })
+      ).rejects.toThrow('rejected');
+
+      expect(await backend.logs.listByTag('ER-3')).toHaveLength(1);
+      expect(backend.snapshot().ipadState.find(s => s.ipadTag === 'ER-3')?.status).toBe('ส่งออก');
+    });
+  });
+
+  describe('trash', () => {
+    it('moves logs to the trash with who deleted them and why', async () => {
+      await backend.logs.trash(['a', 'b'], { deletedBy: 'admin', reason: 'ซ้ำ' });
+      expect((await backend.logs.list()).map(l => l.id)).toEqual(['c']);
+      expect(await backend.logs.listTrash()).toEqual([
+        expect.objectContaining({ id: 'a', deletedBy: 'admin', reason: 'ซ้ำ' }),
+        expect.objectContaining({ id: 'b', deletedBy: 'admin', reason: 'ซ้ำ' })
+      ]);
+    });
+
+    it('restores logs without the deletion fields', async () => {
+      await backend.logs.trash(['a'], { deletedBy: 'admin', reason: 'ซ้ำ' });
+      await backend.logs.restore(['a']);
+      expect(await backend.logs.listTrash()).toEqual([]);
+      expect((await backend.logs.list()).find(l => l.id === 'a')).toEqual(stored('a', 'ER-1', '2026-01-01T01:00:00.000Z'));
+    });
+
+    it('purges only from the trash', async () => {
+      await backend.logs.trash(['a'], { deletedBy: 'admin', reason: 'ซ้ำ' });
+      await backend.logs.purge(['a', 'b']);
+      expect(await backend.logs.listTrash()).toEqual([]);
+      expect((await backend.logs.list()).map(l => l.id)).toEqual(['b', 'c']);
+    });
+  });
+
+  it('never hands out its own objects', async () => {
+    const [first] = await backend.logs.list();
+    first.status = 'ส่งเข้า';
+    expect((await backend.logs.list())[0].status).toBe('ส่งออก');
+  });
+
+  describe('query', () => {
+    beforeEach(() => {
+      // Two logs share a timestamp so paging has to fall back to the id
+      const times = ['2026-01-01T01:00:00.000Z', '2026-01-01T02:00:00.000Z', '2026-01-01T02:00:00.000Z', '2026-01-01T03:00:00.000Z', '2026-01-01T04:00:00.000Z'];
+      backend = createMemoryBackend({
+        initial: { logs: times.map((t, i) => stored(`q${i + 1}`, `ER-${i + 1}`, t)) }
+      });
+    });
+
+    const readAll = async (sortOrder: 'asc' | 'desc', pageSize: number) => {
+      const pages: string[][] = [];
+      let cursor: string | null = null;
+      do {
+        const page: Awaited<ReturnType<typeof backend.logs.query>> = await backend.logs.query({ sortOrder, pageSize, cursor });
+        pages.push(page.logs.map(l => l.ipadTag));
+        cursor = page.nextCursor;
+      } while (cursor);
+      return pages;
+    };
+
+    it('pages forward with the cursor until nextCursor is null', async () => {
+      expect(await readAll('asc', 2)).toEqual([['ER-1', 'ER-2'], ['ER-3', 'ER-4'], ['ER-5']]);
+    });
+
+    it('pages newest first in descending order', async () => {
+      expect(await readAll('desc', 2)).toEqual([['ER-5', 'ER-4'], ['ER-3', 'ER-2'], ['ER-1']]);
+    });
+
+    it('returns no cursor when the last page is exactly full', async () => {
+      const page = await backend.logs.query({ sortOrder: 'asc', pageSize: 5, cursor: null });
+      expect(page.logs).toHaveLength(5);
+      expect(page.nextCursor).toBeNull();
+    });
+
+    it('applies the filter before paging', async () => {
+      const page = await backend.logs.query({
+        from: '2026-01-01T02:00:00.000Z',
+        to: '2026-01-01T03:00:00.000Z',
+        sortOrder: 'asc',
+        pageSize: 10,
+        cursor: null
+      });
+      expect(page.logs.map(l => l.ipadTag)).toEqual(['ER-2', 'ER-3', 'ER-4']);
+    });
+  });
+});
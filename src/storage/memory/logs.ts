@@ -0,0 +1,172 @@
+import { DeletedLog, IpadState, Log, LogFilter, LogRepository, LOG_SCHEMA_VERSION } from '../types';
+import { clone, MemoryStore, watch } from './store';
+
+const newestFirst = (a: Log, b: Log) =>
+  new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime();
+
+const matches = (log: Log, filter: LogFilter): boolean => {
+  const time = new Date(log.timestamp).getTime();
+  if (filter.from && time < new Date(filter.from).getTime()) return false;
+  if (filter.to && time > new Date(filter.to).getTime()) return false;
+  if (filter.employeeId && log.employeeId !== filter.employeeId) return false;
+  if (filter.department && log.department !== filter.department) return false;
+  if (filter.status && log.status !== filter.status) return false;
+  if (filter.ipadTag && log.ipadTag !== filter.ipadTag) return false;
+  if (filter.imported !== undefined && (log.imported === true) !== filter.imported) return false;
+  return true;
+};
+
+// Same ordering as the Firestore adapter: timestamp, then id as tie-breaker
+const byTimestampThenId = (a: Log, b: Log) =>
+  new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime() || a.id.localeCompare(b.id);
+
+export const createMemoryLogRepository = (store: MemoryStore): LogRepository => {
+  const repository: LogRepository = {
+    async list() {
+      return clone(store.data.logs).sort(newestFirst);
+    },
+
+    async listByTag(ipadTag, max) {
+      const logs = store.data.logs.filter(log => log.ipadTag === ipadTag).sort(newestFirst);
+      return clone(max ? logs.slice(0, max) : logs);
+    },
+
+    async query(request) {
+      const sorted = store.data.logs.filter(log => matches(log, request)).sort(byTimestampThenId);
+      if (request.sortOrder === 'desc') sorted.reverse();
+      const start = request.cursor ? sorted.findIndex(log => log.id === request.cursor) + 1 : 0;
+      const page = sorted.slice(start, start + request.pageSize);
+      const hasMore = start + request.pageSize < sorted.length;
+      return {
+        logs: clone(page),
+        nextCursor: hasMore && page.length > 0 ? page[page.length - 1].id : null
+      };
+    },
+
+    async count(filter) {
+      return store.data.logs.filter(log => matches(log, filter)).length;
+    },
+
+    subscribe(request, onChange, onError) {
+      return watch(store, () => repository.query(request), onChange, onError);
+    },
+
+    subscribeMatching(filter, onChange, onError) {
+      return watch(
+        store,
+        async () => clone(store.data.logs.filter(log => matches(log, filter)).sort(newestFirst)),
+        onChange,
+        onError
+      );
+    },
+
+    // No await between reading the state and writing, so concurrent scans cannot interleave
+    async recordScan(log, guard) {
+      const existing = store.data.ipadState.find(s => s.ipadTag === log.ipadTag);
+      guard(existing ? clone(existing) : null);
+      const saved: Log = {
+        ...log,
+        id: store.nextId(),
+        timestamp: log.timestamp ?? new Date().toISOString()
+      };
+      const state: IpadState = {
+        ipadTag: log.ipadTag,
+        status: log.status,
+        employeeId: log.employeeId,
+        department: log.department,
+        timestamp: saved.timestamp,
+        logId: saved.id
+      };
+      store.data.logs.push(saved);
+      store.data.ipadState = [...store.data.ipadState.filter(s => s.ipadTag !== log.ipadTag), state];
+      store.commit();
+      return clone(saved);
+    },
+
+    async trash(ids, deletion) {
+      const toTrash = new Set(ids);
+      const deletedAt = new Date().toISOString();
+      const moved: DeletedLog[] = store.data.logs
+        .filter(log => toTrash.has(log.id))
+        .map(log => ({ ...log, ...deletion, deletedAt }));
+      store.data.logs = store.data.logs.filter(log => !toTrash.has(log.id));
+      store.data.deletedLogs.push(...moved);
+      store.commit();
+    },
+
+    async listTrash() {
+      return clone(store.data.deletedLogs).sort(
+        (a, b) => new Date(b.deletedAt).getTime() - new Date(a.deletedAt).getTime()
+      );
+    },
+
+    async restore(ids) {
+      const toRestore = new Set(ids);
+      const restored: Log[] = store.data.deletedLogs
+        .filter(log => toRestore.has(log.id))
+        .map(deleted => {
+          const log: Partial<DeletedLog> = { ...deleted };
+          delete log.deletedBy;
+          delete log.reason;
+          delete log.deletedAt;
+          return log as Log;
+        });
+      store.data.deletedLogs = store.data.deletedLogs.filter(log => !toRestore.has(log.id));
+      store.data.logs.push(...restored);
+      store.commit();
+    },
+
+    async purge(ids) {
+      const toPurge = new Set(ids);
+      store.data.deletedLogs = store.data.deletedLogs.filter(log => !toPurge.has(log.id));
+      store.commit();
+    },
+
+    // Memory timestamps are ISO strings; anything else came from an older snapshot
+    async listStored() {
+      return store.data.logs.map(log => {
+        const data = clone(log) as unknown as Record<string, unknown>;
+        const raw = data.timestamp;
+        const native = typeof raw === 'string' && !Number.isNaN(Date.parse(raw)) && new Date(raw).toISOString() === raw ? raw : null;
+        return { id: String(data.id), data, timestamp: native };
+      });
+    },
+
+    async rewrite(logs) {
+      const byId = new Map(logs.map(log => [log.id, log]));
+      store.data.logs = store.data.logs.map(log => {
+        const canonical = byId.get(log.id);
+        return canonical ? { ...clone(canonical), schemaVersion: LOG_SCHEMA_VERSION } : log;
+      });
+      store.commit();
+    },
+
+    async importMany(logs) {
+      const saved: Log[] = logs.map(log => ({ ...clone(log), id: store.nextId() }));
+      store.data.logs.push(...saved);
+      store.commit();
+      return clone(saved);
+    },
+
+    async putMany(logs) {
+      const ids = new Set(logs.map(log => log.id));
+      store.data.logs = [...store.data.logs.filter(log => !ids.has(log.id)), ...clone(logs)];
+      store.commit();
+    },
+
+    async removeMany(ids) {
+      const toRemove = new Set(ids);
+      store.data.logs = store.data.logs.filter(log => !toRemove.has(log.id));
+      store.commit();
+    },
+
+    async renameDepartment(from, to, onProgress) {
+      const matches = [...store.data.logs, ...store.data.deletedLogs].filter(log => log.department === from);
+      matches.forEach(log => { log.department = to; });
+      store.commit();
+      onProgress?.(matches.length, matches.length);
+      return matches.length;
+    }
+  };
+  return repository;
+};
@@ -0,0 +1,23 @@
+import { Settings, SettingsKey, SettingsRepository } from '../types';
+import { clone, MemoryStore, watch } from './store';
+
+export const createMemorySettingsRepository = (store: MemoryStore): SettingsRepository => {
+  const read = <K extends SettingsKey>(key: K): Settings[K] | null => {
+    const value = store.data.settings[key];
+    return value === undefined ? null : clone(value as Settings[K]);
+  };
+  return {
+    async get(key) {
+      return read(key);
+    },
+
+    async save(key, value) {
+      store.data.settings[key] = clone(value);
+      store.commit();
+    },
+
+    subscribe(key, onChange, onError) {
+      return watch(store, async () => read(key), onChange, onError);
+    }
+  };
+};
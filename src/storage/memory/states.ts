@@ -0,0 +1,34 @@
+import { IpadStateRepository } from '../types';
+import { clone, MemoryStore, watch } from './store';
+
+export const createMemoryIpadStateRepository = (store: MemoryStore): IpadStateRepository => ({
+  async get(ipadTag) {
+    const found = store.data.ipadState.find(s => s.ipadTag === ipadTag);
+    return found ? clone(found) : null;
+  },
+
+  async list() {
+    return clone(store.data.ipadState);
+  },
+
+  subscribe(onChange, onError) {
+    return watch(store, async () => clone(store.data.ipadState), onChange, onError);
+  },
+
+  async findByLogIds(logIds) {
+    const ids = new Set(logIds);
+    return clone(store.data.ipadState.filter(s => ids.has(s.logId)));
+  },
+
+  async saveMany(states) {
+    const tags = new Set(states.map(s => s.ipadTag));
+    store.data.ipadState = [...store.data.ipadState.filter(s => !tags.has(s.ipadTag)), ...clone(states)];
+    store.commit();
+  },
+
+  async removeMany(ipadTags) {
+    const tags = new Set(ipadTags);
+    store.data.ipadState = store.data.ipadState.filter(s => !tags.has(s.ipadTag));
+    store.commit();
+  }
+});
@@ -0,0 +1,75 @@
+import { CatalogAuditEvent, DeletedLog, Device, Employee, IpadDocument, IpadState, Log, Settings, TagTransfer, Unsubscribe } from '../types';
+
+// Plain JSON shape of everything the memory backend holds
+export interface MemorySnapshot {
+  logs: Log[];
+  ipad: IpadDocument[];
+  devices: Device[];
+  ipadState: IpadState[];
+  deletedLogs: DeletedLog[];
+  catalogAudit: CatalogAuditEvent[];
+  tagTransfers: TagTransfer[];
+  settings: Partial<Settings>;
+  employees: Employee[];
+}
+
+export interface MemoryStore {
+  data: MemorySnapshot;
+  // Call after every mutation so the snapshot can be persisted and listeners notified
+  commit(): void;
+  // Register a callback that runs after every commit
+  listen(listener: () => void): Unsubscribe;
+  nextId(): string;
+}
+
+const emptySnapshot = (): MemorySnapshot => ({ logs: [], ipad: [], devices: [], ipadState: [], deletedLogs: [], catalogAudit: [], tagTransfers: [], settings: {}, employees: [] });
+
+// Deep copy so callers can never mutate the store through a returned object
+export const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value)) as T;
+
+export const createMemoryStore = (
+  initial?: Partial<MemorySnapshot>,
+  onChange?: (snapshot: MemorySnapshot) => void
+): MemoryStore => {
+  const data: MemorySnapshot = { ...emptySnapshot(), ...clone(initial || {}) };
+  let counter = 0;
+  const listeners = new Set<() => void>();
+  return {
+    data,
+    commit() {
+      if (onChange) onChange(clone(data));
+      listeners.forEach(listener => listener());
+    },
+    listen(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    nextId() {
+      counter += 1;
+      return `mem-${Date.now().toString(36)}-${counter.toString(36)}`;
+    }
+  };
+};
+
+// Deliver compute's result now and after every commit, like a Firestore snapshot listener
+export const watch = <T>(
+  store: MemoryStore,
+  compute: () => Promise<T>,
+  onChange: (result: T) => void,
+  onError: (error: unknown) => void
+): Unsubscribe => {
+  let active = true;
+  const run = () => {
+    compute().then(result => {
+      if (active) onChange(result);
+    }, onError);
+  };
+  const stopListening = store.listen(run);
+  run();
+  return () => {
+    active = false;
+    stopListening();
+  };
+};
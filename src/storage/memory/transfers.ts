@@ -0,0 +1,29 @@
+import { TransferRepository } from '../types';
+import { clone, MemoryStore } from './store';
+
+export const createMemoryTransferRepository = (store: MemoryStore): TransferRepository => ({
+  async record(transfers) {
+    const createdAt = new Date().toISOString();
+    transfers.forEach(transfer => {
+      store.data.tagTransfers.push({
+        ...clone(transfer),
+        effectiveAt: new Date(transfer.effectiveAt).toISOString(),
+        id: store.nextId(),
+        createdAt
+      });
+    });
+    store.commit();
+  },
+
+  async list() {
+    return clone([...store.data.tagTransfers].sort((a, b) => a.effectiveAt.localeCompare(b.effectiveAt)));
+  },
+
+  async renameDepartment(from, to) {
+    store.data.tagTransfers.forEach(transfer => {
+      if (transfer.fromDepartment === from) transfer.fromDepartment = to;
+      if (transfer.toDepartment === from) transfer.toDepartment = to;
+    });
+    store.commit();
+  }
+});
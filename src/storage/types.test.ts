@@ -0,0 +1,9 @@
+import { describe, it, expect } from 'vitest';
+import { canonicalDateTime } from './types';
+
+describe('canonicalDateTime', () => {
+  it('formats in Bangkok time whatever the zone of the machine', () => {
+    expect(canonicalDateTime(new Date('2026-01-01T20:30:05Z'))).toEqual({ date: '2026-01-02', time: '03:30:05' });
+    expect(canonicalDateTime(new Date('2026-01-01T17:00:00Z'))).toEqual({ date: '2026-01-02', time: '00:00:00' });
+  });
+});
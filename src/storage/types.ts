@@ -0,0 +1,479 @@
+// Statuses a kiosk scan records
+export type ScanStatus = 'ส่งเข้า' | 'ส่งออก';
+
+// Statuses only an admin sets; the device is out of circulation until moved back
+export type LifecycleStatus = 'ส่งซ่อม' | 'สูญหาย' | 'ปลดระวาง' | 'กักเพื่อทำความสะอาด';
+
+export type IpadStatus = ScanStatus | LifecycleStatus;
+
+export const SCAN_STATUSES: ScanStatus[] = ['ส่งเข้า', 'ส่งออก'];
+export const LIFECYCLE_STATUSES: LifecycleStatus[] = ['ส่งซ่อม', 'สูญหาย', 'ปลดระวาง', 'กักเพื่อทำความสะอาด'];
+export const IPAD_STATUSES: IpadStatus[] = [...SCAN_STATUSES, ...LIFECYCLE_STATUSES];
+
+export const isIpadStatus = (value: unknown): value is IpadStatus =>
+  typeof value === 'string' && (IPAD_STATUSES as string[]).includes(value);
+
+// Base log interface
+export interface LogBase {
+  employeeId: string;
+  ipadTag: string;
+  department: string;
+  status: IpadStatus;
+}
+
+export interface Log extends LogBase {
+  id: string;
+  timestamp: string;
+  date: string;
+  time: string;
+  // Set on logs brought in from old spreadsheets rather than scanned; missing means scanned
+  imported?: boolean;
+  // Admin who set the status from the dashboard; employeeId is empty on these logs
+  changedBy?: string;
+}
+
+// Who removed a log and why
+export interface LogDeletion {
+  deletedBy: string;
+  reason: string;
+}
+
+// A log in the trash bin: hidden from normal views until restored or purged
+export interface DeletedLog extends Log, LogDeletion {
+  deletedAt: string;
+}
+
+// A log as handed to a repository: the backend assigns the id, and the timestamp
+// unless one is given (e.g. a scan replayed from the offline queue)
+export interface NewLog extends LogBase {
+  date: string;
+  time: string;
+  timestamp?: string;
+  schemaVersion?: number;
+  imported?: boolean;
+  changedBy?: string;
+}
+
+// Version of the canonical log shape. Logs written or migrated since carry it as `schemaVersion`:
+// every field present and trimmed, a native timestamp, date as yyyy-MM-dd and time as HH:mm:ss (Bangkok time),
+// and `imported` as a boolean (version 3). From version 4 an admin's status change names the admin in
+// `changedBy` and leaves `employeeId` empty
+export const LOG_SCHEMA_VERSION = 4;
+
+// A log in the canonical shape, as written by the schema migration
+export interface CanonicalLog extends Log {
+  schemaVersion: number;
+  imported: boolean;
+}
+
+// Time zone of the canonical date and time fields, whatever the zone of the machine writing them
+export const LOG_TIME_ZONE = 'Asia/Bangkok';
+
+const logDateTimeFormat = new Intl.DateTimeFormat('en-GB', {
+  timeZone: LOG_TIME_ZONE,
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+  second: '2-digit',
+  hourCycle: 'h23'
+});
+
+// The canonical date and time fields for a moment
+export const canonicalDateTime = (moment: Date): { date: string; time: string } => {
+  const parts: Record<string, string> = {};
+  for (const { type, value } of logDateTimeFormat.formatToParts(moment)) parts[type] = value;
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    time: `${parts.hour}:${parts.minute}:${parts.second}`
+  };
+};
+
+// A log document exactly as stored, before readers fill in defaults; the input of the schema migration
+export interface StoredLogRecord {
+  id: string;
+  data: Record<string, unknown>;
+  // ISO time when the stored timestamp is in the backend's native format, otherwise null
+  timestamp: string | null;
+}
+
+// Type for localStorage log (simplified version of Log)
+export interface LocalLog {
+  id?: string;
+  employeeId: string;
+  ipadTag: string;
+  department: string;
+  status: IpadStatus;
+  timestamp: string;
+  date: string;
+  time: string;
+}
+
+// Type guard for LocalLog
+export const isLocalLog = (data: unknown): data is LocalLog => {
+  return (
+    typeof data === 'object' &&
+    data !== null &&
+    'employeeId' in data &&
+    'ipadTag' in data &&
+    'department' in data &&
+    'status' in data &&
+    'timestamp' in data &&
+    'date' in data &&
+    'time' in data &&
+    isIpadStatus(data.status)
+  );
+};
+
+// Type guard for Log
+export const isLog = (data: unknown): data is Log => {
+  if (!isLocalLog(data)) return false;
+  return typeof data.id === 'string';
+};
+
+// Filters the dashboard can apply to logs; all are exact matches except the time range
+export interface LogFilter {
+  // Inclusive ISO timestamps
+  from?: string;
+  to?: string;
+  employeeId?: string;
+  department?: string;
+  status?: IpadStatus;
+  ipadTag?: string;
+  // true: only imported logs, false: only scanned logs (needs logs at schema version 3 or later)
+  imported?: boolean;
+}
+
+export interface LogPageRequest extends LogFilter {
+  sortOrder: 'asc' | 'desc';
+  pageSize: number;
+  // nextCursor of the previous page, or null/undefined for the first page
+  cursor?: string | null;
+}
+
+export interface LogPage {
+  logs: Log[];
+  // Pass back as cursor to load the following page; null when this is the last page
+  nextCursor: string | null;
+}
+
+// Stops a live subscription
+export type Unsubscribe = () => void;
+
+// Current state of one tag, kept next to the logs and updated with every scan
+export interface IpadState {
+  ipadTag: string;
+  status: IpadStatus;
+  employeeId: string;
+  department: string;
+  timestamp: string;
+  logId: string;
+}
+
+// Called inside the write with the tag's current state; throw to abort the write
+export type ScanGuard = (current: IpadState | null) => void;
+
+// One iPad, keyed by its tag; department is the ward it currently belongs to
+export interface Device {
+  ipadTag: string;
+  department: string;
+  serialNumber?: string;
+  model?: string;
+  assetNumber?: string;
+  // yyyy-MM-dd
+  purchaseDate?: string;
+  notes?: string;
+}
+
+export type DeviceDetails = Omit<Device, 'ipadTag' | 'department'>;
+
+// One document of the `ipad` collection: a department and the tags it owns.
+// As stored, tags is the legacy membership list that `devices` replaces; dbService
+// returns it joined with the department's devices.
+export interface IpadDocument {
+  id: string;
+  department?: string;
+  tags?: string[];
+  devices?: Device[];
+  // Set instead of deleting a department: its tags still validate so devices that are
+  // out can be returned, but none of them can be checked out again
+  archived?: boolean;
+}
+
+export type IpadDocumentData = Omit<IpadDocument, 'id'>;
+
+// Kinds of change made to the `ipad` catalog, plus removals from the employee registry
+export type CatalogAction =
+  | 'create_department'
+  | 'add_tag'
+  | 'remove_tag'
+  | 'rename_department'
+  | 'delete_department'
+  | 'transfer_tag'
+  | 'update_device'
+  | 'archive_department'
+  | 'block_delete_department'
+  | 'delete_employee';
+
+// What an admin chose when deleting a department: leave it in place, move its tags
+// to another department first, archive it, or delete it outright
+export type DepartmentDeletionResolution = 'block' | 'reassign' | 'archive' | 'delete';
+
+// Outcome of a department deletion and what the department held at the time
+export interface DepartmentDeletionRecord {
+  resolution: DepartmentDeletionResolution;
+  reassignedTo?: string;
+  // Tags that were checked out (ส่งออก)
+  checkedOut: string[];
+  logCount: number;
+}
+
+// One entry of the catalog audit trail: who changed which department and how
+export interface CatalogAuditEvent {
+  id: string;
+  actor: string;
+  action: CatalogAction;
+  // Department the change was made to (the old name for a rename)
+  department: string;
+  // Tags added or removed (comma separated), for add_tag/remove_tag
+  tag?: string;
+  // The department document before and after the change; null when it did not exist
+  before: IpadDocumentData | null;
+  after: IpadDocumentData | null;
+  // Device fields changed by update_device
+  details?: { field: keyof DeviceDetails; before: string; after: string }[];
+  // Set on delete_department, archive_department and block_delete_department
+  deletion?: DepartmentDeletionRecord;
+  // The registry entry removed by delete_employee; department is the employee's department
+  employee?: Employee;
+  timestamp: string;
+}
+
+export type NewCatalogAuditEvent = Omit<CatalogAuditEvent, 'id' | 'timestamp'>;
+
+// Filters for browsing the audit trail; all are exact matches except the time range
+export interface AuditFilter {
+  // Inclusive ISO timestamps
+  from?: string;
+  to?: string;
+  actor?: string;
+  action?: CatalogAction;
+  department?: string;
+}
+
+// Access to the `logs` collection
+export interface LogRepository {
+  // All logs, newest first
+  list(): Promise<Log[]>;
+  // Logs of one tag, newest first
+  listByTag(ipadTag: string, max?: number): Promise<Log[]>;
+  // One page of logs matching the filter, ordered by timestamp
+  query(request: LogPageRequest): Promise<LogPage>;
+  count(filter: LogFilter): Promise<number>;
+  // Live variants: onChange fires with the current result and again after every change
+  subscribe(request: LogPageRequest, onChange: (page: LogPage) => void, onError: (error: unknown) => void): Unsubscribe;
+  subscribeMatching(filter: LogFilter, onChange: (logs: Log[]) => void, onError: (error: unknown) => void): Unsubscribe;
+  // Atomically check the tag's state with guard, append the log and update the state
+  recordScan(log: NewLog, guard: ScanGuard): Promise<Log>;
+  // Move logs to the trash bin, recording who deleted them and why
+  trash(ids: string[], deletion: LogDeletion): Promise<void>;
+  listTrash(): Promise<DeletedLog[]>;
+  // Move logs from the trash bin back, unchanged apart from the deletion fields
+  restore(ids: string[]): Promise<void>;
+  // Permanently delete logs from the trash bin
+  purge(ids: string[]): Promise<void>;
+  // Every log document as stored, for the schema migration
+  listStored(): Promise<StoredLogRecord[]>;
+  // Replace logs with their canonical shape, dropping any other stored fields
+  rewrite(logs: CanonicalLog[]): Promise<void>;
+  // Append logs with given timestamps in batches, without touching the status index
+  importMany(logs: (NewLog & { timestamp: string })[]): Promise<Log[]>;
+  // Write logs under their own ids, replacing any log with the same id (backup restore)
+  putMany(logs: Log[]): Promise<void>;
+  // Permanently delete logs, bypassing the trash bin (backup restore in replace mode)
+  removeMany(ids: string[]): Promise<void>;
+  // Rewrite the department of every log and trashed log from one name to another in
+  // batches, reporting progress after each batch; resolves to the number of logs changed
+  renameDepartment(from: string, to: string, onProgress?: (done: number, total: number) => void): Promise<number>;
+}
+
+// Access to the per-tag current status index (`ipadState`)
+export interface IpadStateRepository {
+  get(ipadTag: string): Promise<IpadState | null>;
+  list(): Promise<IpadState[]>;
+  subscribe(onChange: (states: IpadState[]) => void, onError: (error: unknown) => void): Unsubscribe;
+  // States whose latest log is one of the given ids
+  findByLogIds(logIds: string[]): Promise<IpadState[]>;
+  saveMany(states: IpadState[]): Promise<void>;
+  removeMany(ipadTags: string[]): Promise<void>;
+}
+
+// Access to the `ipad` department/tag catalog
+export interface CatalogRepository {
+  list(): Promise<IpadDocument[]>;
+  subscribe(onChange: (docs: IpadDocument[]) => void, onError: (error: unknown) => void): Unsubscribe;
+  get(id: string): Promise<IpadDocument | null>;
+  // Create the document or replace the given fields of an existing one
+  save(id: string, data: IpadDocumentData): Promise<void>;
+  remove(id: string): Promise<void>;
+  findByDepartment(department: string): Promise<IpadDocument[]>;
+  findByTag(ipadTag: string): Promise<IpadDocument[]>;
+}
+
+// A tag moved from one department to another; logs before effectiveAt belong to
+// fromDepartment and logs from effectiveAt on belong to toDepartment
+export interface TagTransfer {
+  id: string;
+  ipadTag: string;
+  fromDepartment: string;
+  toDepartment: string;
+  // ISO timestamp the move takes effect, which may be earlier than when it was recorded
+  effectiveAt: string;
+  actor: string;
+  createdAt: string;
+}
+
+export type NewTagTransfer = Omit<TagTransfer, 'id' | 'createdAt'>;
+
+// Access to the `devices` collection
+export interface DeviceRepository {
+  list(): Promise<Device[]>;
+  subscribe(onChange: (devices: Device[]) => void, onError: (error: unknown) => void): Unsubscribe;
+  get(ipadTag: string): Promise<Device | null>;
+  findByDepartment(department: string): Promise<Device[]>;
+  // Create each device or replace the given fields of an existing one
+  saveMany(devices: Device[]): Promise<void>;
+  removeMany(ipadTags: string[]): Promise<void>;
+}
+
+// Access to the append-only catalog audit trail (`catalogAudit`)
+export interface AuditRepository {
+  // Append an event; the backend assigns the id and timestamp
+  record(event: NewCatalogAuditEvent): Promise<void>;
+  // Up to max events matching the filter, newest first
+  query(filter: AuditFilter, max: number): Promise<CatalogAuditEvent[]>;
+}
+
+// Access to the history of tag moves (`tagTransfers`)
+export interface TransferRepository {
+  record(transfers: NewTagTransfer[]): Promise<void>;
+  // Every transfer, oldest effective date first
+  list(): Promise<TagTransfer[]>;
+  // Rewrite fromDepartment/toDepartment after a department is renamed
+  renameDepartment(from: string, to: string): Promise<void>;
+}
+
+// A member of staff who may scan devices at the kiosk, keyed by employee ID
+export interface Employee {
+  employeeId: string;
+  name: string;
+  department: string;
+  // Inactive employees keep their history but can no longer scan
+  active: boolean;
+  updatedBy?: string;
+  // ISO timestamp of the last change
+  updatedAt?: string;
+}
+
+// Access to the `employees` collection
+export interface EmployeeRepository {
+  list(): Promise<Employee[]>;
+  subscribe(onChange: (employees: Employee[]) => void, onError: (error: unknown) => void): Unsubscribe;
+  get(employeeId: string): Promise<Employee | null>;
+  // Whether the registry has any employee, reading at most one
+  hasAny(): Promise<boolean>;
+  // Create each employee or replace an existing one with the same ID
+  saveMany(employees: Employee[]): Promise<void>;
+  remove(employeeId: string): Promise<void>;
+}
+
+// Maps tags to a department; rules are tried in order and the first match wins
+export interface TagRule {
+  id: string;
+  // prefix: the tag starts with pattern, ignoring case; regex: pattern matches the tag, ignoring case
+  kind: 'prefix' | 'regex';
+  pattern: string;
+  department: string;
+}
+
+// How tags are cleaned up before they are stored or looked up
+export interface TagPolicy {
+  letterCase: 'keep' | 'upper' | 'lower';
+  // Joins the parts of a tag split on spaces, underscores, dots, slashes and dashes; 'keep' leaves them as typed
+  separator: 'keep' | '-' | '';
+  // Left-pad the trailing number to this many digits; 0 leaves it as typed
+  padDigits: number;
+  // Regex a new tag must match once normalized; empty allows anything
+  pattern: string;
+}
+
+// How a scanner's output for one kiosk field is cleaned up, applied in the order listed
+export interface ScannerFieldRule {
+  // The first prefix and the first suffix the scan starts or ends with are removed
+  prefixes: string[];
+  suffixes: string[];
+  // Regex the rest must match; capture group 1, or the whole match, becomes the value. Empty keeps it all
+  extract: string;
+  // Scheme the last digit must satisfy; 'none' skips the check
+  checkDigit: 'none' | 'luhn' | 'gs1';
+  // Drop the verified check digit from the value
+  stripCheckDigit: boolean;
+}
+
+// Settings for one scanner model; each kiosk picks the profile it uses
+export interface ScannerProfile {
+  id: string;
+  name: string;
+  employee: ScannerFieldRule;
+  tag: ScannerFieldRule;
+}
+
+// Longest a device may stay checked out before it is flagged as overdue
+export interface CheckoutLimits {
+  // Hours for departments without a limit of their own; 0 turns the check off
+  defaultHours: number;
+  // Department name -> hours; 0 means no limit for that department
+  departments: Record<string, number>;
+}
+
+// Times of day when one shift hands over to the next
+export interface ShiftSchedule {
+  // 'HH:mm' in local time, earliest first; the last shift runs until the first start of the next day
+  starts: string[];
+}
+
+// Admin-editable configuration, one document per key in `settings`
+export interface Settings {
+  tagRules: TagRule[];
+  tagPolicy: TagPolicy;
+  scannerProfiles: ScannerProfile[];
+  checkoutLimits: CheckoutLimits;
+  shiftSchedule: ShiftSchedule;
+}
+
+export type SettingsKey = keyof Settings;
+
+// Access to `settings`
+export interface SettingsRepository {
+  // The stored value, or null when the key has never been saved
+  get<K extends SettingsKey>(key: K): Promise<Settings[K] | null>;
+  save<K extends SettingsKey>(key: K, value: Settings[K], actor: string): Promise<void>;
+  subscribe<K extends SettingsKey>(
+    key: K,
+    onChange: (value: Settings[K] | null) => void,
+    onError: (error: unknown) => void
+  ): Unsubscribe;
+}
+
+export interface StorageBackend {
+  name: string;
+  logs: LogRepository;
+  states: IpadStateRepository;
+  catalog: CatalogRepository;
+  devices: DeviceRepository;
+  audit: AuditRepository;
+  transfers: TransferRepository;
+  settings: SettingsRepository;
+  employees: EmployeeRepository;
+}
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_TAG_POLICY, indexTags, isTagAllowed, normalizeTag, resolveTag, validateTagPolicy } from './tagPolicy';
+import type { TagPolicy } from './storage';
+
+const policy: TagPolicy = { letterCase: 'upper', separator: '-', padDigits: 3, pattern: '^[A-Z]+-\\d{3}$' };
+
+describe('normalizeTag', () => {
+  it('only trims under the default policy', () => {
+    expect(normalizeTag('  er_1 ')).toBe('er_1');
+  });
+
+  it('applies case, separators and zero padding', () => {
+    expect(normalizeTag(' er 1', policy)).toBe('ER-001');
+    expect(normalizeTag('er__.12', policy)).toBe('ER-012');
+    expect(normalizeTag('icu/1234', policy)).toBe('ICU-1234');
+    expect(normalizeTag('Er-1', { ...policy, letterCase: 'lower', separator: '' })).toBe('er001');
+  });
+});
+
+describe('validateTagPolicy', () => {
+  it('accepts the default policy', () => {
+    expect(validateTagPolicy(DEFAULT_TAG_POLICY)).toBeNull();
+  });
+
+  it('rejects out-of-range padding and broken patterns', () => {
+    expect(validateTagPolicy({ ...policy, padDigits: 11 })).toContain('0 ถึง 10');
+    expect(validateTagPolicy({ ...policy, padDigits: 1.5 })).toContain('0 ถึง 10');
+    expect(validateTagPolicy({ ...policy, pattern: '([' })).toContain('ไม่ถูกต้อง');
+  });
+});
+
+describe('isTagAllowed', () => {
+  it('checks normalized tags against the pattern', () => {
+    expect(isTagAllowed('ER-001', policy)).toBe(true);
+    expect(isTagAllowed('ER-0001', policy)).toBe(false);
+    expect(isTagAllowed('anything', DEFAULT_TAG_POLICY)).toBe(true);
+  });
+});
+
+describe('resolveTag', () => {
+  const stored = ['ER-001', 'er-1', 'OR-002'];
+  const index = indexTags(stored, policy);
+
+  it('finds a stored tag typed with another case, separator or padding', () => {
+    expect(resolveTag('or 2', index, policy)).toBe('OR-002');
+    expect(resolveTag('or_002', index, policy)).toBe('OR-002');
+  });
+
+  it('prefers an exact match over another tag with the same normalized form', () => {
+    expect(resolveTag('er-1', index, policy)).toBe('er-1');
+    expect(resolveTag('ER 1', index, policy)).toBe('ER-001');
+  });
+
+  it('returns null for tags that are not stored', () => {
+    expect(resolveTag('ICU-1', index, policy)).toBeNull();
+  });
+});
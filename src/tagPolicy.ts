@@ -0,0 +1,57 @@
+import type { TagPolicy } from './storage';
+
+// Leaves tags as typed apart from trimming, which is how tags were handled before policies
+export const DEFAULT_TAG_POLICY: TagPolicy = { letterCase: 'keep', separator: 'keep', padDigits: 0, pattern: '' };
+
+// Runs of characters that split a tag into parts
+const SEPARATORS = /[\s_./\\-]+/;
+
+export const normalizeTag = (raw: string, policy: TagPolicy = DEFAULT_TAG_POLICY): string => {
+  let tag = String(raw ?? '').trim();
+  if (policy.letterCase === 'upper') tag = tag.toUpperCase();
+  if (policy.letterCase === 'lower') tag = tag.toLowerCase();
+  if (policy.separator !== 'keep') tag = tag.split(SEPARATORS).filter(Boolean).join(policy.separator);
+  if (policy.padDigits > 0) tag = tag.replace(/\d+$/, digits => digits.padStart(policy.padDigits, '0'));
+  return tag;
+};
+
+// An error message for the policy, or null if it can be saved
+export const validateTagPolicy = (policy: TagPolicy): string | null => {
+  if (!Number.isInteger(policy.padDigits) || policy.padDigits < 0 || policy.padDigits > 10) {
+    return 'จำนวนหลักของตัวเลขต้องอยู่ระหว่าง 0 ถึง 10';
+  }
+  if (policy.pattern) {
+    try {
+      new RegExp(policy.pattern);
+    } catch {
+      return `รูปแบบ regex "${policy.pattern}" ไม่ถูกต้อง`;
+    }
+  }
+  return null;
+};
+
+// Whether a normalized tag matches the policy's allowed pattern
+export const isTagAllowed = (tag: string, policy: TagPolicy): boolean => {
+  if (!policy.pattern) return true;
+  try {
+    return new RegExp(policy.pattern).test(tag);
+  } catch {
+    return true;
+  }
+};
+
+// Stored tags keyed by themselves and by their normalized form, for resolveTag.
+// An exact key always wins over another tag that normalizes to the same text.
+export const indexTags = (tags: string[], policy: TagPolicy): Map<string, string> => {
+  const index = new Map<string, string>();
+  tags.forEach(tag => {
+    const key = normalizeTag(tag, policy);
+    if (!index.has(key)) index.set(key, tag);
+  });
+  tags.forEach(tag => index.set(tag, tag));
+  return index;
+};
+
+// The stored tag a typed or scanned value refers to, or null if there is none
+export const resolveTag = (raw: string, index: Map<string, string>, policy: TagPolicy): string | null =>
+  index.get(String(raw ?? '').trim()) ?? index.get(normalizeTag(raw, policy)) ?? null;